@@ -8,7 +8,20 @@
 import express, { Request, Response, Express } from 'express';
 import cors from 'cors';
 import routes from './routes';
-import { authMiddleware, errorHandler, notFoundHandler } from './middleware';
+import storageRoutes from './routes/storage.routes';
+import {
+  authMiddleware,
+  errorHandler,
+  idempotencyMiddleware,
+  notFoundHandler,
+  rateLimit,
+  requestContextMiddleware,
+} from './middleware';
+import { eventBus } from './services/event-bus.service';
+import { webhookService } from './services/webhook.service';
+import { storageService } from './services/storage.service';
+import { LocalStorageService } from './services/local-storage.service';
+import { uploadNotificationService } from './services/upload-notification.service';
 
 /**
  * Create and configure Express application
@@ -19,6 +32,9 @@ export function createApp(): Express {
   // Trust proxy for Lambda behind API Gateway
   app.set('trust proxy', 1);
 
+  // Request IDs, for responses and audit entries
+  app.use(requestContextMiddleware);
+
   // CORS configuration
   const corsOrigins = process.env.CORS_ORIGINS
     ? process.env.CORS_ORIGINS.split(',')
@@ -29,10 +45,32 @@ export function createApp(): Express {
       origin: corsOrigins,
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'X-User-Id', 'X-User-Email'],
+      allowedHeaders: [
+        'Content-Type',
+        'Authorization',
+        'X-User-Id',
+        'X-User-Email',
+        'Idempotency-Key',
+      ],
+      // Browsers need the ETag of each uploaded part to complete multipart uploads,
+      // the rate limit headers to back off, and to tell replayed responses apart
+      exposedHeaders: [
+        'ETag',
+        'X-Request-Id',
+        'RateLimit-Limit',
+        'RateLimit-Remaining',
+        'RateLimit-Reset',
+        'RateLimit-Policy',
+        'Retry-After',
+        'Idempotent-Replayed',
+      ],
     })
   );
 
+  // Signed storage URLs for the local storage provider (before body parsing and auth,
+  // since uploads stream the raw body and are authorized by the URL signature)
+  app.use('/storage', storageRoutes);
+
   // Body parsing
   app.use(express.json({ limit: '10mb' }));
   app.use(express.urlencoded({ extended: true, limit: '10mb' }));
@@ -58,6 +96,12 @@ export function createApp(): Express {
   // Authentication middleware
   app.use(authMiddleware);
 
+  // Throttle every caller and IP address (stricter groups are set on their routes)
+  app.use(rateLimit('default'));
+
+  // Replay responses to retried requests carrying an Idempotency-Key
+  app.use(idempotencyMiddleware);
+
   // API routes
   app.use('/api', routes);
 
@@ -73,5 +117,15 @@ export function createApp(): Express {
   return app;
 }
 
+// Deliver lifecycle events to the webhooks of their project
+eventBus.subscribe((event) => webhookService.dispatch(event));
+
+// Confirm uploads of locally stored objects, as the S3 notification handler does on AWS
+if (storageService instanceof LocalStorageService) {
+  storageService.onObjectCreated((s3Key) =>
+    uploadNotificationService.handleObjectsCreated([s3Key])
+  );
+}
+
 // Export configured app instance
 export const app = createApp();
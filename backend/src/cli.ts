@@ -0,0 +1,212 @@
+/**
+ * Maintenance Command Line Interface
+ *
+ * Runs scheduled maintenance tasks by hand against the configured storage and
+ * metadata backends:
+ *
+ *   npm run cli -- sweep-uploads [--ttl <seconds>] [--dry-run]
+ *   npm run cli -- purge-trash [--retention-days <days>] [--dry-run]
+ *   npm run cli -- generate-previews --project <projectId> [--force]
+ *   npm run cli -- generate-tiles --project <projectId> [--force]
+ *   npm run cli -- backfill-indexes
+ *   npm run cli -- retry-webhooks
+ */
+
+import dotenv from 'dotenv';
+
+// Load environment variables before importing services
+dotenv.config();
+
+import { uploadSweeperService } from './services/upload-sweeper.service';
+import { trashService } from './services/trash.service';
+import { previewService } from './services/preview.service';
+import { tileService } from './services/tile.service';
+import { metadataRepository } from './services/metadata.service';
+import { webhookService } from './services/webhook.service';
+import { PaginationKey } from './types';
+
+type Command = (args: string[]) => Promise<void>;
+
+const commands: Record<string, Command> = {
+  /**
+   * Expire pending uploads that were never confirmed
+   */
+  'sweep-uploads': async (args) => {
+    const ttlSeconds = readNumberOption(args, '--ttl');
+
+    const report = await uploadSweeperService.sweep({
+      ttlSeconds,
+      dryRun: args.includes('--dry-run'),
+    });
+
+    const verb = report.dryRun ? 'Would expire' : 'Expired';
+    console.log(`${verb} ${report.expired.length} pending uploads requested before ${report.cutoff}`);
+    for (const upload of report.expired) {
+      const version = upload.version ? ` v${upload.version}` : '';
+      const removed = upload.objectRemoved ? ' (object removed)' : '';
+      console.log(`  ${upload.projectId}/${upload.fileId}${version} ${upload.fileName}${removed}`);
+    }
+    for (const failure of report.failed) {
+      console.error(`  Failed ${failure.projectId}/${failure.fileId}: ${failure.error}`);
+    }
+
+    if (report.failed.length > 0) {
+      process.exitCode = 1;
+    }
+  },
+
+  /**
+   * Permanently delete files and projects trashed longer than the retention window
+   */
+  'purge-trash': async (args) => {
+    const report = await trashService.purgeExpired({
+      retentionDays: readNumberOption(args, '--retention-days'),
+      dryRun: args.includes('--dry-run'),
+    });
+
+    const verb = report.dryRun ? 'Would purge' : 'Purged';
+    console.log(
+      `${verb} ${report.projects.length} projects and ${report.files.length} files deleted before ${report.cutoff}`
+    );
+    for (const project of report.projects) {
+      console.log(`  project ${project.projectId} ${project.name} (${project.objectsDeleted} objects)`);
+    }
+    for (const file of report.files) {
+      console.log(`  file ${file.projectId}/${file.fileId} ${file.fileName}`);
+    }
+    for (const failure of report.failed) {
+      console.error(`  Failed ${failure.projectId}${failure.fileId ? `/${failure.fileId}` : ''}: ${failure.error}`);
+    }
+
+    if (report.failed.length > 0) {
+      process.exitCode = 1;
+    }
+  },
+
+  /**
+   * Generate missing previews of a project's files
+   */
+  'generate-previews': async (args) => {
+    const projectId = readOption(args, '--project');
+    if (!projectId) {
+      throw new Error('--project is required');
+    }
+
+    const report = await previewService.generateForProject(projectId, {
+      force: args.includes('--force'),
+    });
+
+    console.log(`Checked previews of ${report.files.length} files in project ${projectId}`);
+    for (const file of report.files) {
+      console.log(`  ${file.fileId} ${file.fileName}: ${file.status}`);
+    }
+
+    if (report.files.some((file) => file.status === 'failed')) {
+      process.exitCode = 1;
+    }
+  },
+
+  /**
+   * Build missing tile pyramids of a project's images
+   */
+  'generate-tiles': async (args) => {
+    const projectId = readOption(args, '--project');
+    if (!projectId) {
+      throw new Error('--project is required');
+    }
+
+    const report = await tileService.generateForProject(projectId, {
+      force: args.includes('--force'),
+    });
+
+    console.log(`Checked tiles of ${report.files.length} images in project ${projectId}`);
+    for (const file of report.files) {
+      console.log(`  ${file.fileId} ${file.fileName}: ${file.status}`);
+    }
+
+    if (report.files.some((file) => file.status === 'failed')) {
+      process.exitCode = 1;
+    }
+  },
+
+  /**
+   * Add projects and files written before the search and listing indexes to
+   * them, write their search token entries, and the owner pointers of projects
+   * written before those
+   */
+  'backfill-indexes': async () => {
+    let indexed = 0;
+
+    let lastKey: PaginationKey | undefined;
+    do {
+      const page = await metadataRepository.backfillIndexKeys({ lastKey });
+      indexed += page.indexed;
+      lastKey = page.lastKey;
+    } while (lastKey);
+
+    console.log(`Backfilled the index attributes and owner pointers of ${indexed} projects and files`);
+
+    let tokenized = 0;
+    do {
+      const page = await metadataRepository.reindexSearchDocuments({ lastKey });
+      tokenized += page.indexed;
+      lastKey = page.lastKey;
+    } while (lastKey);
+
+    console.log(`Wrote the search token entries of ${tokenized} projects and files`);
+  },
+
+  /**
+   * Attempt webhook deliveries whose retry is overdue
+   */
+  'retry-webhooks': async () => {
+    const report = await webhookService.retryDue();
+
+    console.log(
+      `Retried ${report.attempted} webhook deliveries due before ${report.dueBefore}: ` +
+        `${report.succeeded} succeeded, ${report.rescheduled} rescheduled, ${report.failed} failed`
+    );
+  },
+};
+
+/**
+ * Read the value following an option flag
+ */
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+/**
+ * Read a non-negative number option
+ */
+function readNumberOption(args: string[], name: string): number | undefined {
+  const value = readOption(args, name);
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    throw new Error(`${name} must be a non-negative number`);
+  }
+  return number;
+}
+
+async function main(): Promise<void> {
+  const [name, ...args] = process.argv.slice(2);
+  const command = commands[name];
+
+  if (!command) {
+    console.error(`Usage: cli <command> [options]\nCommands: ${Object.keys(commands).join(', ')}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  await command(args);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
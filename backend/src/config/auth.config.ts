@@ -0,0 +1,38 @@
+/**
+ * Authentication Configuration
+ */
+
+const AWS_REGION = process.env.AWS_REGION || 'us-east-1';
+
+/**
+ * Cognito issuer derived from the user pool, when one is configured
+ */
+const COGNITO_ISSUER = process.env.COGNITO_USER_POOL_ID
+  ? `https://cognito-idp.${AWS_REGION}.amazonaws.com/${process.env.COGNITO_USER_POOL_ID}`
+  : undefined;
+
+/**
+ * JWT verification configuration
+ *
+ * Keys come from AUTH_JWKS_URI (defaults to the Cognito pool's JWKS endpoint),
+ * or from a local key set in AUTH_JWKS (inline JSON) / AUTH_JWKS_FILE for
+ * offline development and tests.
+ */
+export const AUTH_CONFIG = {
+  jwksUri:
+    process.env.AUTH_JWKS_URI ||
+    (COGNITO_ISSUER ? `${COGNITO_ISSUER}/.well-known/jwks.json` : undefined),
+  jwks: process.env.AUTH_JWKS || undefined,
+  jwksFile: process.env.AUTH_JWKS_FILE || undefined,
+  issuer: process.env.AUTH_ISSUER || COGNITO_ISSUER,
+  audience: process.env.AUTH_AUDIENCE
+    ? process.env.AUTH_AUDIENCE.split(',').map((aud) => aud.trim())
+    : [],
+  algorithms: ['RS256', 'ES256'],
+  clockToleranceSeconds: parseInt(process.env.AUTH_CLOCK_TOLERANCE || '5', 10),
+  rolesClaim: process.env.AUTH_ROLES_CLAIM || 'cognito:groups',
+  // Users with this role have admin access to every project
+  adminRole: process.env.AUTH_ADMIN_ROLE || 'admin',
+  // Trust X-User-Id / X-User-Email headers without a token (local development only)
+  allowDevHeaders: process.env.AUTH_DEV_HEADERS === 'true',
+};
@@ -5,12 +5,24 @@
 import { S3Client } from '@aws-sdk/client-s3';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { StorageProviderType } from '../types/storage.types';
+import { MetadataProviderType } from '../types/metadata.types';
+import { RateLimitGroup, RateLimitRule, RateLimitStoreType } from '../types/rate-limit.types';
+import { IdempotencyStoreType } from '../types/idempotency.types';
 
 /**
  * AWS Region configuration
  */
 const AWS_REGION = process.env.AWS_REGION || 'us-east-1';
 
+/**
+ * Whether the process runs for local development or tests, where secrets may
+ * fall back to development defaults. Lambda functions never do.
+ */
+const IS_LOCAL_DEVELOPMENT =
+  !process.env.AWS_LAMBDA_FUNCTION_NAME &&
+  (!process.env.NODE_ENV || ['development', 'test'].includes(process.env.NODE_ENV));
+
 /**
  * S3 Configuration
  */
@@ -18,6 +30,31 @@ export const S3_CONFIG = {
   bucketName: process.env.S3_BUCKET_NAME || 'file-management-bucket',
   presignedUrlExpiry: parseInt(process.env.PRESIGNED_URL_EXPIRY || '3600', 10), // 1 hour default
   maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '104857600', 10), // 100MB default
+  maxMultipartFileSize: parseInt(process.env.MAX_MULTIPART_FILE_SIZE || '5368709120', 10), // 5GB default
+  minPartSize: 5 * 1024 * 1024, // S3 minimum for every part except the last
+  maxPartSize: 5 * 1024 * 1024 * 1024, // S3 maximum for any part
+  maxPartCount: 10000,
+};
+
+/**
+ * Storage backend configuration
+ *
+ * STORAGE_PROVIDER selects the backend: 's3' (default) or 'local' for
+ * offline development against the local filesystem.
+ */
+const STORAGE_PROVIDER = (process.env.STORAGE_PROVIDER || 's3') as StorageProviderType;
+
+export const STORAGE_CONFIG = {
+  provider: STORAGE_PROVIDER,
+  localRootDir: process.env.LOCAL_STORAGE_DIR || '.local-storage',
+  localBaseUrl:
+    process.env.LOCAL_STORAGE_BASE_URL ||
+    `http://localhost:${process.env.PORT || '3001'}/storage`,
+  // Only the local backend signs its own URLs, so only it needs the secret
+  localSigningSecret:
+    STORAGE_PROVIDER === 'local'
+      ? requireSecret('LOCAL_STORAGE_SECRET', 'local-storage-dev-secret')
+      : undefined,
 };
 
 /**
@@ -26,6 +63,154 @@ export const S3_CONFIG = {
 export const DYNAMODB_CONFIG = {
   tableName: process.env.DYNAMODB_TABLE_NAME || 'FileMetadata',
   gsiFileType: 'FileTypeIndex',
+  gsiSearch: 'SearchIndex',
+  // Listing orders; partitioned by listKey (see buildFileListKey, buildProjectListKey)
+  gsiUploadedAt: 'UploadedAtIndex',
+  gsiCreatedAt: 'CreatedAtIndex',
+  gsiUpdatedAt: 'UpdatedAtIndex',
+  gsiName: 'NameIndex',
+  gsiFileSize: 'FileSizeIndex',
+  gsiTotalSize: 'TotalSizeIndex',
+};
+
+/**
+ * Metadata backend configuration
+ *
+ * METADATA_PROVIDER selects the backend: 'dynamodb' (default) or 'memory' for
+ * running without AWS. METADATA_DATA_FILE optionally persists the in-memory
+ * store to a JSON file so data survives restarts.
+ */
+export const METADATA_CONFIG = {
+  provider: (process.env.METADATA_PROVIDER || 'dynamodb') as MetadataProviderType,
+  dataFile: process.env.METADATA_DATA_FILE || undefined,
+};
+
+/**
+ * Scheduled maintenance configuration
+ *
+ * Uploads still pending PENDING_UPLOAD_TTL seconds after they were requested
+ * (multipart uploads: after their last recorded progress) are expired by the
+ * upload sweeper. Deleted files and projects can be restored for
+ * TRASH_RETENTION_DAYS, after which the trash purge removes them for good.
+ */
+export const MAINTENANCE_CONFIG = {
+  pendingUploadTtl: parseInt(process.env.PENDING_UPLOAD_TTL || '86400', 10), // 24 hours default
+  trashRetentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10),
+};
+
+/**
+ * Storage quota configuration
+ *
+ * Limits on the total size and number of uploaded files in a project, and in
+ * all projects owned by one user. 0 (the default) means unlimited.
+ */
+export const QUOTA_CONFIG = {
+  projectMaxBytes: parseInt(process.env.PROJECT_QUOTA_BYTES || '0', 10),
+  projectMaxFiles: parseInt(process.env.PROJECT_QUOTA_FILES || '0', 10),
+  userMaxBytes: parseInt(process.env.USER_QUOTA_BYTES || '0', 10),
+  userMaxFiles: parseInt(process.env.USER_QUOTA_FILES || '0', 10),
+};
+
+/**
+ * Pagination configuration
+ *
+ * List cursors are signed with CURSOR_SECRET, so clients cannot forge or
+ * reuse them across listings. It is required outside local development;
+ * changing it invalidates the cursors clients hold.
+ */
+export const PAGINATION_CONFIG = {
+  cursorSecret: requireSecret('CURSOR_SECRET', 'cursor-dev-secret'),
+};
+
+/**
+ * Preview generation configuration
+ *
+ * Thumbnails are generated in the background for uploaded images and PDFs
+ * unless PREVIEWS_ENABLED is 'false'. Files larger than
+ * PREVIEW_MAX_SOURCE_SIZE and images over PREVIEW_MAX_PIXELS (read from their
+ * header) are skipped, since they are decoded in memory.
+ */
+export const PREVIEW_CONFIG = {
+  enabled: process.env.PREVIEWS_ENABLED !== 'false',
+  maxSourceSize: parseInt(process.env.PREVIEW_MAX_SOURCE_SIZE || '52428800', 10), // 50MB default
+  maxPixels: parseInt(process.env.PREVIEW_MAX_PIXELS || '50000000', 10), // 50 megapixels default
+};
+
+/**
+ * Tile pyramid configuration
+ *
+ * Deep Zoom pyramids are built in the background for uploaded images whose
+ * longest edge exceeds TILE_MIN_DIMENSION, unless TILES_ENABLED is 'false'.
+ * Images over TILE_MAX_PIXELS are skipped, since they are decoded in memory
+ * (4 bytes per pixel).
+ */
+export const TILE_CONFIG = {
+  enabled: process.env.TILES_ENABLED !== 'false',
+  tileSize: parseInt(process.env.TILE_SIZE || '256', 10),
+  minDimension: parseInt(process.env.TILE_MIN_DIMENSION || '2048', 10),
+  maxPixels: parseInt(process.env.TILE_MAX_PIXELS || '50000000', 10), // 50 megapixels default
+};
+
+/**
+ * Webhook configuration
+ *
+ * A delivery is attempted up to WEBHOOK_MAX_ATTEMPTS times, waiting
+ * WEBHOOK_RETRY_BASE_DELAY seconds before the first retry and twice as long
+ * before each following one. Receivers get WEBHOOK_TIMEOUT seconds to answer.
+ * Delivery records are deleted after WEBHOOK_DELIVERY_RETENTION_DAYS. URLs
+ * whose host is or resolves to a loopback, private or link-local address are
+ * refused unless WEBHOOK_ALLOW_PRIVATE_URLS is 'true' (for local development).
+ */
+export const WEBHOOK_CONFIG = {
+  maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6', 10),
+  retryBaseDelay: parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY || '60', 10), // 1 minute default
+  timeout: parseInt(process.env.WEBHOOK_TIMEOUT || '10', 10),
+  deliveryRetentionDays: parseInt(process.env.WEBHOOK_DELIVERY_RETENTION_DAYS || '30', 10),
+  allowPrivateUrls: process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true',
+};
+
+/**
+ * Rate limit configuration
+ *
+ * Requests take a token from a bucket of their caller and one of their IP
+ * address in each route group they belong to. A bucket holds the group's
+ * limit and refills at that many tokens per RATE_LIMIT_WINDOW seconds, so
+ * bursts up to the limit are allowed. RATE_LIMIT_STORE selects where buckets
+ * are kept: 'memory' (default, per process) or 'dynamodb' (shared by every
+ * Lambda instance). RATE_LIMIT_ENABLED=false turns limiting off.
+ */
+export const RATE_LIMIT_CONFIG = {
+  enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+  store: (process.env.RATE_LIMIT_STORE || 'memory') as RateLimitStoreType,
+  window: parseInt(process.env.RATE_LIMIT_WINDOW || '60', 10), // 1 minute default
+  groups: {
+    default: {
+      perUser: parseInt(process.env.RATE_LIMIT_DEFAULT_PER_USER || '300', 10),
+      perIp: parseInt(process.env.RATE_LIMIT_DEFAULT_PER_IP || '600', 10),
+    },
+    uploads: {
+      perUser: parseInt(process.env.RATE_LIMIT_UPLOADS_PER_USER || '100', 10),
+      perIp: parseInt(process.env.RATE_LIMIT_UPLOADS_PER_IP || '200', 10),
+    },
+    hardDeletes: {
+      perUser: parseInt(process.env.RATE_LIMIT_HARD_DELETES_PER_USER || '30', 10),
+      perIp: parseInt(process.env.RATE_LIMIT_HARD_DELETES_PER_IP || '60', 10),
+    },
+  } as Record<RateLimitGroup, RateLimitRule>,
+};
+
+/**
+ * Idempotency configuration
+ *
+ * The successful response to a POST, PATCH or DELETE request carrying an
+ * Idempotency-Key header is replayed to retries with the same key for
+ * IDEMPOTENCY_TTL seconds. IDEMPOTENCY_STORE selects where responses are
+ * kept: 'memory' (default, per process) or 'dynamodb' (shared by every
+ * Lambda instance).
+ */
+export const IDEMPOTENCY_CONFIG = {
+  store: (process.env.IDEMPOTENCY_STORE || 'memory') as IdempotencyStoreType,
+  ttl: parseInt(process.env.IDEMPOTENCY_TTL || '86400', 10), // 24 hours default
 };
 
 /**
@@ -33,6 +218,9 @@ export const DYNAMODB_CONFIG = {
  */
 export const s3Client = new S3Client({
   region: AWS_REGION,
+  // Only add checksums when S3 requires them; otherwise presigned PUT URLs carry
+  // the checksum of an empty body and reject every real upload
+  requestChecksumCalculation: 'WHEN_REQUIRED',
   // For local development with LocalStack or MinIO
   ...(process.env.AWS_ENDPOINT_URL && {
     endpoint: process.env.AWS_ENDPOINT_URL,
@@ -82,6 +270,11 @@ export const ALLOWED_MIME_TYPES = [
   'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
   'application/vnd.ms-powerpoint',
   'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  // CAD drawings
+  'image/vnd.dwg',
+  'image/vnd.dxf',
+  'application/acad',
+  'application/dxf',
   // Text
   'text/plain',
   'text/csv',
@@ -102,3 +295,21 @@ export const ALLOWED_MIME_TYPES = [
   'audio/wav',
   'audio/ogg',
 ];
+
+// ==================== HELPERS ====================
+
+/**
+ * Read a secret from the environment, failing at startup when it is missing
+ * outside local development, where a public default would protect nothing
+ */
+function requireSecret(name: string, developmentDefault: string): string {
+  const value = process.env[name];
+  if (value) {
+    return value;
+  }
+
+  if (!IS_LOCAL_DEVELOPMENT) {
+    throw new Error(`${name} must be set outside local development`);
+  }
+  return developmentDefault;
+}
@@ -3,3 +3,4 @@
  */
 
 export * from './aws.config';
+export * from './auth.config';
@@ -0,0 +1,89 @@
+/**
+ * Audit Controller - Lists and exports a project's audit log
+ */
+
+import { Request, Response } from 'express';
+import { metadataRepository } from '../services/metadata.service';
+import { auditService } from '../services/audit.service';
+import { cursorService, InvalidCursorError } from '../services/cursor.service';
+import { sendSuccess, sendError, ErrorCodes } from '../utils';
+import {
+  ExportAuditEntriesQuery,
+  ListAuditEntriesQuery,
+  ListAuditEntriesResponse,
+} from '../types';
+
+/**
+ * Content types of the export formats
+ */
+const EXPORT_CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+};
+
+/**
+ * List a project's audit log, newest entries first
+ * GET /projects/:projectId/audit
+ */
+export async function listAuditEntries(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId } = req.params;
+    // Parsed by auditQuerySchema
+    const { limit, lastKey, ...filters } = req.query as unknown as ListAuditEntriesQuery;
+
+    // Cursors only continue a listing with the same filters
+    const cursorScope = `audit:${projectId}:${JSON.stringify(filters)}`;
+
+    const result = await metadataRepository.getAuditEntries(projectId, {
+      ...filters,
+      limit: Math.min(limit || 50, 100),
+      lastKey: cursorService.decode(lastKey, cursorScope),
+    });
+
+    const response: ListAuditEntriesResponse = {
+      entries: result.entries,
+      nextKey: cursorService.encode(result.lastKey, cursorScope),
+    };
+
+    return sendSuccess(res, response);
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return sendError(res, ErrorCodes.INVALID_CURSOR, error.message, 400);
+    }
+
+    console.error('Error listing audit entries:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to list audit entries', 500);
+  }
+}
+
+/**
+ * Download every matching audit entry as CSV or JSON lines
+ * GET /projects/:projectId/audit/export
+ */
+export async function exportAuditEntries(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId } = req.params;
+    // Parsed by exportAuditQuerySchema
+    const { format, ...filters } = req.query as unknown as ExportAuditEntriesQuery;
+
+    res.status(200);
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="audit-${projectId}.${format}"`);
+
+    await auditService.export(projectId, filters, format, (chunk) => res.write(chunk));
+
+    res.end();
+    return res;
+  } catch (error) {
+    console.error('Error exporting audit entries:', error);
+
+    // Once rows were sent, abort so the download does not look complete
+    if (res.headersSent) {
+      res.destroy(error as Error);
+      return res;
+    }
+
+    res.removeHeader('Content-Disposition');
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to export audit entries', 500);
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * Batch Controller - Uploads, confirms, deletes and reads many files of a project at once
+ *
+ * Each file succeeds or fails on its own, and results keep the request order.
+ * Steps that change the project statistics run one file at a time, since each
+ * of them updates the project record, and the response sums their changes.
+ */
+
+import { Request, Response } from 'express';
+import { metadataRepository } from '../services/metadata.service';
+import {
+  fileService,
+  FileOperationError,
+  FileStatsDelta,
+} from '../services/file.service';
+import { ProjectRequest, hasProjectRole } from '../middleware/project-access.middleware';
+import { getAuditActor } from '../middleware/request-context.middleware';
+import { sendSuccess, sendError, ErrorCodes } from '../utils';
+import {
+  BatchDeleteRequest,
+  BatchFilesRequest,
+  BatchItemResult,
+  BatchResponse,
+  BatchUploadRequest,
+  DeleteFileResponse,
+  FileMetadata,
+  Project,
+  UploadFileResponse,
+} from '../types';
+
+/**
+ * Upload URLs generated at the same time
+ */
+const UPLOAD_CONCURRENCY = 10;
+
+/**
+ * Request upload URLs for several new files
+ * POST /projects/:projectId/files/batch/upload
+ */
+export async function batchRequestUpload(req: Request, res: Response): Promise<Response> {
+  try {
+    const { project } = req as ProjectRequest;
+    const { files } = req.body as BatchUploadRequest;
+    const actor = getAuditActor(req);
+
+    const results: BatchItemResult<UploadFileResponse>[] = new Array(files.length);
+    const accepted: number[] = [];
+
+    files.forEach((file, index) => {
+      try {
+        fileService.validateUpload(project, file);
+        accepted.push(index);
+      } catch (error) {
+        results[index] = toFailure(index, undefined, error);
+      }
+    });
+
+    // Pending uploads are not counted, so the quota is checked for the batch as a whole
+    const quotaError =
+      accepted.length > 0
+        ? await fileService
+            .checkQuota(project, {
+              fileCountDelta: accepted.length,
+              sizeDelta: accepted.reduce((total, index) => total + files[index].fileSize, 0),
+            })
+            .then(
+              () => undefined,
+              (error: unknown) => error
+            )
+        : undefined;
+
+    for (let i = 0; i < accepted.length; i += UPLOAD_CONCURRENCY) {
+      await Promise.all(
+        accepted.slice(i, i + UPLOAD_CONCURRENCY).map(async (index) => {
+          results[index] = await runItem(index, undefined, async () => {
+            if (quotaError) throw quotaError;
+            return fileService.createUpload(project, actor, files[index]);
+          });
+          results[index].fileId = results[index].data?.fileId;
+        })
+      );
+    }
+
+    return sendSuccess(res, await buildResponse(results));
+  } catch (error) {
+    console.error('Error requesting batch upload:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to generate upload URLs', 500);
+  }
+}
+
+/**
+ * Confirm several completed uploads
+ * POST /projects/:projectId/files/batch/confirm
+ */
+export async function batchConfirmUpload(req: Request, res: Response): Promise<Response> {
+  try {
+    const { project } = req as ProjectRequest;
+    const { fileIds } = req.body as BatchFilesRequest;
+    const actor = getAuditActor(req);
+
+    const stats: FileStatsDelta = { fileCountDelta: 0, sizeDelta: 0 };
+    const results: BatchItemResult<FileMetadata>[] = [];
+
+    for (const [index, fileId] of fileIds.entries()) {
+      results.push(
+        await runItem(index, fileId, async () => {
+          // Quotas also count the files confirmed earlier in the batch
+          const current: Project = {
+            ...project,
+            fileCount: project.fileCount + stats.fileCountDelta,
+            totalSize: project.totalSize + stats.sizeDelta,
+          };
+
+          const result = await fileService.confirmUpload(current, fileId, actor);
+          addStats(stats, result.stats);
+          return result.data;
+        })
+      );
+    }
+
+    return sendSuccess(res, await buildResponse(results, project, stats));
+  } catch (error) {
+    console.error('Error confirming batch upload:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to confirm uploads', 500);
+  }
+}
+
+/**
+ * Delete several files (soft delete by default)
+ * POST /projects/:projectId/files/batch/delete
+ */
+export async function batchDeleteFiles(req: Request, res: Response): Promise<Response> {
+  try {
+    const { project, projectRole } = req as ProjectRequest;
+    const { fileIds, hard } = req.body as BatchDeleteRequest;
+
+    if (hard && !hasProjectRole(projectRole, 'admin')) {
+      return sendError(
+        res,
+        ErrorCodes.FORBIDDEN,
+        'Permanent deletion requires admin access to the project',
+        403
+      );
+    }
+
+    const actor = getAuditActor(req);
+    const stats: FileStatsDelta = { fileCountDelta: 0, sizeDelta: 0 };
+    const results: BatchItemResult<DeleteFileResponse>[] = [];
+
+    for (const [index, fileId] of fileIds.entries()) {
+      results.push(
+        await runItem(index, fileId, async () => {
+          const result = await fileService.deleteFile(project, fileId, actor, { hard });
+          addStats(stats, result.stats);
+          return result.data;
+        })
+      );
+    }
+
+    return sendSuccess(res, await buildResponse(results, project, stats));
+  } catch (error) {
+    console.error('Error deleting batch of files:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to delete files', 500);
+  }
+}
+
+/**
+ * Get the metadata of several files
+ * POST /projects/:projectId/files/batch/metadata
+ */
+export async function batchGetFileMetadata(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId } = req.params;
+    const { fileIds } = req.body as BatchFilesRequest;
+
+    const files = await metadataRepository.getFilesByIds(projectId, fileIds);
+    const filesById = new Map(files.map((file) => [file.fileId, file]));
+
+    const results = fileIds.map((fileId, index): BatchItemResult<FileMetadata> => {
+      const file = filesById.get(fileId);
+      if (!file || file.status === 'deleted') {
+        const message = file ? 'File has been deleted' : 'File not found';
+        const error = new FileOperationError(ErrorCodes.FILE_NOT_FOUND, message, 404);
+        return toFailure(index, fileId, error);
+      }
+
+      return { index, fileId, success: true, data: file };
+    });
+
+    return sendSuccess(res, await buildResponse(results));
+  } catch (error) {
+    console.error('Error getting batch file metadata:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to get file metadata', 500);
+  }
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Run one item of a batch, turning a failure into its result
+ */
+async function runItem<T>(
+  index: number,
+  fileId: string | undefined,
+  operation: () => Promise<T>
+): Promise<BatchItemResult<T>> {
+  try {
+    return { index, fileId, success: true, data: await operation() };
+  } catch (error) {
+    return toFailure(index, fileId, error);
+  }
+}
+
+/**
+ * Result of a failed item; unexpected errors are logged and reported as internal
+ */
+function toFailure<T>(index: number, fileId: string | undefined, error: unknown): BatchItemResult<T> {
+  if (error instanceof FileOperationError) {
+    return {
+      index,
+      fileId,
+      success: false,
+      error: { code: error.code, message: error.message, details: error.details },
+    };
+  }
+
+  console.error('Error processing batch item:', error);
+  return {
+    index,
+    fileId,
+    success: false,
+    error: { code: ErrorCodes.INTERNAL_ERROR, message: 'Failed to process file' },
+  };
+}
+
+function addStats(total: FileStatsDelta, change: FileStatsDelta): void {
+  total.fileCountDelta += change.fileCountDelta;
+  total.sizeDelta += change.sizeDelta;
+}
+
+/**
+ * Count the outcomes, and report the project statistics after a batch that changed them
+ */
+async function buildResponse<T>(
+  results: BatchItemResult<T>[],
+  project?: Project,
+  stats?: FileStatsDelta
+): Promise<BatchResponse<T>> {
+  const succeeded = results.filter((result) => result.success).length;
+  const response: BatchResponse<T> = { results, succeeded, failed: results.length - succeeded };
+
+  if (project && stats) {
+    const current = await metadataRepository.getProjectById(project.ownerId, project.projectId);
+    response.stats = {
+      ...stats,
+      fileCount: current?.fileCount ?? project.fileCount + stats.fileCountDelta,
+      totalSize: current?.totalSize ?? project.totalSize + stats.sizeDelta,
+    };
+  }
+
+  return response;
+}
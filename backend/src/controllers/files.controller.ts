@@ -3,23 +3,33 @@
  */
 
 import { Request, Response } from 'express';
-import { v4 as uuidv4 } from 'uuid';
-import { s3Service } from '../services/s3.service';
-import { dynamoDBService } from '../services/dynamodb.service';
+import { storageService } from '../services/storage.service';
+import { metadataRepository } from '../services/metadata.service';
+import { trashService } from '../services/trash.service';
+import { QuotaExceededError } from '../services/quota.service';
+import { previewService } from '../services/preview.service';
+import { fileService, FileOperationError } from '../services/file.service';
+import { cursorService, InvalidCursorError } from '../services/cursor.service';
+import { auditService } from '../services/audit.service';
+import { ProjectRequest, hasProjectRole } from '../middleware/project-access.middleware';
+import { getAuditActor } from '../middleware/request-context.middleware';
+import { MAX_CUSTOM_METADATA_ENTRIES } from '../middleware/validation.middleware';
 import {
   sendSuccess,
   sendError,
   ErrorCodes,
-  validateUploadRequest,
-  getFileExtension,
-  sanitizeFileName,
+  getDefaultSortOrder,
 } from '../utils';
 import {
   UploadFileRequest,
   UploadFileResponse,
   DownloadFileResponse,
   ListFilesResponse,
-  FileStatus,
+  FilePreviewsResponse,
+  FileCountOptions,
+  FileQueryOptions,
+  ListFilesQuery,
+  UpdateFileRequest,
 } from '../types';
 
 /**
@@ -28,58 +38,23 @@ import {
  */
 export async function requestUpload(req: Request, res: Response): Promise<Response> {
   try {
-    const { projectId } = req.params;
-    const { fileName, fileType, fileSize } = req.body as UploadFileRequest;
-
-    // Get user ID from auth context (default for demo)
-    const userId = (req as Request & { userId?: string }).userId || 'demo-user';
-
-    // Validate request
-    const validation = validateUploadRequest(fileName, fileType, fileSize);
-    if (!validation.valid) {
-      return sendError(res, ErrorCodes.VALIDATION_ERROR, validation.error!, 400);
-    }
-
-    // Validate project exists (optional - can be removed if projects are created on-demand)
-    // const project = await dynamoDBService.getProjectById(userId, projectId);
-    // if (!project) {
-    //   return sendError(res, ErrorCodes.PROJECT_NOT_FOUND, 'Project not found', 404);
-    // }
+    const { project } = req as ProjectRequest;
+    const request = req.body as UploadFileRequest;
 
-    // Generate file ID
-    const fileId = uuidv4();
-    const sanitizedFileName = sanitizeFileName(fileName);
-    const fileExtension = getFileExtension(sanitizedFileName);
+    fileService.validateUpload(project, request);
+    await fileService.checkQuota(project, { fileCountDelta: 1, sizeDelta: request.fileSize });
 
-    // Generate presigned upload URL
-    const { uploadUrl, s3Key, expiresIn } = await s3Service.generateUploadUrl(
-      projectId,
-      fileId,
-      sanitizedFileName,
-      fileType,
-      fileSize
+    const response: UploadFileResponse = await fileService.createUpload(
+      project,
+      getAuditActor(req),
+      request
     );
-
-    // Create file metadata record (status: pending)
-    await dynamoDBService.createFileMetadata({
-      fileId,
-      projectId,
-      fileName: sanitizedFileName,
-      fileType,
-      fileExtension,
-      fileSize,
-      s3Key,
-      uploadedBy: userId,
-    });
-
-    const response: UploadFileResponse = {
-      fileId,
-      uploadUrl,
-      expiresIn,
-    };
-
     return sendSuccess(res, response, 201);
   } catch (error) {
+    if (error instanceof FileOperationError) {
+      return sendError(res, error.code, error.message, error.statusCode, error.details);
+    }
+
     console.error('Error requesting upload:', error);
     return sendError(
       res,
@@ -96,45 +71,16 @@ export async function requestUpload(req: Request, res: Response): Promise<Respon
  */
 export async function confirmUpload(req: Request, res: Response): Promise<Response> {
   try {
-    const { projectId, fileId } = req.params;
-    const userId = (req as Request & { userId?: string }).userId || 'demo-user';
-
-    // Get file metadata
-    const fileMetadata = await dynamoDBService.getFileById(projectId, fileId);
-    if (!fileMetadata) {
-      return sendError(res, ErrorCodes.FILE_NOT_FOUND, 'File not found', 404);
-    }
+    const { fileId } = req.params;
+    const { project } = req as ProjectRequest;
 
-    // Verify file exists in S3
-    const exists = await s3Service.objectExists(fileMetadata.s3Key);
-    if (!exists) {
-      return sendError(
-        res,
-        ErrorCodes.VALIDATION_ERROR,
-        'File has not been uploaded to storage',
-        400
-      );
+    const { data } = await fileService.confirmUpload(project, fileId, getAuditActor(req));
+    return sendSuccess(res, data);
+  } catch (error) {
+    if (error instanceof FileOperationError) {
+      return sendError(res, error.code, error.message, error.statusCode, error.details);
     }
 
-    // Update status to uploaded
-    const updatedFile = await dynamoDBService.updateFileStatus(
-      projectId,
-      fileId,
-      'uploaded'
-    );
-
-    // Update project stats
-    await dynamoDBService.updateProjectStats(
-      userId,
-      projectId,
-      1,
-      fileMetadata.fileSize
-    ).catch(() => {
-      // Ignore if project doesn't exist (optional feature)
-    });
-
-    return sendSuccess(res, updatedFile);
-  } catch (error) {
     console.error('Error confirming upload:', error);
     return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to confirm upload', 500);
   }
@@ -149,7 +95,7 @@ export async function getDownloadUrl(req: Request, res: Response): Promise<Respo
     const { projectId, fileId } = req.params;
 
     // Get file metadata
-    const fileMetadata = await dynamoDBService.getFileById(projectId, fileId);
+    const fileMetadata = await metadataRepository.getFileById(projectId, fileId);
     if (!fileMetadata) {
       return sendError(res, ErrorCodes.FILE_NOT_FOUND, 'File not found', 404);
     }
@@ -159,12 +105,34 @@ export async function getDownloadUrl(req: Request, res: Response): Promise<Respo
       return sendError(res, ErrorCodes.FILE_NOT_FOUND, 'File has been deleted', 404);
     }
 
+    if (fileMetadata.status === 'expired') {
+      return sendError(res, ErrorCodes.FILE_NOT_FOUND, 'File upload has expired', 404);
+    }
+
+    if (fileMetadata.status === 'quarantined') {
+      return sendError(
+        res,
+        ErrorCodes.FILE_QUARANTINED,
+        'File is quarantined and cannot be downloaded',
+        403,
+        { reason: fileMetadata.quarantineReason }
+      );
+    }
+
     // Generate presigned download URL
-    const { downloadUrl, expiresIn } = await s3Service.generateDownloadUrl(
+    const { downloadUrl, expiresIn } = await storageService.generateDownloadUrl(
       fileMetadata.s3Key,
       fileMetadata.fileName
     );
 
+    await auditService.record(getAuditActor(req), {
+      projectId,
+      action: 'file.download_url_issued',
+      resourceType: 'file',
+      resourceId: fileId,
+      details: { expiresIn },
+    });
+
     const response: DownloadFileResponse = {
       fileId: fileMetadata.fileId,
       fileName: fileMetadata.fileName,
@@ -192,7 +160,26 @@ export async function getFileMetadata(req: Request, res: Response): Promise<Resp
   try {
     const { projectId, fileId } = req.params;
 
-    const fileMetadata = await dynamoDBService.getFileById(projectId, fileId);
+    return sendSuccess(res, await fileService.getFile(projectId, fileId));
+  } catch (error) {
+    if (error instanceof FileOperationError) {
+      return sendError(res, error.code, error.message, error.statusCode, error.details);
+    }
+
+    console.error('Error getting file metadata:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to get file metadata', 500);
+  }
+}
+
+/**
+ * Get the thumbnails and page previews of a file
+ * GET /projects/:projectId/files/:fileId/previews
+ */
+export async function getFilePreviews(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId, fileId } = req.params;
+
+    const fileMetadata = await metadataRepository.getFileById(projectId, fileId);
     if (!fileMetadata) {
       return sendError(res, ErrorCodes.FILE_NOT_FOUND, 'File not found', 404);
     }
@@ -201,10 +188,25 @@ export async function getFileMetadata(req: Request, res: Response): Promise<Resp
       return sendError(res, ErrorCodes.FILE_NOT_FOUND, 'File has been deleted', 404);
     }
 
-    return sendSuccess(res, fileMetadata);
+    if (fileMetadata.status === 'quarantined') {
+      return sendError(
+        res,
+        ErrorCodes.FILE_QUARANTINED,
+        'File is quarantined and cannot be previewed',
+        403,
+        { reason: fileMetadata.quarantineReason }
+      );
+    }
+
+    if (fileMetadata.status !== 'uploaded') {
+      return sendError(res, ErrorCodes.FILE_NOT_FOUND, 'File upload has not been confirmed', 404);
+    }
+
+    const response: FilePreviewsResponse = await previewService.getPreviewUrls(fileMetadata);
+    return sendSuccess(res, response);
   } catch (error) {
-    console.error('Error getting file metadata:', error);
-    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to get file metadata', 500);
+    console.error('Error getting file previews:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to get file previews', 500);
   }
 }
 
@@ -215,105 +217,183 @@ export async function getFileMetadata(req: Request, res: Response): Promise<Resp
 export async function listFiles(req: Request, res: Response): Promise<Response> {
   try {
     const { projectId } = req.params;
-    const { fileType, status, limit, lastKey } = req.query;
+    // Parsed by listFilesQuerySchema
+    const { fileType, status, tags, customMetadata, sort, order, includeTotal, limit, lastKey } =
+      req.query as unknown as ListFilesQuery;
 
-    const options: {
-      fileType?: string;
-      status?: FileStatus;
-      limit?: number;
-      lastKey?: Record<string, unknown>;
-    } = {};
+    const filters: FileCountOptions = { fileType, status, tags, customMetadata };
+    const options: FileQueryOptions = { ...filters };
 
-    if (fileType && typeof fileType === 'string') {
-      options.fileType = fileType;
+    if (sort) {
+      options.sort = sort;
+      options.order = order ?? getDefaultSortOrder(sort);
     }
 
-    if (status && typeof status === 'string') {
-      options.status = status as FileStatus;
+    if (limit !== undefined) {
+      options.limit = Math.min(limit || 50, 100);
     }
 
-    if (limit) {
-      options.limit = Math.min(parseInt(limit as string, 10) || 50, 100);
-    }
+    // Cursors only continue a listing with the same filters and order
+    const cursorScope = `files:${projectId}:${JSON.stringify({ ...filters, sort, order: options.order })}`;
+    options.lastKey = cursorService.decode(lastKey, cursorScope);
 
-    if (lastKey && typeof lastKey === 'string') {
-      try {
-        options.lastKey = JSON.parse(Buffer.from(lastKey, 'base64').toString());
-      } catch {
-        // Ignore invalid lastKey
-      }
-    }
+    const [result, totalCount] = await Promise.all([
+      metadataRepository.getFilesByProject(projectId, options),
+      includeTotal ? metadataRepository.countFiles(projectId, filters) : undefined,
+    ]);
 
-    const result = await dynamoDBService.getFilesByProject(projectId, options);
+    const files = await Promise.all(
+      result.files.map(async (file) => {
+        const thumbnailUrl = await previewService.getThumbnailUrl(file);
+        return thumbnailUrl ? { ...file, thumbnailUrl } : file;
+      })
+    );
 
     const response: ListFilesResponse = {
-      files: result.files,
-      nextKey: result.lastKey
-        ? Buffer.from(JSON.stringify(result.lastKey)).toString('base64')
-        : undefined,
+      files,
+      nextKey: cursorService.encode(result.lastKey, cursorScope),
+      totalCount,
     };
 
     return sendSuccess(res, response);
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return sendError(res, ErrorCodes.INVALID_CURSOR, error.message, 400);
+    }
+
     console.error('Error listing files:', error);
     return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to list files', 500);
   }
 }
 
+/**
+ * Update a file's display name, tags and custom metadata
+ * PATCH /projects/:projectId/files/:fileId
+ */
+export async function updateFile(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId, fileId } = req.params;
+    const updates = req.body as UpdateFileRequest;
+
+    const fileMetadata = await metadataRepository.getFileById(projectId, fileId);
+    if (!fileMetadata || fileMetadata.status === 'deleted') {
+      return sendError(res, ErrorCodes.FILE_NOT_FOUND, 'File not found', 404);
+    }
+
+    // Entries are merged into the existing ones, so check the combined count
+    const entries = { ...fileMetadata.customMetadata, ...updates.customMetadata };
+    const entryCount = Object.values(entries).filter((value) => value !== null).length;
+    if (entryCount > MAX_CUSTOM_METADATA_ENTRIES) {
+      return sendError(
+        res,
+        ErrorCodes.VALIDATION_ERROR,
+        `A file can have at most ${MAX_CUSTOM_METADATA_ENTRIES} custom metadata entries`,
+        400
+      );
+    }
+
+    const updatedFile = await metadataRepository.updateFile(projectId, fileId, updates);
+    if (!updatedFile) {
+      return sendError(res, ErrorCodes.FILE_NOT_FOUND, 'File not found', 404);
+    }
+
+    await auditService.record(getAuditActor(req), {
+      projectId,
+      action: 'file.updated',
+      resourceType: 'file',
+      resourceId: fileId,
+      before: fileMetadata,
+      after: updatedFile,
+    });
+
+    return sendSuccess(res, updatedFile);
+  } catch (error) {
+    console.error('Error updating file:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to update file', 500);
+  }
+}
+
 /**
  * Delete a file (soft delete)
  * DELETE /projects/:projectId/files/:fileId
  */
 export async function deleteFile(req: Request, res: Response): Promise<Response> {
   try {
-    const { projectId, fileId } = req.params;
-    const userId = (req as Request & { userId?: string }).userId || 'demo-user';
+    const { fileId } = req.params;
+    const { project, projectRole } = req as ProjectRequest;
     const hardDelete = req.query.hard === 'true';
 
-    // Get file metadata
-    const fileMetadata = await dynamoDBService.getFileById(projectId, fileId);
+    if (hardDelete && !hasProjectRole(projectRole, 'admin')) {
+      return sendError(
+        res,
+        ErrorCodes.FORBIDDEN,
+        'Permanent deletion requires admin access to the project',
+        403
+      );
+    }
+
+    const { data } = await fileService.deleteFile(project, fileId, getAuditActor(req), {
+      hard: hardDelete,
+    });
+    return sendSuccess(res, data);
+  } catch (error) {
+    if (error instanceof FileOperationError) {
+      return sendError(res, error.code, error.message, error.statusCode, error.details);
+    }
+
+    console.error('Error deleting file:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to delete file', 500);
+  }
+}
+
+/**
+ * Restore a deleted file from the trash
+ * POST /projects/:projectId/files/:fileId/restore
+ */
+export async function restoreFile(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId, fileId } = req.params;
+    const { project } = req as ProjectRequest;
+
+    const fileMetadata = await metadataRepository.getFileById(projectId, fileId);
     if (!fileMetadata) {
       return sendError(res, ErrorCodes.FILE_NOT_FOUND, 'File not found', 404);
     }
 
-    if (fileMetadata.status === 'deleted' && !hardDelete) {
-      return sendError(res, ErrorCodes.FILE_NOT_FOUND, 'File already deleted', 404);
+    if (fileMetadata.status !== 'deleted') {
+      return sendError(res, ErrorCodes.CONFLICT, 'File is not in the trash', 409);
+    }
+
+    if (!trashService.isRestorable(fileMetadata)) {
+      return sendError(
+        res,
+        ErrorCodes.RESTORE_WINDOW_EXPIRED,
+        'File was deleted too long ago to be restored',
+        410
+      );
     }
 
-    if (hardDelete) {
-      // Hard delete: remove from S3 and DynamoDB
-      await s3Service.deleteObject(fileMetadata.s3Key);
-      await dynamoDBService.hardDeleteFile(projectId, fileId);
-
-      // Update project stats
-      await dynamoDBService.updateProjectStats(
-        userId,
-        projectId,
-        -1,
-        -fileMetadata.fileSize
-      ).catch(() => {
-        // Ignore if project doesn't exist
-      });
-
-      return sendSuccess(res, { message: 'File permanently deleted' });
-    } else {
-      // Soft delete: mark as deleted in DynamoDB
-      await dynamoDBService.deleteFile(projectId, fileId);
-
-      // Update project stats
-      await dynamoDBService.updateProjectStats(
-        userId,
-        projectId,
-        -1,
-        -fileMetadata.fileSize
-      ).catch(() => {
-        // Ignore if project doesn't exist
-      });
-
-      return sendSuccess(res, { message: 'File deleted' });
+    const restored = await trashService.restoreFile(project, fileMetadata);
+    if (!restored) {
+      return sendError(res, ErrorCodes.CONFLICT, 'File is not in the trash', 409);
     }
+
+    await auditService.record(getAuditActor(req), {
+      projectId,
+      action: 'file.restored',
+      resourceType: 'file',
+      resourceId: fileId,
+      before: fileMetadata,
+      after: restored,
+    });
+
+    return sendSuccess(res, restored);
   } catch (error) {
-    console.error('Error deleting file:', error);
-    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to delete file', 500);
+    if (error instanceof QuotaExceededError) {
+      return sendError(res, ErrorCodes.QUOTA_EXCEEDED, error.message, 413, error.violation);
+    }
+
+    console.error('Error restoring file:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to restore file', 500);
   }
 }
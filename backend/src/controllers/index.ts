@@ -4,3 +4,9 @@
 
 export * from './files.controller';
 export * from './projects.controller';
+export * from './storage.controller';
+export * from './members.controller';
+export * from './usage.controller';
+export * from './search.controller';
+export * from './audit.controller';
+export * from './webhooks.controller';
@@ -0,0 +1,217 @@
+/**
+ * Members Controller - Handles project sharing and collaborator roles
+ */
+
+import { Request, Response } from 'express';
+import { metadataRepository } from '../services/metadata.service';
+import { cursorService, InvalidCursorError } from '../services/cursor.service';
+import { auditService } from '../services/audit.service';
+import { ProjectRequest, hasProjectRole } from '../middleware/project-access.middleware';
+import { getAuditActor } from '../middleware/request-context.middleware';
+import { sendSuccess, sendError, ErrorCodes, isConditionalCheckFailed } from '../utils';
+import {
+  AddMemberRequest,
+  UpdateMemberRequest,
+  ListMembersResponse,
+  ProjectRole,
+} from '../types';
+
+/**
+ * Invite a user to a project
+ * POST /projects/:projectId/members
+ */
+export async function addMember(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId } = req.params;
+    const { project, projectRole } = req as ProjectRequest;
+    const userId = (req as Request & { userId?: string }).userId || 'demo-user';
+    const { userId: memberId, role } = req.body as AddMemberRequest;
+
+    if (memberId === project.ownerId) {
+      return sendError(
+        res,
+        ErrorCodes.MEMBER_ALREADY_EXISTS,
+        'User already owns this project',
+        409
+      );
+    }
+
+    if (role === 'admin' && projectRole !== 'owner') {
+      return sendError(
+        res,
+        ErrorCodes.FORBIDDEN,
+        'Only the project owner can grant admin access',
+        403
+      );
+    }
+
+    const member = await metadataRepository.addProjectMember({
+      projectId,
+      userId: memberId,
+      role,
+      projectOwnerId: project.ownerId,
+      invitedBy: userId,
+    });
+
+    await auditService.record(getAuditActor(req), {
+      projectId,
+      action: 'member.added',
+      resourceType: 'member',
+      resourceId: memberId,
+      after: member,
+    });
+
+    return sendSuccess(res, member, 201);
+  } catch (error: unknown) {
+    console.error('Error adding member:', error);
+
+    if (isConditionalCheckFailed(error)) {
+      return sendError(
+        res,
+        ErrorCodes.MEMBER_ALREADY_EXISTS,
+        'User is already a member of this project',
+        409
+      );
+    }
+
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to add member', 500);
+  }
+}
+
+/**
+ * List project members
+ * GET /projects/:projectId/members
+ */
+export async function listMembers(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId } = req.params;
+    const { project } = req as ProjectRequest;
+    const { limit, lastKey } = req.query;
+
+    const options: {
+      limit?: number;
+      lastKey?: Record<string, unknown>;
+    } = {};
+
+    if (limit) {
+      options.limit = Math.min(parseInt(limit as string, 10) || 50, 100);
+    }
+
+    const cursorScope = `members:${projectId}`;
+    options.lastKey = cursorService.decode(
+      typeof lastKey === 'string' ? lastKey : undefined,
+      cursorScope
+    );
+
+    const result = await metadataRepository.getProjectMembers(projectId, options);
+
+    const response: ListMembersResponse = {
+      ownerId: project.ownerId,
+      members: result.members,
+      nextKey: cursorService.encode(result.lastKey, cursorScope),
+    };
+
+    return sendSuccess(res, response);
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return sendError(res, ErrorCodes.INVALID_CURSOR, error.message, 400);
+    }
+
+    console.error('Error listing members:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to list members', 500);
+  }
+}
+
+/**
+ * Change a member's role
+ * PATCH /projects/:projectId/members/:memberId
+ */
+export async function updateMember(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId, memberId } = req.params;
+    const { projectRole } = req as ProjectRequest;
+    const { role } = req.body as UpdateMemberRequest;
+
+    const existingMember = await metadataRepository.getProjectMember(projectId, memberId);
+    if (!existingMember) {
+      return sendError(res, ErrorCodes.MEMBER_NOT_FOUND, 'Member not found', 404);
+    }
+
+    // Granting or revoking admin access is reserved for the owner
+    if ((role === 'admin' || existingMember.role === 'admin') && projectRole !== 'owner') {
+      return sendError(
+        res,
+        ErrorCodes.FORBIDDEN,
+        'Only the project owner can change admin access',
+        403
+      );
+    }
+
+    const member = await metadataRepository.updateProjectMemberRole(
+      projectId,
+      memberId,
+      role as ProjectRole
+    );
+    if (!member) {
+      return sendError(res, ErrorCodes.MEMBER_NOT_FOUND, 'Member not found', 404);
+    }
+
+    await auditService.record(getAuditActor(req), {
+      projectId,
+      action: 'member.role_changed',
+      resourceType: 'member',
+      resourceId: memberId,
+      before: existingMember,
+      after: member,
+    });
+
+    return sendSuccess(res, member);
+  } catch (error) {
+    console.error('Error updating member:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to update member', 500);
+  }
+}
+
+/**
+ * Remove a member from a project (members may always remove themselves)
+ * DELETE /projects/:projectId/members/:memberId
+ */
+export async function removeMember(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId, memberId } = req.params;
+    const { projectRole } = req as ProjectRequest;
+    const userId = (req as Request & { userId?: string }).userId || 'demo-user';
+
+    const existingMember = await metadataRepository.getProjectMember(projectId, memberId);
+    if (!existingMember) {
+      return sendError(res, ErrorCodes.MEMBER_NOT_FOUND, 'Member not found', 404);
+    }
+
+    if (memberId !== userId) {
+      const required = existingMember.role === 'admin' ? 'owner' : 'admin';
+      if (!hasProjectRole(projectRole, required)) {
+        return sendError(
+          res,
+          ErrorCodes.FORBIDDEN,
+          `This action requires ${required} access to the project`,
+          403
+        );
+      }
+    }
+
+    await metadataRepository.removeProjectMember(projectId, memberId);
+
+    await auditService.record(getAuditActor(req), {
+      projectId,
+      action: 'member.removed',
+      resourceType: 'member',
+      resourceId: memberId,
+      before: existingMember,
+    });
+
+    return sendSuccess(res, { message: 'Member removed' });
+  } catch (error) {
+    console.error('Error removing member:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to remove member', 500);
+  }
+}
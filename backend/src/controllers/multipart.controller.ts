@@ -0,0 +1,514 @@
+/**
+ * Multipart Controller - Handles multipart uploads for large files
+ *
+ * Large plan files are uploaded in parts, each with its own presigned URL.
+ * Progress is tracked on the file's metadata record so an interrupted upload
+ * can be resumed by requesting URLs for the parts that are still missing.
+ */
+
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { S3_CONFIG } from '../config/aws.config';
+import { storageService } from '../services/storage.service';
+import { metadataRepository } from '../services/metadata.service';
+import { quotaService } from '../services/quota.service';
+import { fileService, FileOperationError } from '../services/file.service';
+import { cursorService, InvalidCursorError } from '../services/cursor.service';
+import { auditService } from '../services/audit.service';
+import { ProjectRequest } from '../middleware/project-access.middleware';
+import { getAuditActor } from '../middleware/request-context.middleware';
+import {
+  sendSuccess,
+  sendError,
+  ErrorCodes,
+  validateUploadRequest,
+  isMimeTypeAllowedForProject,
+  getFileExtension,
+  sanitizeFileName,
+  formatFileSize,
+} from '../utils';
+import {
+  FileMetadata,
+  InitiateMultipartUploadRequest,
+  RecordPartsRequest,
+  CompleteMultipartUploadRequest,
+  MultipartUploadResponse,
+  ListMultipartUploadsResponse,
+  MultipartUploadState,
+  UploadedPart,
+} from '../types';
+
+/**
+ * Start a multipart upload
+ * POST /projects/:projectId/files/multipart
+ */
+export async function initiateMultipartUpload(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId } = req.params;
+    const { project } = req as ProjectRequest;
+    const { fileName, fileType, fileSize, partCount } = req.body as InitiateMultipartUploadRequest;
+    const actor = getAuditActor(req);
+
+    const validation = validateUploadRequest(
+      fileName,
+      fileType,
+      fileSize,
+      S3_CONFIG.maxMultipartFileSize
+    );
+    if (!validation.valid) {
+      return sendError(res, ErrorCodes.VALIDATION_ERROR, validation.error!, 400);
+    }
+
+    if (!isMimeTypeAllowedForProject(fileType, project.allowedMimeTypes)) {
+      return sendError(
+        res,
+        ErrorCodes.INVALID_FILE_TYPE,
+        `File type '${fileType}' is not allowed in this project`,
+        400
+      );
+    }
+
+    const quotaViolation = await quotaService.checkUpload(project, {
+      fileCountDelta: 1,
+      sizeDelta: fileSize,
+    });
+    if (quotaViolation) {
+      return sendError(
+        res,
+        ErrorCodes.QUOTA_EXCEEDED,
+        quotaService.describeViolation(quotaViolation),
+        413,
+        quotaViolation
+      );
+    }
+
+    const partSize = Math.ceil(fileSize / partCount);
+    if (partCount > 1 && partSize < S3_CONFIG.minPartSize) {
+      return sendError(
+        res,
+        ErrorCodes.VALIDATION_ERROR,
+        `Parts must be at least ${formatFileSize(S3_CONFIG.minPartSize)}; use at most ${Math.max(1, Math.floor(fileSize / S3_CONFIG.minPartSize))} parts`,
+        400
+      );
+    }
+
+    if (partSize > S3_CONFIG.maxPartSize) {
+      return sendError(
+        res,
+        ErrorCodes.VALIDATION_ERROR,
+        `Parts must be at most ${formatFileSize(S3_CONFIG.maxPartSize)}; use at least ${Math.ceil(fileSize / S3_CONFIG.maxPartSize)} parts`,
+        400
+      );
+    }
+
+    if (partSize * (partCount - 1) >= fileSize) {
+      return sendError(
+        res,
+        ErrorCodes.VALIDATION_ERROR,
+        'Part count is too high for the file size',
+        400
+      );
+    }
+
+    const fileId = uuidv4();
+    const sanitizedFileName = sanitizeFileName(fileName);
+    const s3Key = storageService.generateS3Key(projectId, fileId, sanitizedFileName);
+
+    const { uploadId } = await storageService.createMultipartUpload(s3Key, fileType, {
+      projectId,
+      fileId,
+      originalFileName: sanitizedFileName,
+    });
+
+    const now = new Date().toISOString();
+    const multipart: MultipartUploadState = {
+      uploadId,
+      partSize,
+      partCount,
+      completedParts: [],
+      startedAt: now,
+      updatedAt: now,
+    };
+
+    const file = await metadataRepository.createFileMetadata({
+      fileId,
+      projectId,
+      fileName: sanitizedFileName,
+      fileType,
+      fileExtension: getFileExtension(sanitizedFileName),
+      fileSize,
+      s3Key,
+      uploadedBy: actor.userId,
+      multipart,
+    });
+
+    await auditService.record(actor, {
+      projectId,
+      action: 'file.upload_requested',
+      resourceType: 'file',
+      resourceId: fileId,
+      after: file,
+      details: { multipart: true },
+    });
+
+    return sendSuccess(res, await buildMultipartResponse(file, multipart), 201);
+  } catch (error) {
+    console.error('Error initiating multipart upload:', error);
+    return sendError(
+      res,
+      ErrorCodes.INTERNAL_ERROR,
+      'Failed to initiate multipart upload',
+      500
+    );
+  }
+}
+
+/**
+ * List in-progress multipart uploads in a project
+ * GET /projects/:projectId/files/multipart
+ */
+export async function listMultipartUploads(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId } = req.params;
+    const { limit, lastKey } = req.query;
+
+    const options: {
+      limit?: number;
+      lastKey?: Record<string, unknown>;
+    } = {};
+
+    if (limit) {
+      options.limit = Math.min(parseInt(limit as string, 10) || 50, 100);
+    }
+
+    const cursorScope = `multipart:${projectId}`;
+    options.lastKey = cursorService.decode(
+      typeof lastKey === 'string' ? lastKey : undefined,
+      cursorScope
+    );
+
+    const result = await metadataRepository.getFilesByProject(projectId, {
+      ...options,
+      status: 'pending',
+      multipart: true,
+    });
+
+    const response: ListMultipartUploadsResponse = {
+      uploads: result.files,
+      nextKey: cursorService.encode(result.lastKey, cursorScope),
+    };
+
+    return sendSuccess(res, response);
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return sendError(res, ErrorCodes.INVALID_CURSOR, error.message, 400);
+    }
+
+    console.error('Error listing multipart uploads:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to list multipart uploads', 500);
+  }
+}
+
+/**
+ * Resume a multipart upload: sync progress with storage and get URLs for missing parts
+ * GET /projects/:projectId/files/:fileId/multipart
+ */
+export async function resumeMultipartUpload(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId, fileId } = req.params;
+
+    const file = await getInProgressUpload(projectId, fileId, res);
+    if (!file) return res;
+
+    const storedParts = await storageService.listUploadedParts(file.s3Key, file.multipart!.uploadId);
+    const multipart = await saveProgress(file, mergeParts(file.multipart!.completedParts, storedParts, true));
+
+    return sendSuccess(res, await buildMultipartResponse(file, multipart));
+  } catch (error) {
+    console.error('Error resuming multipart upload:', error);
+
+    if (isStorageError(error, 'NoSuchUpload')) {
+      return sendError(res, ErrorCodes.UPLOAD_NOT_FOUND, 'Multipart upload no longer exists', 404);
+    }
+
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to resume multipart upload', 500);
+  }
+}
+
+/**
+ * Record parts the client has finished uploading
+ * POST /projects/:projectId/files/:fileId/multipart/parts
+ */
+export async function recordUploadedParts(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId, fileId } = req.params;
+    const { parts } = req.body as RecordPartsRequest;
+
+    const file = await getInProgressUpload(projectId, fileId, res);
+    if (!file) return res;
+
+    const outOfRange = parts.find((part) => part.partNumber > file.multipart!.partCount);
+    if (outOfRange) {
+      return sendError(
+        res,
+        ErrorCodes.VALIDATION_ERROR,
+        `Part ${outOfRange.partNumber} exceeds the part count of ${file.multipart!.partCount}`,
+        400
+      );
+    }
+
+    const multipart = await saveProgress(file, mergeParts(file.multipart!.completedParts, parts));
+
+    return sendSuccess(res, multipart);
+  } catch (error) {
+    console.error('Error recording uploaded parts:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to record uploaded parts', 500);
+  }
+}
+
+/**
+ * Complete a multipart upload and mark the file as uploaded
+ * POST /projects/:projectId/files/:fileId/multipart/complete
+ */
+export async function completeMultipartUpload(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId, fileId } = req.params;
+    const { project } = req as ProjectRequest;
+    const { parts: requestedParts } = req.body as CompleteMultipartUploadRequest;
+
+    const file = await getInProgressUpload(projectId, fileId, res);
+    if (!file) return res;
+
+    const { uploadId, partCount } = file.multipart!;
+    const storedParts = await storageService.listUploadedParts(file.s3Key, uploadId);
+    const parts = requestedParts
+      ? mergeParts(file.multipart!.completedParts, requestedParts)
+      : mergeParts(file.multipart!.completedParts, storedParts, true);
+
+    const missingParts = findMissingParts(parts, partCount);
+    if (missingParts.length > 0 || parts.length !== partCount) {
+      await saveProgress(file, parts.filter((part) => part.partNumber <= partCount));
+      return sendError(
+        res,
+        ErrorCodes.VALIDATION_ERROR,
+        'Multipart upload is incomplete',
+        400,
+        { missingParts }
+      );
+    }
+
+    // Sizes reported by storage must add up to the declared file size
+    const storedSize = storedParts.reduce((total, part) => total + (part.size || 0), 0);
+    if (storedParts.every((part) => part.size !== undefined) && storedSize !== file.fileSize) {
+      return sendError(
+        res,
+        ErrorCodes.VALIDATION_ERROR,
+        `Uploaded parts total ${storedSize} bytes, expected ${file.fileSize}`,
+        400
+      );
+    }
+
+    // Checked before completing, so the parts stay available for a later retry
+    await fileService.checkQuota(project, { fileCountDelta: 1, sizeDelta: file.fileSize });
+
+    try {
+      await storageService.completeMultipartUpload(file.s3Key, uploadId, parts);
+    } catch (error) {
+      if (isStorageError(error, 'InvalidPart', 'InvalidPartOrder', 'EntityTooSmall')) {
+        return sendError(res, ErrorCodes.VALIDATION_ERROR, (error as Error).message, 400);
+      }
+      throw error;
+    }
+
+    await metadataRepository.updateMultipartState(projectId, fileId, null);
+
+    const result = await fileService.acceptUpload(project, file, getAuditActor(req), {
+      details: { multipart: true },
+    });
+    return sendSuccess(res, result.data);
+  } catch (error) {
+    if (error instanceof FileOperationError) {
+      return sendError(res, error.code, error.message, error.statusCode, error.details);
+    }
+
+    console.error('Error completing multipart upload:', error);
+
+    if (isStorageError(error, 'NoSuchUpload')) {
+      return sendError(res, ErrorCodes.UPLOAD_NOT_FOUND, 'Multipart upload no longer exists', 404);
+    }
+
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to complete multipart upload', 500);
+  }
+}
+
+/**
+ * Abort a multipart upload and discard the pending file
+ * DELETE /projects/:projectId/files/:fileId/multipart
+ */
+export async function abortMultipartUpload(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId, fileId } = req.params;
+
+    const file = await getInProgressUpload(projectId, fileId, res);
+    if (!file) return res;
+
+    await storageService.abortMultipartUpload(file.s3Key, file.multipart!.uploadId);
+    const removed = await metadataRepository.hardDeleteFile(projectId, fileId, {
+      expectedStatus: 'pending',
+    });
+
+    if (removed) {
+      await auditService.record(getAuditActor(req), {
+        projectId,
+        action: 'file.upload_aborted',
+        resourceType: 'file',
+        resourceId: fileId,
+        before: file,
+        details: { multipart: true },
+      });
+    }
+
+    return sendSuccess(res, { message: 'Multipart upload aborted' });
+  } catch (error) {
+    console.error('Error aborting multipart upload:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to abort multipart upload', 500);
+  }
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Load a file with an in-progress multipart upload, sending a 404 otherwise
+ */
+async function getInProgressUpload(
+  projectId: string,
+  fileId: string,
+  res: Response
+): Promise<FileMetadata | null> {
+  const file = await metadataRepository.getFileById(projectId, fileId);
+  if (!file || file.status === 'deleted') {
+    sendError(res, ErrorCodes.FILE_NOT_FOUND, 'File not found', 404);
+    return null;
+  }
+
+  if (file.status === 'expired') {
+    sendError(
+      res,
+      ErrorCodes.UPLOAD_EXPIRED,
+      'Multipart upload was abandoned and has expired; start a new upload',
+      410
+    );
+    return null;
+  }
+
+  if (file.status !== 'pending' || !file.multipart) {
+    sendError(
+      res,
+      ErrorCodes.UPLOAD_NOT_FOUND,
+      'File has no multipart upload in progress',
+      404
+    );
+    return null;
+  }
+
+  return file;
+}
+
+/**
+ * Merge newly reported parts into the recorded ones
+ *
+ * With `authoritative`, the incoming list is the storage backend's own view and
+ * recorded parts it no longer knows about are dropped.
+ */
+function mergeParts(
+  recorded: UploadedPart[],
+  incoming: UploadedPart[],
+  authoritative = false
+): UploadedPart[] {
+  const merged = new Map<number, UploadedPart>();
+
+  if (!authoritative) {
+    for (const part of recorded) {
+      merged.set(part.partNumber, part);
+    }
+  }
+
+  for (const part of incoming) {
+    merged.set(part.partNumber, {
+      partNumber: part.partNumber,
+      etag: part.etag,
+      ...(part.size !== undefined && { size: part.size }),
+    });
+  }
+
+  return [...merged.values()].sort((a, b) => a.partNumber - b.partNumber);
+}
+
+/**
+ * Part numbers in 1..partCount that have not been uploaded
+ */
+function findMissingParts(parts: UploadedPart[], partCount: number): number[] {
+  const uploaded = new Set(parts.map((part) => part.partNumber));
+  const missing: number[] = [];
+  for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+    if (!uploaded.has(partNumber)) {
+      missing.push(partNumber);
+    }
+  }
+  return missing;
+}
+
+/**
+ * Persist the completed parts on the file record
+ */
+async function saveProgress(
+  file: FileMetadata,
+  completedParts: UploadedPart[]
+): Promise<MultipartUploadState> {
+  const multipart: MultipartUploadState = {
+    ...file.multipart!,
+    completedParts,
+    updatedAt: new Date().toISOString(),
+  };
+
+  await metadataRepository.updateMultipartState(file.projectId, file.fileId, multipart);
+  return multipart;
+}
+
+/**
+ * Build the upload response with presigned URLs for every missing part
+ */
+async function buildMultipartResponse(
+  file: FileMetadata,
+  multipart: MultipartUploadState
+): Promise<MultipartUploadResponse> {
+  const missingParts = findMissingParts(multipart.completedParts, multipart.partCount);
+
+  const parts = await Promise.all(
+    missingParts.map(async (partNumber) => {
+      const { uploadUrl } = await storageService.generateUploadPartUrl(
+        file.s3Key,
+        multipart.uploadId,
+        partNumber
+      );
+      return { partNumber, uploadUrl };
+    })
+  );
+
+  return {
+    fileId: file.fileId,
+    uploadId: multipart.uploadId,
+    partSize: multipart.partSize,
+    partCount: multipart.partCount,
+    completedParts: multipart.completedParts,
+    parts,
+    expiresIn: S3_CONFIG.presignedUrlExpiry,
+  };
+}
+
+/**
+ * Check whether an error from the storage backend has one of the given names
+ */
+function isStorageError(error: unknown, ...names: string[]): boolean {
+  return !!error && typeof error === 'object' && 'name' in error && names.includes(error.name as string);
+}
@@ -4,14 +4,37 @@
 
 import { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { dynamoDBService } from '../services/dynamodb.service';
-import { sendSuccess, sendError, ErrorCodes } from '../utils';
+import { metadataRepository } from '../services/metadata.service';
+import { trashService } from '../services/trash.service';
+import { QuotaExceededError } from '../services/quota.service';
+import { cursorService, InvalidCursorError } from '../services/cursor.service';
+import { projectStatsService, ReconcileConflictError } from '../services/project-stats.service';
+import { auditService } from '../services/audit.service';
+import { eventBus } from '../services/event-bus.service';
+import { ProjectRequest, hasProjectRole } from '../middleware/project-access.middleware';
+import { getAuditActor } from '../middleware/request-context.middleware';
+import {
+  sendSuccess,
+  sendError,
+  ErrorCodes,
+  validateAllowedMimeTypes,
+  getDefaultSortOrder,
+  withoutTableKeys,
+  isConditionalCheckFailed,
+  readFullPage,
+} from '../utils';
 import {
   CreateProjectRequest,
   CreateProjectResponse,
   UpdateProjectRequest,
+  ListProjectsQuery,
   ListProjectsResponse,
-  ProjectStatus,
+  ListSharedProjectsResponse,
+  SharedProject,
+  SharedProjectRef,
+  ProjectCountOptions,
+  ProjectQueryOptions,
+  ProjectUpdates,
 } from '../types';
 
 /**
@@ -20,7 +43,7 @@ import {
  */
 export async function createProject(req: Request, res: Response): Promise<Response> {
   try {
-    const { name, description } = req.body as CreateProjectRequest;
+    const { name, description, allowedMimeTypes } = req.body as CreateProjectRequest;
     const userId = (req as Request & { userId?: string }).userId || 'demo-user';
 
     // Validate request
@@ -42,19 +65,36 @@ export async function createProject(req: Request, res: Response): Promise<Respon
       );
     }
 
+    if (allowedMimeTypes !== undefined) {
+      const validation = validateAllowedMimeTypes(allowedMimeTypes);
+      if (!validation.valid) {
+        return sendError(res, ErrorCodes.VALIDATION_ERROR, validation.error!, 400);
+      }
+    }
+
     // Generate project ID
     const projectId = uuidv4();
 
     // Create project in DynamoDB
-    const project = await dynamoDBService.createProject(userId, projectId, {
+    const project = await metadataRepository.createProject(userId, projectId, {
       name: name.trim(),
       description: description?.trim(),
+      allowedMimeTypes: allowedMimeTypes && [...new Set(allowedMimeTypes)],
+    });
+
+    await auditService.record(getAuditActor(req), {
+      projectId,
+      action: 'project.created',
+      resourceType: 'project',
+      resourceId: projectId,
+      after: project,
     });
 
     const response: CreateProjectResponse = {
       projectId: project.projectId,
       name: project.name,
       description: project.description,
+      allowedMimeTypes: project.allowedMimeTypes,
       createdAt: project.createdAt,
     };
 
@@ -63,7 +103,7 @@ export async function createProject(req: Request, res: Response): Promise<Respon
     console.error('Error creating project:', error);
     
     // Check for conditional check failed (duplicate)
-    if (error && typeof error === 'object' && 'name' in error && error.name === 'ConditionalCheckFailedException') {
+    if (isConditionalCheckFailed(error)) {
       return sendError(
         res,
         ErrorCodes.PROJECT_ALREADY_EXISTS,
@@ -82,17 +122,7 @@ export async function createProject(req: Request, res: Response): Promise<Respon
  */
 export async function getProject(req: Request, res: Response): Promise<Response> {
   try {
-    const { projectId } = req.params;
-    const userId = (req as Request & { userId?: string }).userId || 'demo-user';
-
-    const project = await dynamoDBService.getProjectById(userId, projectId);
-    if (!project) {
-      return sendError(res, ErrorCodes.PROJECT_NOT_FOUND, 'Project not found', 404);
-    }
-
-    if (project.status === 'deleted') {
-      return sendError(res, ErrorCodes.PROJECT_NOT_FOUND, 'Project has been deleted', 404);
-    }
+    const { project } = req as ProjectRequest;
 
     return sendSuccess(res, project);
   } catch (error) {
@@ -108,46 +138,103 @@ export async function getProject(req: Request, res: Response): Promise<Response>
 export async function listProjects(req: Request, res: Response): Promise<Response> {
   try {
     const userId = (req as Request & { userId?: string }).userId || 'demo-user';
-    const { status, limit, lastKey } = req.query;
+    // Parsed by listProjectsQuerySchema
+    const { status, sort, order, includeTotal, limit, lastKey } =
+      req.query as unknown as ListProjectsQuery;
 
-    const options: {
-      status?: ProjectStatus;
-      limit?: number;
-      lastKey?: Record<string, unknown>;
-    } = {};
+    const filters: ProjectCountOptions = { status };
+    const options: ProjectQueryOptions = { ...filters };
 
-    if (status && typeof status === 'string') {
-      options.status = status as ProjectStatus;
+    if (sort) {
+      options.sort = sort;
+      options.order = order ?? getDefaultSortOrder(sort);
     }
 
-    if (limit) {
-      options.limit = Math.min(parseInt(limit as string, 10) || 50, 100);
+    if (limit !== undefined) {
+      options.limit = Math.min(limit || 50, 100);
     }
 
-    if (lastKey && typeof lastKey === 'string') {
-      try {
-        options.lastKey = JSON.parse(Buffer.from(lastKey, 'base64').toString());
-      } catch {
-        // Ignore invalid lastKey
-      }
-    }
+    // Cursors only continue a listing with the same filters and order
+    const cursorScope = `projects:${userId}:${JSON.stringify({ ...filters, sort, order: options.order })}`;
+    options.lastKey = cursorService.decode(lastKey, cursorScope);
 
-    const result = await dynamoDBService.getProjectsByUser(userId, options);
+    const [result, totalCount] = await Promise.all([
+      metadataRepository.getProjectsByUser(userId, options),
+      includeTotal ? metadataRepository.countProjects(userId, filters) : undefined,
+    ]);
 
     const response: ListProjectsResponse = {
       projects: result.projects,
-      nextKey: result.lastKey
-        ? Buffer.from(JSON.stringify(result.lastKey)).toString('base64')
-        : undefined,
+      nextKey: cursorService.encode(result.lastKey, cursorScope),
+      totalCount,
     };
 
     return sendSuccess(res, response);
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return sendError(res, ErrorCodes.INVALID_CURSOR, error.message, 400);
+    }
+
     console.error('Error listing projects:', error);
     return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to list projects', 500);
   }
 }
 
+/**
+ * List projects shared with the current user
+ * GET /projects/shared
+ */
+export async function listSharedProjects(req: Request, res: Response): Promise<Response> {
+  try {
+    const userId = (req as Request & { userId?: string }).userId || 'demo-user';
+    const { limit, lastKey } = req.query;
+
+    const options: {
+      limit?: number;
+      lastKey?: Record<string, unknown>;
+    } = {};
+
+    if (limit) {
+      options.limit = Math.min(parseInt(limit as string, 10) || 50, 100);
+    }
+
+    const cursorScope = `shared-projects:${userId}`;
+    options.lastKey = cursorService.decode(
+      typeof lastKey === 'string' ? lastKey : undefined,
+      cursorScope
+    );
+
+    // Shares of deleted projects are skipped, and pages refilled past them
+    const result = await readFullPage(
+      async (pageKey) => {
+        const page = await metadataRepository.getSharedProjects(userId, {
+          limit: options.limit,
+          lastKey: pageKey,
+        });
+        const shares = await Promise.all(page.shares.map(resolveSharedProject));
+        return { items: shares.filter((share) => share !== null), lastKey: page.lastKey };
+      },
+      options.limit,
+      options.lastKey,
+      ['PK', 'SK']
+    );
+
+    const response: ListSharedProjectsResponse = {
+      projects: result.items.map((share) => share.project),
+      nextKey: cursorService.encode(result.lastKey, cursorScope),
+    };
+
+    return sendSuccess(res, response);
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return sendError(res, ErrorCodes.INVALID_CURSOR, error.message, 400);
+    }
+
+    console.error('Error listing shared projects:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to list shared projects', 500);
+  }
+}
+
 /**
  * Update a project
  * PATCH /projects/:projectId
@@ -155,21 +242,39 @@ export async function listProjects(req: Request, res: Response): Promise<Respons
 export async function updateProject(req: Request, res: Response): Promise<Response> {
   try {
     const { projectId } = req.params;
-    const userId = (req as Request & { userId?: string }).userId || 'demo-user';
-    const { name, description, status } = req.body as UpdateProjectRequest;
+    const { project: existingProject, projectRole } = req as ProjectRequest;
+    const { name, description, status, allowedMimeTypes } = req.body as UpdateProjectRequest;
+
+    // Archiving, status and allowed file type changes are reserved for project admins
+    if (
+      (status !== undefined || allowedMimeTypes !== undefined) &&
+      !hasProjectRole(projectRole, 'admin')
+    ) {
+      return sendError(
+        res,
+        ErrorCodes.FORBIDDEN,
+        'This action requires admin access to the project',
+        403
+      );
+    }
 
-    // Check if project exists
-    const existingProject = await dynamoDBService.getProjectById(userId, projectId);
-    if (!existingProject) {
-      return sendError(res, ErrorCodes.PROJECT_NOT_FOUND, 'Project not found', 404);
+    // Deletion cascades to the project's files, so it has its own endpoint
+    if (status === 'deleted') {
+      return sendError(
+        res,
+        ErrorCodes.VALIDATION_ERROR,
+        'Use DELETE /projects/:projectId to delete a project',
+        400
+      );
     }
 
-    if (existingProject.status === 'deleted') {
+    // Archived projects are read-only until their status is changed
+    if (existingProject.status === 'archived' && status === undefined) {
       return sendError(
         res,
-        ErrorCodes.PROJECT_NOT_FOUND,
-        'Cannot update deleted project',
-        404
+        ErrorCodes.PROJECT_ARCHIVED,
+        'Project is archived and cannot be modified',
+        409
       );
     }
 
@@ -193,24 +298,46 @@ export async function updateProject(req: Request, res: Response): Promise<Respon
       }
     }
 
+    if (allowedMimeTypes !== undefined) {
+      const validation = validateAllowedMimeTypes(allowedMimeTypes);
+      if (!validation.valid) {
+        return sendError(res, ErrorCodes.VALIDATION_ERROR, validation.error!, 400);
+      }
+    }
+
     // Build updates object
-    const updates: {
-      name?: string;
-      description?: string;
-      status?: ProjectStatus;
-    } = {};
+    const updates: ProjectUpdates = {};
 
     if (name !== undefined) updates.name = name.trim();
     if (description !== undefined) updates.description = description?.trim();
     if (status !== undefined) updates.status = status;
+    if (allowedMimeTypes !== undefined) updates.allowedMimeTypes = [...new Set(allowedMimeTypes)];
 
     // Update project
-    const updatedProject = await dynamoDBService.updateProject(
-      userId,
+    const updatedProject = await metadataRepository.updateProject(
+      existingProject.ownerId,
       projectId,
       updates
     );
 
+    await auditService.record(getAuditActor(req), {
+      projectId,
+      action: 'project.updated',
+      resourceType: 'project',
+      resourceId: projectId,
+      before: existingProject,
+      after: updatedProject,
+    });
+
+    if (updatedProject) {
+      eventBus.publish({
+        type: 'project.updated',
+        projectId,
+        actorId: getAuditActor(req).userId,
+        data: { project: withoutTableKeys(updatedProject), changes: Object.keys(updates) },
+      });
+    }
+
     return sendSuccess(res, updatedProject);
   } catch (error) {
     console.error('Error updating project:', error);
@@ -225,29 +352,135 @@ export async function updateProject(req: Request, res: Response): Promise<Respon
 export async function deleteProject(req: Request, res: Response): Promise<Response> {
   try {
     const { projectId } = req.params;
-    const userId = (req as Request & { userId?: string }).userId || 'demo-user';
+    const { project: existingProject } = req as ProjectRequest;
 
-    // Check if project exists
-    const existingProject = await dynamoDBService.getProjectById(userId, projectId);
-    if (!existingProject) {
+    // Soft delete the project and all of its files
+    const { project, files } = await trashService.trashProject(existingProject);
+    if (!project) {
       return sendError(res, ErrorCodes.PROJECT_NOT_FOUND, 'Project not found', 404);
     }
 
-    if (existingProject.status === 'deleted') {
+    await auditService.record(getAuditActor(req), {
+      projectId,
+      action: 'project.deleted',
+      resourceType: 'project',
+      resourceId: projectId,
+      before: existingProject,
+      after: project,
+      details: { filesDeleted: files },
+    });
+
+    eventBus.publish({
+      type: 'project.deleted',
+      projectId,
+      actorId: getAuditActor(req).userId,
+      data: { project: withoutTableKeys(project), filesDeleted: files },
+    });
+
+    return sendSuccess(res, {
+      message: 'Project deleted',
+      projectId,
+      filesDeleted: files,
+      restorableUntil: trashService.getPurgeDate(project).toISOString(),
+    });
+  } catch (error) {
+    console.error('Error deleting project:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to delete project', 500);
+  }
+}
+
+/**
+ * Restore a deleted project and the files deleted with it
+ * POST /projects/:projectId/restore
+ */
+export async function restoreProject(req: Request, res: Response): Promise<Response> {
+  try {
+    const { project: existingProject } = req as ProjectRequest;
+
+    if (existingProject.status !== 'deleted') {
+      return sendError(res, ErrorCodes.CONFLICT, 'Project is not in the trash', 409);
+    }
+
+    if (!trashService.isRestorable(existingProject)) {
       return sendError(
         res,
-        ErrorCodes.PROJECT_NOT_FOUND,
-        'Project already deleted',
-        404
+        ErrorCodes.RESTORE_WINDOW_EXPIRED,
+        'Project was deleted too long ago to be restored',
+        410
       );
     }
 
-    // Soft delete project
-    await dynamoDBService.deleteProject(userId, projectId);
+    const { project, files } = await trashService.restoreProject(existingProject);
+    if (!project) {
+      return sendError(res, ErrorCodes.CONFLICT, 'Project is not in the trash', 409);
+    }
+
+    await auditService.record(getAuditActor(req), {
+      projectId: existingProject.projectId,
+      action: 'project.restored',
+      resourceType: 'project',
+      resourceId: existingProject.projectId,
+      before: existingProject,
+      after: project,
+      details: { filesRestored: files },
+    });
 
-    return sendSuccess(res, { message: 'Project deleted' });
+    return sendSuccess(res, { ...project, filesRestored: files });
   } catch (error) {
-    console.error('Error deleting project:', error);
-    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to delete project', 500);
+    if (error instanceof QuotaExceededError) {
+      return sendError(res, ErrorCodes.QUOTA_EXCEEDED, error.message, 413, error.violation);
+    }
+
+    console.error('Error restoring project:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to restore project', 500);
+  }
+}
+
+/**
+ * Recompute project statistics from the file records and report any drift
+ * POST /projects/:projectId/reconcile
+ */
+export async function reconcileProject(req: Request, res: Response): Promise<Response> {
+  try {
+    const { project } = req as ProjectRequest;
+    const dryRun = req.query.dryRun === 'true';
+
+    const report = await projectStatsService.reconcile(project, { dryRun });
+
+    if (report.corrected) {
+      await auditService.record(getAuditActor(req), {
+        projectId: project.projectId,
+        action: 'project.stats_reconciled',
+        resourceType: 'project',
+        resourceId: project.projectId,
+        details: { recorded: report.recorded, actual: report.actual },
+      });
+    }
+
+    return sendSuccess(res, report);
+  } catch (error) {
+    if (error instanceof ReconcileConflictError) {
+      return sendError(res, ErrorCodes.CONFLICT, error.message, 409);
+    }
+
+    console.error('Error reconciling project stats:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to reconcile project stats', 500);
   }
 }
+
+// ==================== HELPERS ====================
+
+/**
+ * Read the project a share points to, with the role it grants; null when the
+ * project was deleted or its record is missing
+ */
+async function resolveSharedProject(
+  share: SharedProjectRef
+): Promise<{ PK: string; SK: string; project: SharedProject } | null> {
+  const project = await metadataRepository.getProjectById(share.projectOwnerId, share.projectId);
+  if (!project || project.status === 'deleted') {
+    return null;
+  }
+
+  return { PK: share.PK, SK: share.SK, project: { ...project, role: share.role } };
+}
@@ -0,0 +1,33 @@
+/**
+ * Search Controller - Searches files and projects across accessible projects
+ */
+
+import { Request, Response } from 'express';
+import { searchService } from '../services/search.service';
+import { InvalidCursorError } from '../services/cursor.service';
+import { sendSuccess, sendError, ErrorCodes } from '../utils';
+import { SearchQuery, SearchResponse } from '../types';
+
+/**
+ * Search files and projects the current user can access
+ * GET /search
+ */
+export async function search(req: Request, res: Response): Promise<Response> {
+  try {
+    const userId = (req as Request & { userId?: string }).userId || 'demo-user';
+
+    // Parsed by searchQuerySchema
+    const query = req.query as unknown as SearchQuery;
+
+    const response: SearchResponse = await searchService.search(userId, query);
+
+    return sendSuccess(res, response);
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return sendError(res, ErrorCodes.INVALID_CURSOR, error.message, 400);
+    }
+
+    console.error('Error searching:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to search', 500);
+  }
+}
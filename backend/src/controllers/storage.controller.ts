@@ -0,0 +1,123 @@
+/**
+ * Storage Controller - Serves signed upload and download URLs for local storage
+ *
+ * These handlers stand in for S3 presigned URLs when STORAGE_PROVIDER=local.
+ * Requests are authorized by the URL signature rather than the auth middleware.
+ */
+
+import { Request, Response } from 'express';
+import { storageService } from '../services/storage.service';
+import { LocalStorageService } from '../services/local-storage.service';
+import { sendError, ErrorCodes } from '../utils';
+
+/**
+ * Extract the object key from the wildcard route parameter
+ */
+function getObjectKey(req: Request): string {
+  const { key } = req.params as unknown as { key: string | string[] };
+  return Array.isArray(key) ? key.join('/') : key;
+}
+
+/**
+ * Upload an object, or one part of a multipart upload, through a signed URL
+ * PUT /storage/*key
+ */
+export async function uploadObject(req: Request, res: Response): Promise<Response> {
+  if (!(storageService instanceof LocalStorageService)) {
+    return sendError(res, ErrorCodes.NOT_FOUND, 'Local storage is not enabled', 404);
+  }
+
+  try {
+    const s3Key = getObjectKey(req);
+    const verification = storageService.verifySignedRequest('PUT', s3Key, req.query);
+    if (!verification.valid) {
+      return sendError(res, ErrorCodes.ACCESS_DENIED, verification.error!, 403);
+    }
+
+    const { contentType, contentLength, checksumSha256, uploadId, partNumber } =
+      verification.params!;
+
+    if (uploadId && partNumber) {
+      try {
+        const part = await storageService.writePart(s3Key, uploadId, partNumber, req);
+        res.setHeader('ETag', part.etag);
+        return res.status(200).end();
+      } catch (error) {
+        if (error instanceof Error && error.name === 'NoSuchUpload') {
+          return sendError(res, ErrorCodes.NOT_FOUND, error.message, 404);
+        }
+        if (error instanceof Error && error.name === 'EntityTooLarge') {
+          return sendError(res, ErrorCodes.FILE_TOO_LARGE, error.message, 400);
+        }
+        throw error;
+      }
+    }
+
+    const requestContentType = req.headers['content-type'];
+    if (contentType && requestContentType !== contentType) {
+      return sendError(
+        res,
+        ErrorCodes.VALIDATION_ERROR,
+        `Content-Type must be '${contentType}'`,
+        400
+      );
+    }
+
+    try {
+      await storageService.writeObject(
+        s3Key,
+        req,
+        contentType || requestContentType || 'application/octet-stream',
+        contentLength,
+        checksumSha256
+      );
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        (error.message.startsWith('Content length mismatch') || error.name === 'BadDigest')
+      ) {
+        return sendError(res, ErrorCodes.VALIDATION_ERROR, error.message, 400);
+      }
+      throw error;
+    }
+
+    return res.status(200).end();
+  } catch (error) {
+    console.error('Error uploading object:', error);
+    return sendError(res, ErrorCodes.S3_ERROR, 'Failed to store object', 500);
+  }
+}
+
+/**
+ * Download an object through a signed URL
+ * GET /storage/*key
+ */
+export async function downloadObject(req: Request, res: Response): Promise<Response | void> {
+  if (!(storageService instanceof LocalStorageService)) {
+    return sendError(res, ErrorCodes.NOT_FOUND, 'Local storage is not enabled', 404);
+  }
+
+  try {
+    const s3Key = getObjectKey(req);
+    const verification = storageService.verifySignedRequest('GET', s3Key, req.query);
+    if (!verification.valid) {
+      return sendError(res, ErrorCodes.ACCESS_DENIED, verification.error!, 403);
+    }
+
+    const metadata = await storageService.getObjectMetadata(s3Key);
+    if (!metadata) {
+      return sendError(res, ErrorCodes.NOT_FOUND, 'Object not found', 404);
+    }
+
+    res.setHeader('Content-Type', metadata.contentType || 'application/octet-stream');
+    res.setHeader('Content-Length', String(metadata.contentLength));
+    if (verification.params!.disposition) {
+      res.setHeader('Content-Disposition', verification.params!.disposition);
+    }
+
+    storageService.createReadStream(s3Key).pipe(res);
+  } catch (error) {
+    console.error('Error downloading object:', error);
+    return sendError(res, ErrorCodes.S3_ERROR, 'Failed to read object', 500);
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Tiles Controller - Serves Deep Zoom tile pyramids of large images
+ *
+ * The pyramid descriptor tells a viewer the size and tile grid of every level;
+ * it then requests presigned URLs for just the tiles visible at its zoom.
+ */
+
+import { Request, Response } from 'express';
+import { metadataRepository } from '../services/metadata.service';
+import { MAX_TILES_PER_REQUEST, TileRange, tileService } from '../services/tile.service';
+import { sendSuccess, sendError, ErrorCodes } from '../utils';
+import { FileMetadata, FileTilesResponse } from '../types';
+
+/**
+ * Get the tile pyramid descriptor of a file
+ * GET /projects/:projectId/files/:fileId/tiles
+ */
+export async function getFileTiles(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId, fileId } = req.params;
+
+    const file = await getTiledFile(projectId, fileId, res);
+    if (!file) return res;
+
+    const response: FileTilesResponse = tileService.describe(file);
+    return sendSuccess(res, response);
+  } catch (error) {
+    console.error('Error getting file tiles:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to get file tiles', 500);
+  }
+}
+
+/**
+ * Get presigned URLs of the tiles in one pyramid level
+ * GET /projects/:projectId/files/:fileId/tiles/:level
+ */
+export async function getTileUrls(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId, fileId } = req.params;
+
+    const levelNumber = Number(req.params.level);
+    if (!Number.isInteger(levelNumber) || levelNumber < 0) {
+      return sendError(res, ErrorCodes.VALIDATION_ERROR, 'Level must be a non-negative integer', 400);
+    }
+
+    const file = await getTiledFile(projectId, fileId, res);
+    if (!file) return res;
+
+    const status = tileService.getStatus(file);
+    if (status !== 'ready') {
+      return sendError(res, ErrorCodes.NOT_FOUND, `Tiles are not available (${status})`, 404, {
+        status,
+      });
+    }
+
+    const level = tileService.getLevel(file, levelNumber);
+    if (!level) {
+      return sendError(res, ErrorCodes.NOT_FOUND, 'Level not found', 404);
+    }
+
+    const columns = parseRange(req.query.columns, level.columns);
+    const rows = parseRange(req.query.rows, level.rows);
+    if (!columns || !rows) {
+      return sendError(
+        res,
+        ErrorCodes.VALIDATION_ERROR,
+        'columns and rows must be an index or an inclusive range like 0-3',
+        400
+      );
+    }
+
+    const tileCount = (columns.to - columns.from + 1) * (rows.to - rows.from + 1);
+    if (tileCount > MAX_TILES_PER_REQUEST) {
+      return sendError(
+        res,
+        ErrorCodes.VALIDATION_ERROR,
+        `At most ${MAX_TILES_PER_REQUEST} tiles can be requested at once; narrow columns and rows`,
+        400,
+        { requested: tileCount, columns: level.columns, rows: level.rows }
+      );
+    }
+
+    return sendSuccess(res, await tileService.getTileUrls(file, level, columns, rows));
+  } catch (error) {
+    console.error('Error getting tile URLs:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to get tile URLs', 500);
+  }
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Load an uploaded file whose tiles may be served, sending an error otherwise
+ */
+async function getTiledFile(
+  projectId: string,
+  fileId: string,
+  res: Response
+): Promise<FileMetadata | null> {
+  const file = await metadataRepository.getFileById(projectId, fileId);
+  if (!file || file.status === 'deleted') {
+    sendError(res, ErrorCodes.FILE_NOT_FOUND, 'File not found', 404);
+    return null;
+  }
+
+  if (file.status === 'quarantined') {
+    sendError(res, ErrorCodes.FILE_QUARANTINED, 'File is quarantined and cannot be viewed', 403, {
+      reason: file.quarantineReason,
+    });
+    return null;
+  }
+
+  if (file.status !== 'uploaded') {
+    sendError(res, ErrorCodes.FILE_NOT_FOUND, 'File upload has not been confirmed', 404);
+    return null;
+  }
+
+  return file;
+}
+
+/**
+ * Parse a `3` or `0-3` query value, clamped to the level's grid
+ *
+ * Defaults to the whole grid; null when the value is malformed or misses the grid.
+ */
+function parseRange(value: unknown, count: number): TileRange | null {
+  if (value === undefined) {
+    return { from: 0, to: count - 1 };
+  }
+
+  const match = typeof value === 'string' ? /^(\d+)(?:-(\d+))?$/.exec(value) : null;
+  if (!match) {
+    return null;
+  }
+
+  const from = Number(match[1]);
+  const to = Math.min(Number(match[2] ?? match[1]), count - 1);
+  return from <= to ? { from, to } : null;
+}
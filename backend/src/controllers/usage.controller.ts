@@ -0,0 +1,24 @@
+/**
+ * Usage Controller - Reports storage consumption against quotas
+ */
+
+import { Request, Response } from 'express';
+import { quotaService } from '../services/quota.service';
+import { sendSuccess, sendError, ErrorCodes } from '../utils';
+
+/**
+ * Get the current user's usage, in total and per owned project
+ * GET /usage
+ */
+export async function getUsage(req: Request, res: Response): Promise<Response> {
+  try {
+    const userId = (req as Request & { userId?: string }).userId || 'demo-user';
+
+    const usage = await quotaService.getUsage(userId);
+
+    return sendSuccess(res, usage);
+  } catch (error) {
+    console.error('Error getting usage:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to get usage', 500);
+  }
+}
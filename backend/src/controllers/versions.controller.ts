@@ -0,0 +1,482 @@
+/**
+ * Versions Controller - Handles file version uploads, history, download and restore
+ *
+ * Each version is stored under its own key and recorded as a `VERSION#` item in
+ * the project partition. The file record always describes the current version.
+ * Files uploaded before versioning have no version records; their content is
+ * treated as version 1 until a new version is uploaded.
+ */
+
+import { Request, Response } from 'express';
+import { storageService } from '../services/storage.service';
+import { metadataRepository } from '../services/metadata.service';
+import { uploadVerificationService } from '../services/upload-verification.service';
+import { quotaService } from '../services/quota.service';
+import { fileService, FileOperationError } from '../services/file.service';
+import { cursorService, InvalidCursorError } from '../services/cursor.service';
+import { auditService } from '../services/audit.service';
+import { ProjectRequest } from '../middleware/project-access.middleware';
+import { getAuditActor } from '../middleware/request-context.middleware';
+import {
+  sendSuccess,
+  sendError,
+  ErrorCodes,
+  validateUploadRequest,
+  isMimeTypeAllowedForProject,
+  getFileExtension,
+  sanitizeFileName,
+  buildVersionSortKey,
+  getCurrentVersion,
+  isConditionalCheckFailed,
+} from '../utils';
+import {
+  FileMetadata,
+  FileVersion,
+  UploadFileRequest,
+  UploadVersionResponse,
+  DownloadFileResponse,
+  ListFileVersionsResponse,
+} from '../types';
+
+/**
+ * Request an upload URL for a new version of a file
+ * POST /projects/:projectId/files/:fileId/versions
+ */
+export async function requestVersionUpload(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId, fileId } = req.params;
+    const { project } = req as ProjectRequest;
+    const { fileName, fileType, fileSize, checksumSha256 } = req.body as UploadFileRequest;
+    const actor = getAuditActor(req);
+
+    const validation = validateUploadRequest(fileName, fileType, fileSize);
+    if (!validation.valid) {
+      return sendError(res, ErrorCodes.VALIDATION_ERROR, validation.error!, 400);
+    }
+
+    if (!isMimeTypeAllowedForProject(fileType, project.allowedMimeTypes)) {
+      return sendError(
+        res,
+        ErrorCodes.INVALID_FILE_TYPE,
+        `File type '${fileType}' is not allowed in this project`,
+        400
+      );
+    }
+
+    const file = await getVersionedFile(projectId, fileId, res);
+    if (!file) return res;
+
+    // The new version replaces the current one in the project's usage
+    const quotaViolation = await quotaService.checkUpload(project, {
+      fileCountDelta: 0,
+      sizeDelta: fileSize - file.fileSize,
+    });
+    if (quotaViolation) {
+      return sendError(
+        res,
+        ErrorCodes.QUOTA_EXCEEDED,
+        quotaService.describeViolation(quotaViolation),
+        413,
+        quotaViolation
+      );
+    }
+
+    // Keep a record of the current content before it stops being current
+    await ensureVersionRecord(projectId, file);
+
+    const latest = await metadataRepository.getFileVersions(projectId, fileId, {
+      newestFirst: true,
+      limit: 1,
+    });
+    const version = Math.max(getCurrentVersion(file), latest.versions[0]?.version || 0) + 1;
+
+    const sanitizedFileName = sanitizeFileName(fileName);
+    const { uploadUrl, s3Key, headers, expiresIn } = await storageService.generateUploadUrl(
+      projectId,
+      fileId,
+      sanitizedFileName,
+      fileType,
+      { fileSize, version, checksumSha256 }
+    );
+
+    const versionRecord = await metadataRepository.createFileVersion({
+      projectId,
+      fileId,
+      version,
+      fileName: sanitizedFileName,
+      fileType,
+      fileExtension: getFileExtension(sanitizedFileName),
+      fileSize,
+      s3Key,
+      uploadedBy: actor.userId,
+      expectedChecksumSha256: checksumSha256,
+    });
+
+    await auditService.record(actor, {
+      projectId,
+      action: 'file.upload_requested',
+      resourceType: 'file',
+      resourceId: fileId,
+      after: versionRecord,
+      details: { version },
+    });
+
+    const response: UploadVersionResponse = {
+      fileId,
+      version,
+      uploadUrl,
+      uploadHeaders: headers,
+      expiresIn,
+    };
+
+    return sendSuccess(res, response, 201);
+  } catch (error: unknown) {
+    console.error('Error requesting version upload:', error);
+
+    if (isConditionalCheckFailed(error)) {
+      return sendError(
+        res,
+        ErrorCodes.CONFLICT,
+        'Another version upload was started at the same time, please retry',
+        409
+      );
+    }
+
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to generate upload URL', 500);
+  }
+}
+
+/**
+ * Confirm a version upload completed and make it current
+ * POST /projects/:projectId/files/:fileId/versions/:version/confirm
+ */
+export async function confirmVersionUpload(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId, fileId } = req.params;
+    const { project } = req as ProjectRequest;
+
+    const versionNumber = parseVersion(req, res);
+    if (!versionNumber) return res;
+
+    const file = await getVersionedFile(projectId, fileId, res);
+    if (!file) return res;
+
+    const version = await metadataRepository.getFileVersion(projectId, fileId, versionNumber);
+    if (!version) {
+      return sendError(res, ErrorCodes.VERSION_NOT_FOUND, 'Version not found', 404);
+    }
+
+    if (version.status === 'uploaded') {
+      return sendSuccess(res, version);
+    }
+
+    if (version.status === 'expired') {
+      return sendError(
+        res,
+        ErrorCodes.UPLOAD_EXPIRED,
+        'Version upload was not confirmed in time; request a new upload URL',
+        410
+      );
+    }
+
+    const verification = await uploadVerificationService.verify(version);
+    if (!verification.exists) {
+      return sendError(
+        res,
+        ErrorCodes.VALIDATION_ERROR,
+        'File has not been uploaded to storage',
+        400
+      );
+    }
+
+    if (!verification.valid) {
+      return sendError(
+        res,
+        ErrorCodes.UPLOAD_VERIFICATION_FAILED,
+        uploadVerificationService.describeMismatches(verification.mismatches),
+        422,
+        { mismatches: verification.mismatches }
+      );
+    }
+
+    const result = await fileService.acceptVersionUpload(project, file, version, getAuditActor(req), {
+      checksumSha256: verification.checksumSha256,
+    });
+    return sendSuccess(res, result.version);
+  } catch (error) {
+    if (error instanceof FileOperationError) {
+      return sendError(res, error.code, error.message, error.statusCode, error.details);
+    }
+
+    console.error('Error confirming version upload:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to confirm version upload', 500);
+  }
+}
+
+/**
+ * List the uploaded versions of a file, newest first
+ * GET /projects/:projectId/files/:fileId/versions
+ */
+export async function listVersions(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId, fileId } = req.params;
+    const { limit, lastKey } = req.query;
+
+    const file = await metadataRepository.getFileById(projectId, fileId);
+    if (!file || file.status === 'deleted') {
+      return sendError(res, ErrorCodes.FILE_NOT_FOUND, 'File not found', 404);
+    }
+
+    const options: {
+      limit?: number;
+      lastKey?: Record<string, unknown>;
+    } = {};
+
+    if (limit) {
+      options.limit = Math.min(parseInt(limit as string, 10) || 50, 100);
+    }
+
+    const cursorScope = `versions:${projectId}:${fileId}`;
+    options.lastKey = cursorService.decode(
+      typeof lastKey === 'string' ? lastKey : undefined,
+      cursorScope
+    );
+
+    const result = await metadataRepository.getFileVersions(projectId, fileId, {
+      ...options,
+      status: 'uploaded',
+      newestFirst: true,
+    });
+
+    // Files that were never re-uploaded only have their original content
+    const versions =
+      result.versions.length === 0 && !result.lastKey && !options.lastKey && file.status === 'uploaded'
+        ? [toVersionRecord(projectId, file)]
+        : result.versions;
+
+    const response: ListFileVersionsResponse = {
+      fileId,
+      currentVersion: getCurrentVersion(file),
+      versions,
+      nextKey: cursorService.encode(result.lastKey, cursorScope),
+    };
+
+    return sendSuccess(res, response);
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return sendError(res, ErrorCodes.INVALID_CURSOR, error.message, 400);
+    }
+
+    console.error('Error listing versions:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to list versions', 500);
+  }
+}
+
+/**
+ * Get a download URL for a specific version
+ * GET /projects/:projectId/files/:fileId/versions/:version
+ */
+export async function getVersionDownloadUrl(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId, fileId } = req.params;
+
+    const versionNumber = parseVersion(req, res);
+    if (!versionNumber) return res;
+
+    const file = await metadataRepository.getFileById(projectId, fileId);
+    if (!file || file.status === 'deleted') {
+      return sendError(res, ErrorCodes.FILE_NOT_FOUND, 'File not found', 404);
+    }
+
+    const version = await findUploadedVersion(projectId, file, versionNumber);
+    if (!version) {
+      return sendError(res, ErrorCodes.VERSION_NOT_FOUND, 'Version not found', 404);
+    }
+
+    const { downloadUrl, expiresIn } = await storageService.generateDownloadUrl(
+      version.s3Key,
+      version.fileName
+    );
+
+    await auditService.record(getAuditActor(req), {
+      projectId,
+      action: 'file.download_url_issued',
+      resourceType: 'file',
+      resourceId: fileId,
+      details: { version: version.version, expiresIn },
+    });
+
+    const response: DownloadFileResponse = {
+      fileId,
+      fileName: version.fileName,
+      version: version.version,
+      downloadUrl,
+      expiresIn,
+    };
+
+    return sendSuccess(res, response);
+  } catch (error) {
+    console.error('Error getting version download URL:', error);
+    return sendError(
+      res,
+      ErrorCodes.INTERNAL_ERROR,
+      'Failed to generate download URL',
+      500
+    );
+  }
+}
+
+/**
+ * Restore a previous version as the current one
+ * POST /projects/:projectId/files/:fileId/versions/:version/restore
+ */
+export async function restoreVersion(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId, fileId } = req.params;
+    const { project } = req as ProjectRequest;
+
+    const versionNumber = parseVersion(req, res);
+    if (!versionNumber) return res;
+
+    const file = await getVersionedFile(projectId, fileId, res);
+    if (!file) return res;
+
+    const version = await findUploadedVersion(projectId, file, versionNumber);
+    if (!version) {
+      return sendError(res, ErrorCodes.VERSION_NOT_FOUND, 'Version not found', 404);
+    }
+
+    if (version.version === getCurrentVersion(file)) {
+      return sendSuccess(res, file);
+    }
+
+    await fileService.checkQuota(project, {
+      fileCountDelta: 0,
+      sizeDelta: version.fileSize - file.fileSize,
+    });
+
+    const updatedFile = await fileService.makeVersionCurrent(project.ownerId, file, version);
+    if (!updatedFile) {
+      return sendError(res, ErrorCodes.CONFLICT, 'File changed while the version was being restored', 409);
+    }
+
+    await auditService.record(getAuditActor(req), {
+      projectId,
+      action: 'file.version_restored',
+      resourceType: 'file',
+      resourceId: fileId,
+      before: file,
+      after: updatedFile,
+      details: { version: version.version },
+    });
+
+    return sendSuccess(res, updatedFile);
+  } catch (error) {
+    if (error instanceof FileOperationError) {
+      return sendError(res, error.code, error.message, error.statusCode, error.details);
+    }
+
+    console.error('Error restoring version:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to restore version', 500);
+  }
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Parse the `:version` route parameter, sending a 400 when it is invalid
+ */
+function parseVersion(req: Request, res: Response): number | null {
+  const version = Number(req.params.version);
+  if (!Number.isInteger(version) || version < 1) {
+    sendError(res, ErrorCodes.VALIDATION_ERROR, 'Version must be a positive integer', 400);
+    return null;
+  }
+  return version;
+}
+
+/**
+ * Load an uploaded file that can take new versions, sending an error otherwise
+ */
+async function getVersionedFile(
+  projectId: string,
+  fileId: string,
+  res: Response
+): Promise<FileMetadata | null> {
+  const file = await metadataRepository.getFileById(projectId, fileId);
+  if (!file || file.status === 'deleted') {
+    sendError(res, ErrorCodes.FILE_NOT_FOUND, 'File not found', 404);
+    return null;
+  }
+
+  if (file.status === 'quarantined') {
+    sendError(res, ErrorCodes.FILE_QUARANTINED, 'File is quarantined', 409);
+    return null;
+  }
+
+  if (file.status !== 'uploaded') {
+    sendError(res, ErrorCodes.CONFLICT, 'File upload has not been confirmed', 409);
+    return null;
+  }
+
+  return file;
+}
+
+/**
+ * Describe the file's current content as a version record
+ */
+function toVersionRecord(projectId: string, file: FileMetadata): FileVersion {
+  return {
+    PK: `PROJECT#${projectId}`,
+    SK: buildVersionSortKey(file.fileId, getCurrentVersion(file)),
+    fileId: file.fileId,
+    version: getCurrentVersion(file),
+    fileName: file.fileName,
+    fileType: file.fileType,
+    fileExtension: file.fileExtension,
+    fileSize: file.fileSize,
+    s3Key: file.s3Key,
+    uploadedBy: file.uploadedBy,
+    uploadedAt: file.updatedAt || file.uploadedAt,
+    status: 'uploaded',
+    ...(file.expectedChecksumSha256 && { expectedChecksumSha256: file.expectedChecksumSha256 }),
+    ...(file.checksumSha256 && { checksumSha256: file.checksumSha256 }),
+    ...(file.detectedType && { detectedType: file.detectedType }),
+  };
+}
+
+/**
+ * Record the file's current content as a version if it has no record yet
+ */
+async function ensureVersionRecord(projectId: string, file: FileMetadata): Promise<void> {
+  const existing = await metadataRepository.getFileVersion(
+    projectId,
+    file.fileId,
+    getCurrentVersion(file)
+  );
+  if (existing) return;
+
+  const record = toVersionRecord(projectId, file);
+  await metadataRepository.createFileVersion({ ...record, projectId }).catch((error) => {
+    // Another request recorded it first
+    if (!isConditionalCheckFailed(error)) throw error;
+  });
+}
+
+/**
+ * Find an uploaded version, falling back to the file itself for its current version
+ */
+async function findUploadedVersion(
+  projectId: string,
+  file: FileMetadata,
+  versionNumber: number
+): Promise<FileVersion | null> {
+  const version = await metadataRepository.getFileVersion(projectId, file.fileId, versionNumber);
+  if (version) {
+    return version.status === 'uploaded' ? version : null;
+  }
+
+  return versionNumber === getCurrentVersion(file) && file.status === 'uploaded'
+    ? toVersionRecord(projectId, file)
+    : null;
+}
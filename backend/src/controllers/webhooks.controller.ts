@@ -0,0 +1,291 @@
+/**
+ * Webhooks Controller - Manages a project's webhook subscriptions and their deliveries
+ *
+ * Secrets are only returned when a webhook is created or its secret rotated,
+ * and are left out of audit snapshots.
+ */
+
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { metadataRepository } from '../services/metadata.service';
+import { webhookService } from '../services/webhook.service';
+import { auditService } from '../services/audit.service';
+import { cursorService, InvalidCursorError } from '../services/cursor.service';
+import { getAuditActor } from '../middleware/request-context.middleware';
+import { sendSuccess, sendError, ErrorCodes } from '../utils';
+import {
+  CreateWebhookRequest,
+  ListWebhookDeliveriesQuery,
+  ListWebhookDeliveriesResponse,
+  ListWebhooksResponse,
+  UpdateWebhookRequest,
+  Webhook,
+  WebhookResponse,
+} from '../types';
+
+/**
+ * Most webhooks a project can have
+ */
+const MAX_WEBHOOKS_PER_PROJECT = 20;
+
+const INVALID_URL_MESSAGE =
+  'Webhook URL must use http or https and its host must resolve to public addresses only';
+
+/**
+ * List a project's webhooks
+ * GET /projects/:projectId/webhooks
+ */
+export async function listWebhooks(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId } = req.params;
+
+    const webhooks = await metadataRepository.getWebhooks(projectId);
+
+    const response: ListWebhooksResponse = { webhooks: webhooks.map(withoutSecret) };
+    return sendSuccess(res, response);
+  } catch (error) {
+    console.error('Error listing webhooks:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to list webhooks', 500);
+  }
+}
+
+/**
+ * Subscribe a URL to a project's events; the response holds the signing secret
+ * POST /projects/:projectId/webhooks
+ */
+export async function createWebhook(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId } = req.params;
+    const actor = getAuditActor(req);
+    const { url, events, description, active } = req.body as CreateWebhookRequest;
+
+    if (!(await webhookService.isAllowedUrl(url))) {
+      return sendError(res, ErrorCodes.INVALID_WEBHOOK_URL, INVALID_URL_MESSAGE, 400);
+    }
+
+    const existing = await metadataRepository.getWebhooks(projectId);
+    if (existing.length >= MAX_WEBHOOKS_PER_PROJECT) {
+      return sendError(
+        res,
+        ErrorCodes.WEBHOOK_LIMIT_REACHED,
+        `A project can have at most ${MAX_WEBHOOKS_PER_PROJECT} webhooks`,
+        409
+      );
+    }
+
+    const webhook = await metadataRepository.createWebhook({
+      webhookId: uuidv4(),
+      projectId,
+      url,
+      events,
+      ...(description && { description }),
+      active: active ?? true,
+      secret: webhookService.createSecret(),
+      createdBy: actor.userId,
+    });
+
+    await auditService.record(actor, {
+      projectId,
+      action: 'webhook.created',
+      resourceType: 'webhook',
+      resourceId: webhook.webhookId,
+      after: withoutSecret(webhook),
+    });
+
+    return sendSuccess(res, webhook, 201);
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to create webhook', 500);
+  }
+}
+
+/**
+ * Get a webhook
+ * GET /projects/:projectId/webhooks/:webhookId
+ */
+export async function getWebhook(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId, webhookId } = req.params;
+
+    const webhook = await metadataRepository.getWebhook(projectId, webhookId);
+    if (!webhook) {
+      return sendError(res, ErrorCodes.WEBHOOK_NOT_FOUND, 'Webhook not found', 404);
+    }
+
+    return sendSuccess(res, withoutSecret(webhook));
+  } catch (error) {
+    console.error('Error getting webhook:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to get webhook', 500);
+  }
+}
+
+/**
+ * Change a webhook's URL, events, description or whether it is active
+ * PATCH /projects/:projectId/webhooks/:webhookId
+ */
+export async function updateWebhook(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId, webhookId } = req.params;
+    const updates = req.body as UpdateWebhookRequest;
+
+    if (updates.url !== undefined && !(await webhookService.isAllowedUrl(updates.url))) {
+      return sendError(res, ErrorCodes.INVALID_WEBHOOK_URL, INVALID_URL_MESSAGE, 400);
+    }
+
+    const existing = await metadataRepository.getWebhook(projectId, webhookId);
+    if (!existing) {
+      return sendError(res, ErrorCodes.WEBHOOK_NOT_FOUND, 'Webhook not found', 404);
+    }
+
+    const webhook = await metadataRepository.updateWebhook(projectId, webhookId, {
+      ...updates,
+      // An empty description removes it
+      ...(updates.description === '' && { description: null }),
+    });
+    if (!webhook) {
+      return sendError(res, ErrorCodes.WEBHOOK_NOT_FOUND, 'Webhook not found', 404);
+    }
+
+    await auditService.record(getAuditActor(req), {
+      projectId,
+      action: 'webhook.updated',
+      resourceType: 'webhook',
+      resourceId: webhookId,
+      before: withoutSecret(existing),
+      after: withoutSecret(webhook),
+    });
+
+    return sendSuccess(res, withoutSecret(webhook));
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to update webhook', 500);
+  }
+}
+
+/**
+ * Replace a webhook's signing secret; the response holds the new secret
+ * POST /projects/:projectId/webhooks/:webhookId/secret
+ */
+export async function rotateWebhookSecret(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId, webhookId } = req.params;
+
+    const webhook = await metadataRepository.updateWebhook(projectId, webhookId, {
+      secret: webhookService.createSecret(),
+    });
+    if (!webhook) {
+      return sendError(res, ErrorCodes.WEBHOOK_NOT_FOUND, 'Webhook not found', 404);
+    }
+
+    await auditService.record(getAuditActor(req), {
+      projectId,
+      action: 'webhook.secret_rotated',
+      resourceType: 'webhook',
+      resourceId: webhookId,
+    });
+
+    return sendSuccess(res, webhook);
+  } catch (error) {
+    console.error('Error rotating webhook secret:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to rotate webhook secret', 500);
+  }
+}
+
+/**
+ * Delete a webhook and its delivery history
+ * DELETE /projects/:projectId/webhooks/:webhookId
+ */
+export async function deleteWebhook(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId, webhookId } = req.params;
+
+    const existing = await metadataRepository.getWebhook(projectId, webhookId);
+    if (!existing) {
+      return sendError(res, ErrorCodes.WEBHOOK_NOT_FOUND, 'Webhook not found', 404);
+    }
+
+    await metadataRepository.deleteWebhook(projectId, webhookId);
+
+    await auditService.record(getAuditActor(req), {
+      projectId,
+      action: 'webhook.deleted',
+      resourceType: 'webhook',
+      resourceId: webhookId,
+      before: withoutSecret(existing),
+    });
+
+    return sendSuccess(res, { message: 'Webhook deleted' });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to delete webhook', 500);
+  }
+}
+
+/**
+ * Send a test event to a webhook and report the attempt
+ * POST /projects/:projectId/webhooks/:webhookId/test
+ */
+export async function testWebhook(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId, webhookId } = req.params;
+
+    const webhook = await metadataRepository.getWebhook(projectId, webhookId);
+    if (!webhook) {
+      return sendError(res, ErrorCodes.WEBHOOK_NOT_FOUND, 'Webhook not found', 404);
+    }
+
+    const delivery = await webhookService.sendTest(webhook, getAuditActor(req).userId);
+    return sendSuccess(res, delivery);
+  } catch (error) {
+    console.error('Error testing webhook:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to send test delivery', 500);
+  }
+}
+
+/**
+ * List a webhook's deliveries and their attempts, newest first
+ * GET /projects/:projectId/webhooks/:webhookId/deliveries
+ */
+export async function listWebhookDeliveries(req: Request, res: Response): Promise<Response> {
+  try {
+    const { projectId, webhookId } = req.params;
+    // Parsed by webhookDeliveriesQuerySchema
+    const { status, limit, lastKey } = req.query as unknown as ListWebhookDeliveriesQuery;
+
+    const webhook = await metadataRepository.getWebhook(projectId, webhookId);
+    if (!webhook) {
+      return sendError(res, ErrorCodes.WEBHOOK_NOT_FOUND, 'Webhook not found', 404);
+    }
+
+    const cursorScope = `deliveries:${projectId}:${webhookId}:${status ?? ''}`;
+    const result = await metadataRepository.getWebhookDeliveries(projectId, webhookId, {
+      status,
+      limit: Math.min(limit || 20, 100),
+      lastKey: cursorService.decode(lastKey, cursorScope),
+    });
+
+    const response: ListWebhookDeliveriesResponse = {
+      deliveries: result.deliveries,
+      nextKey: cursorService.encode(result.lastKey, cursorScope),
+    };
+
+    return sendSuccess(res, response);
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return sendError(res, ErrorCodes.INVALID_CURSOR, error.message, 400);
+    }
+
+    console.error('Error listing webhook deliveries:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to list webhook deliveries', 500);
+  }
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Webhook as shown outside its creation and secret rotation
+ */
+function withoutSecret(webhook: Webhook): WebhookResponse {
+  const { secret: _secret, ...response } = webhook;
+  return response;
+}
@@ -7,14 +7,21 @@
  */
 
 import serverless from 'serverless-http';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
 import { app } from './app';
+import { eventBus } from './services/event-bus.service';
+import { backgroundQueue } from './services/background-queue.service';
+import { uploadSweeperService, SweepReport } from './services/upload-sweeper.service';
+import { trashService, PurgeReport } from './services/trash.service';
+import { webhookService, RetryReport } from './services/webhook.service';
+import { searchService } from './services/search.service';
+import {
+  uploadNotificationService,
+  NotificationReport,
+} from './services/upload-notification.service';
+import { DynamoDBStreamEvent, S3NotificationEvent } from './types';
 
-/**
- * Lambda handler for API Gateway events
- * 
- * Supports both REST API and HTTP API (v1 and v2 payloads)
- */
-export const handler = serverless(app, {
+const api = serverless(app, {
   // Handle binary responses (for file downloads)
   binary: [
     'application/octet-stream',
@@ -30,14 +37,11 @@ export const handler = serverless(app, {
     // Add Lambda context to request for logging/tracing
     (request as typeof request & { lambdaContext?: unknown }).lambdaContext = _context;
     
-    // Extract user info from API Gateway authorizer if available
+    // Pass claims verified by an API Gateway authorizer to the auth middleware
     if (event.requestContext?.authorizer) {
       const claims = event.requestContext.authorizer.claims || event.requestContext.authorizer;
       if (claims.sub) {
-        request.headers['x-user-id'] = claims.sub;
-      }
-      if (claims.email) {
-        request.headers['x-user-email'] = claims.email;
+        (request as typeof request & { authorizerClaims?: unknown }).authorizerClaims = claims;
       }
     }
   },
@@ -51,6 +55,18 @@ export const handler = serverless(app, {
   },
 });
 
+/**
+ * Lambda handler for API Gateway events
+ * 
+ * Supports both REST API and HTTP API (v1 and v2 payloads). The response is
+ * returned once the events, previews and tiles it queued were handled.
+ */
+export const handler: serverless.Handler = async (event, context) => {
+  const response = await api(event, context);
+  await finishBackgroundWork();
+  return response;
+};
+
 /**
  * Warmup handler to keep Lambda warm
  * Use with CloudWatch Events for scheduled warming
@@ -64,3 +80,91 @@ export const warmup = async (event: { source?: string }): Promise<{ statusCode:
   // Forward to main handler if not a warmup event
   return { statusCode: 200, body: 'OK' };
 };
+
+/**
+ * Scheduled handler that expires abandoned pending uploads
+ * Use with CloudWatch Events for scheduled sweeping
+ */
+export const sweepPendingUploads = async (): Promise<SweepReport> => {
+  const report = await uploadSweeperService.sweep();
+  console.log(
+    `Expired ${report.expired.length} pending uploads (${report.failed.length} failed)`,
+    JSON.stringify(report)
+  );
+  return report;
+};
+
+/**
+ * Scheduled handler that permanently deletes files and projects trashed
+ * longer than the retention window
+ */
+export const purgeTrash = async (): Promise<PurgeReport> => {
+  const report = await trashService.purgeExpired();
+  console.log(
+    `Purged ${report.projects.length} projects and ${report.files.length} files (${report.failed.length} failed)`,
+    JSON.stringify(report)
+  );
+  return report;
+};
+
+/**
+ * Scheduled handler that retries webhook deliveries whose retry timer did not
+ * fire, such as on an instance that was recycled meanwhile
+ */
+export const retryWebhookDeliveries = async (): Promise<RetryReport> => {
+  const report = await webhookService.retryDue();
+  console.log(
+    `Retried ${report.attempted} webhook deliveries (${report.succeeded} succeeded, ${report.failed} failed)`,
+    JSON.stringify(report)
+  );
+  return report;
+};
+
+/**
+ * Handler for S3 ObjectCreated notifications that confirms uploads whose
+ * client never called confirm
+ */
+export const handleStorageNotifications = async (
+  event: S3NotificationEvent
+): Promise<NotificationReport> => {
+  const s3Keys = event.Records
+    .filter((record) => record.eventName.startsWith('ObjectCreated:'))
+    // Keys arrive URL-encoded, with spaces as '+'
+    .map((record) => decodeURIComponent(record.s3.object.key.replace(/\+/g, ' ')));
+
+  const report = await uploadNotificationService.handleObjectsCreated(s3Keys);
+  await finishBackgroundWork();
+  console.log(
+    `Confirmed ${report.confirmed.length} uploads from storage notifications (${report.failed.length} failed)`,
+    JSON.stringify(report)
+  );
+  return report;
+};
+
+/**
+ * Handler for the metadata table's stream that keeps the search token entries
+ * of projects and files in step with their records
+ *
+ * Failing throws, so Lambda retries the batch; indexing a change again is harmless.
+ */
+export const indexSearchRecords = async (event: DynamoDBStreamEvent): Promise<void> => {
+  await searchService.indexRecords(
+    event.Records.map(({ dynamodb }) => ({
+      previous: dynamodb.OldImage && unmarshall(dynamodb.OldImage),
+      current: dynamodb.NewImage && unmarshall(dynamodb.NewImage),
+    }))
+  );
+};
+
+// ==================== HELPERS ====================
+
+/**
+ * Run the queued event subscribers and preview and tile jobs
+ *
+ * The instance is frozen once a handler returns and may never run again, so
+ * anything still queued then would be lost.
+ */
+async function finishBackgroundWork(): Promise<void> {
+  await eventBus.whenIdle();
+  await backgroundQueue.whenIdle();
+}
@@ -1,12 +1,20 @@
 /**
  * Authentication Middleware
- * 
- * This middleware extracts user information from the request.
- * In production, this would validate JWT tokens from AWS Cognito.
+ *
+ * This middleware verifies the Bearer JWT from the Authorization header against
+ * the configured JWKS (AWS Cognito compatible) and attaches the user claims to
+ * the request.
  */
 
 import { Request, Response, NextFunction } from 'express';
+import { AUTH_CONFIG } from '../config/auth.config';
+import {
+  getTokenVerifier,
+  claimsToUserContext,
+  TokenVerificationError,
+} from '../services/token.service';
 import { sendError, ErrorCodes } from '../utils';
+import { UserContext } from '../types';
 
 /**
  * Extended Request type with user context
@@ -17,70 +25,145 @@ export interface AuthenticatedRequest extends Request {
   userRoles?: string[];
 }
 
+/**
+ * Request carrying claims already verified by an API Gateway authorizer
+ * (attached by the Lambda handler, never taken from client headers)
+ */
+interface AuthorizerRequest extends Request {
+  authorizerClaims?: Record<string, unknown>;
+}
+
+/**
+ * Outcome of resolving the caller's identity
+ */
+interface AuthResult {
+  user?: UserContext;
+  error?: { code: string; message: string; statusCode: number };
+}
+
+/**
+ * Attach user info to request
+ */
+function attachUser(req: Request, user: UserContext): void {
+  (req as AuthenticatedRequest).userId = user.userId;
+  (req as AuthenticatedRequest).userEmail = user.email;
+  (req as AuthenticatedRequest).userRoles = user.roles || [];
+}
+
+/**
+ * Resolve the caller from a Bearer token, authorizer claims, or (with
+ * AUTH_DEV_HEADERS=true only) the X-User-Id / X-User-Email headers
+ */
+async function resolveUser(req: Request): Promise<AuthResult> {
+  const authHeader = req.headers.authorization;
+
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    const verifier = getTokenVerifier();
+    if (!verifier) {
+      console.error('Bearer token received but no JWKS is configured');
+      return {
+        error: {
+          code: ErrorCodes.INTERNAL_ERROR,
+          message: 'Authentication is not configured',
+          statusCode: 500,
+        },
+      };
+    }
+
+    try {
+      return { user: await verifier.verify(authHeader.substring(7)) };
+    } catch (error) {
+      if (error instanceof TokenVerificationError) {
+        return { error: { code: error.code, message: error.message, statusCode: 401 } };
+      }
+      throw error;
+    }
+  }
+
+  const authorizerClaims = (req as AuthorizerRequest).authorizerClaims;
+  if (authorizerClaims?.sub) {
+    return { user: claimsToUserContext(authorizerClaims) };
+  }
+
+  if (AUTH_CONFIG.allowDevHeaders) {
+    const userId = req.headers['x-user-id'] as string;
+    if (userId) {
+      return {
+        user: {
+          userId,
+          email: req.headers['x-user-email'] as string,
+          roles: [],
+        },
+      };
+    }
+  }
+
+  return {};
+}
+
 /**
  * Authentication middleware
- * 
- * For development: extracts user ID from header or uses default
- * For production: would validate JWT from Authorization header
+ *
+ * Rejects requests without valid credentials. With AUTH_DEV_HEADERS=true,
+ * requests without credentials fall back to the `demo-user` for local development.
  */
-export function authMiddleware(
+export async function authMiddleware(
   req: Request,
   res: Response,
   next: NextFunction
-): void {
-  // In production, you would:
-  // 1. Extract the JWT from Authorization header
-  // 2. Verify the token with AWS Cognito
-  // 3. Extract user claims from the token
-  
-  // For development/demo purposes, use header or default
-  const userId = req.headers['x-user-id'] as string || 'demo-user';
-  const userEmail = req.headers['x-user-email'] as string;
-  
-  // Attach user info to request
-  (req as AuthenticatedRequest).userId = userId;
-  if (userEmail) {
-    (req as AuthenticatedRequest).userEmail = userEmail;
+): Promise<void | Response> {
+  const result = await resolveUser(req);
+
+  if (result.error) {
+    return sendError(res, result.error.code, result.error.message, result.error.statusCode);
+  }
+
+  if (!result.user) {
+    if (!AUTH_CONFIG.allowDevHeaders) {
+      return sendError(res, ErrorCodes.UNAUTHORIZED, 'Authentication required', 401);
+    }
+    attachUser(req, { userId: 'demo-user', roles: [] });
+    return next();
   }
-  
+
+  attachUser(req, result.user);
   next();
 }
 
 /**
  * Optional auth middleware - doesn't fail if no auth present
  */
-export function optionalAuthMiddleware(
+export async function optionalAuthMiddleware(
   req: Request,
-  _res: Response,
+  res: Response,
   next: NextFunction
-): void {
-  const userId = req.headers['x-user-id'] as string || 'anonymous';
-  (req as AuthenticatedRequest).userId = userId;
+): Promise<void | Response> {
+  const result = await resolveUser(req);
+
+  if (result.error) {
+    return sendError(res, result.error.code, result.error.message, result.error.statusCode);
+  }
+
+  attachUser(req, result.user || { userId: 'anonymous', roles: [] });
   next();
 }
 
 /**
  * Require authentication middleware
- * Use this when authentication is strictly required
+ * Use this when authentication is strictly required (no demo-user fallback)
  */
-export function requireAuth(
+export async function requireAuth(
   req: Request,
   res: Response,
   next: NextFunction
-): void | Response {
-  const authHeader = req.headers.authorization;
-  
-  // For development, allow x-user-id header
-  if (process.env.NODE_ENV !== 'production') {
-    const userId = req.headers['x-user-id'] as string;
-    if (userId) {
-      (req as AuthenticatedRequest).userId = userId;
-      return next();
-    }
+): Promise<void | Response> {
+  const result = await resolveUser(req);
+
+  if (result.error) {
+    return sendError(res, result.error.code, result.error.message, result.error.statusCode);
   }
-  
-  // Check for Bearer token
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+
+  if (!result.user) {
     return sendError(
       res,
       ErrorCodes.UNAUTHORIZED,
@@ -88,12 +171,7 @@ export function requireAuth(
       401
     );
   }
-  
-  // In production, validate the JWT here
-  // const token = authHeader.substring(7);
-  // const decoded = await verifyToken(token);
-  
-  // For now, just pass through with demo user
-  (req as AuthenticatedRequest).userId = 'demo-user';
+
+  attachUser(req, result.user);
   next();
 }
@@ -0,0 +1,110 @@
+/**
+ * Idempotency Middleware
+ *
+ * Makes POST, PATCH and DELETE requests safe to retry: a request carrying an
+ * `Idempotency-Key` header runs once per caller and key, and its successful
+ * response is replayed, with an `Idempotent-Replayed: true` header, to
+ * retries within the window. Reusing a key for a different request, or while
+ * the first request is still running, gets a 409. Responses other than 2xx
+ * are not stored, so a failed request can be retried with the same key. Use
+ * after authentication and body parsing.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { idempotencyService, IdempotencyOutcome } from '../services/idempotency.service';
+import { sendError, ErrorCodes } from '../utils';
+import { AuthenticatedRequest } from './auth.middleware';
+
+/**
+ * Methods whose requests may carry an idempotency key
+ */
+const IDEMPOTENT_METHODS = ['POST', 'PATCH', 'DELETE'];
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Run requests with an idempotency key once, and replay their response to retries
+ */
+export async function idempotencyMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void | Response> {
+  const idempotencyKey = req.get('Idempotency-Key');
+  if (idempotencyKey === undefined || !IDEMPOTENT_METHODS.includes(req.method)) {
+    return next();
+  }
+
+  if (!idempotencyKey || idempotencyKey.length > MAX_KEY_LENGTH) {
+    return sendError(
+      res,
+      ErrorCodes.VALIDATION_ERROR,
+      `Idempotency-Key must be 1 to ${MAX_KEY_LENGTH} characters`,
+      400
+    );
+  }
+
+  // Keys are scoped to the caller, so callers cannot see each other's responses
+  const key = `${(req as AuthenticatedRequest).userId}:${idempotencyKey}`;
+  const fingerprint = idempotencyService.fingerprint(req.method, req.originalUrl, req.body);
+
+  let result: IdempotencyOutcome;
+  try {
+    result = await idempotencyService.begin(key, fingerprint);
+  } catch (error) {
+    // Running the request unprotected could repeat it, so refuse it instead
+    console.error('Error reserving idempotency key:', error);
+    return sendError(res, ErrorCodes.INTERNAL_ERROR, 'Failed to check idempotency key', 500);
+  }
+
+  switch (result.outcome) {
+    case 'replay':
+      res.setHeader('Idempotent-Replayed', 'true');
+      return res.status(result.response.statusCode).json(result.response.body);
+    case 'mismatch':
+      return sendError(
+        res,
+        ErrorCodes.IDEMPOTENCY_KEY_REUSED,
+        'Idempotency-Key was already used for a different request',
+        409
+      );
+    case 'in_progress':
+      res.setHeader('Retry-After', '1');
+      return sendError(
+        res,
+        ErrorCodes.IDEMPOTENCY_KEY_IN_USE,
+        'A request with this Idempotency-Key is still in progress',
+        409
+      );
+  }
+
+  // Store the response or free the key before sending, so a retry sent as soon
+  // as the response arrives finds the outcome
+  let settled = false;
+  const sendJson = res.json.bind(res);
+  res.json = ((body: unknown) => {
+    settled = true;
+    const settle =
+      res.statusCode >= 200 && res.statusCode < 300
+        ? idempotencyService.complete(key, { statusCode: res.statusCode, body })
+        : idempotencyService.release(key);
+
+    settle
+      .catch((error) => {
+        console.error('Error saving idempotent response:', error);
+      })
+      .finally(() => sendJson(body));
+    return res;
+  }) as Response['json'];
+
+  // Responses sent without a JSON body (or never sent) free the key
+  res.on('close', () => {
+    if (!settled) {
+      idempotencyService.release(key).catch((error) => {
+        console.error('Error releasing idempotency key:', error);
+      });
+    }
+  });
+
+  next();
+}
@@ -5,3 +5,7 @@
 export * from './auth.middleware';
 export * from './error.middleware';
 export * from './validation.middleware';
+export * from './project-access.middleware';
+export * from './request-context.middleware';
+export * from './rate-limit.middleware';
+export * from './idempotency.middleware';
@@ -0,0 +1,70 @@
+/**
+ * Rate Limit Middleware
+ *
+ * Limits how often a caller and an IP address may use a route group, and
+ * reports the limit in the `RateLimit-Limit`, `RateLimit-Remaining` and
+ * `RateLimit-Reset` headers. Refused requests get `429 RATE_LIMITED` with a
+ * `Retry-After` header. Use after authentication, so requests are counted
+ * against their caller.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { RATE_LIMIT_CONFIG } from '../config/aws.config';
+import { rateLimitService } from '../services/rate-limit.service';
+import { sendError, ErrorCodes } from '../utils';
+import { RateLimitGroup } from '../types';
+import { AuthenticatedRequest } from './auth.middleware';
+
+/**
+ * Options for a rate limit
+ */
+export interface RateLimitOptions {
+  // Tokens a request takes (default 1); requests costing 0 are not limited
+  cost?: (req: Request) => number;
+}
+
+/**
+ * Limit the requests of each caller and IP address in a route group
+ */
+export function rateLimit(group: RateLimitGroup, options: RateLimitOptions = {}) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void | Response> => {
+    if (!RATE_LIMIT_CONFIG.enabled) {
+      return next();
+    }
+
+    const cost = options.cost ? options.cost(req) : 1;
+    if (cost <= 0) {
+      return next();
+    }
+
+    try {
+      const decision = await rateLimitService.check(
+        group,
+        { userId: (req as AuthenticatedRequest).userId, ip: req.ip },
+        cost
+      );
+
+      res.setHeader('RateLimit-Limit', String(decision.limit));
+      res.setHeader('RateLimit-Remaining', String(decision.remaining));
+      res.setHeader('RateLimit-Reset', String(decision.resetAfter));
+      res.setHeader('RateLimit-Policy', `${decision.limit};w=${decision.window}`);
+
+      if (!decision.allowed) {
+        res.setHeader('Retry-After', String(decision.retryAfter));
+        return sendError(
+          res,
+          ErrorCodes.RATE_LIMITED,
+          `Too many requests; retry in ${decision.retryAfter} seconds`,
+          429,
+          { group, retryAfter: decision.retryAfter }
+        );
+      }
+
+      next();
+    } catch (error) {
+      // An unavailable store must not take the API down with it
+      console.error('Error checking rate limit:', error);
+      next();
+    }
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * Request Context Middleware
+ *
+ * Gives every request an ID, returned in the `X-Request-Id` header and the
+ * response `meta`, and recorded with the audit entries the request writes.
+ * On Lambda the invocation's request ID is used, so entries can be matched
+ * with the function's logs.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { AuditActor } from '../types';
+
+/**
+ * Request with its ID attached
+ */
+export interface RequestContextRequest extends Request {
+  requestId: string;
+}
+
+/**
+ * Request carrying the Lambda invocation context (attached by the Lambda handler)
+ */
+interface LambdaRequest extends Request {
+  lambdaContext?: { awsRequestId?: string };
+}
+
+/**
+ * Assign the request ID
+ */
+export function requestContextMiddleware(req: Request, res: Response, next: NextFunction): void {
+  const requestId = (req as LambdaRequest).lambdaContext?.awsRequestId || uuidv4();
+
+  (req as RequestContextRequest).requestId = requestId;
+  res.setHeader('X-Request-Id', requestId);
+  next();
+}
+
+/**
+ * The caller of a request, as recorded in the audit log (use after authentication)
+ */
+export function getAuditActor(req: Request): AuditActor {
+  return {
+    userId: (req as Request & { userId?: string }).userId || 'demo-user',
+    requestId: (req as Partial<RequestContextRequest>).requestId,
+    ip: req.ip,
+  };
+}
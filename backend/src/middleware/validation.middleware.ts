@@ -35,10 +35,16 @@ export function validateBody<T>(schema: ZodSchema<T>) {
 /**
  * Create a validation middleware for query parameters
  */
-export function validateQuery<T>(schema: ZodSchema<T>) {
+export function validateQuery<T>(schema: ZodSchema<T, z.ZodTypeDef, unknown>) {
   return (req: Request, res: Response, next: NextFunction): void | Response => {
     try {
-      req.query = schema.parse(req.query) as typeof req.query;
+      // Express 5 exposes req.query through a getter, so it cannot be assigned
+      Object.defineProperty(req, 'query', {
+        value: schema.parse(req.query),
+        writable: true,
+        configurable: true,
+        enumerable: true,
+      });
       next();
     } catch (error) {
       if (error instanceof ZodError) {
@@ -93,6 +99,128 @@ export const uploadFileSchema = z.object({
   fileName: z.string().min(1, 'File name is required').max(255),
   fileType: z.string().min(1, 'File type is required'),
   fileSize: z.number().positive('File size must be positive'),
+  checksumSha256: z
+    .string()
+    .regex(/^[A-Za-z0-9+/]{43}=$/, 'Checksum must be a base64-encoded SHA-256 digest')
+    .optional(),
+});
+
+/**
+ * Uploaded part schema (ETag as returned by storage for the part)
+ */
+export const uploadedPartSchema = z.object({
+  partNumber: z.number().int().min(1).max(10000),
+  etag: z.string().min(1, 'ETag is required').max(128),
+  size: z.number().int().nonnegative().optional(),
+});
+
+/**
+ * Initiate multipart upload request schema
+ */
+export const initiateMultipartSchema = uploadFileSchema.omit({ checksumSha256: true }).extend({
+  partCount: z.number().int().min(1).max(10000),
+});
+
+/**
+ * Record uploaded parts request schema
+ */
+export const recordPartsSchema = z.object({
+  parts: z.array(uploadedPartSchema).min(1).max(10000),
+});
+
+/**
+ * Complete multipart upload request schema
+ */
+export const completeMultipartSchema = z.object({
+  parts: z.array(uploadedPartSchema).min(1).max(10000).optional(),
+});
+
+/**
+ * Most custom metadata entries a file can have
+ */
+export const MAX_CUSTOM_METADATA_ENTRIES = 50;
+
+/**
+ * File tag schema; tags are compared case-insensitively, so they are stored lower-case
+ */
+const tagSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(50)
+  .transform((tag) => tag.toLowerCase());
+
+/**
+ * Custom metadata key schema
+ */
+const customMetadataKeySchema = z
+  .string()
+  .regex(
+    /^[A-Za-z][A-Za-z0-9_-]{0,63}$/,
+    'Keys must start with a letter and contain only letters, digits, _ and - (up to 64 characters)'
+  );
+
+/**
+ * Custom metadata value schema
+ */
+const customMetadataValueSchema = z.union([z.string().max(1024), z.number().finite(), z.boolean()]);
+
+/**
+ * Update file details request schema
+ */
+export const updateFileSchema = z
+  .object({
+    displayName: z.string().trim().min(1).max(255).nullable().optional(),
+    tags: z
+      .array(tagSchema)
+      .max(50)
+      .transform((tags) => Array.from(new Set(tags)))
+      .optional(),
+    customMetadata: z
+      .record(customMetadataKeySchema, customMetadataValueSchema.nullable())
+      .refine((entries) => Object.keys(entries).length <= MAX_CUSTOM_METADATA_ENTRIES, {
+        message: `At most ${MAX_CUSTOM_METADATA_ENTRIES} custom metadata entries are allowed`,
+      })
+      .optional(),
+  })
+  .refine(
+    (body) =>
+      body.displayName !== undefined || body.tags !== undefined || body.customMetadata !== undefined,
+    { message: 'At least one of displayName, tags or customMetadata is required' }
+  );
+
+/**
+ * Most files a batch request can name
+ */
+export const MAX_BATCH_SIZE = 100;
+
+/**
+ * Batch upload request schema
+ */
+export const batchUploadSchema = z.object({
+  files: z.array(uploadFileSchema).min(1, 'At least one file is required').max(MAX_BATCH_SIZE),
+});
+
+const batchFileIdsSchema = z
+  .array(z.string().min(1).max(128))
+  .min(1, 'At least one file ID is required')
+  .max(MAX_BATCH_SIZE)
+  .refine((fileIds) => new Set(fileIds).size === fileIds.length, {
+    message: 'File IDs must be unique',
+  });
+
+/**
+ * Batch confirm and metadata request schema
+ */
+export const batchFilesSchema = z.object({
+  fileIds: batchFileIdsSchema,
+});
+
+/**
+ * Batch delete request schema
+ */
+export const batchDeleteSchema = batchFilesSchema.extend({
+  hard: z.boolean().optional(),
 });
 
 /**
@@ -101,6 +229,7 @@ export const uploadFileSchema = z.object({
 export const createProjectSchema = z.object({
   name: z.string().min(1, 'Name is required').max(100),
   description: z.string().max(500).optional(),
+  allowedMimeTypes: z.array(z.string().min(1)).max(100).optional(),
 });
 
 /**
@@ -110,6 +239,27 @@ export const updateProjectSchema = z.object({
   name: z.string().min(1).max(100).optional(),
   description: z.string().max(500).optional(),
   status: z.enum(['active', 'archived', 'deleted']).optional(),
+  allowedMimeTypes: z.array(z.string().min(1)).max(100).optional(),
+});
+
+/**
+ * Project role schema
+ */
+export const projectRoleSchema = z.enum(['viewer', 'editor', 'admin']);
+
+/**
+ * Add project member request schema
+ */
+export const addMemberSchema = z.object({
+  userId: z.string().min(1, 'User ID is required').max(128),
+  role: projectRoleSchema,
+});
+
+/**
+ * Update project member request schema
+ */
+export const updateMemberSchema = z.object({
+  role: projectRoleSchema,
 });
 
 /**
@@ -120,6 +270,229 @@ export const listQuerySchema = z.object({
   lastKey: z.string().optional(),
   status: z.string().optional(),
   fileType: z.string().optional(),
+  includeTotal: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+});
+
+/**
+ * Sort direction query parameter; only valid together with `sort`
+ */
+const sortOrderSchema = z.enum(['asc', 'desc']).optional();
+
+const orderRequiresSort = {
+  check: (query: { sort?: string; order?: string }) => !query.order || !!query.sort,
+  message: { message: 'order requires sort', path: ['order'] },
+};
+
+/**
+ * List projects query parameters schema
+ */
+export const listProjectsQuerySchema = listQuerySchema
+  .omit({ fileType: true })
+  .extend({
+    status: z.enum(['active', 'archived', 'deleted']).optional(),
+    sort: z.enum(['createdAt', 'updatedAt', 'name', 'size']).optional(),
+    order: sortOrderSchema,
+  })
+  .refine(orderRequiresSort.check, orderRequiresSort.message);
+
+/**
+ * List files query parameters schema
+ *
+ * `tag` may be repeated; `metadata.<key>=<value>` filters on custom metadata.
+ */
+export const listFilesQuerySchema = listQuerySchema
+  .extend({
+    status: z.enum(['pending', 'uploaded', 'quarantined', 'expired', 'deleted']).optional(),
+    sort: z.enum(['uploadedAt', 'updatedAt', 'name', 'size']).optional(),
+    order: sortOrderSchema,
+    tag: z.union([tagSchema, z.array(tagSchema).max(10)]).optional(),
+  })
+  .passthrough()
+  .refine(orderRequiresSort.check, orderRequiresSort.message)
+  .transform(({ limit, lastKey, includeTotal, status, fileType, sort, order, tag, ...rest }, ctx) => {
+    const customMetadata: Record<string, string> = {};
+
+    for (const [param, value] of Object.entries(rest)) {
+      if (!param.startsWith('metadata.')) continue;
+
+      const key = param.slice('metadata.'.length);
+      if (!customMetadataKeySchema.safeParse(key).success || typeof value !== 'string') {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [param],
+          message: 'Expected a single value for a valid custom metadata key',
+        });
+        return z.NEVER;
+      }
+      customMetadata[key] = value;
+    }
+
+    return {
+      limit,
+      lastKey,
+      includeTotal,
+      status,
+      fileType,
+      sort,
+      order,
+      tags: tag === undefined ? undefined : Array.isArray(tag) ? tag : [tag],
+      customMetadata: Object.keys(customMetadata).length > 0 ? customMetadata : undefined,
+    };
+  });
+
+/**
+ * Timestamp or date query parameter, normalized to an ISO timestamp
+ */
+const isoDateQuerySchema = z
+  .string()
+  .refine((value) => /^\d{4}-\d{2}-\d{2}/.test(value) && !isNaN(Date.parse(value)), {
+    message: 'Must be an ISO 8601 date or timestamp',
+  })
+  .transform((value) => new Date(value).toISOString());
+
+/**
+ * Date range query parameters must not be reversed
+ */
+const fromNotAfterTo = {
+  check: (query: { from?: string; to?: string }) =>
+    !query.from || !query.to || query.from <= query.to,
+  message: { message: 'from must not be after to', path: ['from'] },
+};
+
+/**
+ * Search query parameters schema
+ */
+export const searchQuerySchema = z
+  .object({
+    q: z.string().trim().max(200).optional(),
+    type: z.enum(['file', 'project']).optional(),
+    projectId: z.string().uuid().optional(),
+    category: z
+      .enum([
+        'image',
+        'video',
+        'audio',
+        'text',
+        'pdf',
+        'document',
+        'spreadsheet',
+        'presentation',
+        'archive',
+        'other',
+      ])
+      .optional(),
+    minSize: z.string().regex(/^\d+$/).transform(Number).optional(),
+    maxSize: z.string().regex(/^\d+$/).transform(Number).optional(),
+    uploadedBy: z.string().min(1).max(128).optional(),
+    from: isoDateQuerySchema.optional(),
+    to: isoDateQuerySchema.optional(),
+    limit: z
+      .string()
+      .regex(/^\d+$/)
+      .transform(Number)
+      .pipe(z.number().int().min(1).max(100))
+      .optional(),
+    cursor: z.string().optional(),
+  })
+  .refine((query) => query.minSize === undefined || query.maxSize === undefined || query.minSize <= query.maxSize, {
+    message: 'minSize must not exceed maxSize',
+    path: ['minSize'],
+  })
+  .refine(fromNotAfterTo.check, fromNotAfterTo.message);
+
+/**
+ * Audit log filter query parameters
+ */
+const auditFiltersSchema = z.object({
+  action: z
+    .string()
+    .regex(/^[a-z]+\.[a-z_]+$/, 'Must be an audit action such as file.deleted')
+    .optional(),
+  resourceType: z.enum(['project', 'file', 'member', 'webhook']).optional(),
+  resourceId: z.string().min(1).max(128).optional(),
+  actorId: z.string().min(1).max(128).optional(),
+  from: isoDateQuerySchema.optional(),
+  to: isoDateQuerySchema.optional(),
+});
+
+/**
+ * Audit log listing query parameters schema
+ */
+export const auditQuerySchema = auditFiltersSchema
+  .extend({
+    limit: z
+      .string()
+      .regex(/^\d+$/)
+      .transform(Number)
+      .pipe(z.number().int().min(1).max(100))
+      .optional(),
+    lastKey: z.string().optional(),
+  })
+  .refine(fromNotAfterTo.check, fromNotAfterTo.message);
+
+/**
+ * Audit log export query parameters schema
+ */
+export const exportAuditQuerySchema = auditFiltersSchema
+  .extend({
+    format: z.enum(['csv', 'jsonl']).default('jsonl'),
+  })
+  .refine(fromNotAfterTo.check, fromNotAfterTo.message);
+
+/**
+ * Lifecycle events a webhook can subscribe to
+ */
+const webhookEventsSchema = z
+  .array(z.enum(['file.uploaded', 'file.deleted', 'project.updated', 'project.deleted']))
+  .min(1, 'At least one event is required')
+  .transform((events) => Array.from(new Set(events)));
+
+const webhookUrlSchema = z.string().url().max(2048);
+
+/**
+ * Create webhook request schema
+ */
+export const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  events: webhookEventsSchema,
+  description: z.string().trim().max(500).optional(),
+  active: z.boolean().optional(),
+});
+
+/**
+ * Update webhook request schema
+ */
+export const updateWebhookSchema = z
+  .object({
+    url: webhookUrlSchema.optional(),
+    events: webhookEventsSchema.optional(),
+    description: z.string().trim().max(500).nullable().optional(),
+    active: z.boolean().optional(),
+  })
+  .refine(
+    (body) =>
+      body.url !== undefined ||
+      body.events !== undefined ||
+      body.description !== undefined ||
+      body.active !== undefined,
+    { message: 'At least one of url, events, description or active is required' }
+  );
+
+/**
+ * Webhook delivery listing query parameters schema
+ */
+export const webhookDeliveriesQuerySchema = z.object({
+  status: z.enum(['pending', 'succeeded', 'failed']).optional(),
+  limit: z
+    .string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .pipe(z.number().int().min(1).max(100))
+    .optional(),
+  lastKey: z.string().optional(),
 });
 
 /**
@@ -0,0 +1,46 @@
+/**
+ * Audit Routes - API endpoints for a project's audit log
+ */
+
+import { Router } from 'express';
+import { listAuditEntries, exportAuditEntries } from '../controllers/audit.controller';
+import {
+  requireProjectAccess,
+  requireProjectRole,
+} from '../middleware/project-access.middleware';
+import {
+  validateQuery,
+  auditQuerySchema,
+  exportAuditQuerySchema,
+} from '../middleware/validation.middleware';
+
+const router = Router({ mergeParams: true });
+
+/**
+ * The audit log is reserved for project admins, and stays readable while the
+ * project is in the trash
+ */
+router.use(requireProjectAccess({ allowDeleted: true }), requireProjectRole('admin'));
+
+/**
+ * @route   GET /projects/:projectId/audit
+ * @desc    List audit entries, newest first
+ * @query   action - e.g. file.deleted (optional)
+ * @query   resourceType - project, file, member or webhook (optional)
+ * @query   resourceId - Project ID, file ID, member user ID or webhook ID (optional)
+ * @query   actorId - User who made the change; 'system' for scheduled jobs (optional)
+ * @query   from, to - Time range (optional)
+ * @query   limit - Number of results (optional, default 50, max 100)
+ * @query   lastKey - Pagination cursor (optional)
+ */
+router.get('/', validateQuery(auditQuerySchema), listAuditEntries);
+
+/**
+ * @route   GET /projects/:projectId/audit/export
+ * @desc    Download every matching audit entry, newest first
+ * @query   format - csv or jsonl (optional, default jsonl)
+ * @query   action, resourceType, resourceId, actorId, from, to - As for the listing (optional)
+ */
+router.get('/export', validateQuery(exportAuditQuerySchema), exportAuditEntries);
+
+export default router;
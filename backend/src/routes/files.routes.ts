@@ -8,28 +8,154 @@ import {
   confirmUpload,
   getDownloadUrl,
   getFileMetadata,
+  getFilePreviews,
   listFiles,
+  updateFile,
   deleteFile,
+  restoreFile,
 } from '../controllers/files.controller';
+import {
+  initiateMultipartUpload,
+  listMultipartUploads,
+  resumeMultipartUpload,
+  recordUploadedParts,
+  completeMultipartUpload,
+  abortMultipartUpload,
+} from '../controllers/multipart.controller';
+import {
+  batchRequestUpload,
+  batchConfirmUpload,
+  batchDeleteFiles,
+  batchGetFileMetadata,
+} from '../controllers/batch.controller';
+import {
+  requireProjectAccess,
+  requireProjectRole,
+} from '../middleware/project-access.middleware';
+import {
+  validateBody,
+  validateQuery,
+  uploadFileSchema,
+  updateFileSchema,
+  listFilesQuerySchema,
+  initiateMultipartSchema,
+  recordPartsSchema,
+  completeMultipartSchema,
+  batchUploadSchema,
+  batchFilesSchema,
+  batchDeleteSchema,
+} from '../middleware/validation.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { BatchDeleteRequest, BatchUploadRequest } from '../types';
+import versionsRouter from './versions.routes';
+import tilesRouter from './tiles.routes';
 
 const router = Router({ mergeParams: true });
 
+/**
+ * All file routes require access to the parent project
+ */
+router.use(requireProjectAccess());
+
 /**
  * @route   GET /projects/:projectId/files
  * @desc    List all files in a project
  * @query   fileType - Filter by MIME type (optional)
  * @query   status - Filter by status (optional)
+ * @query   sort - uploadedAt, updatedAt, name or size (optional, key order by default)
+ * @query   order - asc or desc (optional; names ascending, dates and sizes descending by default)
+ * @query   tag - Filter by tag; repeat to require several (optional)
+ * @query   metadata.<key> - Filter by custom metadata value (optional)
  * @query   limit - Number of results (optional, max 100)
  * @query   lastKey - Pagination cursor (optional)
+ * @query   includeTotal - If 'true', count all matches into totalCount (optional)
  */
-router.get('/', listFiles);
+router.get('/', validateQuery(listFilesQuerySchema), listFiles);
 
 /**
  * @route   POST /projects/:projectId/files
  * @desc    Request a presigned URL for file upload
- * @body    { fileName: string, fileType: string, fileSize: number }
+ * @body    { fileName: string, fileType: string, fileSize: number, checksumSha256?: string }
+ */
+router.post(
+  '/',
+  requireProjectRole('editor'),
+  validateBody(uploadFileSchema),
+  rateLimit('uploads'),
+  requestUpload
+);
+
+/**
+ * @route   GET /projects/:projectId/files/multipart
+ * @desc    List in-progress multipart uploads
+ * @query   limit - Number of results (optional, max 100)
+ * @query   lastKey - Pagination cursor (optional)
+ */
+router.get('/multipart', listMultipartUploads);
+
+/**
+ * @route   POST /projects/:projectId/files/multipart
+ * @desc    Start a multipart upload and get a presigned URL per part
+ * @body    { fileName: string, fileType: string, fileSize: number, partCount: number }
+ */
+router.post(
+  '/multipart',
+  requireProjectRole('editor'),
+  validateBody(initiateMultipartSchema),
+  rateLimit('uploads'),
+  initiateMultipartUpload
+);
+
+/**
+ * @route   POST /projects/:projectId/files/batch/upload
+ * @desc    Request presigned upload URLs for several files (at most 100)
+ * @body    { files: [{ fileName: string, fileType: string, fileSize: number, checksumSha256?: string }] }
+ */
+router.post(
+  '/batch/upload',
+  requireProjectRole('editor'),
+  validateBody(batchUploadSchema),
+  // Every file gets its own upload URL
+  rateLimit('uploads', { cost: (req) => (req.body as BatchUploadRequest).files.length }),
+  batchRequestUpload
+);
+
+/**
+ * @route   POST /projects/:projectId/files/batch/confirm
+ * @desc    Confirm several completed uploads
+ * @body    { fileIds: string[] }
+ */
+router.post(
+  '/batch/confirm',
+  requireProjectRole('editor'),
+  validateBody(batchFilesSchema),
+  batchConfirmUpload
+);
+
+/**
+ * @route   POST /projects/:projectId/files/batch/delete
+ * @desc    Delete several files (soft delete unless hard, which requires admin)
+ * @body    { fileIds: string[], hard?: boolean }
+ */
+router.post(
+  '/batch/delete',
+  requireProjectRole('editor'),
+  validateBody(batchDeleteSchema),
+  rateLimit('hardDeletes', {
+    cost: (req) => {
+      const { fileIds, hard } = req.body as BatchDeleteRequest;
+      return hard ? fileIds.length : 0;
+    },
+  }),
+  batchDeleteFiles
+);
+
+/**
+ * @route   POST /projects/:projectId/files/batch/metadata
+ * @desc    Get the metadata of several files
+ * @body    { fileIds: string[] }
  */
-router.post('/', requestUpload);
+router.post('/batch/metadata', validateBody(batchFilesSchema), batchGetFileMetadata);
 
 /**
  * @route   GET /projects/:projectId/files/:fileId
@@ -43,17 +169,92 @@ router.get('/:fileId', getDownloadUrl);
  */
 router.get('/:fileId/metadata', getFileMetadata);
 
+/**
+ * @route   GET /projects/:projectId/files/:fileId/previews
+ * @desc    Get presigned URLs of the file's thumbnails (and first page of PDFs)
+ */
+router.get('/:fileId/previews', getFilePreviews);
+
 /**
  * @route   POST /projects/:projectId/files/:fileId/confirm
- * @desc    Confirm that file upload is complete
+ * @desc    Confirm that file upload is complete (verifies size, type and checksum)
+ */
+router.post('/:fileId/confirm', requireProjectRole('editor'), confirmUpload);
+
+/**
+ * @route   GET /projects/:projectId/files/:fileId/multipart
+ * @desc    Resume a multipart upload: uploaded parts and fresh URLs for missing ones
+ */
+router.get(
+  '/:fileId/multipart',
+  requireProjectRole('editor'),
+  rateLimit('uploads'),
+  resumeMultipartUpload
+);
+
+/**
+ * @route   POST /projects/:projectId/files/:fileId/multipart/parts
+ * @desc    Record parts that finished uploading
+ * @body    { parts: [{ partNumber: number, etag: string, size?: number }] }
  */
-router.post('/:fileId/confirm', confirmUpload);
+router.post(
+  '/:fileId/multipart/parts',
+  requireProjectRole('editor'),
+  validateBody(recordPartsSchema),
+  recordUploadedParts
+);
+
+/**
+ * @route   POST /projects/:projectId/files/:fileId/multipart/complete
+ * @desc    Complete a multipart upload (parts default to those already uploaded)
+ * @body    { parts?: [{ partNumber: number, etag: string }] }
+ */
+router.post(
+  '/:fileId/multipart/complete',
+  requireProjectRole('editor'),
+  validateBody(completeMultipartSchema),
+  completeMultipartUpload
+);
+
+/**
+ * @route   DELETE /projects/:projectId/files/:fileId/multipart
+ * @desc    Abort a multipart upload and discard the pending file
+ */
+router.delete('/:fileId/multipart', requireProjectRole('editor'), abortMultipartUpload);
+
+/**
+ * Nested version routes
+ */
+router.use('/:fileId/versions', versionsRouter);
+
+/**
+ * Nested tile pyramid routes
+ */
+router.use('/:fileId/tiles', tilesRouter);
+
+/**
+ * @route   PATCH /projects/:projectId/files/:fileId
+ * @desc    Update a file's display name, tags and custom metadata
+ * @body    { displayName?: string | null, tags?: string[], customMetadata?: { [key]: string | number | boolean | null } }
+ */
+router.patch('/:fileId', requireProjectRole('editor'), validateBody(updateFileSchema), updateFile);
 
 /**
  * @route   DELETE /projects/:projectId/files/:fileId
  * @desc    Delete a file (soft delete by default)
- * @query   hard - If 'true', permanently delete the file
+ * @query   hard - If 'true', permanently delete the file (requires admin)
+ */
+router.delete(
+  '/:fileId',
+  requireProjectRole('editor'),
+  rateLimit('hardDeletes', { cost: (req) => (req.query.hard === 'true' ? 1 : 0) }),
+  deleteFile
+);
+
+/**
+ * @route   POST /projects/:projectId/files/:fileId/restore
+ * @desc    Restore a deleted file from the trash
  */
-router.delete('/:fileId', deleteFile);
+router.post('/:fileId/restore', requireProjectRole('editor'), restoreFile);
 
 export default router;
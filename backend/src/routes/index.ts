@@ -4,6 +4,8 @@
 
 import { Router } from 'express';
 import projectsRouter from './projects.routes';
+import usageRouter from './usage.routes';
+import searchRouter from './search.routes';
 
 const router = Router();
 
@@ -11,6 +13,8 @@ const router = Router();
  * API Routes
  */
 router.use('/projects', projectsRouter);
+router.use('/usage', usageRouter);
+router.use('/search', searchRouter);
 
 /**
  * API Info endpoint
@@ -22,18 +26,73 @@ router.get('/', (req, res) => {
     endpoints: {
       projects: {
         list: 'GET /projects',
+        shared: 'GET /projects/shared',
         create: 'POST /projects',
         get: 'GET /projects/:projectId',
         update: 'PATCH /projects/:projectId',
         delete: 'DELETE /projects/:projectId',
+        restore: 'POST /projects/:projectId/restore',
+        reconcile: 'POST /projects/:projectId/reconcile',
       },
       files: {
         list: 'GET /projects/:projectId/files',
         upload: 'POST /projects/:projectId/files',
         download: 'GET /projects/:projectId/files/:fileId',
         metadata: 'GET /projects/:projectId/files/:fileId/metadata',
+        previews: 'GET /projects/:projectId/files/:fileId/previews',
+        tiles: 'GET /projects/:projectId/files/:fileId/tiles',
+        tileUrls: 'GET /projects/:projectId/files/:fileId/tiles/:level',
         confirm: 'POST /projects/:projectId/files/:fileId/confirm',
+        update: 'PATCH /projects/:projectId/files/:fileId',
         delete: 'DELETE /projects/:projectId/files/:fileId',
+        restore: 'POST /projects/:projectId/files/:fileId/restore',
+      },
+      batch: {
+        upload: 'POST /projects/:projectId/files/batch/upload',
+        confirm: 'POST /projects/:projectId/files/batch/confirm',
+        delete: 'POST /projects/:projectId/files/batch/delete',
+        metadata: 'POST /projects/:projectId/files/batch/metadata',
+      },
+      versions: {
+        list: 'GET /projects/:projectId/files/:fileId/versions',
+        upload: 'POST /projects/:projectId/files/:fileId/versions',
+        download: 'GET /projects/:projectId/files/:fileId/versions/:version',
+        confirm: 'POST /projects/:projectId/files/:fileId/versions/:version/confirm',
+        restore: 'POST /projects/:projectId/files/:fileId/versions/:version/restore',
+      },
+      multipart: {
+        list: 'GET /projects/:projectId/files/multipart',
+        initiate: 'POST /projects/:projectId/files/multipart',
+        resume: 'GET /projects/:projectId/files/:fileId/multipart',
+        recordParts: 'POST /projects/:projectId/files/:fileId/multipart/parts',
+        complete: 'POST /projects/:projectId/files/:fileId/multipart/complete',
+        abort: 'DELETE /projects/:projectId/files/:fileId/multipart',
+      },
+      members: {
+        list: 'GET /projects/:projectId/members',
+        add: 'POST /projects/:projectId/members',
+        update: 'PATCH /projects/:projectId/members/:memberId',
+        remove: 'DELETE /projects/:projectId/members/:memberId',
+      },
+      audit: {
+        list: 'GET /projects/:projectId/audit',
+        export: 'GET /projects/:projectId/audit/export',
+      },
+      webhooks: {
+        list: 'GET /projects/:projectId/webhooks',
+        create: 'POST /projects/:projectId/webhooks',
+        get: 'GET /projects/:projectId/webhooks/:webhookId',
+        update: 'PATCH /projects/:projectId/webhooks/:webhookId',
+        delete: 'DELETE /projects/:projectId/webhooks/:webhookId',
+        rotateSecret: 'POST /projects/:projectId/webhooks/:webhookId/secret',
+        test: 'POST /projects/:projectId/webhooks/:webhookId/test',
+        deliveries: 'GET /projects/:projectId/webhooks/:webhookId/deliveries',
+      },
+      usage: {
+        get: 'GET /usage',
+      },
+      search: {
+        search: 'GET /search?q=',
       },
     },
   });
@@ -0,0 +1,62 @@
+/**
+ * Member Routes - API endpoints for project sharing
+ */
+
+import { Router } from 'express';
+import {
+  addMember,
+  listMembers,
+  updateMember,
+  removeMember,
+} from '../controllers/members.controller';
+import {
+  requireProjectAccess,
+  requireProjectRole,
+} from '../middleware/project-access.middleware';
+import {
+  validateBody,
+  addMemberSchema,
+  updateMemberSchema,
+} from '../middleware/validation.middleware';
+
+const router = Router({ mergeParams: true });
+
+/**
+ * All member routes require access to the parent project
+ */
+router.use(requireProjectAccess({ allowArchived: true }));
+
+/**
+ * @route   GET /projects/:projectId/members
+ * @desc    List project members
+ * @query   limit - Number of results (optional, max 100)
+ * @query   lastKey - Pagination cursor (optional)
+ */
+router.get('/', listMembers);
+
+/**
+ * @route   POST /projects/:projectId/members
+ * @desc    Invite a user to the project (admin; granting admin requires owner)
+ * @body    { userId: string, role: 'viewer' | 'editor' | 'admin' }
+ */
+router.post('/', requireProjectRole('admin'), validateBody(addMemberSchema), addMember);
+
+/**
+ * @route   PATCH /projects/:projectId/members/:memberId
+ * @desc    Change a member's role (admin; changing admin access requires owner)
+ * @body    { role: 'viewer' | 'editor' | 'admin' }
+ */
+router.patch(
+  '/:memberId',
+  requireProjectRole('admin'),
+  validateBody(updateMemberSchema),
+  updateMember
+);
+
+/**
+ * @route   DELETE /projects/:projectId/members/:memberId
+ * @desc    Remove a member (admin, or the member themselves)
+ */
+router.delete('/:memberId', removeMember);
+
+export default router;
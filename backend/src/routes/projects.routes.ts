@@ -7,10 +7,21 @@ import {
   createProject,
   getProject,
   listProjects,
+  listSharedProjects,
   updateProject,
   deleteProject,
+  restoreProject,
+  reconcileProject,
 } from '../controllers/projects.controller';
+import {
+  requireProjectAccess,
+  requireProjectRole,
+} from '../middleware/project-access.middleware';
+import { validateQuery, listProjectsQuerySchema } from '../middleware/validation.middleware';
 import filesRouter from './files.routes';
+import membersRouter from './members.routes';
+import auditRouter from './audit.routes';
+import webhooksRouter from './webhooks.routes';
 
 const router = Router();
 
@@ -18,10 +29,21 @@ const router = Router();
  * @route   GET /projects
  * @desc    List all projects for the current user
  * @query   status - Filter by status (optional)
+ * @query   sort - createdAt, updatedAt, name or size (optional, key order by default)
+ * @query   order - asc or desc (optional; names ascending, dates and sizes descending by default)
+ * @query   limit - Number of results (optional, max 100)
+ * @query   lastKey - Pagination cursor (optional)
+ * @query   includeTotal - If 'true', count all matches into totalCount (optional)
+ */
+router.get('/', validateQuery(listProjectsQuerySchema), listProjects);
+
+/**
+ * @route   GET /projects/shared
+ * @desc    List projects shared with the current user, with the user's role
  * @query   limit - Number of results (optional, max 100)
  * @query   lastKey - Pagination cursor (optional)
  */
-router.get('/', listProjects);
+router.get('/shared', listSharedProjects);
 
 /**
  * @route   POST /projects
@@ -34,24 +56,72 @@ router.post('/', createProject);
  * @route   GET /projects/:projectId
  * @desc    Get a project by ID
  */
-router.get('/:projectId', getProject);
+router.get('/:projectId', requireProjectAccess(), getProject);
 
 /**
  * @route   PATCH /projects/:projectId
- * @desc    Update a project
+ * @desc    Update a project (editor; status changes require admin)
  * @body    { name?: string, description?: string, status?: string }
  */
-router.patch('/:projectId', updateProject);
+router.patch(
+  '/:projectId',
+  requireProjectAccess({ allowArchived: true }),
+  requireProjectRole('editor'),
+  updateProject
+);
 
 /**
  * @route   DELETE /projects/:projectId
- * @desc    Delete a project (soft delete)
+ * @desc    Delete a project and its files (soft delete, owner only)
  */
-router.delete('/:projectId', deleteProject);
+router.delete(
+  '/:projectId',
+  requireProjectAccess({ allowArchived: true }),
+  requireProjectRole('owner'),
+  deleteProject
+);
+
+/**
+ * @route   POST /projects/:projectId/restore
+ * @desc    Restore a deleted project with the files deleted with it (owner only)
+ */
+router.post(
+  '/:projectId/restore',
+  requireProjectAccess({ allowDeleted: true }),
+  requireProjectRole('owner'),
+  restoreProject
+);
+
+/**
+ * @route   POST /projects/:projectId/reconcile
+ * @desc    Recompute file statistics from the file records and report drift (admin only)
+ * @query   dryRun - Report the drift without correcting it
+ */
+router.post(
+  '/:projectId/reconcile',
+  requireProjectAccess({ allowArchived: true }),
+  requireProjectRole('admin'),
+  reconcileProject
+);
 
 /**
  * Nested file routes: /projects/:projectId/files/*
  */
 router.use('/:projectId/files', filesRouter);
 
+/**
+ * Nested member routes: /projects/:projectId/members/*
+ */
+router.use('/:projectId/members', membersRouter);
+
+/**
+ * Nested audit log routes: /projects/:projectId/audit/*
+ */
+router.use('/:projectId/audit', auditRouter);
+
+/**
+ * Nested webhook routes: /projects/:projectId/webhooks/*
+ */
+router.use('/:projectId/webhooks', webhooksRouter);
+
 export default router;
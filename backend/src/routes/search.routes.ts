@@ -0,0 +1,26 @@
+/**
+ * Search Routes - API endpoints for searching files and projects
+ */
+
+import { Router } from 'express';
+import { search } from '../controllers/search.controller';
+import { validateQuery, searchQuerySchema } from '../middleware/validation.middleware';
+
+const router = Router();
+
+/**
+ * @route   GET /search
+ * @desc    Search files and projects across all projects the user owns or is a member of
+ * @query   q - Search terms, matched as words, by prefix or approximately against names, descriptions and tags (optional)
+ * @query   type - 'file' or 'project' (optional)
+ * @query   projectId - Restrict to one project (optional)
+ * @query   category - MIME category of files, e.g. image, pdf, spreadsheet (optional)
+ * @query   minSize, maxSize - File size range in bytes (optional)
+ * @query   uploadedBy - Uploader user ID (optional)
+ * @query   from, to - Upload (files) or creation (projects) date range (optional)
+ * @query   limit - Number of results (optional, max 100)
+ * @query   cursor - Pagination cursor (optional)
+ */
+router.get('/', validateQuery(searchQuerySchema), search);
+
+export default router;
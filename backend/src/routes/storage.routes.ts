@@ -0,0 +1,24 @@
+/**
+ * Storage Routes - Signed URL endpoints for the local storage provider
+ */
+
+import { Router } from 'express';
+import { uploadObject, downloadObject } from '../controllers/storage.controller';
+
+const router = Router();
+
+/**
+ * @route   PUT /storage/*key
+ * @desc    Upload an object through a signed upload URL
+ * @query   expires, signature - URL signature (required)
+ */
+router.put('/*key', uploadObject);
+
+/**
+ * @route   GET /storage/*key
+ * @desc    Download an object through a signed download URL
+ * @query   expires, signature - URL signature (required)
+ */
+router.get('/*key', downloadObject);
+
+export default router;
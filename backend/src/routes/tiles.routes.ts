@@ -0,0 +1,24 @@
+/**
+ * Tile Routes - API endpoints for Deep Zoom tile pyramids
+ */
+
+import { Router } from 'express';
+import { getFileTiles, getTileUrls } from '../controllers/tiles.controller';
+
+const router = Router({ mergeParams: true });
+
+/**
+ * @route   GET /projects/:projectId/files/:fileId/tiles
+ * @desc    Get the tile pyramid descriptor: image size, tile size and grid of every level
+ */
+router.get('/', getFileTiles);
+
+/**
+ * @route   GET /projects/:projectId/files/:fileId/tiles/:level
+ * @desc    Get presigned URLs of the tiles in a pyramid level
+ * @query   columns - Column index or inclusive range, e.g. 2-5 (optional, default all)
+ * @query   rows - Row index or inclusive range (optional, default all)
+ */
+router.get('/:level', getTileUrls);
+
+export default router;
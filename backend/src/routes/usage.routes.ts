@@ -0,0 +1,16 @@
+/**
+ * Usage Routes - API endpoints for storage consumption
+ */
+
+import { Router } from 'express';
+import { getUsage } from '../controllers/usage.controller';
+
+const router = Router();
+
+/**
+ * @route   GET /usage
+ * @desc    Get the current user's storage usage against quota limits
+ */
+router.get('/', getUsage);
+
+export default router;
@@ -0,0 +1,58 @@
+/**
+ * Version Routes - API endpoints for file version history
+ */
+
+import { Router } from 'express';
+import {
+  requestVersionUpload,
+  confirmVersionUpload,
+  listVersions,
+  getVersionDownloadUrl,
+  restoreVersion,
+} from '../controllers/versions.controller';
+import { requireProjectRole } from '../middleware/project-access.middleware';
+import { validateBody, uploadFileSchema } from '../middleware/validation.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+
+const router = Router({ mergeParams: true });
+
+/**
+ * @route   GET /projects/:projectId/files/:fileId/versions
+ * @desc    List uploaded versions of a file, newest first
+ * @query   limit - Number of results (optional, max 100)
+ * @query   lastKey - Pagination cursor (optional)
+ */
+router.get('/', listVersions);
+
+/**
+ * @route   POST /projects/:projectId/files/:fileId/versions
+ * @desc    Request a presigned URL for uploading a new version
+ * @body    { fileName: string, fileType: string, fileSize: number, checksumSha256?: string }
+ */
+router.post(
+  '/',
+  requireProjectRole('editor'),
+  validateBody(uploadFileSchema),
+  rateLimit('uploads'),
+  requestVersionUpload
+);
+
+/**
+ * @route   GET /projects/:projectId/files/:fileId/versions/:version
+ * @desc    Get presigned download URL for a specific version
+ */
+router.get('/:version', getVersionDownloadUrl);
+
+/**
+ * @route   POST /projects/:projectId/files/:fileId/versions/:version/confirm
+ * @desc    Confirm that a version upload is complete and make it current
+ */
+router.post('/:version/confirm', requireProjectRole('editor'), confirmVersionUpload);
+
+/**
+ * @route   POST /projects/:projectId/files/:fileId/versions/:version/restore
+ * @desc    Restore a previous version as the current one
+ */
+router.post('/:version/restore', requireProjectRole('editor'), restoreVersion);
+
+export default router;
@@ -0,0 +1,92 @@
+/**
+ * Webhook Routes - API endpoints for a project's webhook subscriptions
+ */
+
+import { Router } from 'express';
+import {
+  listWebhooks,
+  createWebhook,
+  getWebhook,
+  updateWebhook,
+  rotateWebhookSecret,
+  deleteWebhook,
+  testWebhook,
+  listWebhookDeliveries,
+} from '../controllers/webhooks.controller';
+import {
+  requireProjectAccess,
+  requireProjectRole,
+} from '../middleware/project-access.middleware';
+import {
+  validateBody,
+  validateQuery,
+  createWebhookSchema,
+  updateWebhookSchema,
+  webhookDeliveriesQuerySchema,
+} from '../middleware/validation.middleware';
+
+const router = Router({ mergeParams: true });
+
+/**
+ * Webhooks are managed by project admins
+ */
+router.use(requireProjectAccess({ allowArchived: true }), requireProjectRole('admin'));
+
+/**
+ * @route   GET /projects/:projectId/webhooks
+ * @desc    List the project's webhooks (without their secrets)
+ */
+router.get('/', listWebhooks);
+
+/**
+ * @route   POST /projects/:projectId/webhooks
+ * @desc    Subscribe a URL to project events; returns the signing secret
+ * @body    { url: string, events: string[], description?: string, active?: boolean }
+ */
+router.post('/', validateBody(createWebhookSchema), createWebhook);
+
+/**
+ * @route   GET /projects/:projectId/webhooks/:webhookId
+ * @desc    Get a webhook (without its secret)
+ */
+router.get('/:webhookId', getWebhook);
+
+/**
+ * @route   PATCH /projects/:projectId/webhooks/:webhookId
+ * @desc    Change a webhook's URL, events, description or active flag
+ * @body    { url?: string, events?: string[], description?: string | null, active?: boolean }
+ */
+router.patch('/:webhookId', validateBody(updateWebhookSchema), updateWebhook);
+
+/**
+ * @route   DELETE /projects/:projectId/webhooks/:webhookId
+ * @desc    Delete a webhook and its delivery history
+ */
+router.delete('/:webhookId', deleteWebhook);
+
+/**
+ * @route   POST /projects/:projectId/webhooks/:webhookId/secret
+ * @desc    Replace the signing secret; returns the new one
+ */
+router.post('/:webhookId/secret', rotateWebhookSecret);
+
+/**
+ * @route   POST /projects/:projectId/webhooks/:webhookId/test
+ * @desc    Send a webhook.test event and report the attempt (not retried)
+ */
+router.post('/:webhookId/test', testWebhook);
+
+/**
+ * @route   GET /projects/:projectId/webhooks/:webhookId/deliveries
+ * @desc    List deliveries and their attempts, newest first
+ * @query   status - pending, succeeded or failed (optional)
+ * @query   limit - Number of results (optional, default 20, max 100)
+ * @query   lastKey - Pagination cursor (optional)
+ */
+router.get(
+  '/:webhookId/deliveries',
+  validateQuery(webhookDeliveriesQuerySchema),
+  listWebhookDeliveries
+);
+
+export default router;
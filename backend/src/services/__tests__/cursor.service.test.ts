@@ -0,0 +1,56 @@
+import crypto from 'crypto';
+import { CursorService, InvalidCursorError } from '../cursor.service';
+
+const SCOPE = 'files:project-1:{"sort":"name"}';
+const LAST_KEY = { PK: 'PROJECT#project-1', SK: 'FILE#file-9', sortName: 'plan.pdf' };
+
+describe('CursorService', () => {
+  const cursors = new CursorService('test-secret');
+
+  it('returns the last key of a cursor issued for the same listing', () => {
+    const cursor = cursors.encode(LAST_KEY, SCOPE);
+
+    expect(cursors.decode(cursor, SCOPE)).toEqual(LAST_KEY);
+  });
+
+  it('issues no cursor after the last page', () => {
+    expect(cursors.encode(undefined, SCOPE)).toBeUndefined();
+    expect(cursors.decode(undefined, SCOPE)).toBeUndefined();
+  });
+
+  it('rejects a cursor issued for another listing', () => {
+    const cursor = cursors.encode(LAST_KEY, SCOPE);
+
+    expect(() => cursors.decode(cursor, 'files:project-2:{"sort":"name"}')).toThrow(InvalidCursorError);
+  });
+
+  it('rejects a cursor signed with another secret', () => {
+    const cursor = new CursorService('other-secret').encode(LAST_KEY, SCOPE);
+
+    expect(() => cursors.decode(cursor, SCOPE)).toThrow(InvalidCursorError);
+  });
+
+  it('rejects a cursor whose key was changed', () => {
+    const [, signature] = cursors.encode(LAST_KEY, SCOPE)!.split('.');
+    const forgedKey = { ...LAST_KEY, PK: 'PROJECT#project-2' };
+    const forged = `${Buffer.from(JSON.stringify(forgedKey)).toString('base64url')}.${signature}`;
+
+    expect(() => cursors.decode(forged, SCOPE)).toThrow(InvalidCursorError);
+  });
+
+  it('rejects malformed cursors', () => {
+    for (const cursor of ['garbage', 'a.b.c', '.signature', 'payload.']) {
+      expect(() => cursors.decode(cursor, SCOPE)).toThrow(InvalidCursorError);
+    }
+  });
+
+  it('rejects a signed payload that is not a key', () => {
+    const payload = Buffer.from(JSON.stringify(['PROJECT#project-1'])).toString('base64url');
+    const signature = crypto
+      .createHmac('sha256', 'test-secret')
+      .update(`${SCOPE}\n${payload}`)
+      .digest('base64url');
+
+    expect(() => cursors.decode(`${payload}.${signature}`, SCOPE)).toThrow(InvalidCursorError);
+  });
+});
@@ -0,0 +1,125 @@
+import { PREVIEW_CONFIG, QUOTA_CONFIG, TILE_CONFIG } from '../../config/aws.config';
+import { FileMetadata, FileVersion, Project, StorageProvider } from '../../types';
+import { AuditService } from '../audit.service';
+import { BackgroundQueue } from '../background-queue.service';
+import { EventBus } from '../event-bus.service';
+import { FileService } from '../file.service';
+import { InMemoryMetadataRepository } from '../memory-metadata.service';
+import { PreviewService } from '../preview.service';
+import { QuotaService } from '../quota.service';
+import { TileService } from '../tile.service';
+import { TrashService } from '../trash.service';
+import { UploadVerificationService } from '../upload-verification.service';
+
+const OWNER = 'owner-1';
+const PROJECT = 'project-1';
+const USER = { userId: OWNER };
+
+describe('FileService', () => {
+  let repository: InMemoryMetadataRepository;
+  let objects: Map<string, Buffer>;
+  let files: FileService;
+
+  beforeEach(async () => {
+    repository = new InMemoryMetadataRepository();
+    objects = new Map();
+
+    // Only the reads of upload verification reach storage
+    const storage = {
+      getObjectMetadata: async (s3Key: string) =>
+        objects.has(s3Key)
+          ? { contentType: 'text/plain', contentLength: objects.get(s3Key).length }
+          : null,
+      readObjectHead: async (s3Key: string, maxBytes: number) =>
+        objects.get(s3Key).subarray(0, maxBytes),
+    } as Partial<StorageProvider> as StorageProvider;
+
+    const queue = new BackgroundQueue();
+    const audit = new AuditService(repository);
+    const quota = new QuotaService(repository, QUOTA_CONFIG);
+    files = new FileService(
+      repository,
+      storage,
+      new UploadVerificationService(storage),
+      quota,
+      new TrashService(repository, storage, audit, quota),
+      new PreviewService(repository, storage, { ...PREVIEW_CONFIG, enabled: false }, queue),
+      new TileService(repository, storage, { ...TILE_CONFIG, enabled: false }, queue),
+      audit,
+      new EventBus(queue)
+    );
+
+    await repository.createProject(OWNER, PROJECT, { name: 'Harbour Tower' });
+  });
+
+  async function getProject(): Promise<Project> {
+    return repository.getProjectById(OWNER, PROJECT);
+  }
+
+  async function createUploadedFile(content: Buffer): Promise<FileMetadata> {
+    const s3Key = `${PROJECT}/file-1/schedule.txt`;
+    objects.set(s3Key, content);
+    await repository.createFileMetadata({
+      fileId: 'file-1',
+      projectId: PROJECT,
+      fileName: 'schedule.txt',
+      fileType: 'text/plain',
+      fileExtension: '.txt',
+      fileSize: content.length,
+      s3Key,
+      uploadedBy: OWNER,
+    });
+    return (await files.confirmUpload(await getProject(), 'file-1', USER)).data;
+  }
+
+  async function createPendingVersion(version: number, content: Buffer): Promise<FileVersion> {
+    const s3Key = `${PROJECT}/file-1/v${version}/schedule.txt`;
+    objects.set(s3Key, content);
+    return repository.createFileVersion({
+      projectId: PROJECT,
+      fileId: 'file-1',
+      version,
+      fileName: 'schedule.txt',
+      fileType: 'text/plain',
+      fileExtension: '.txt',
+      fileSize: content.length,
+      s3Key,
+      uploadedBy: OWNER,
+    });
+  }
+
+  describe('acceptVersionUpload', () => {
+    it('makes a newer version current and counts its size instead', async () => {
+      const file = await createUploadedFile(Buffer.from('Door schedule\n'));
+      const version = await createPendingVersion(2, Buffer.from('Door schedule, revised\n'));
+
+      const result = await files.acceptVersionUpload(await getProject(), file, version, USER);
+
+      expect(result.version.status).toBe('uploaded');
+      expect(result.file?.currentVersion).toBe(2);
+      expect(await getProject()).toMatchObject({ fileCount: 1, totalSize: version.fileSize });
+    });
+
+    it('keeps a version confirmed after a newer one in the history only', async () => {
+      const file = await createUploadedFile(Buffer.from('Door schedule\n'));
+      const older = await createPendingVersion(2, Buffer.from('Door schedule, draft\n'));
+      const newer = await createPendingVersion(3, Buffer.from('Door schedule, final\n'));
+
+      await files.acceptVersionUpload(await getProject(), file, newer, USER);
+      const result = await files.acceptVersionUpload(await getProject(), file, older, USER);
+
+      expect(result.file).toBeNull();
+      expect((await repository.getFileById(PROJECT, 'file-1')).currentVersion).toBe(3);
+    });
+
+    it('reports a version deleted while it was being confirmed as not found', async () => {
+      const file = await createUploadedFile(Buffer.from('Door schedule\n'));
+      const version = await createPendingVersion(2, Buffer.from('Door schedule, revised\n'));
+      await repository.deleteFileVersions(PROJECT, 'file-1');
+
+      await expect(
+        files.acceptVersionUpload(await getProject(), file, version, USER)
+      ).rejects.toMatchObject({ code: 'VERSION_NOT_FOUND', statusCode: 404 });
+    });
+  });
+});
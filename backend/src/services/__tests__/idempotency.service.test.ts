@@ -0,0 +1,92 @@
+import { IdempotencyService, MemoryIdempotencyStore } from '../idempotency.service';
+import { IDEMPOTENCY_CONFIG } from '../../config/aws.config';
+
+const KEY = 'user-1:3f2c9a';
+const RESPONSE = { statusCode: 201, body: { success: true, data: { projectId: 'project-1' } } };
+
+describe('IdempotencyService', () => {
+  let idempotency: IdempotencyService;
+  const fingerprint = (body: unknown) => idempotency.fingerprint('POST', '/api/projects', body);
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00.000Z') });
+    idempotency = new IdempotencyService(new MemoryIdempotencyStore(), {
+      ...IDEMPOTENCY_CONFIG,
+      ttl: 3600,
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('runs the first request with a key', async () => {
+    expect(await idempotency.begin(KEY, fingerprint({ name: 'Harbour Tower' }))).toEqual({
+      outcome: 'new',
+    });
+  });
+
+  it('replays the stored response to a retry of the same request', async () => {
+    await idempotency.begin(KEY, fingerprint({ name: 'Harbour Tower' }));
+    await idempotency.complete(KEY, RESPONSE);
+
+    expect(await idempotency.begin(KEY, fingerprint({ name: 'Harbour Tower' }))).toEqual({
+      outcome: 'replay',
+      response: RESPONSE,
+    });
+  });
+
+  it('refuses a different request reusing the key', async () => {
+    await idempotency.begin(KEY, fingerprint({ name: 'Harbour Tower' }));
+    await idempotency.complete(KEY, RESPONSE);
+
+    expect(await idempotency.begin(KEY, fingerprint({ name: 'Old Depot' }))).toEqual({
+      outcome: 'mismatch',
+    });
+    const otherMethod = idempotency.fingerprint('PATCH', '/api/projects', { name: 'Harbour Tower' });
+    expect(await idempotency.begin(KEY, otherMethod)).toEqual({ outcome: 'mismatch' });
+  });
+
+  it('reports a retry while the first request is still running', async () => {
+    await idempotency.begin(KEY, fingerprint({ name: 'Harbour Tower' }));
+
+    expect(await idempotency.begin(KEY, fingerprint({ name: 'Harbour Tower' }))).toEqual({
+      outcome: 'in_progress',
+    });
+  });
+
+  it('frees the key of a request that was abandoned', async () => {
+    await idempotency.begin(KEY, fingerprint({ name: 'Harbour Tower' }));
+
+    jest.advanceTimersByTime(61_000);
+
+    expect(await idempotency.begin(KEY, fingerprint({ name: 'Harbour Tower' }))).toEqual({
+      outcome: 'new',
+    });
+  });
+
+  it('runs a request again once its key is released', async () => {
+    await idempotency.begin(KEY, fingerprint({ name: 'Harbour Tower' }));
+    await idempotency.release(KEY);
+
+    expect(await idempotency.begin(KEY, fingerprint({ name: 'Old Depot' }))).toEqual({
+      outcome: 'new',
+    });
+  });
+
+  it('forgets a response after the replay window', async () => {
+    await idempotency.begin(KEY, fingerprint({ name: 'Harbour Tower' }));
+    await idempotency.complete(KEY, RESPONSE);
+
+    jest.advanceTimersByTime(3600_000);
+
+    expect(await idempotency.begin(KEY, fingerprint({ name: 'Old Depot' }))).toEqual({
+      outcome: 'new',
+    });
+  });
+
+  it('fingerprints an absent body like a null one', () => {
+    expect(fingerprint(undefined)).toBe(fingerprint(null));
+    expect(fingerprint(undefined)).not.toBe(fingerprint({}));
+  });
+});
@@ -0,0 +1,46 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { S3_CONFIG, STORAGE_CONFIG } from '../../config/aws.config';
+import { LocalStorageService } from '../local-storage.service';
+
+const S3_KEY = 'project-1/file-1/survey.las';
+
+describe('LocalStorageService', () => {
+  let rootDir: string;
+  let storage: LocalStorageService;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'local-storage-'));
+    storage = new LocalStorageService(
+      { ...STORAGE_CONFIG, localRootDir: rootDir },
+      { ...S3_CONFIG, maxPartSize: 16 }
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('writePart', () => {
+    it('stores a part up to the maximum part size', async () => {
+      const { uploadId } = await storage.createMultipartUpload(S3_KEY, 'application/octet-stream');
+
+      const part = await storage.writePart(S3_KEY, uploadId, 1, Readable.from([Buffer.alloc(16)]));
+
+      expect(part).toMatchObject({ partNumber: 1, size: 16 });
+      expect(await storage.listUploadedParts(S3_KEY, uploadId)).toEqual([part]);
+    });
+
+    it('rejects a part larger than the maximum part size', async () => {
+      const { uploadId } = await storage.createMultipartUpload(S3_KEY, 'application/octet-stream');
+      const body = Readable.from([Buffer.alloc(10), Buffer.alloc(10)]);
+
+      await expect(storage.writePart(S3_KEY, uploadId, 1, body)).rejects.toMatchObject({
+        name: 'EntityTooLarge',
+      });
+      expect(await storage.listUploadedParts(S3_KEY, uploadId)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { InMemoryMetadataRepository } from '../memory-metadata.service';
+import { CreateFileMetadata, FileMetadata, PaginationKey } from '../../types';
+
+const OWNER = 'owner-1';
+const PROJECT = 'project-1';
+
+function fileInput(fileId: string, fileName: string, fileSize = 10): CreateFileMetadata {
+  return {
+    fileId,
+    projectId: PROJECT,
+    fileName,
+    fileType: 'application/pdf',
+    fileExtension: '.pdf',
+    fileSize,
+    s3Key: `${PROJECT}/${fileId}/${fileName}`,
+    uploadedBy: OWNER,
+  };
+}
+
+describe('InMemoryMetadataRepository', () => {
+  let repository: InMemoryMetadataRepository;
+
+  beforeEach(async () => {
+    repository = new InMemoryMetadataRepository();
+    await repository.createProject(OWNER, PROJECT, { name: 'Harbour Tower' });
+  });
+
+  async function createUploadedFiles(names: string[]): Promise<void> {
+    for (const [index, name] of names.entries()) {
+      const fileId = `file-${index}`;
+      await repository.createFileMetadata(fileInput(fileId, name));
+      await repository.updateFileStatus(PROJECT, fileId, 'uploaded');
+    }
+  }
+
+  async function readAllPages(
+    read: (lastKey?: PaginationKey) => Promise<{ files: FileMetadata[]; lastKey?: PaginationKey }>
+  ): Promise<string[][]> {
+    const pages: string[][] = [];
+    let lastKey: PaginationKey | undefined;
+    do {
+      const page = await read(lastKey);
+      pages.push(page.files.map((file) => file.fileName));
+      lastKey = page.lastKey;
+    } while (lastKey);
+    return pages;
+  }
+
+  describe('paging', () => {
+    it('pages files in key order until the last page', async () => {
+      await createUploadedFiles(['a.pdf', 'b.pdf', 'c.pdf', 'd.pdf', 'e.pdf']);
+
+      const pages = await readAllPages((lastKey) =>
+        repository.getFilesByProject(PROJECT, { limit: 2, lastKey })
+      );
+
+      expect(pages).toEqual([['a.pdf', 'b.pdf'], ['c.pdf', 'd.pdf'], ['e.pdf']]);
+    });
+
+    it('fills filtered pages up to the limit', async () => {
+      await createUploadedFiles(['a.pdf', 'b.pdf', 'c.pdf', 'd.pdf', 'e.pdf']);
+      await repository.deleteFile(PROJECT, 'file-1');
+      await repository.deleteFile(PROJECT, 'file-2');
+
+      const pages = await readAllPages((lastKey) =>
+        repository.getFilesByProject(PROJECT, { limit: 2, lastKey })
+      );
+
+      expect(pages).toEqual([['a.pdf', 'd.pdf'], ['e.pdf']]);
+    });
+
+    it('pages a sorted listing with cursors of the listing index', async () => {
+      await createUploadedFiles(['Beta.pdf', 'alpha.pdf', 'Gamma.pdf']);
+
+      const pages = await readAllPages((lastKey) =>
+        repository.getFilesByProject(PROJECT, { sort: 'name', order: 'desc', limit: 2, lastKey })
+      );
+
+      expect(pages).toEqual([['Gamma.pdf', 'Beta.pdf'], ['alpha.pdf']]);
+    });
+  });
+
+  describe('conditional writes', () => {
+    it('refuses to create a project whose ID exists', async () => {
+      await expect(
+        repository.createProject(OWNER, PROJECT, { name: 'Duplicate' })
+      ).rejects.toMatchObject({ name: 'ConditionalCheckFailedException' });
+    });
+
+    it('changes a file status only while it has the expected status', async () => {
+      await repository.createFileMetadata(fileInput('file-1', 'plan.pdf'));
+
+      const stale = await repository.updateFileStatus(PROJECT, 'file-1', 'uploaded', undefined, {
+        expectedStatus: 'quarantined',
+      });
+      const updated = await repository.updateFileStatus(PROJECT, 'file-1', 'uploaded', undefined, {
+        expectedStatus: 'pending',
+      });
+
+      expect(stale).toBeNull();
+      expect(updated?.status).toBe('uploaded');
+    });
+
+    it('records when a file last changed status', async () => {
+      jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00.000Z') });
+      try {
+        await repository.createFileMetadata(fileInput('file-1', 'plan.pdf'));
+        jest.setSystemTime(new Date('2024-02-01T00:00:00.000Z'));
+
+        const confirmed = await repository.updateFileStatus(PROJECT, 'file-1', 'uploaded');
+
+        expect(confirmed?.updatedAt).toBe('2024-02-01T00:00:00.000Z');
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('counts a file in the project statistics once when confirmed twice', async () => {
+      await repository.createFileMetadata(fileInput('file-1', 'plan.pdf', 25));
+      const confirm = () =>
+        repository.updateFileStatus(PROJECT, 'file-1', 'uploaded', undefined, {
+          expectedStatus: 'pending',
+          stats: { ownerId: OWNER, fileCountDelta: 1, sizeDelta: 25 },
+        });
+
+      const first = await confirm();
+      const second = await confirm();
+      const project = await repository.getProjectById(OWNER, PROJECT);
+
+      expect(first?.status).toBe('uploaded');
+      expect(second).toBeNull();
+      expect(project).toMatchObject({ fileCount: 1, totalSize: 25 });
+    });
+
+    it('keeps statistics that changed since they were read', async () => {
+      const stale = await repository.setProjectStats(
+        OWNER,
+        PROJECT,
+        { fileCount: 5, totalSize: 50 },
+        { fileCount: 1, totalSize: 10 }
+      );
+      const current = await repository.setProjectStats(
+        OWNER,
+        PROJECT,
+        { fileCount: 5, totalSize: 50 },
+        { fileCount: 0, totalSize: 0 }
+      );
+
+      expect(stale).toBeNull();
+      expect(current).toMatchObject({ fileCount: 5, totalSize: 50 });
+    });
+
+    it('hard deletes a file only while it has the expected status', async () => {
+      await repository.createFileMetadata(fileInput('file-1', 'plan.pdf'));
+
+      expect(await repository.hardDeleteFile(PROJECT, 'file-1', { expectedStatus: 'uploaded' })).toBe(false);
+      expect(await repository.hardDeleteFile(PROJECT, 'file-1', { expectedStatus: 'pending' })).toBe(true);
+      expect(await repository.getFileById(PROJECT, 'file-1')).toBeNull();
+    });
+  });
+
+  describe('search token entries', () => {
+    it('follows renames and deletes of the records they index', async () => {
+      const tokens = async () =>
+        (await repository.getSearchTokens(PROJECT, '')).entries.map((entry) => entry.token);
+      await repository.createFileMetadata(fileInput('file-1', 'elevation.pdf'));
+
+      await repository.updateFile(PROJECT, 'file-1', { displayName: 'North Section' });
+      expect(await tokens()).toEqual(['elevation', 'harbour', 'north', 'pdf', 'section', 'tower']);
+
+      await repository.hardDeleteFile(PROJECT, 'file-1');
+      expect(await tokens()).toEqual(['harbour', 'tower']);
+    });
+  });
+
+  describe('backfilling index keys', () => {
+    it('makes projects created before owner pointers reachable from their ID', async () => {
+      // A project record as written before the indexes and the owner pointer existed
+      const dataFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'metadata-')), 'metadata.json');
+      const legacyProject = {
+        PK: 'USER#owner-2',
+        SK: 'PROJECT#legacy-project',
+        projectId: 'legacy-project',
+        name: 'Old Depot',
+        ownerId: 'owner-2',
+        createdAt: '2023-01-01T00:00:00.000Z',
+        updatedAt: '2023-01-01T00:00:00.000Z',
+        status: 'active',
+        fileCount: 0,
+        totalSize: 0,
+      };
+      fs.writeFileSync(dataFile, JSON.stringify([legacyProject]));
+      const legacy = new InMemoryMetadataRepository(dataFile);
+
+      expect(await legacy.getProjectOwnerId('legacy-project')).toBeNull();
+
+      const first = await legacy.backfillIndexKeys();
+      const second = await legacy.backfillIndexKeys();
+
+      expect(first.indexed).toBe(1);
+      expect(second.indexed).toBe(0);
+      expect(await legacy.getProjectOwnerId('legacy-project')).toBe('owner-2');
+      expect(await legacy.getProjectById('owner-2', 'legacy-project')).toMatchObject({
+        searchKey: 'SEARCH#legacy-project',
+        sortName: 'old depot',
+      });
+
+      fs.rmSync(path.dirname(dataFile), { recursive: true, force: true });
+    });
+
+    it('keeps the owner pointers of projects that have one', async () => {
+      const result = await repository.backfillIndexKeys();
+
+      expect(result.indexed).toBe(0);
+      expect(await repository.getProjectOwnerId(PROJECT)).toBe(OWNER);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { MemoryRateLimitStore, RateLimitService } from '../rate-limit.service';
+import { RATE_LIMIT_CONFIG } from '../../config/aws.config';
+
+const CONFIG: typeof RATE_LIMIT_CONFIG = {
+  ...RATE_LIMIT_CONFIG,
+  window: 60,
+  groups: {
+    default: { perUser: 3, perIp: 5 },
+    uploads: { perUser: 10, perIp: 20 },
+    hardDeletes: { perUser: 2, perIp: 4 },
+  },
+};
+
+describe('RateLimitService', () => {
+  let rateLimits: RateLimitService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00.000Z') });
+    rateLimits = new RateLimitService(new MemoryRateLimitStore(), CONFIG);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('allows a caller up to the limit of the group and then refuses', async () => {
+    const caller = { userId: 'user-1', ip: '203.0.113.1' };
+
+    const allowed = [];
+    for (let i = 0; i < 3; i++) {
+      allowed.push(await rateLimits.check('default', caller));
+    }
+    const refused = await rateLimits.check('default', caller);
+
+    expect(allowed.map((decision) => decision.remaining)).toEqual([2, 1, 0]);
+    expect(allowed.every((decision) => decision.allowed)).toBe(true);
+    expect(refused).toMatchObject({ allowed: false, limit: 3, window: 60, retryAfter: 20 });
+  });
+
+  it('refills the buckets over the window', async () => {
+    const caller = { userId: 'user-1' };
+    for (let i = 0; i < 3; i++) {
+      await rateLimits.check('default', caller);
+    }
+
+    jest.advanceTimersByTime(20_000);
+    const afterOneToken = await rateLimits.check('default', caller);
+    jest.advanceTimersByTime(60_000);
+    const afterWindow = await rateLimits.check('default', caller);
+
+    expect(afterOneToken).toMatchObject({ allowed: true, remaining: 0 });
+    expect(afterWindow).toMatchObject({ allowed: true, remaining: 2 });
+  });
+
+  it('limits each route group separately', async () => {
+    const caller = { userId: 'user-1' };
+    for (let i = 0; i < 3; i++) {
+      await rateLimits.check('default', caller);
+    }
+
+    expect(await rateLimits.check('uploads', caller)).toMatchObject({ allowed: true, remaining: 9 });
+  });
+
+  it('limits callers rotating identities from one address', async () => {
+    const decisions = [];
+    for (let i = 0; i < 6; i++) {
+      decisions.push(await rateLimits.check('default', { userId: `user-${i}`, ip: '203.0.113.1' }));
+    }
+
+    expect(decisions.map((decision) => decision.allowed)).toEqual([true, true, true, true, true, false]);
+    expect(decisions[5]).toMatchObject({ limit: 5 });
+  });
+
+  it('counts a request refused by the address bucket against its caller', async () => {
+    for (let i = 0; i < 4; i++) {
+      await rateLimits.check('hardDeletes', { userId: `user-${i}`, ip: '203.0.113.1' });
+    }
+
+    const refused = await rateLimits.check('hardDeletes', { userId: 'user-9', ip: '203.0.113.1' });
+    const elsewhere = await rateLimits.check('hardDeletes', { userId: 'user-9', ip: '203.0.113.2' });
+
+    expect(refused.allowed).toBe(false);
+    expect(elsewhere).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it('takes the whole bucket for a request costing more than it holds', async () => {
+    const caller = { userId: 'user-1' };
+
+    const expensive = await rateLimits.check('default', caller, 50);
+    const next = await rateLimits.check('default', caller);
+
+    expect(expensive).toMatchObject({ allowed: true, remaining: 0 });
+    expect(next.allowed).toBe(false);
+  });
+
+  it('does not limit requests without a caller or address', async () => {
+    for (let i = 0; i < 10; i++) {
+      expect((await rateLimits.check('default', {})).allowed).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,94 @@
+import { CursorService, InvalidCursorError } from '../cursor.service';
+import { InMemoryMetadataRepository } from '../memory-metadata.service';
+import { SearchService } from '../search.service';
+
+const USER = 'user-1';
+
+describe('SearchService', () => {
+  let repository: InMemoryMetadataRepository;
+  let search: SearchService;
+
+  beforeEach(() => {
+    repository = new InMemoryMetadataRepository();
+    search = new SearchService(repository, new CursorService('test-secret'));
+  });
+
+  async function createProject(projectId: string, name: string, ownerId = USER): Promise<void> {
+    await repository.createProject(ownerId, projectId, { name });
+  }
+
+  async function shareProject(projectId: string, ownerId: string): Promise<void> {
+    await repository.addProjectMember({
+      projectId,
+      userId: USER,
+      role: 'viewer',
+      projectOwnerId: ownerId,
+      invitedBy: ownerId,
+    });
+  }
+
+  it('finds projects by word, prefix and approximate match, best first', async () => {
+    await createProject('project-1', 'Harbour Tower');
+    await createProject('project-2', 'Harbourside Depot');
+    await createProject('project-3', 'Harbuor Mill');
+    await createProject('project-4', 'Airport Hangar');
+
+    const { results } = await search.search(USER, { q: 'harbour' });
+
+    expect(results.map((result) => result.name)).toEqual([
+      'Harbour Tower',
+      'Harbourside Depot',
+      'Harbuor Mill',
+    ]);
+  });
+
+  it('searches projects shared with the user, except those in the trash', async () => {
+    await createProject('project-1', 'Harbour Tower', 'owner-2');
+    await createProject('project-2', 'Harbour Depot', 'owner-2');
+    await shareProject('project-1', 'owner-2');
+    await shareProject('project-2', 'owner-2');
+    await repository.deleteProject('owner-2', 'project-2');
+
+    const { results } = await search.search(USER, { q: 'harbour' });
+
+    expect(results.map((result) => result.projectId)).toEqual(['project-1']);
+  });
+
+  it('pages through matches with a cursor, each match once', async () => {
+    for (let i = 0; i < 5; i++) {
+      await createProject(`project-${i}`, `Harbour ${i}`);
+    }
+
+    const first = await search.search(USER, { q: 'harbour', limit: 3 });
+    const second = await search.search(USER, { q: 'harbour', limit: 3, cursor: first.nextCursor });
+
+    const names = [...first.results, ...second.results].map((result) => result.name).sort();
+    expect(names).toEqual(['Harbour 0', 'Harbour 1', 'Harbour 2', 'Harbour 3', 'Harbour 4']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('returns a short page after searching the most projects a page may read', async () => {
+    for (let i = 0; i < 30; i++) {
+      const name = i === 29 ? 'Harbour' : `Depot ${i}`;
+      await createProject(`project-${String(i).padStart(2, '0')}`, name);
+    }
+
+    const first = await search.search(USER, { q: 'harbour' });
+    const second = await search.search(USER, { q: 'harbour', cursor: first.nextCursor });
+
+    expect(first.results).toEqual([]);
+    expect(first.nextCursor).toBeDefined();
+    expect(second.results.map((result) => result.projectId)).toEqual(['project-29']);
+  });
+
+  it('rejects a cursor issued for another search', async () => {
+    for (let i = 0; i < 3; i++) {
+      await createProject(`project-${i}`, `Harbour ${i}`);
+    }
+    const { nextCursor } = await search.search(USER, { q: 'harbour', limit: 1 });
+
+    await expect(
+      search.search(USER, { q: 'depot', limit: 1, cursor: nextCursor })
+    ).rejects.toBeInstanceOf(InvalidCursorError);
+  });
+});
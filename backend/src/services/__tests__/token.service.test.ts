@@ -0,0 +1,91 @@
+import { exportJWK, generateKeyPair, JWTPayload, KeyLike, SignJWT } from 'jose';
+import { TokenVerificationError, TokenVerifier } from '../token.service';
+
+const ISSUER = 'https://issuer.example.com';
+const AUDIENCE = 'file-service';
+
+describe('TokenVerifier', () => {
+  let privateKey: KeyLike;
+  let otherPrivateKey: KeyLike;
+  let verifier: TokenVerifier;
+
+  beforeAll(async () => {
+    const keyPair = await generateKeyPair('RS256');
+    const otherKeyPair = await generateKeyPair('RS256');
+    privateKey = keyPair.privateKey;
+    otherPrivateKey = otherKeyPair.privateKey;
+
+    const jwk = { ...(await exportJWK(keyPair.publicKey)), kid: 'test-key', alg: 'RS256' };
+    verifier = new TokenVerifier({
+      jwks: { keys: [jwk] },
+      issuer: ISSUER,
+      audience: [AUDIENCE],
+      clockToleranceSeconds: 0,
+    });
+  });
+
+  function sign(
+    claims: JWTPayload = {},
+    options: { key?: KeyLike; issuer?: string; audience?: string; expiresAt?: number } = {}
+  ): Promise<string> {
+    const jwt = new SignJWT({ sub: 'user-1', email: 'user@example.com', ...claims })
+      .setProtectedHeader({ alg: 'RS256', kid: 'test-key' })
+      .setIssuedAt()
+      .setIssuer(options.issuer ?? ISSUER)
+      .setExpirationTime(options.expiresAt ?? '5m');
+
+    if (options.audience !== '') {
+      jwt.setAudience(options.audience ?? AUDIENCE);
+    }
+    return jwt.sign(options.key ?? privateKey);
+  }
+
+  async function verifyError(token: Promise<string>): Promise<TokenVerificationError> {
+    const error = await verifier.verify(await token).catch((caught) => caught);
+    expect(error).toBeInstanceOf(TokenVerificationError);
+    return error;
+  }
+
+  it('returns the user of a valid token', async () => {
+    const user = await verifier.verify(await sign({ 'cognito:groups': ['admin', 'editors'] }));
+
+    expect(user).toEqual({ userId: 'user-1', email: 'user@example.com', roles: ['admin', 'editors'] });
+  });
+
+  it('accepts Cognito access tokens carrying client_id instead of aud', async () => {
+    const user = await verifier.verify(await sign({ client_id: AUDIENCE }, { audience: '' }));
+
+    expect(user.userId).toBe('user-1');
+  });
+
+  it('rejects a token from another issuer', async () => {
+    const error = await verifyError(sign({}, { issuer: 'https://evil.example.com' }));
+
+    expect(error.code).toBe('INVALID_TOKEN');
+  });
+
+  it('rejects a token for another audience', async () => {
+    const error = await verifyError(sign({}, { audience: 'other-service' }));
+
+    expect(error.code).toBe('INVALID_TOKEN');
+    expect(error.message).toBe('Token audience is not allowed');
+  });
+
+  it('rejects an expired token', async () => {
+    const error = await verifyError(sign({}, { expiresAt: Math.floor(Date.now() / 1000) - 60 }));
+
+    expect(error.code).toBe('TOKEN_EXPIRED');
+  });
+
+  it('rejects a token signed with a key outside the key set', async () => {
+    const error = await verifyError(sign({}, { key: otherPrivateKey }));
+
+    expect(error.code).toBe('INVALID_TOKEN');
+  });
+
+  it('rejects a token without a subject', async () => {
+    const error = await verifyError(sign({ sub: undefined }));
+
+    expect(error.message).toBe('Token has no subject');
+  });
+});
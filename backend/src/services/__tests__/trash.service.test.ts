@@ -0,0 +1,200 @@
+import { QUOTA_CONFIG } from '../../config/aws.config';
+import { FileMetadata, Project, StorageProvider } from '../../types';
+import { AuditService } from '../audit.service';
+import { InMemoryMetadataRepository } from '../memory-metadata.service';
+import { QuotaExceededError, QuotaService } from '../quota.service';
+import { TrashService } from '../trash.service';
+
+const OWNER = 'owner-1';
+const PROJECT = 'project-1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('TrashService', () => {
+  let repository: InMemoryMetadataRepository;
+  let deletedObjects: string[];
+  let quotaConfig: typeof QUOTA_CONFIG;
+  let trash: TrashService;
+
+  beforeEach(async () => {
+    repository = new InMemoryMetadataRepository();
+    deletedObjects = [];
+    quotaConfig = { ...QUOTA_CONFIG, projectMaxBytes: 0, projectMaxFiles: 0 };
+
+    // Only deletes reach storage
+    const storage = {
+      deleteObject: async (s3Key: string) => {
+        deletedObjects.push(s3Key);
+      },
+      deleteObjectsWithPrefix: async (prefix: string) => {
+        deletedObjects.push(`${prefix}*`);
+        return 3;
+      },
+    } as Partial<StorageProvider> as StorageProvider;
+
+    const quota = new QuotaService(repository, quotaConfig);
+    trash = new TrashService(repository, storage, new AuditService(repository), quota);
+
+    await repository.createProject(OWNER, PROJECT, { name: 'Harbour Tower' });
+  });
+
+  async function getProject(): Promise<Project> {
+    return repository.getProjectById(OWNER, PROJECT);
+  }
+
+  async function getFile(fileId: string): Promise<FileMetadata> {
+    return repository.getFileById(PROJECT, fileId);
+  }
+
+  async function createUploadedFile(fileId: string, fileSize = 10): Promise<FileMetadata> {
+    await repository.createFileMetadata({
+      fileId,
+      projectId: PROJECT,
+      fileName: `${fileId}.pdf`,
+      fileType: 'application/pdf',
+      fileExtension: '.pdf',
+      fileSize,
+      s3Key: `${PROJECT}/${fileId}/${fileId}.pdf`,
+      uploadedBy: OWNER,
+    });
+    return repository.updateFileStatus(PROJECT, fileId, 'uploaded', undefined, {
+      stats: { ownerId: OWNER, fileCountDelta: 1, sizeDelta: fileSize },
+    });
+  }
+
+  describe('files', () => {
+    it('takes a trashed file out of the project statistics and counts it again when restored', async () => {
+      const file = await createUploadedFile('file-1', 25);
+
+      const trashed = await trash.trashFile(OWNER, file);
+      expect(trashed).toMatchObject({ status: 'deleted', statusBeforeDelete: 'uploaded' });
+      expect(await getProject()).toMatchObject({ fileCount: 0, totalSize: 0 });
+
+      const restored = await trash.restoreFile(await getProject(), trashed);
+      expect(restored.status).toBe('uploaded');
+      expect(restored.deletedAt).toBeUndefined();
+      expect(await getProject()).toMatchObject({ fileCount: 1, totalSize: 25 });
+    });
+
+    it('does not trash a file that changed status since it was read', async () => {
+      const file = await createUploadedFile('file-1');
+      await trash.trashFile(OWNER, file);
+
+      expect(await trash.trashFile(OWNER, file)).toBeNull();
+      expect(await getProject()).toMatchObject({ fileCount: 0, totalSize: 0 });
+    });
+
+    it('refuses to restore a file over the quota', async () => {
+      const trashed = await trash.trashFile(OWNER, await createUploadedFile('file-1', 25));
+      await createUploadedFile('file-2', 80);
+      quotaConfig.projectMaxBytes = 100;
+
+      await expect(trash.restoreFile(await getProject(), trashed)).rejects.toBeInstanceOf(
+        QuotaExceededError
+      );
+      expect((await getFile('file-1')).status).toBe('deleted');
+    });
+
+    it('purges a file with the objects of all of its versions', async () => {
+      const file = await createUploadedFile('file-1');
+      await repository.createFileVersion({
+        projectId: PROJECT,
+        fileId: 'file-1',
+        version: 2,
+        fileName: 'file-1.pdf',
+        fileType: 'application/pdf',
+        fileExtension: '.pdf',
+        fileSize: 12,
+        s3Key: `${PROJECT}/file-1/v2/file-1.pdf`,
+        uploadedBy: OWNER,
+      });
+      const trashed = await trash.trashFile(OWNER, file);
+
+      expect(await trash.purgeFile(trashed)).toBe(true);
+      expect(await getFile('file-1')).toBeNull();
+      expect((await repository.getFileVersions(PROJECT, 'file-1')).versions).toEqual([]);
+      expect(deletedObjects).toEqual([
+        `${PROJECT}/file-1/file-1.pdf`,
+        `${PROJECT}/file-1/v2/file-1.pdf`,
+        `${PROJECT}/file-1/*`,
+      ]);
+    });
+
+    it('does not purge a file restored since it was read', async () => {
+      const trashed = await trash.trashFile(OWNER, await createUploadedFile('file-1'));
+      await trash.restoreFile(await getProject(), trashed);
+
+      expect(await trash.purgeFile(trashed)).toBe(false);
+      expect((await getFile('file-1')).status).toBe('uploaded');
+      expect(deletedObjects).toEqual([]);
+    });
+  });
+
+  describe('projects', () => {
+    it('restores the files trashed with a project but not those deleted before', async () => {
+      await trash.trashFile(OWNER, await createUploadedFile('file-1', 10));
+      await createUploadedFile('file-2', 20);
+      await createUploadedFile('file-3', 30);
+
+      const trashed = await trash.trashProject(await getProject());
+      expect(trashed.files).toBe(2);
+      expect(await getProject()).toMatchObject({ status: 'deleted', fileCount: 0, totalSize: 0 });
+
+      const restored = await trash.restoreProject(trashed.project);
+      expect(restored.files).toBe(2);
+      expect(restored.project).toMatchObject({ status: 'active', fileCount: 2, totalSize: 50 });
+      expect((await getFile('file-1')).status).toBe('deleted');
+    });
+
+    it('restores nothing when the files of a project would exceed the quota', async () => {
+      await createUploadedFile('file-1', 10);
+      await createUploadedFile('file-2', 20);
+      const { project } = await trash.trashProject(await getProject());
+      quotaConfig.projectMaxFiles = 1;
+
+      await expect(trash.restoreProject(project)).rejects.toBeInstanceOf(QuotaExceededError);
+      expect((await getProject()).status).toBe('deleted');
+    });
+  });
+
+  describe('purge job', () => {
+    it('purges items trashed longer than the retention window', async () => {
+      const trashed = await trash.trashFile(OWNER, await createUploadedFile('file-1'));
+      const trashedAt = new Date(trashed.deletedAt).getTime();
+
+      const purgeAfter = (days: number) =>
+        trash.purgeExpired({ retentionDays: 7, now: new Date(trashedAt + days * DAY_MS) });
+
+      expect((await purgeAfter(6)).files).toEqual([]);
+      expect((await purgeAfter(8)).files).toEqual([
+        { projectId: PROJECT, fileId: 'file-1', fileName: 'file-1.pdf' },
+      ]);
+      expect(await getFile('file-1')).toBeNull();
+    });
+
+    it('purges trashed projects with their objects and records', async () => {
+      await createUploadedFile('file-1');
+      const { project } = await trash.trashProject(await getProject());
+      const now = new Date(new Date(project.deletedAt).getTime() + 31 * DAY_MS);
+
+      const report = await trash.purgeExpired({ retentionDays: 30, now });
+
+      expect(report.projects).toEqual([
+        { projectId: PROJECT, name: 'Harbour Tower', objectsDeleted: 3 },
+      ]);
+      expect(deletedObjects).toContain(`${PROJECT}/*`);
+      expect(await getProject()).toBeNull();
+      expect(await getFile('file-1')).toBeNull();
+    });
+
+    it('reports what would be purged on a dry run without changing anything', async () => {
+      const trashed = await trash.trashFile(OWNER, await createUploadedFile('file-1'));
+      const now = new Date(new Date(trashed.deletedAt).getTime() + 31 * DAY_MS);
+
+      const report = await trash.purgeExpired({ retentionDays: 30, dryRun: true, now });
+
+      expect(report.files).toHaveLength(1);
+      expect((await getFile('file-1')).status).toBe('deleted');
+      expect(deletedObjects).toEqual([]);
+    });
+  });
+});
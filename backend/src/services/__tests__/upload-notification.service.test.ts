@@ -0,0 +1,150 @@
+import { PREVIEW_CONFIG, QUOTA_CONFIG, TILE_CONFIG } from '../../config/aws.config';
+import { Project, StorageProvider } from '../../types';
+import { AuditService } from '../audit.service';
+import { BackgroundQueue } from '../background-queue.service';
+import { EventBus } from '../event-bus.service';
+import { FileService } from '../file.service';
+import { InMemoryMetadataRepository } from '../memory-metadata.service';
+import { PreviewService } from '../preview.service';
+import { QuotaService } from '../quota.service';
+import { TileService } from '../tile.service';
+import { TrashService } from '../trash.service';
+import { UploadNotificationService } from '../upload-notification.service';
+import { UploadVerificationService } from '../upload-verification.service';
+
+const OWNER = 'owner-1';
+const PROJECT = 'project-1';
+const CONTENT = Buffer.from('Door schedule\nD01 910x2100\n');
+const S3_KEY = `${PROJECT}/file-1/schedule.txt`;
+const USER = { userId: OWNER };
+
+describe('UploadNotificationService', () => {
+  let repository: InMemoryMetadataRepository;
+  let objects: Map<string, Buffer>;
+  let files: FileService;
+  let notifications: UploadNotificationService;
+
+  beforeEach(async () => {
+    repository = new InMemoryMetadataRepository();
+    objects = new Map();
+
+    // Only the reads of upload verification reach storage
+    const storage = {
+      getObjectMetadata: async (s3Key: string) =>
+        objects.has(s3Key)
+          ? { contentType: 'text/plain', contentLength: objects.get(s3Key).length }
+          : null,
+      readObjectHead: async (s3Key: string, maxBytes: number) =>
+        objects.get(s3Key).subarray(0, maxBytes),
+    } as Partial<StorageProvider> as StorageProvider;
+
+    const queue = new BackgroundQueue();
+    const audit = new AuditService(repository);
+    const quota = new QuotaService(repository, QUOTA_CONFIG);
+    files = new FileService(
+      repository,
+      storage,
+      new UploadVerificationService(storage),
+      quota,
+      new TrashService(repository, storage, audit, quota),
+      new PreviewService(repository, storage, { ...PREVIEW_CONFIG, enabled: false }, queue),
+      new TileService(repository, storage, { ...TILE_CONFIG, enabled: false }, queue),
+      audit,
+      new EventBus(queue)
+    );
+    notifications = new UploadNotificationService(repository, files);
+
+    await repository.createProject(OWNER, PROJECT, { name: 'Harbour Tower' });
+    await repository.createFileMetadata({
+      fileId: 'file-1',
+      projectId: PROJECT,
+      fileName: 'schedule.txt',
+      fileType: 'text/plain',
+      fileExtension: '.txt',
+      fileSize: CONTENT.length,
+      s3Key: S3_KEY,
+      uploadedBy: OWNER,
+    });
+  });
+
+  async function getProject(): Promise<Project> {
+    return repository.getProjectById(OWNER, PROJECT);
+  }
+
+  async function expectCountedOnce(): Promise<void> {
+    expect(await getProject()).toMatchObject({ fileCount: 1, totalSize: CONTENT.length });
+    expect((await repository.getFileById(PROJECT, 'file-1')).status).toBe('uploaded');
+  }
+
+  it('confirms a pending upload when its object is created', async () => {
+    objects.set(S3_KEY, CONTENT);
+
+    const report = await notifications.handleObjectsCreated([S3_KEY]);
+
+    expect(report).toEqual({
+      confirmed: [{ projectId: PROJECT, fileId: 'file-1', s3Key: S3_KEY }],
+      skipped: 0,
+      failed: [],
+    });
+    await expectCountedOnce();
+  });
+
+  it('counts an upload once when its notification is delivered twice', async () => {
+    objects.set(S3_KEY, CONTENT);
+
+    await notifications.handleObjectsCreated([S3_KEY]);
+    const report = await notifications.handleObjectsCreated([S3_KEY]);
+
+    expect(report).toMatchObject({ confirmed: [], skipped: 1 });
+    await expectCountedOnce();
+  });
+
+  it('counts an upload once when the client confirms it after the notification', async () => {
+    objects.set(S3_KEY, CONTENT);
+
+    await notifications.handleObjectsCreated([S3_KEY]);
+    const result = await files.confirmUpload(await getProject(), 'file-1', USER);
+
+    expect(result.stats).toEqual({ fileCountDelta: 0, sizeDelta: 0 });
+    await expectCountedOnce();
+  });
+
+  it('skips an upload the client confirmed first', async () => {
+    objects.set(S3_KEY, CONTENT);
+
+    await files.confirmUpload(await getProject(), 'file-1', USER);
+    const report = await notifications.handleObjectsCreated([S3_KEY]);
+
+    expect(report).toMatchObject({ confirmed: [], skipped: 1 });
+    await expectCountedOnce();
+  });
+
+  it('counts an upload once when the client and the notification confirm it concurrently', async () => {
+    objects.set(S3_KEY, CONTENT);
+
+    const [report, result] = await Promise.all([
+      notifications.handleObjectsCreated([S3_KEY]),
+      files.confirmUpload(await getProject(), 'file-1', USER),
+    ]);
+
+    expect(report.confirmed.length + result.stats.fileCountDelta).toBe(1);
+    await expectCountedOnce();
+  });
+
+  it('skips objects that are not first uploads of a pending file', async () => {
+    const report = await notifications.handleObjectsCreated([
+      `${PROJECT}/file-1/previews/thumbnail.jpg`,
+      `${PROJECT}/file-2/unknown.txt`,
+      'foreign-object.txt',
+    ]);
+
+    expect(report).toEqual({ confirmed: [], skipped: 3, failed: [] });
+  });
+
+  it('reports an upload whose object is missing', async () => {
+    const report = await notifications.handleObjectsCreated([S3_KEY]);
+
+    expect(report.failed).toEqual([{ s3Key: S3_KEY, error: 'File has not been uploaded to storage' }]);
+    expect(await getProject()).toMatchObject({ fileCount: 0, totalSize: 0 });
+  });
+});
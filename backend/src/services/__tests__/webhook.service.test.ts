@@ -0,0 +1,263 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebhookService } from '../webhook.service';
+import { InMemoryMetadataRepository } from '../memory-metadata.service';
+import { WEBHOOK_CONFIG } from '../../config/aws.config';
+import { LifecycleEvent, Webhook } from '../../types';
+
+const PROJECT = 'project-1';
+const SECRET = 'whsec_test';
+
+const CONFIG: typeof WEBHOOK_CONFIG = {
+  ...WEBHOOK_CONFIG,
+  maxAttempts: 3,
+  retryBaseDelay: 3600, // Long enough that no retry timer fires during a test
+  timeout: 5,
+  allowPrivateUrls: true,
+};
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('WebhookService', () => {
+  let server: http.Server;
+  let port: number;
+  let received: ReceivedRequest[];
+  let statusCodes: number[];
+  let repository: InMemoryMetadataRepository;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = statusCodes.shift() ?? 200;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    statusCodes = [];
+    repository = new InMemoryMetadataRepository();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function createWebhook(url = `http://127.0.0.1:${port}/hooks`, active = true): Promise<Webhook> {
+    return repository.createWebhook({
+      webhookId: crypto.randomUUID(),
+      projectId: PROJECT,
+      url,
+      events: ['file.uploaded'],
+      active,
+      secret: SECRET,
+      createdBy: 'owner-1',
+    });
+  }
+
+  function uploadedEvent(): LifecycleEvent {
+    return {
+      eventId: crypto.randomUUID(),
+      type: 'file.uploaded',
+      projectId: PROJECT,
+      actorId: 'owner-1',
+      occurredAt: new Date().toISOString(),
+      data: { fileId: 'file-1' },
+    };
+  }
+
+  async function deliveriesOf(webhook: Webhook) {
+    return (await repository.getWebhookDeliveries(PROJECT, webhook.webhookId)).deliveries;
+  }
+
+  function resolveTo(...addresses: string[]): jest.SpyInstance {
+    return jest
+      .spyOn(dns.promises, 'lookup')
+      .mockResolvedValue(addresses.map((address) => ({ address, family: 4 })) as never);
+  }
+
+  describe('signing', () => {
+    it('signs the timestamp and body of each delivery with the webhook secret', async () => {
+      const webhooks = new WebhookService(repository, CONFIG);
+      await createWebhook();
+
+      await webhooks.dispatch(uploadedEvent());
+
+      const [{ headers, body }] = received;
+      const timestamp = headers['x-webhook-timestamp'] as string;
+      const expected = crypto.createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex');
+      expect(headers['x-webhook-signature']).toBe(`sha256=${expected}`);
+      expect(JSON.parse(body)).toMatchObject({ type: 'file.uploaded', data: { fileId: 'file-1' } });
+    });
+
+    it('delivers only to active webhooks subscribed to the event', async () => {
+      const webhooks = new WebhookService(repository, CONFIG);
+      await createWebhook();
+      await createWebhook(undefined, false);
+      await repository.updateWebhook(PROJECT, (await createWebhook()).webhookId, {
+        events: ['project.updated'],
+      });
+
+      await webhooks.dispatch(uploadedEvent());
+
+      expect(received).toHaveLength(1);
+    });
+  });
+
+  describe('retries', () => {
+    it('schedules a retry with exponential backoff after a failed attempt', async () => {
+      const webhooks = new WebhookService(repository, CONFIG);
+      const webhook = await createWebhook();
+      statusCodes = [500];
+
+      const before = Date.now();
+      await webhooks.dispatch(uploadedEvent());
+      const [delivery] = await deliveriesOf(webhook);
+
+      expect(delivery.status).toBe('pending');
+      expect(delivery.attempts).toEqual([
+        expect.objectContaining({ statusCode: 500, error: 'Receiver answered with status 500' }),
+      ]);
+      expect(Date.parse(delivery.nextAttemptAt!) - before).toBeGreaterThanOrEqual(3600_000);
+      expect(webhooks.getRetryDelay(2)).toBe(7200);
+      expect(webhooks.getRetryDelay(3)).toBe(14400);
+    });
+
+    it('retries overdue deliveries until one succeeds', async () => {
+      const webhooks = new WebhookService(repository, CONFIG);
+      const webhook = await createWebhook();
+      statusCodes = [500, 200];
+      await webhooks.dispatch(uploadedEvent());
+
+      const report = await webhooks.retryDue({ now: new Date(Date.now() + 2 * 3600_000) });
+      const [delivery] = await deliveriesOf(webhook);
+
+      expect(report).toMatchObject({ attempted: 1, succeeded: 1, rescheduled: 0, failed: 0 });
+      expect(delivery.status).toBe('succeeded');
+      expect(delivery.nextAttemptAt).toBeUndefined();
+      expect(received.map((request) => request.headers['x-webhook-delivery'])).toEqual([
+        delivery.deliveryId,
+        delivery.deliveryId,
+      ]);
+    });
+
+    it('gives up after the last attempt', async () => {
+      const webhooks = new WebhookService(repository, CONFIG);
+      const webhook = await createWebhook();
+      statusCodes = [500, 500, 500];
+      await webhooks.dispatch(uploadedEvent());
+
+      await webhooks.retryDue({ now: new Date(Date.now() + 2 * 3600_000) });
+      const report = await webhooks.retryDue({ now: new Date(Date.now() + 5 * 3600_000) });
+      const [delivery] = await deliveriesOf(webhook);
+
+      expect(report).toMatchObject({ attempted: 1, failed: 1 });
+      expect(delivery.status).toBe('failed');
+      expect(delivery.attempts).toHaveLength(3);
+    });
+
+    it('stops retrying deliveries of a webhook disabled meanwhile', async () => {
+      const webhooks = new WebhookService(repository, CONFIG);
+      const webhook = await createWebhook();
+      statusCodes = [500];
+      await webhooks.dispatch(uploadedEvent());
+      await repository.updateWebhook(PROJECT, webhook.webhookId, { active: false });
+
+      const report = await webhooks.retryDue({ now: new Date(Date.now() + 2 * 3600_000) });
+
+      expect(report).toMatchObject({ attempted: 1, failed: 1 });
+      expect(received).toHaveLength(1);
+    });
+
+    it('does not retry test deliveries', async () => {
+      const webhooks = new WebhookService(repository, CONFIG);
+      const webhook = await createWebhook();
+      statusCodes = [500];
+
+      const delivery = await webhooks.sendTest(webhook, 'owner-1');
+
+      expect(delivery.status).toBe('failed');
+      expect(delivery.nextAttemptAt).toBeUndefined();
+    });
+  });
+
+  describe('private addresses', () => {
+    const publicConfig = { ...CONFIG, allowPrivateUrls: false };
+
+    it('accepts HTTP(S) URLs of hosts with public addresses only', async () => {
+      const webhooks = new WebhookService(repository, publicConfig);
+      resolveTo('93.184.216.34');
+
+      expect(await webhooks.isAllowedUrl('https://hooks.example.com/events')).toBe(true);
+      expect(await webhooks.isAllowedUrl('ftp://hooks.example.com/events')).toBe(false);
+      expect(await webhooks.isAllowedUrl('not a url')).toBe(false);
+    });
+
+    it('refuses URLs of private, loopback and link-local addresses', async () => {
+      const webhooks = new WebhookService(repository, publicConfig);
+      const urls = [
+        'http://localhost/hooks',
+        'http://127.0.0.1/hooks',
+        'http://10.1.2.3/hooks',
+        'http://172.16.0.1/hooks',
+        'http://192.168.1.1/hooks',
+        'http://169.254.169.254/latest/meta-data',
+        'http://[::1]/hooks',
+        'http://[fd00::1]/hooks',
+        'http://[::ffff:127.0.0.1]/hooks',
+      ];
+
+      for (const url of urls) {
+        expect(await webhooks.isAllowedUrl(url)).toBe(false);
+      }
+    });
+
+    it('refuses hosts with any private address', async () => {
+      const webhooks = new WebhookService(repository, publicConfig);
+      resolveTo('93.184.216.34', '10.0.0.5');
+
+      expect(await webhooks.isAllowedUrl('https://hooks.example.com/events')).toBe(false);
+    });
+
+    it('does not connect to a host re-pointed at a private address after it was checked', async () => {
+      const webhooks = new WebhookService(repository, publicConfig);
+      resolveTo('93.184.216.34');
+      expect(await webhooks.isAllowedUrl(`http://hooks.example.com:${port}/hooks`)).toBe(true);
+      const webhook = await createWebhook(`http://hooks.example.com:${port}/hooks`);
+
+      resolveTo('127.0.0.1');
+      const delivery = await webhooks.sendTest(webhook, 'owner-1');
+
+      expect(received).toHaveLength(0);
+      expect(delivery.attempts[0].error).toBe(
+        'hooks.example.com resolves to the private address 127.0.0.1'
+      );
+    });
+
+    it('does not connect to private addresses given as the URL host', async () => {
+      const webhooks = new WebhookService(repository, publicConfig);
+      const webhook = await createWebhook();
+
+      const delivery = await webhooks.sendTest(webhook, 'owner-1');
+
+      expect(received).toHaveLength(0);
+      expect(delivery.attempts[0].error).toBe('127.0.0.1 is a private address');
+    });
+  });
+});
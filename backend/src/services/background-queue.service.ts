@@ -0,0 +1,52 @@
+/**
+ * Background Queue Service - Runs derived-content jobs after responses are sent
+ *
+ * Jobs run one at a time in the server process, so image decoding for
+ * previews and tiles never competes for memory. A job queued again while it
+ * is still waiting runs once; queued again while running, it runs again.
+ * On Lambda, handlers wait for the queue to empty before they return, since
+ * the instance may be frozen or recycled afterwards.
+ */
+
+/**
+ * Background Queue class
+ */
+export class BackgroundQueue {
+  private jobs = new Map<string, () => Promise<unknown>>();
+  private draining?: Promise<void>;
+
+  /**
+   * Queue a job under a key identifying the work it does
+   */
+  add(key: string, job: () => Promise<unknown>): void {
+    if (!this.jobs.has(key)) {
+      this.jobs.set(key, job);
+    }
+
+    this.draining ??= this.drain().finally(() => {
+      this.draining = undefined;
+    });
+  }
+
+  /**
+   * Wait until every queued job has run
+   */
+  async whenIdle(): Promise<void> {
+    while (this.draining) {
+      await this.draining;
+    }
+  }
+
+  private async drain(): Promise<void> {
+    // Maps iterate over entries added during iteration, so late jobs run too
+    for (const [key, job] of this.jobs) {
+      this.jobs.delete(key);
+      await job().catch((error) => {
+        console.error(`Error running background job ${key}:`, error);
+      });
+    }
+  }
+}
+
+// Export singleton instance
+export const backgroundQueue = new BackgroundQueue();
@@ -0,0 +1,83 @@
+/**
+ * Cursor Service - Signs and verifies the pagination cursors of list endpoints
+ *
+ * A cursor is the repository's last key, base64url-encoded and followed by an
+ * HMAC of the key and the listing it came from. Clients cannot forge keys into
+ * other partitions, and a cursor only continues the listing (the same
+ * partition, filters and order) that issued it.
+ */
+
+import crypto from 'crypto';
+import { PAGINATION_CONFIG } from '../config/aws.config';
+import { PaginationKey } from '../types';
+
+/**
+ * Thrown when a cursor is malformed, tampered with or issued by another listing
+ */
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid pagination cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * Cursor Service class
+ */
+export class CursorService {
+  constructor(private secret: string = PAGINATION_CONFIG.cursorSecret) {}
+
+  /**
+   * Encode a last key as a cursor for the given listing scope
+   */
+  encode(lastKey: PaginationKey | undefined, scope: string): string | undefined {
+    if (!lastKey) {
+      return undefined;
+    }
+
+    const payload = Buffer.from(JSON.stringify(lastKey)).toString('base64url');
+    return `${payload}.${this.sign(payload, scope)}`;
+  }
+
+  /**
+   * Decode a cursor issued for the given listing scope
+   *
+   * @throws InvalidCursorError when the cursor does not verify
+   */
+  decode(cursor: string | undefined, scope: string): PaginationKey | undefined {
+    if (!cursor) {
+      return undefined;
+    }
+
+    const [payload, signature, ...rest] = cursor.split('.');
+    if (!payload || !signature || rest.length > 0) {
+      throw new InvalidCursorError();
+    }
+
+    const expected = Buffer.from(this.sign(payload, scope));
+    const provided = Buffer.from(signature);
+    if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+      throw new InvalidCursorError();
+    }
+
+    try {
+      const lastKey = JSON.parse(Buffer.from(payload, 'base64url').toString());
+      if (lastKey && typeof lastKey === 'object' && !Array.isArray(lastKey)) {
+        return lastKey;
+      }
+    } catch {
+      // Reported below
+    }
+    throw new InvalidCursorError();
+  }
+
+  private sign(payload: string, scope: string): string {
+    return crypto
+      .createHmac('sha256', this.secret)
+      .update(`${scope}\n${payload}`)
+      .digest('base64url');
+  }
+}
+
+// Export singleton instance
+export const cursorService = new CursorService();
@@ -2,27 +2,105 @@
  * DynamoDB Service - Handles all DynamoDB operations for file and project metadata
  */
 
+import { isDeepStrictEqual } from 'util';
 import {
+  BatchGetCommand,
+  BatchWriteCommand,
+  BatchWriteCommandInput,
   PutCommand,
   GetCommand,
   QueryCommand,
+  QueryCommandInput,
+  ScanCommand,
   UpdateCommand,
   DeleteCommand,
+  TransactWriteCommand,
+  TransactWriteCommandInput,
+  UpdateCommandInput,
 } from '@aws-sdk/lib-dynamodb';
 import { docClient, DYNAMODB_CONFIG } from '../config/aws.config';
 import {
   FileMetadata,
   FileStatus,
   CreateFileMetadata,
+  MultipartUploadState,
+  FileVersion,
+  FileVersionStatus,
+  CreateFileVersion,
   Project,
-  ProjectStatus,
+  ProjectRole,
+  ProjectMember,
+  CreateProjectMember,
+  SharedProjectRef,
   CreateProjectRequest,
+  MetadataRepository,
+  PageQueryOptions,
+  FileQueryOptions,
+  FileCountOptions,
+  ProjectQueryOptions,
+  ProjectCountOptions,
+  ProjectUpdates,
+  PaginationKey,
+  VersionQueryOptions,
+  FileStatusUpdates,
+  PendingUploadQueryOptions,
+  PendingVersionUpload,
+  TrashQueryOptions,
+  FileChangeOptions,
+  ProjectStats,
+  ProjectStatsChange,
+  FilePreviews,
+  FileTiles,
+  FileUpdates,
+  SearchDocument,
+  SearchTokenEntry,
+  AuditEntry,
+  AuditQueryOptions,
+  CreateAuditEntry,
+  Webhook,
+  CreateWebhook,
+  WebhookUpdates,
+  WebhookDelivery,
+  CreateWebhookDelivery,
+  WebhookDeliveryUpdate,
+  WebhookDeliveryQueryOptions,
+  DueDeliveryQueryOptions,
 } from '../types';
+import {
+  FILE_SORT_INDEXES,
+  PROJECT_SORT_INDEXES,
+  buildAuditSortKey,
+  buildFileListKey,
+  buildFileSortName,
+  buildProjectListKey,
+  buildSearchKey,
+  buildSearchTokenEntries,
+  buildSearchTokenSortKey,
+  buildSortName,
+  buildVersionSortKey,
+  buildWebhookDeliverySortKey,
+  parseCustomMetadataFilter,
+  toSearchDocument,
+} from '../utils/file.utils';
+import { hasErrorName, isConditionalCheckFailed } from '../utils/error.utils';
+import { readFullPage } from '../utils/pagination.utils';
+
+/**
+ * Most keys a BatchGetItem request can read
+ */
+const BATCH_GET_SIZE = 100;
+
+/**
+ * Most requests a BatchWriteItem request can make
+ */
+const BATCH_WRITE_SIZE = 25;
+
+const BATCH_ATTEMPTS = 5;
 
 /**
  * DynamoDB Service class for metadata operations
  */
-export class DynamoDBService {
+export class DynamoDBService implements MetadataRepository {
   private tableName: string;
 
   constructor() {
@@ -49,7 +127,16 @@ export class DynamoDBService {
       s3Key: metadata.s3Key,
       uploadedBy: metadata.uploadedBy,
       uploadedAt: now,
+      updatedAt: now,
       status: 'pending',
+      currentVersion: 1,
+      searchKey: buildSearchKey(metadata.projectId),
+      listKey: buildFileListKey(metadata.projectId),
+      sortName: buildFileSortName(metadata),
+      ...(metadata.expectedChecksumSha256 && {
+        expectedChecksumSha256: metadata.expectedChecksumSha256,
+      }),
+      ...(metadata.multipart && { multipart: metadata.multipart }),
     };
 
     await docClient.send(
@@ -80,116 +167,645 @@ export class DynamoDBService {
     return (result.Item as FileMetadata) || null;
   }
 
+  /**
+   * Get several files of a project by ID
+   *
+   * Reads up to 100 keys per request and retries keys DynamoDB left unprocessed.
+   */
+  async getFilesByIds(projectId: string, fileIds: string[]): Promise<FileMetadata[]> {
+    return this.batchGet<FileMetadata>(
+      fileIds.map((fileId) => ({ PK: `PROJECT#${projectId}`, SK: `FILE#${fileId}` }))
+    );
+  }
+
   /**
    * Get all files for a project with optional filtering
+   *
+   * Sorted listings query the listing index of the order; unsorted listings
+   * filtered by type query FileTypeIndex, and others the project partition.
    */
   async getFilesByProject(
     projectId: string,
-    options?: {
-      fileType?: string;
-      status?: FileStatus;
-      limit?: number;
-      lastKey?: Record<string, unknown>;
+    options?: FileQueryOptions
+  ): Promise<{ files: FileMetadata[]; lastKey?: PaginationKey }> {
+    const { input, keyAttributes } = this.buildFileQuery(projectId, options);
+
+    const result = await this.queryFullPage<FileMetadata>(
+      { ...input, ScanIndexForward: options?.sort ? options.order !== 'desc' : undefined },
+      options?.limit,
+      options?.lastKey,
+      keyAttributes
+    );
+    const files = options?.sort ? await this.readListedItems(result.items) : result.items;
+
+    return { files, lastKey: result.lastKey };
+  }
+
+  /**
+   * Count the files getFilesByProject would list with the same filters
+   */
+  async countFiles(projectId: string, options?: FileCountOptions): Promise<number> {
+    return this.countQuery(this.buildFileQuery(projectId, options).input);
+  }
+
+  /**
+   * Update file status (e.g., from pending to uploaded), together with the
+   * project statistics when a stats change is given
+   */
+  async updateFileStatus(
+    projectId: string,
+    fileId: string,
+    status: FileStatus,
+    updates?: FileStatusUpdates,
+    options?: FileChangeOptions
+  ): Promise<FileMetadata | null> {
+    const update = this.buildStatusUpdate(status, updates);
+
+    return this.updateWithStats<FileMetadata>(
+      {
+        Key: {
+          PK: `PROJECT#${projectId}`,
+          SK: `FILE#${fileId}`,
+        },
+        ...update,
+        ConditionExpression: options?.expectedStatus
+          ? 'attribute_exists(PK) AND #status = :expectedStatus'
+          : 'attribute_exists(PK)',
+        ExpressionAttributeValues: {
+          ...update.ExpressionAttributeValues,
+          ...(options?.expectedStatus && { ':expectedStatus': options.expectedStatus }),
+        },
+      },
+      projectId,
+      options?.stats
+    );
+  }
+
+  /**
+   * Mark file as deleted (soft delete), remembering its status for a restore
+   */
+  async deleteFile(
+    projectId: string,
+    fileId: string,
+    options?: FileChangeOptions & { withProject?: boolean }
+  ): Promise<FileMetadata | null> {
+    return this.updateWithStats<FileMetadata>(
+      {
+        Key: {
+          PK: `PROJECT#${projectId}`,
+          SK: `FILE#${fileId}`,
+        },
+        UpdateExpression:
+          'SET statusBeforeDelete = #status, #status = :deleted, deletedAt = :deletedAt, updatedAt = :deletedAt' +
+          (options?.withProject ? ', deletedWithProject = :withProject' : '') +
+          ' REMOVE multipart',
+        ConditionExpression: options?.expectedStatus
+          ? 'attribute_exists(PK) AND #status = :expectedStatus'
+          : 'attribute_exists(PK) AND #status <> :deleted',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':deleted': 'deleted',
+          ':deletedAt': new Date().toISOString(),
+          ...(options?.withProject && { ':withProject': true }),
+          ...(options?.expectedStatus && { ':expectedStatus': options.expectedStatus }),
+        },
+      },
+      projectId,
+      options?.stats
+    );
+  }
+
+  /**
+   * Restore a soft-deleted file to the status it had before
+   */
+  async restoreFile(
+    projectId: string,
+    fileId: string,
+    options?: Pick<FileChangeOptions, 'stats'>
+  ): Promise<FileMetadata | null> {
+    return this.updateWithStats<FileMetadata>(
+      {
+        Key: {
+          PK: `PROJECT#${projectId}`,
+          SK: `FILE#${fileId}`,
+        },
+        UpdateExpression:
+          'SET #status = if_not_exists(statusBeforeDelete, :uploaded), updatedAt = :updatedAt ' +
+          'REMOVE statusBeforeDelete, deletedAt, deletedWithProject',
+        ConditionExpression: '#status = :deleted',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':deleted': 'deleted',
+          ':uploaded': 'uploaded',
+          ':updatedAt': new Date().toISOString(),
+        },
+      },
+      projectId,
+      options?.stats
+    );
+  }
+
+  /**
+   * Hard delete file metadata (use with caution)
+   */
+  async hardDeleteFile(
+    projectId: string,
+    fileId: string,
+    options?: FileChangeOptions
+  ): Promise<boolean> {
+    const deletion = {
+      TableName: this.tableName,
+      Key: {
+        PK: `PROJECT#${projectId}`,
+        SK: `FILE#${fileId}`,
+      },
+      ...(options?.expectedStatus && {
+        ConditionExpression: '#status = :expectedStatus',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':expectedStatus': options.expectedStatus },
+      }),
+    };
+
+    try {
+      if (options?.stats) {
+        await this.transactWrite([
+          { Delete: deletion },
+          { Update: this.buildStatsUpdate(projectId, options.stats) },
+        ]);
+      } else {
+        await docClient.send(new DeleteCommand(deletion));
+      }
+      return true;
+    } catch (error: unknown) {
+      if (isConditionalCheckFailed(error)) {
+        return false;
+      }
+      throw error;
     }
-  ): Promise<{ files: FileMetadata[]; lastKey?: Record<string, unknown> }> {
-    let filterExpression: string | undefined;
-    const expressionAttributeValues: Record<string, unknown> = {
-      ':pk': `PROJECT#${projectId}`,
-      ':skPrefix': 'FILE#',
+  }
+
+  /**
+   * Update a file's display name, tags and custom metadata
+   */
+  async updateFile(
+    projectId: string,
+    fileId: string,
+    updates: FileUpdates
+  ): Promise<FileMetadata | null> {
+    const key = {
+      PK: `PROJECT#${projectId}`,
+      SK: `FILE#${fileId}`,
     };
-    const expressionAttributeNames: Record<string, string> = {};
+    const metadataEntries = Object.entries(updates.customMetadata || {});
 
-    const filters: string[] = [];
+    // Entries are written inside the map, so files without one get an empty map first
+    if (metadataEntries.length > 0) {
+      await this.conditionalUpdate({
+        Key: key,
+        UpdateExpression: 'SET customMetadata = :emptyMap',
+        ConditionExpression: 'attribute_exists(PK) AND attribute_not_exists(customMetadata)',
+        ExpressionAttributeValues: {
+          ':emptyMap': {},
+        },
+      });
+    }
 
-    if (options?.fileType) {
-      filters.push('fileType = :fileType');
-      expressionAttributeValues[':fileType'] = options.fileType;
+    const updateExpressions: string[] = ['updatedAt = :updatedAt'];
+    const removeExpressions: string[] = [];
+    const expressionAttributeValues: Record<string, unknown> = {
+      ':updatedAt': new Date().toISOString(),
+      ':deleted': 'deleted',
+    };
+    const expressionAttributeNames: Record<string, string> = {
+      '#status': 'status',
+    };
+
+    if (updates.displayName === null) {
+      removeExpressions.push('displayName');
+    } else if (updates.displayName !== undefined) {
+      updateExpressions.push('displayName = :displayName', 'sortName = :sortName');
+      expressionAttributeValues[':displayName'] = updates.displayName;
+      expressionAttributeValues[':sortName'] = buildSortName(updates.displayName);
     }
 
-    if (options?.status) {
-      filters.push('#status = :status');
-      expressionAttributeValues[':status'] = options.status;
-      expressionAttributeNames['#status'] = 'status';
-    } else {
-      // Default: exclude deleted files
-      filters.push('#status <> :deletedStatus');
-      expressionAttributeValues[':deletedStatus'] = 'deleted';
-      expressionAttributeNames['#status'] = 'status';
+    if (updates.tags !== undefined) {
+      if (updates.tags.length > 0) {
+        updateExpressions.push('tags = :tags');
+        expressionAttributeValues[':tags'] = updates.tags;
+      } else {
+        removeExpressions.push('tags');
+      }
     }
 
-    if (filters.length > 0) {
-      filterExpression = filters.join(' AND ');
+    metadataEntries.forEach(([name, value], index) => {
+      expressionAttributeNames[`#meta${index}`] = name;
+      if (value === null) {
+        removeExpressions.push(`customMetadata.#meta${index}`);
+      } else {
+        updateExpressions.push(`customMetadata.#meta${index} = :meta${index}`);
+        expressionAttributeValues[`:meta${index}`] = value;
+      }
+    });
+
+    const updated = await this.conditionalUpdate<FileMetadata>({
+      Key: key,
+      UpdateExpression: [
+        `SET ${updateExpressions.join(', ')}`,
+        removeExpressions.length > 0 ? `REMOVE ${removeExpressions.join(', ')}` : '',
+      ].join(' ').trim(),
+      ConditionExpression: 'attribute_exists(PK) AND #status <> :deleted',
+      ExpressionAttributeNames: expressionAttributeNames,
+      ExpressionAttributeValues: expressionAttributeValues,
+    });
+
+    // Without a display name the file sorts by its file name again
+    return updated && this.syncFileSortName(updated);
+  }
+
+  /**
+   * Record a file's previews, unless its content changed since they were generated
+   */
+  async setFilePreviews(
+    projectId: string,
+    fileId: string,
+    previews: FilePreviews
+  ): Promise<FileMetadata | null> {
+    return this.conditionalUpdate<FileMetadata>({
+      Key: {
+        PK: `PROJECT#${projectId}`,
+        SK: `FILE#${fileId}`,
+      },
+      UpdateExpression: 'SET previews = :previews',
+      ConditionExpression: '#status = :uploaded AND s3Key = :sourceS3Key',
+      ExpressionAttributeNames: {
+        '#status': 'status',
+      },
+      ExpressionAttributeValues: {
+        ':previews': previews,
+        ':uploaded': 'uploaded',
+        ':sourceS3Key': previews.sourceS3Key,
+      },
+    });
+  }
+
+  /**
+   * Record a file's tile pyramid, unless its content changed since it was generated
+   */
+  async setFileTiles(projectId: string, fileId: string, tiles: FileTiles): Promise<FileMetadata | null> {
+    return this.conditionalUpdate<FileMetadata>({
+      Key: {
+        PK: `PROJECT#${projectId}`,
+        SK: `FILE#${fileId}`,
+      },
+      UpdateExpression: 'SET tiles = :tiles',
+      ConditionExpression: '#status = :uploaded AND s3Key = :sourceS3Key',
+      ExpressionAttributeNames: {
+        '#status': 'status',
+      },
+      ExpressionAttributeValues: {
+        ':tiles': tiles,
+        ':uploaded': 'uploaded',
+        ':sourceS3Key': tiles.sourceS3Key,
+      },
+    });
+  }
+
+  /**
+   * Record multipart upload progress, or clear it once the upload ends
+   */
+  async updateMultipartState(
+    projectId: string,
+    fileId: string,
+    multipart: MultipartUploadState | null
+  ): Promise<FileMetadata | null> {
+    try {
+      const result = await docClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: {
+            PK: `PROJECT#${projectId}`,
+            SK: `FILE#${fileId}`,
+          },
+          UpdateExpression: multipart ? 'SET multipart = :multipart' : 'REMOVE multipart',
+          ConditionExpression: 'attribute_exists(PK)',
+          ...(multipart && {
+            ExpressionAttributeValues: {
+              ':multipart': multipart,
+            },
+          }),
+          ReturnValues: 'ALL_NEW',
+        })
+      );
+
+      return (result.Attributes as FileMetadata) || null;
+    } catch (error: unknown) {
+      if (isConditionalCheckFailed(error)) {
+        return null;
+      }
+      throw error;
     }
+  }
 
+  /**
+   * Find pending file and version records created before a cutoff
+   */
+  async findPendingUploads(options: PendingUploadQueryOptions): Promise<{
+    files: FileMetadata[];
+    versions: PendingVersionUpload[];
+    lastKey?: PaginationKey;
+  }> {
     const result = await docClient.send(
-      new QueryCommand({
+      new ScanCommand({
         TableName: this.tableName,
-        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
-        FilterExpression: filterExpression,
-        ExpressionAttributeValues: expressionAttributeValues,
-        ExpressionAttributeNames: Object.keys(expressionAttributeNames).length > 0 
-          ? expressionAttributeNames 
-          : undefined,
-        Limit: options?.limit,
-        ExclusiveStartKey: options?.lastKey,
+        FilterExpression:
+          '#status = :pending AND uploadedAt < :uploadedBefore AND ' +
+          '(begins_with(SK, :filePrefix) OR begins_with(SK, :versionPrefix))',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':pending': 'pending',
+          ':uploadedBefore': options.uploadedBefore,
+          ':filePrefix': 'FILE#',
+          ':versionPrefix': 'VERSION#',
+        },
+        Limit: options.limit,
+        ExclusiveStartKey: options.lastKey,
       })
     );
 
+    const items = (result.Items || []) as (FileMetadata | FileVersion)[];
+
     return {
-      files: (result.Items as FileMetadata[]) || [],
+      files: items.filter((item): item is FileMetadata => item.SK.startsWith('FILE#')),
+      versions: items
+        .filter((item): item is FileVersion => item.SK.startsWith('VERSION#'))
+        .map((version) => ({ projectId: version.PK.replace('PROJECT#', ''), version })),
       lastKey: result.LastEvaluatedKey,
     };
   }
 
   /**
-   * Update file status (e.g., from pending to uploaded)
+   * Expire a pending upload that was never confirmed
    */
-  async updateFileStatus(
+  async expirePendingFile(projectId: string, fileId: string): Promise<FileMetadata | null> {
+    return this.expirePending<FileMetadata>(
+      { PK: `PROJECT#${projectId}`, SK: `FILE#${fileId}` },
+      'REMOVE multipart'
+    );
+  }
+
+  /**
+   * Expire a pending version upload that was never confirmed
+   */
+  async expirePendingFileVersion(
     projectId: string,
     fileId: string,
-    status: FileStatus
-  ): Promise<FileMetadata | null> {
+    version: number
+  ): Promise<FileVersion | null> {
+    return this.expirePending<FileVersion>({
+      PK: `PROJECT#${projectId}`,
+      SK: buildVersionSortKey(fileId, version),
+    });
+  }
+
+  // ==================== FILE VERSION OPERATIONS ====================
+
+  /**
+   * Create a file version record
+   */
+  async createFileVersion(data: CreateFileVersion): Promise<FileVersion> {
+    const item: FileVersion = {
+      PK: `PROJECT#${data.projectId}`,
+      SK: buildVersionSortKey(data.fileId, data.version),
+      fileId: data.fileId,
+      version: data.version,
+      fileName: data.fileName,
+      fileType: data.fileType,
+      fileExtension: data.fileExtension,
+      fileSize: data.fileSize,
+      s3Key: data.s3Key,
+      uploadedBy: data.uploadedBy,
+      uploadedAt: data.uploadedAt || new Date().toISOString(),
+      status: data.status || 'pending',
+      ...(data.expectedChecksumSha256 && { expectedChecksumSha256: data.expectedChecksumSha256 }),
+      ...(data.checksumSha256 && { checksumSha256: data.checksumSha256 }),
+      ...(data.detectedType && { detectedType: data.detectedType }),
+    };
+
+    await docClient.send(
+      new PutCommand({
+        TableName: this.tableName,
+        Item: item,
+        ConditionExpression: 'attribute_not_exists(PK) AND attribute_not_exists(SK)',
+      })
+    );
+
+    return item;
+  }
+
+  /**
+   * Get a single file version
+   */
+  async getFileVersion(
+    projectId: string,
+    fileId: string,
+    version: number
+  ): Promise<FileVersion | null> {
     const result = await docClient.send(
-      new UpdateCommand({
+      new GetCommand({
         TableName: this.tableName,
         Key: {
           PK: `PROJECT#${projectId}`,
-          SK: `FILE#${fileId}`,
-        },
-        UpdateExpression: 'SET #status = :status',
-        ExpressionAttributeNames: {
-          '#status': 'status',
-        },
-        ExpressionAttributeValues: {
-          ':status': status,
+          SK: buildVersionSortKey(fileId, version),
         },
-        ReturnValues: 'ALL_NEW',
       })
     );
 
-    return (result.Attributes as FileMetadata) || null;
+    return (result.Item as FileVersion) || null;
+  }
+
+  /**
+   * List the versions of a file
+   */
+  async getFileVersions(
+    projectId: string,
+    fileId: string,
+    options?: VersionQueryOptions
+  ): Promise<{ versions: FileVersion[]; lastKey?: PaginationKey }> {
+    const expressionAttributeValues: Record<string, unknown> = {
+      ':pk': `PROJECT#${projectId}`,
+      ':skPrefix': `VERSION#${fileId}#`,
+    };
+
+    if (options?.status) {
+      expressionAttributeValues[':status'] = options.status;
+    }
+
+    const result = await this.queryFullPage<FileVersion>(
+      {
+        TableName: this.tableName,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
+        ...(options?.status && {
+          FilterExpression: '#status = :status',
+          ExpressionAttributeNames: { '#status': 'status' },
+        }),
+        ExpressionAttributeValues: expressionAttributeValues,
+        ScanIndexForward: !options?.newestFirst,
+      },
+      options?.limit,
+      options?.lastKey,
+      ['PK', 'SK']
+    );
+
+    return { versions: result.items, lastKey: result.lastKey };
   }
 
   /**
-   * Mark file as deleted (soft delete)
+   * Update the status of a file version
    */
-  async deleteFile(projectId: string, fileId: string): Promise<FileMetadata | null> {
-    return this.updateFileStatus(projectId, fileId, 'deleted');
+  async updateFileVersionStatus(
+    projectId: string,
+    fileId: string,
+    version: number,
+    status: FileVersionStatus,
+    updates?: FileStatusUpdates
+  ): Promise<FileVersion | null> {
+    try {
+      const result = await docClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: {
+            PK: `PROJECT#${projectId}`,
+            SK: buildVersionSortKey(fileId, version),
+          },
+          ...this.buildStatusUpdate(status, updates),
+          ConditionExpression: 'attribute_exists(PK)',
+          ReturnValues: 'ALL_NEW',
+        })
+      );
+
+      return (result.Attributes as FileVersion) || null;
+    } catch (error: unknown) {
+      if (isConditionalCheckFailed(error)) {
+        return null;
+      }
+      throw error;
+    }
   }
 
   /**
-   * Hard delete file metadata (use with caution)
+   * Make a version the file's current content
    */
-  async hardDeleteFile(projectId: string, fileId: string): Promise<void> {
-    await docClient.send(
-      new DeleteCommand({
-        TableName: this.tableName,
+  async setCurrentVersion(
+    projectId: string,
+    version: FileVersion,
+    options?: FileChangeOptions & { expectedVersion?: number }
+  ): Promise<FileMetadata | null> {
+    // Checksums and detected type describe the version's content, so they are replaced or cleared with it
+    const setChecksums = [
+      version.expectedChecksumSha256 && 'expectedChecksumSha256 = :expectedChecksumSha256',
+      version.checksumSha256 && 'checksumSha256 = :checksumSha256',
+      version.detectedType && 'detectedType = :detectedType',
+    ].filter(Boolean);
+    const removeChecksums = [
+      !version.expectedChecksumSha256 && 'expectedChecksumSha256',
+      !version.checksumSha256 && 'checksumSha256',
+      !version.detectedType && 'detectedType',
+    ].filter(Boolean);
+
+    // Files created before versioning have no currentVersion and are on version 1
+    const conditions = [
+      'attribute_exists(PK)',
+      options?.expectedStatus && '#status = :expectedStatus',
+      options?.expectedVersion === 1 &&
+        '(currentVersion = :expectedVersion OR attribute_not_exists(currentVersion))',
+      options?.expectedVersion !== undefined && options.expectedVersion !== 1 &&
+        'currentVersion = :expectedVersion',
+    ].filter(Boolean);
+
+    const updated = await this.updateWithStats<FileMetadata>(
+      {
         Key: {
           PK: `PROJECT#${projectId}`,
-          SK: `FILE#${fileId}`,
+          SK: `FILE#${version.fileId}`,
         },
-      })
+        UpdateExpression: [
+          'SET ' +
+            [
+              'fileName = :fileName',
+              'fileType = :fileType',
+              'fileExtension = :fileExtension',
+              'fileSize = :fileSize',
+              's3Key = :s3Key',
+              'currentVersion = :version',
+              'updatedAt = :updatedAt',
+              ...setChecksums,
+            ].join(', '),
+          removeChecksums.length > 0 ? `REMOVE ${removeChecksums.join(', ')}` : '',
+        ].join(' ').trim(),
+        ConditionExpression: conditions.join(' AND '),
+        ...(options?.expectedStatus && { ExpressionAttributeNames: { '#status': 'status' } }),
+        ExpressionAttributeValues: {
+          ':fileName': version.fileName,
+          ':fileType': version.fileType,
+          ':fileExtension': version.fileExtension,
+          ':fileSize': version.fileSize,
+          ':s3Key': version.s3Key,
+          ':version': version.version,
+          ':updatedAt': new Date().toISOString(),
+          ...(version.expectedChecksumSha256 && {
+            ':expectedChecksumSha256': version.expectedChecksumSha256,
+          }),
+          ...(version.checksumSha256 && { ':checksumSha256': version.checksumSha256 }),
+          ...(version.detectedType && { ':detectedType': version.detectedType }),
+          ...(options?.expectedStatus && { ':expectedStatus': options.expectedStatus }),
+          ...(options?.expectedVersion !== undefined && { ':expectedVersion': options.expectedVersion }),
+        },
+      },
+      projectId,
+      options?.stats
     );
+
+    // The version may have another file name, which the file sorts by without a display name
+    return updated && this.syncFileSortName(updated);
+  }
+
+  /**
+   * Remove every version record of a file
+   */
+  async deleteFileVersions(projectId: string, fileId: string): Promise<void> {
+    let lastKey: PaginationKey | undefined;
+
+    do {
+      const result = await docClient.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
+          ExpressionAttributeValues: {
+            ':pk': `PROJECT#${projectId}`,
+            ':skPrefix': `VERSION#${fileId}#`,
+          },
+          ProjectionExpression: 'PK, SK',
+          ExclusiveStartKey: lastKey,
+        })
+      );
+
+      for (const item of result.Items || []) {
+        await docClient.send(
+          new DeleteCommand({
+            TableName: this.tableName,
+            Key: { PK: item.PK, SK: item.SK },
+          })
+        );
+      }
+
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
   }
 
   // ==================== PROJECT OPERATIONS ====================
@@ -216,15 +832,34 @@ export class DynamoDBService {
       status: 'active',
       fileCount: 0,
       totalSize: 0,
+      searchKey: buildSearchKey(projectId),
+      listKey: buildProjectListKey(userId),
+      sortName: buildSortName(data.name),
+      ...(data.allowedMimeTypes?.length && { allowedMimeTypes: data.allowedMimeTypes }),
     };
 
-    await docClient.send(
-      new PutCommand({
-        TableName: this.tableName,
-        Item: item,
-        ConditionExpression: 'attribute_not_exists(PK) AND attribute_not_exists(SK)',
-      })
-    );
+    // Owner pointer lets the project be resolved from its ID alone
+    await this.transactWrite([
+      {
+        Put: {
+          TableName: this.tableName,
+          Item: item,
+          ConditionExpression: 'attribute_not_exists(PK) AND attribute_not_exists(SK)',
+        },
+      },
+      {
+        Put: {
+          TableName: this.tableName,
+          Item: {
+            PK: `PROJECT#${projectId}`,
+            SK: 'OWNER',
+            projectId,
+            projectOwnerId: userId,
+          },
+          ConditionExpression: 'attribute_not_exists(PK) AND attribute_not_exists(SK)',
+        },
+      },
+    ]);
 
     return item;
   }
@@ -251,46 +886,26 @@ export class DynamoDBService {
    */
   async getProjectsByUser(
     userId: string,
-    options?: {
-      status?: ProjectStatus;
-      limit?: number;
-      lastKey?: Record<string, unknown>;
-    }
-  ): Promise<{ projects: Project[]; lastKey?: Record<string, unknown> }> {
-    let filterExpression: string | undefined;
-    const expressionAttributeValues: Record<string, unknown> = {
-      ':pk': `USER#${userId}`,
-      ':skPrefix': 'PROJECT#',
-    };
-    const expressionAttributeNames: Record<string, string> = {};
+    options?: ProjectQueryOptions
+  ): Promise<{ projects: Project[]; lastKey?: PaginationKey }> {
+    const { input, keyAttributes } = this.buildProjectQuery(userId, options);
 
-    if (options?.status) {
-      filterExpression = '#status = :status';
-      expressionAttributeValues[':status'] = options.status;
-      expressionAttributeNames['#status'] = 'status';
-    } else {
-      // Default: exclude deleted projects
-      filterExpression = '#status <> :deletedStatus';
-      expressionAttributeValues[':deletedStatus'] = 'deleted';
-      expressionAttributeNames['#status'] = 'status';
-    }
-
-    const result = await docClient.send(
-      new QueryCommand({
-        TableName: this.tableName,
-        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
-        FilterExpression: filterExpression,
-        ExpressionAttributeValues: expressionAttributeValues,
-        ExpressionAttributeNames: expressionAttributeNames,
-        Limit: options?.limit,
-        ExclusiveStartKey: options?.lastKey,
-      })
+    const result = await this.queryFullPage<Project>(
+      { ...input, ScanIndexForward: options?.sort ? options.order !== 'desc' : undefined },
+      options?.limit,
+      options?.lastKey,
+      keyAttributes
     );
+    const projects = options?.sort ? await this.readListedItems(result.items) : result.items;
 
-    return {
-      projects: (result.Items as Project[]) || [],
-      lastKey: result.LastEvaluatedKey,
-    };
+    return { projects, lastKey: result.lastKey };
+  }
+
+  /**
+   * Count the projects getProjectsByUser would list with the same filters
+   */
+  async countProjects(userId: string, options?: ProjectCountOptions): Promise<number> {
+    return this.countQuery(this.buildProjectQuery(userId, options).input);
   }
 
   /**
@@ -299,11 +914,7 @@ export class DynamoDBService {
   async updateProject(
     userId: string,
     projectId: string,
-    updates: {
-      name?: string;
-      description?: string;
-      status?: ProjectStatus;
-    }
+    updates: ProjectUpdates
   ): Promise<Project | null> {
     const updateExpressions: string[] = ['#updatedAt = :updatedAt'];
     const expressionAttributeValues: Record<string, unknown> = {
@@ -314,8 +925,9 @@ export class DynamoDBService {
     };
 
     if (updates.name !== undefined) {
-      updateExpressions.push('#name = :name');
+      updateExpressions.push('#name = :name', 'sortName = :sortName');
       expressionAttributeValues[':name'] = updates.name;
+      expressionAttributeValues[':sortName'] = buildSortName(updates.name);
       expressionAttributeNames['#name'] = 'name';
     }
 
@@ -331,6 +943,17 @@ export class DynamoDBService {
       expressionAttributeNames['#status'] = 'status';
     }
 
+    // An empty allow-list removes the restriction
+    const removeExpressions: string[] = [];
+    if (updates.allowedMimeTypes !== undefined) {
+      if (updates.allowedMimeTypes.length > 0) {
+        updateExpressions.push('allowedMimeTypes = :allowedMimeTypes');
+        expressionAttributeValues[':allowedMimeTypes'] = updates.allowedMimeTypes;
+      } else {
+        removeExpressions.push('allowedMimeTypes');
+      }
+    }
+
     const result = await docClient.send(
       new UpdateCommand({
         TableName: this.tableName,
@@ -338,7 +961,10 @@ export class DynamoDBService {
           PK: `USER#${userId}`,
           SK: `PROJECT#${projectId}`,
         },
-        UpdateExpression: `SET ${updateExpressions.join(', ')}`,
+        UpdateExpression: [
+          `SET ${updateExpressions.join(', ')}`,
+          removeExpressions.length > 0 ? `REMOVE ${removeExpressions.join(', ')}` : '',
+        ].join(' ').trim(),
         ExpressionAttributeValues: expressionAttributeValues,
         ExpressionAttributeNames: expressionAttributeNames,
         ReturnValues: 'ALL_NEW',
@@ -349,40 +975,1376 @@ export class DynamoDBService {
   }
 
   /**
-   * Update project file statistics
+   * Overwrite project file statistics, unless they no longer match `expected`
    */
-  async updateProjectStats(
+  async setProjectStats(
     userId: string,
     projectId: string,
-    fileCountDelta: number,
-    sizeDelta: number
-  ): Promise<void> {
+    stats: ProjectStats,
+    expected: ProjectStats
+  ): Promise<Project | null> {
+    return this.conditionalUpdate<Project>({
+      Key: {
+        PK: `USER#${userId}`,
+        SK: `PROJECT#${projectId}`,
+      },
+      UpdateExpression: 'SET fileCount = :fileCount, totalSize = :totalSize, #updatedAt = :updatedAt',
+      ConditionExpression:
+        'attribute_exists(PK) AND fileCount = :expectedFileCount AND totalSize = :expectedTotalSize',
+      ExpressionAttributeNames: {
+        '#updatedAt': 'updatedAt',
+      },
+      ExpressionAttributeValues: {
+        ':fileCount': stats.fileCount,
+        ':totalSize': stats.totalSize,
+        ':expectedFileCount': expected.fileCount,
+        ':expectedTotalSize': expected.totalSize,
+        ':updatedAt': new Date().toISOString(),
+      },
+    });
+  }
+
+  /**
+   * Delete project (soft delete)
+   */
+  async deleteProject(userId: string, projectId: string): Promise<Project | null> {
+    const now = new Date().toISOString();
+
+    return this.conditionalUpdate<Project>({
+      Key: {
+        PK: `USER#${userId}`,
+        SK: `PROJECT#${projectId}`,
+      },
+      UpdateExpression:
+        'SET statusBeforeDelete = #status, #status = :deleted, deletedAt = :now, updatedAt = :now',
+      ConditionExpression: 'attribute_exists(PK) AND #status <> :deleted',
+      ExpressionAttributeNames: {
+        '#status': 'status',
+      },
+      ExpressionAttributeValues: {
+        ':deleted': 'deleted',
+        ':now': now,
+      },
+    });
+  }
+
+  /**
+   * Restore a soft-deleted project to the status it had before
+   */
+  async restoreProject(userId: string, projectId: string): Promise<Project | null> {
+    return this.conditionalUpdate<Project>({
+      Key: {
+        PK: `USER#${userId}`,
+        SK: `PROJECT#${projectId}`,
+      },
+      UpdateExpression:
+        'SET #status = if_not_exists(statusBeforeDelete, :active), updatedAt = :now ' +
+        'REMOVE statusBeforeDelete, deletedAt',
+      ConditionExpression: '#status = :deleted',
+      ExpressionAttributeNames: {
+        '#status': 'status',
+      },
+      ExpressionAttributeValues: {
+        ':deleted': 'deleted',
+        ':active': 'active',
+        ':now': new Date().toISOString(),
+      },
+    });
+  }
+
+  /**
+   * Remove a project and every item that belongs to it
+   */
+  async purgeProject(userId: string, projectId: string): Promise<void> {
+    let lastKey: PaginationKey | undefined;
+
+    do {
+      const result = await docClient.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: 'PK = :pk',
+          ExpressionAttributeValues: {
+            ':pk': `PROJECT#${projectId}`,
+          },
+          ProjectionExpression: 'PK, SK, userId',
+          ExclusiveStartKey: lastKey,
+        })
+      );
+
+      for (const item of result.Items || []) {
+        // Members also hold a pointer in their own partition
+        if ((item.SK as string).startsWith('MEMBER#')) {
+          await docClient.send(
+            new DeleteCommand({
+              TableName: this.tableName,
+              Key: { PK: `USER#${item.userId}`, SK: `SHARED#${projectId}` },
+            })
+          );
+        }
+
+        await docClient.send(
+          new DeleteCommand({
+            TableName: this.tableName,
+            Key: { PK: item.PK, SK: item.SK },
+          })
+        );
+      }
+
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+
     await docClient.send(
-      new UpdateCommand({
+      new DeleteCommand({
+        TableName: this.tableName,
+        Key: { PK: `USER#${userId}`, SK: `PROJECT#${projectId}` },
+      })
+    );
+  }
+
+  /**
+   * Get the owner of a project from its owner pointer
+   */
+  async getProjectOwnerId(projectId: string): Promise<string | null> {
+    const result = await docClient.send(
+      new GetCommand({
         TableName: this.tableName,
         Key: {
-          PK: `USER#${userId}`,
-          SK: `PROJECT#${projectId}`,
+          PK: `PROJECT#${projectId}`,
+          SK: 'OWNER',
+        },
+      })
+    );
+
+    return (result.Item?.projectOwnerId as string) || null;
+  }
+
+  /**
+   * Find soft-deleted files and projects trashed before a cutoff
+   */
+  async findTrashedItems(options: TrashQueryOptions): Promise<{
+    files: FileMetadata[];
+    projects: Project[];
+    lastKey?: PaginationKey;
+  }> {
+    const result = await docClient.send(
+      new ScanCommand({
+        TableName: this.tableName,
+        FilterExpression:
+          '#status = :deleted AND ' +
+          '(begins_with(SK, :filePrefix) OR (begins_with(PK, :userPrefix) AND begins_with(SK, :projectPrefix))) AND ' +
+          '(deletedAt < :deletedBefore OR ' +
+          '(attribute_not_exists(deletedAt) AND updatedAt < :deletedBefore) OR ' +
+          '(attribute_not_exists(deletedAt) AND attribute_not_exists(updatedAt) AND uploadedAt < :deletedBefore))',
+        ExpressionAttributeNames: {
+          '#status': 'status',
         },
-        UpdateExpression:
-          'SET fileCount = fileCount + :fileCountDelta, totalSize = totalSize + :sizeDelta, #updatedAt = :updatedAt',
         ExpressionAttributeValues: {
-          ':fileCountDelta': fileCountDelta,
-          ':sizeDelta': sizeDelta,
-          ':updatedAt': new Date().toISOString(),
+          ':deleted': 'deleted',
+          ':deletedBefore': options.deletedBefore,
+          ':filePrefix': 'FILE#',
+          ':userPrefix': 'USER#',
+          ':projectPrefix': 'PROJECT#',
+        },
+        Limit: options.limit,
+        ExclusiveStartKey: options.lastKey,
+      })
+    );
+
+    const items = result.Items || [];
+
+    return {
+      files: items.filter((item) => (item.SK as string).startsWith('FILE#')) as FileMetadata[],
+      projects: items.filter((item) => (item.SK as string).startsWith('PROJECT#')) as Project[],
+      lastKey: result.LastEvaluatedKey,
+    };
+  }
+
+  // ==================== MEMBERSHIP OPERATIONS ====================
+
+  /**
+   * Add a project member (fails if the user is already a member)
+   */
+  async addProjectMember(data: CreateProjectMember): Promise<ProjectMember> {
+    const now = new Date().toISOString();
+
+    const member: ProjectMember = {
+      PK: `PROJECT#${data.projectId}`,
+      SK: `MEMBER#${data.userId}`,
+      projectId: data.projectId,
+      userId: data.userId,
+      role: data.role,
+      projectOwnerId: data.projectOwnerId,
+      invitedBy: data.invitedBy,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const share: SharedProjectRef = {
+      PK: `USER#${data.userId}`,
+      SK: `SHARED#${data.projectId}`,
+      projectId: data.projectId,
+      projectOwnerId: data.projectOwnerId,
+      role: data.role,
+      sharedAt: now,
+    };
+
+    await this.transactWrite([
+      {
+        Put: {
+          TableName: this.tableName,
+          Item: member,
+          ConditionExpression: 'attribute_not_exists(PK) AND attribute_not_exists(SK)',
+        },
+      },
+      {
+        Put: {
+          TableName: this.tableName,
+          Item: share,
+        },
+      },
+    ]);
+
+    return member;
+  }
+
+  /**
+   * Get a project member
+   */
+  async getProjectMember(projectId: string, userId: string): Promise<ProjectMember | null> {
+    const result = await docClient.send(
+      new GetCommand({
+        TableName: this.tableName,
+        Key: {
+          PK: `PROJECT#${projectId}`,
+          SK: `MEMBER#${userId}`,
+        },
+      })
+    );
+
+    return (result.Item as ProjectMember) || null;
+  }
+
+  /**
+   * Get all members of a project
+   */
+  async getProjectMembers(
+    projectId: string,
+    options?: PageQueryOptions
+  ): Promise<{ members: ProjectMember[]; lastKey?: PaginationKey }> {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: this.tableName,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
+        ExpressionAttributeValues: {
+          ':pk': `PROJECT#${projectId}`,
+          ':skPrefix': 'MEMBER#',
+        },
+        Limit: options?.limit,
+        ExclusiveStartKey: options?.lastKey,
+      })
+    );
+
+    return {
+      members: (result.Items as ProjectMember[]) || [],
+      lastKey: result.LastEvaluatedKey,
+    };
+  }
+
+  /**
+   * Change a member's role (returns null if the user is not a member)
+   */
+  async updateProjectMemberRole(
+    projectId: string,
+    userId: string,
+    role: ProjectRole
+  ): Promise<ProjectMember | null> {
+    const now = new Date().toISOString();
+
+    try {
+      await this.transactWrite([
+        {
+          Update: {
+            TableName: this.tableName,
+            Key: { PK: `PROJECT#${projectId}`, SK: `MEMBER#${userId}` },
+            UpdateExpression: 'SET #role = :role, #updatedAt = :updatedAt',
+            ConditionExpression: 'attribute_exists(PK)',
+            ExpressionAttributeNames: { '#role': 'role', '#updatedAt': 'updatedAt' },
+            ExpressionAttributeValues: { ':role': role, ':updatedAt': now },
+          },
+        },
+        {
+          Update: {
+            TableName: this.tableName,
+            Key: { PK: `USER#${userId}`, SK: `SHARED#${projectId}` },
+            UpdateExpression: 'SET #role = :role',
+            ExpressionAttributeNames: { '#role': 'role' },
+            ExpressionAttributeValues: { ':role': role },
+          },
+        },
+      ]);
+    } catch (error: unknown) {
+      if (isConditionalCheckFailed(error)) {
+        return null;
+      }
+      throw error;
+    }
+
+    return this.getProjectMember(projectId, userId);
+  }
+
+  /**
+   * Remove a project member and their shared-project record
+   */
+  async removeProjectMember(projectId: string, userId: string): Promise<void> {
+    await this.transactWrite([
+      {
+        Delete: {
+          TableName: this.tableName,
+          Key: { PK: `PROJECT#${projectId}`, SK: `MEMBER#${userId}` },
+        },
+      },
+      {
+        Delete: {
+          TableName: this.tableName,
+          Key: { PK: `USER#${userId}`, SK: `SHARED#${projectId}` },
+        },
+      },
+    ]);
+  }
+
+  /**
+   * Get projects shared with a user
+   */
+  async getSharedProjects(
+    userId: string,
+    options?: PageQueryOptions
+  ): Promise<{ shares: SharedProjectRef[]; lastKey?: PaginationKey }> {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: this.tableName,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
+        ExpressionAttributeValues: {
+          ':pk': `USER#${userId}`,
+          ':skPrefix': 'SHARED#',
+        },
+        Limit: options?.limit,
+        ExclusiveStartKey: options?.lastKey,
+      })
+    );
+
+    return {
+      shares: (result.Items as SharedProjectRef[]) || [],
+      lastKey: result.LastEvaluatedKey,
+    };
+  }
+
+  // ==================== SEARCH INDEX OPERATIONS ====================
+
+  /**
+   * Get a project and its files from the search index
+   *
+   * The index is a sparse GSI on `searchKey`, which project and file records
+   * carry from creation, so it follows every write to them.
+   */
+  async getSearchDocuments(
+    projectId: string,
+    options?: PageQueryOptions
+  ): Promise<{ documents: SearchDocument[]; lastKey?: PaginationKey }> {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: this.tableName,
+        IndexName: DYNAMODB_CONFIG.gsiSearch,
+        KeyConditionExpression: 'searchKey = :searchKey',
+        ExpressionAttributeValues: {
+          ':searchKey': buildSearchKey(projectId),
+        },
+        Limit: options?.limit,
+        ExclusiveStartKey: options?.lastKey,
+      })
+    );
+
+    return {
+      documents: ((result.Items || []) as (FileMetadata | Project)[]).map(toSearchDocument),
+      lastKey: result.LastEvaluatedKey,
+    };
+  }
+
+  /**
+   * Get the token entries of a project whose token starts with a prefix
+   */
+  async getSearchTokens(
+    projectId: string,
+    prefix: string,
+    options?: PageQueryOptions
+  ): Promise<{ entries: SearchTokenEntry[]; lastKey?: PaginationKey }> {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: this.tableName,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :prefix)',
+        ExpressionAttributeValues: {
+          ':pk': buildSearchKey(projectId),
+          ':prefix': buildSearchTokenSortKey(prefix),
+        },
+        Limit: options?.limit,
+        ExclusiveStartKey: options?.lastKey,
+      })
+    );
+
+    return {
+      entries: (result.Items as SearchTokenEntry[]) || [],
+      lastKey: result.LastEvaluatedKey,
+    };
+  }
+
+  /**
+   * Replace the token entries of a document
+   *
+   * Called from the table stream for every write to a project or file
+   * record: entries of words the document lost are deleted, the others are
+   * rewritten with the new copy of the document.
+   */
+  async indexSearchDocument(
+    previous: SearchDocument | null,
+    current: SearchDocument | null
+  ): Promise<void> {
+    // Most writes, such as preview updates, change nothing searchable
+    if (previous && current && isDeepStrictEqual(previous, current)) {
+      return;
+    }
+
+    const entries = current ? buildSearchTokenEntries(current) : [];
+    const kept = new Set(entries.map((entry) => `${entry.PK}|${entry.SK}`));
+    const stale = (previous ? buildSearchTokenEntries(previous) : []).filter(
+      (entry) => !kept.has(`${entry.PK}|${entry.SK}`)
+    );
+
+    await this.batchWrite([
+      ...stale.map(({ PK, SK }) => ({ DeleteRequest: { Key: { PK, SK } } })),
+      ...entries.map((entry) => ({ PutRequest: { Item: entry } })),
+    ]);
+  }
+
+  /**
+   * Write the token entries of every project and file
+   */
+  async reindexSearchDocuments(
+    options?: PageQueryOptions
+  ): Promise<{ indexed: number; lastKey?: PaginationKey }> {
+    const result = await docClient.send(
+      new ScanCommand({
+        TableName: this.tableName,
+        FilterExpression: 'attribute_exists(searchKey)',
+        Limit: options?.limit,
+        ExclusiveStartKey: options?.lastKey,
+      })
+    );
+
+    const items = (result.Items || []) as (FileMetadata | Project)[];
+    for (const item of items) {
+      await this.indexSearchDocument(null, toSearchDocument(item));
+    }
+
+    return { indexed: items.length, lastKey: result.LastEvaluatedKey };
+  }
+
+  /**
+   * Add search and listing index attributes to project and file records
+   * created before those indexes, and owner pointers to projects created
+   * before those
+   */
+  async backfillIndexKeys(
+    options?: PageQueryOptions
+  ): Promise<{ indexed: number; lastKey?: PaginationKey }> {
+    // Every project is read, since a missing owner pointer is a separate item
+    const result = await docClient.send(
+      new ScanCommand({
+        TableName: this.tableName,
+        FilterExpression:
+          '(begins_with(PK, :userPrefix) AND begins_with(SK, :projectPrefix)) OR ' +
+          '(begins_with(SK, :filePrefix) AND ' +
+          '(attribute_not_exists(searchKey) OR attribute_not_exists(listKey) OR ' +
+          'attribute_not_exists(sortName) OR attribute_not_exists(updatedAt)))',
+        ExpressionAttributeValues: {
+          ':filePrefix': 'FILE#',
+          ':userPrefix': 'USER#',
+          ':projectPrefix': 'PROJECT#',
         },
+        ProjectionExpression:
+          'PK, SK, projectId, ownerId, #name, fileName, displayName, uploadedAt, updatedAt, ' +
+          'searchKey, listKey, sortName',
         ExpressionAttributeNames: {
-          '#updatedAt': 'updatedAt',
+          '#name': 'name',
         },
+        Limit: options?.limit,
+        ExclusiveStartKey: options?.lastKey,
       })
     );
+
+    let indexed = 0;
+    for (const item of result.Items || []) {
+      const isFile = (item.SK as string).startsWith('FILE#');
+      const hasIndexKeys = !!(item.searchKey && item.listKey && item.sortName && item.updatedAt);
+
+      const addedIndexKeys = !hasIndexKeys && (await this.backfillRecordIndexKeys(item, isFile));
+      const addedPointer = !isFile && (await this.backfillOwnerPointer(item as Project));
+      if (addedIndexKeys || addedPointer) indexed++;
+    }
+
+    return { indexed, lastKey: result.LastEvaluatedKey };
   }
 
+  // ==================== AUDIT LOG OPERATIONS ====================
+
   /**
-   * Delete project (soft delete)
+   * Append an entry to a project's audit log
    */
-  async deleteProject(userId: string, projectId: string): Promise<Project | null> {
-    return this.updateProject(userId, projectId, { status: 'deleted' });
+  async createAuditEntry(entry: CreateAuditEntry): Promise<AuditEntry> {
+    const item: AuditEntry = {
+      PK: `AUDIT#${entry.projectId}`,
+      SK: buildAuditSortKey(entry.timestamp, entry.auditId),
+      ...entry,
+    };
+
+    await docClient.send(
+      new PutCommand({
+        TableName: this.tableName,
+        Item: item,
+        ConditionExpression: 'attribute_not_exists(PK) AND attribute_not_exists(SK)',
+      })
+    );
+
+    return item;
+  }
+
+  /**
+   * Read a project's audit log, newest entries first
+   */
+  async getAuditEntries(
+    projectId: string,
+    options?: AuditQueryOptions
+  ): Promise<{ entries: AuditEntry[]; lastKey?: PaginationKey }> {
+    const expressionAttributeValues: Record<string, unknown> = { ':pk': `AUDIT#${projectId}` };
+    const expressionAttributeNames: Record<string, string> = {};
+    const keyConditions = ['PK = :pk'];
+    const filters: string[] = [];
+
+    // Sort keys start with the timestamp; '~' sorts after every auditId character
+    if (options?.from && options?.to) {
+      keyConditions.push('SK BETWEEN :from AND :to');
+    } else if (options?.from) {
+      keyConditions.push('SK >= :from');
+    } else if (options?.to) {
+      keyConditions.push('SK <= :to');
+    }
+    if (options?.from) expressionAttributeValues[':from'] = options.from;
+    if (options?.to) expressionAttributeValues[':to'] = `${options.to}#~`;
+
+    // Attribute names are aliased, since `action` is a reserved word
+    for (const attribute of ['action', 'resourceType', 'resourceId', 'actorId'] as const) {
+      if (options?.[attribute]) {
+        filters.push(`#${attribute} = :${attribute}`);
+        expressionAttributeNames[`#${attribute}`] = attribute;
+        expressionAttributeValues[`:${attribute}`] = options[attribute];
+      }
+    }
+
+    const result = await this.queryFullPage<AuditEntry>(
+      {
+        TableName: this.tableName,
+        KeyConditionExpression: keyConditions.join(' AND '),
+        FilterExpression: filters.length > 0 ? filters.join(' AND ') : undefined,
+        ExpressionAttributeNames: filters.length > 0 ? expressionAttributeNames : undefined,
+        ExpressionAttributeValues: expressionAttributeValues,
+        ScanIndexForward: false,
+      },
+      options?.limit,
+      options?.lastKey,
+      ['PK', 'SK']
+    );
+
+    return { entries: result.items, lastKey: result.lastKey };
+  }
+
+  // ==================== WEBHOOK OPERATIONS ====================
+
+  /**
+   * Create a webhook subscription
+   */
+  async createWebhook(data: CreateWebhook): Promise<Webhook> {
+    const now = new Date().toISOString();
+
+    const webhook: Webhook = {
+      PK: `PROJECT#${data.projectId}`,
+      SK: `WEBHOOK#${data.webhookId}`,
+      ...data,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await docClient.send(
+      new PutCommand({
+        TableName: this.tableName,
+        Item: webhook,
+        ConditionExpression: 'attribute_not_exists(PK) AND attribute_not_exists(SK)',
+      })
+    );
+
+    return webhook;
+  }
+
+  /**
+   * Get a webhook subscription
+   */
+  async getWebhook(projectId: string, webhookId: string): Promise<Webhook | null> {
+    const result = await docClient.send(
+      new GetCommand({
+        TableName: this.tableName,
+        Key: {
+          PK: `PROJECT#${projectId}`,
+          SK: `WEBHOOK#${webhookId}`,
+        },
+      })
+    );
+
+    return (result.Item as Webhook) || null;
+  }
+
+  /**
+   * Get every webhook subscription of a project
+   */
+  async getWebhooks(projectId: string): Promise<Webhook[]> {
+    const webhooks: Webhook[] = [];
+    let lastKey: PaginationKey | undefined;
+
+    do {
+      const result = await docClient.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
+          ExpressionAttributeValues: {
+            ':pk': `PROJECT#${projectId}`,
+            ':skPrefix': 'WEBHOOK#',
+          },
+          ExclusiveStartKey: lastKey,
+        })
+      );
+
+      webhooks.push(...((result.Items as Webhook[]) || []));
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+
+    return webhooks;
+  }
+
+  /**
+   * Update a webhook subscription (returns null if it does not exist)
+   */
+  async updateWebhook(
+    projectId: string,
+    webhookId: string,
+    updates: WebhookUpdates
+  ): Promise<Webhook | null> {
+    const setExpressions = ['updatedAt = :updatedAt'];
+    const removeExpressions: string[] = [];
+    const expressionAttributeValues: Record<string, unknown> = {
+      ':updatedAt': new Date().toISOString(),
+    };
+    const expressionAttributeNames: Record<string, string> = {};
+
+    // Attribute names are aliased, since several of them are reserved words
+    for (const attribute of ['url', 'events', 'active', 'secret'] as const) {
+      if (updates[attribute] !== undefined) {
+        setExpressions.push(`#${attribute} = :${attribute}`);
+        expressionAttributeNames[`#${attribute}`] = attribute;
+        expressionAttributeValues[`:${attribute}`] = updates[attribute];
+      }
+    }
+
+    if (updates.description !== undefined) {
+      expressionAttributeNames['#description'] = 'description';
+      if (updates.description === null) {
+        removeExpressions.push('#description');
+      } else {
+        setExpressions.push('#description = :description');
+        expressionAttributeValues[':description'] = updates.description;
+      }
+    }
+
+    return this.conditionalUpdate<Webhook>({
+      Key: {
+        PK: `PROJECT#${projectId}`,
+        SK: `WEBHOOK#${webhookId}`,
+      },
+      UpdateExpression: [
+        `SET ${setExpressions.join(', ')}`,
+        removeExpressions.length > 0 ? `REMOVE ${removeExpressions.join(', ')}` : '',
+      ].join(' ').trim(),
+      ConditionExpression: 'attribute_exists(PK)',
+      ExpressionAttributeNames:
+        Object.keys(expressionAttributeNames).length > 0 ? expressionAttributeNames : undefined,
+      ExpressionAttributeValues: expressionAttributeValues,
+    });
+  }
+
+  /**
+   * Delete a webhook subscription and its delivery records
+   */
+  async deleteWebhook(projectId: string, webhookId: string): Promise<void> {
+    await docClient.send(
+      new DeleteCommand({
+        TableName: this.tableName,
+        Key: { PK: `PROJECT#${projectId}`, SK: `WEBHOOK#${webhookId}` },
+      })
+    );
+
+    let lastKey: PaginationKey | undefined;
+    do {
+      const result = await docClient.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
+          ExpressionAttributeValues: {
+            ':pk': `PROJECT#${projectId}`,
+            ':skPrefix': `DELIVERY#${webhookId}#`,
+          },
+          ProjectionExpression: 'PK, SK',
+          ExclusiveStartKey: lastKey,
+        })
+      );
+
+      for (const item of result.Items || []) {
+        await docClient.send(
+          new DeleteCommand({
+            TableName: this.tableName,
+            Key: { PK: item.PK, SK: item.SK },
+          })
+        );
+      }
+
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+  }
+
+  /**
+   * Record a delivery of an event to a webhook
+   */
+  async createWebhookDelivery(data: CreateWebhookDelivery): Promise<WebhookDelivery> {
+    const delivery: WebhookDelivery = {
+      PK: `PROJECT#${data.projectId}`,
+      SK: buildWebhookDeliverySortKey(data.webhookId, data.createdAt, data.deliveryId),
+      ...data,
+      updatedAt: data.createdAt,
+    };
+
+    await docClient.send(
+      new PutCommand({
+        TableName: this.tableName,
+        Item: delivery,
+        ConditionExpression: 'attribute_not_exists(PK) AND attribute_not_exists(SK)',
+      })
+    );
+
+    return delivery;
+  }
+
+  /**
+   * Get a webhook's deliveries, newest first
+   */
+  async getWebhookDeliveries(
+    projectId: string,
+    webhookId: string,
+    options?: WebhookDeliveryQueryOptions
+  ): Promise<{ deliveries: WebhookDelivery[]; lastKey?: PaginationKey }> {
+    const result = await this.queryFullPage<WebhookDelivery>(
+      {
+        TableName: this.tableName,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
+        FilterExpression: options?.status ? '#status = :status' : undefined,
+        ExpressionAttributeNames: options?.status ? { '#status': 'status' } : undefined,
+        ExpressionAttributeValues: {
+          ':pk': `PROJECT#${projectId}`,
+          ':skPrefix': `DELIVERY#${webhookId}#`,
+          ...(options?.status && { ':status': options.status }),
+        },
+        ScanIndexForward: false,
+      },
+      options?.limit,
+      options?.lastKey,
+      ['PK', 'SK']
+    );
+
+    return { deliveries: result.items, lastKey: result.lastKey };
+  }
+
+  /**
+   * Record an attempt or the outcome of a pending delivery
+   */
+  async updateWebhookDelivery(
+    delivery: WebhookDelivery,
+    update: WebhookDeliveryUpdate
+  ): Promise<WebhookDelivery | null> {
+    const setExpressions = ['#status = :status', 'updatedAt = :updatedAt'];
+    const expressionAttributeValues: Record<string, unknown> = {
+      ':status': update.status,
+      ':updatedAt': new Date().toISOString(),
+      ':pending': 'pending',
+      ':attemptCount': delivery.attempts.length,
+    };
+
+    if (update.attempt) {
+      setExpressions.push('attempts = list_append(attempts, :attempt)');
+      expressionAttributeValues[':attempt'] = [update.attempt];
+    }
+    if (update.nextAttemptAt) {
+      setExpressions.push('nextAttemptAt = :nextAttemptAt');
+      expressionAttributeValues[':nextAttemptAt'] = update.nextAttemptAt;
+    }
+
+    return this.conditionalUpdate<WebhookDelivery>({
+      Key: {
+        PK: delivery.PK,
+        SK: delivery.SK,
+      },
+      UpdateExpression: [
+        `SET ${setExpressions.join(', ')}`,
+        update.nextAttemptAt ? '' : 'REMOVE nextAttemptAt',
+      ].join(' ').trim(),
+      ConditionExpression: '#status = :pending AND size(attempts) = :attemptCount',
+      ExpressionAttributeNames: {
+        '#status': 'status',
+      },
+      ExpressionAttributeValues: expressionAttributeValues,
+    });
+  }
+
+  /**
+   * Find pending deliveries whose next attempt was due before a cutoff
+   */
+  async findDueWebhookDeliveries(options: DueDeliveryQueryOptions): Promise<{
+    deliveries: WebhookDelivery[];
+    lastKey?: PaginationKey;
+  }> {
+    const result = await docClient.send(
+      new ScanCommand({
+        TableName: this.tableName,
+        FilterExpression:
+          '#status = :pending AND nextAttemptAt <= :dueBefore AND begins_with(SK, :deliveryPrefix)',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':pending': 'pending',
+          ':dueBefore': options.dueBefore,
+          ':deliveryPrefix': 'DELIVERY#',
+        },
+        Limit: options.limit,
+        ExclusiveStartKey: options.lastKey,
+      })
+    );
+
+    return {
+      deliveries: (result.Items as WebhookDelivery[]) || [],
+      lastKey: result.LastEvaluatedKey,
+    };
+  }
+
+  // ==================== HELPERS ====================
+
+  /**
+   * Build the query listing a project's files, and the key attributes of the
+   * table or index it reads
+   */
+  private buildFileQuery(
+    projectId: string,
+    options?: FileQueryOptions
+  ): { input: QueryCommandInput; keyAttributes: string[] } {
+    let filterExpression: string | undefined;
+    let keyAttributes = ['PK', 'SK'];
+    let indexName: string | undefined;
+    let keyConditionExpression: string;
+    const expressionAttributeValues: Record<string, unknown> = {};
+    const expressionAttributeNames: Record<string, string> = {};
+
+    const filters: string[] = [];
+
+    if (options?.sort) {
+      indexName = FILE_SORT_INDEXES[options.sort].indexName;
+      keyAttributes = [...keyAttributes, 'listKey', FILE_SORT_INDEXES[options.sort].sortKey];
+      keyConditionExpression = 'listKey = :listKey';
+      expressionAttributeValues[':listKey'] = buildFileListKey(projectId);
+    } else if (options?.fileType) {
+      indexName = DYNAMODB_CONFIG.gsiFileType;
+      keyAttributes = [...keyAttributes, 'projectId', 'fileType'];
+      keyConditionExpression = 'projectId = :projectId AND fileType = :fileType';
+      expressionAttributeValues[':projectId'] = projectId;
+    } else {
+      keyConditionExpression = 'PK = :pk AND begins_with(SK, :skPrefix)';
+      expressionAttributeValues[':pk'] = `PROJECT#${projectId}`;
+      expressionAttributeValues[':skPrefix'] = 'FILE#';
+    }
+
+    if (options?.fileType) {
+      if (options.sort) {
+        filters.push('fileType = :fileType');
+      }
+      expressionAttributeValues[':fileType'] = options.fileType;
+    }
+
+    (options?.tags || []).forEach((tag, index) => {
+      filters.push(`contains(tags, :tag${index})`);
+      expressionAttributeValues[`:tag${index}`] = tag;
+    });
+
+    // A query-string value matches every type it parses to
+    Object.entries(options?.customMetadata || {}).forEach(([key, value], index) => {
+      const placeholders = parseCustomMetadataFilter(value).map((candidate, candidateIndex) => {
+        expressionAttributeValues[`:meta${index}_${candidateIndex}`] = candidate;
+        return `:meta${index}_${candidateIndex}`;
+      });
+      filters.push(`customMetadata.#meta${index} IN (${placeholders.join(', ')})`);
+      expressionAttributeNames[`#meta${index}`] = key;
+    });
+
+    if (options?.multipart) {
+      filters.push('attribute_exists(multipart)');
+    }
+
+    if (options?.status) {
+      filters.push('#status = :status');
+      expressionAttributeValues[':status'] = options.status;
+      expressionAttributeNames['#status'] = 'status';
+    } else {
+      // Default: exclude deleted files and expired uploads
+      filters.push('NOT #status IN (:deletedStatus, :expiredStatus)');
+      expressionAttributeValues[':deletedStatus'] = 'deleted';
+      expressionAttributeValues[':expiredStatus'] = 'expired';
+      expressionAttributeNames['#status'] = 'status';
+    }
+
+    if (filters.length > 0) {
+      filterExpression = filters.join(' AND ');
+    }
+
+    return {
+      input: {
+        TableName: this.tableName,
+        IndexName: indexName,
+        KeyConditionExpression: keyConditionExpression,
+        FilterExpression: filterExpression,
+        ExpressionAttributeValues: expressionAttributeValues,
+        ExpressionAttributeNames: Object.keys(expressionAttributeNames).length > 0
+          ? expressionAttributeNames
+          : undefined,
+      },
+      keyAttributes,
+    };
+  }
+
+  /**
+   * Build the query listing a user's projects, and the key attributes of the
+   * table or index it reads
+   */
+  private buildProjectQuery(
+    userId: string,
+    options?: ProjectQueryOptions
+  ): { input: QueryCommandInput; keyAttributes: string[] } {
+    const expressionAttributeValues: Record<string, unknown> = options?.sort
+      ? { ':listKey': buildProjectListKey(userId) }
+      : { ':pk': `USER#${userId}`, ':skPrefix': 'PROJECT#' };
+    let filterExpression: string;
+
+    if (options?.status) {
+      filterExpression = '#status = :status';
+      expressionAttributeValues[':status'] = options.status;
+    } else {
+      // Default: exclude deleted projects
+      filterExpression = '#status <> :deletedStatus';
+      expressionAttributeValues[':deletedStatus'] = 'deleted';
+    }
+
+    return {
+      input: {
+        TableName: this.tableName,
+        IndexName: options?.sort ? PROJECT_SORT_INDEXES[options.sort].indexName : undefined,
+        KeyConditionExpression: options?.sort
+          ? 'listKey = :listKey'
+          : 'PK = :pk AND begins_with(SK, :skPrefix)',
+        FilterExpression: filterExpression,
+        ExpressionAttributeValues: expressionAttributeValues,
+        ExpressionAttributeNames: { '#status': 'status' },
+      },
+      keyAttributes: options?.sort
+        ? ['PK', 'SK', 'listKey', PROJECT_SORT_INDEXES[options.sort].sortKey]
+        : ['PK', 'SK'],
+    };
+  }
+
+  /**
+   * Run a query until a page of `limit` items passed its filter (see readFullPage)
+   */
+  private async queryFullPage<T extends object>(
+    input: QueryCommandInput,
+    limit: number | undefined,
+    lastKey: PaginationKey | undefined,
+    keyAttributes: string[]
+  ): Promise<{ items: T[]; lastKey?: PaginationKey }> {
+    return readFullPage<T>(
+      async (startKey) => {
+        const result = await docClient.send(
+          new QueryCommand({ ...input, Limit: limit, ExclusiveStartKey: startKey })
+        );
+        return { items: (result.Items as T[]) || [], lastKey: result.LastEvaluatedKey };
+      },
+      limit,
+      lastKey,
+      keyAttributes
+    );
+  }
+
+  /**
+   * Read items by table key, up to 100 keys per request, retrying keys
+   * DynamoDB left unprocessed; items come back in no particular order
+   */
+  private async batchGet<T>(itemKeys: { PK: string; SK: string }[]): Promise<T[]> {
+    const items: T[] = [];
+
+    for (let i = 0; i < itemKeys.length; i += BATCH_GET_SIZE) {
+      let keys: Record<string, unknown>[] | undefined = itemKeys.slice(i, i + BATCH_GET_SIZE);
+
+      for (let attempt = 0; keys && keys.length > 0; attempt++) {
+        if (attempt === BATCH_ATTEMPTS) {
+          throw new Error('Batch read was throttled; try again later');
+        }
+        if (attempt > 0) {
+          // Unprocessed keys mean the table is throttling; back off before retrying
+          await new Promise((resolve) => setTimeout(resolve, Math.min(50 * 2 ** attempt, 1000)));
+        }
+
+        const result = await docClient.send(
+          new BatchGetCommand({ RequestItems: { [this.tableName]: { Keys: keys } } })
+        );
+        items.push(...((result.Responses?.[this.tableName] as T[]) || []));
+        keys = result.UnprocessedKeys?.[this.tableName]?.Keys;
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Put and delete items in batches, retrying requests the table did not process
+   */
+  private async batchWrite(
+    requests: BatchWriteCommandInput['RequestItems'][string]
+  ): Promise<void> {
+    for (let i = 0; i < requests.length; i += BATCH_WRITE_SIZE) {
+      let pending: typeof requests | undefined = requests.slice(i, i + BATCH_WRITE_SIZE);
+
+      for (let attempt = 0; pending && pending.length > 0; attempt++) {
+        if (attempt === BATCH_ATTEMPTS) {
+          throw new Error('Batch write was throttled; try again later');
+        }
+        if (attempt > 0) {
+          // Unprocessed requests mean the table is throttling; back off before retrying
+          await new Promise((resolve) => setTimeout(resolve, Math.min(50 * 2 ** attempt, 1000)));
+        }
+
+        const result = await docClient.send(
+          new BatchWriteCommand({ RequestItems: { [this.tableName]: pending } })
+        );
+        pending = result.UnprocessedItems?.[this.tableName];
+      }
+    }
+  }
+
+  /**
+   * Read the full items of a page from a listing index
+   *
+   * Listing indexes project only the keys and the attributes listings filter
+   * on, so the items are read from the table, in the order of the page.
+   * Items deleted since the index was read are left out.
+   */
+  private async readListedItems<T extends { PK: string; SK: string }>(listed: T[]): Promise<T[]> {
+    const items = await this.batchGet<T>(listed.map(({ PK, SK }) => ({ PK, SK })));
+    const itemsByKey = new Map(items.map((item) => [`${item.PK}|${item.SK}`, item]));
+
+    return listed
+      .map(({ PK, SK }) => itemsByKey.get(`${PK}|${SK}`))
+      .filter((item): item is T => item !== undefined);
+  }
+
+  /**
+   * Count the items a query matches, reading every page
+   */
+  private async countQuery(input: QueryCommandInput): Promise<number> {
+    let count = 0;
+    let lastKey: PaginationKey | undefined;
+
+    do {
+      const result = await docClient.send(
+        new QueryCommand({ ...input, Select: 'COUNT', ExclusiveStartKey: lastKey })
+      );
+      count += result.Count || 0;
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+
+    return count;
+  }
+
+  /**
+   * Bring a file's sort name in line with its display and file names
+   *
+   * Writes that change a name without knowing the other one follow up with
+   * this; the update is skipped if either name changed again meanwhile.
+   */
+  private async syncFileSortName(file: FileMetadata): Promise<FileMetadata> {
+    const sortName = buildFileSortName(file);
+    if (file.sortName === sortName) {
+      return file;
+    }
+
+    const updated = await this.conditionalUpdate<FileMetadata>({
+      Key: {
+        PK: file.PK,
+        SK: file.SK,
+      },
+      UpdateExpression: 'SET sortName = :sortName',
+      ConditionExpression:
+        'fileName = :fileName AND ' +
+        (file.displayName ? 'displayName = :displayName' : 'attribute_not_exists(displayName)'),
+      ExpressionAttributeValues: {
+        ':sortName': sortName,
+        ':fileName': file.fileName,
+        ...(file.displayName && { ':displayName': file.displayName }),
+      },
+    });
+
+    return updated ?? file;
+  }
+
+  /**
+   * Add the search and listing index attributes to a record; false when the
+   * record was deleted, or a name changed, meanwhile
+   */
+  private async backfillRecordIndexKeys(item: Record<string, unknown>, isFile: boolean): Promise<boolean> {
+    const updated = await this.conditionalUpdate({
+      Key: { PK: item.PK, SK: item.SK },
+      UpdateExpression:
+        'SET searchKey = :searchKey, listKey = :listKey, sortName = :sortName, ' +
+        'updatedAt = if_not_exists(updatedAt, :updatedAt)',
+      ConditionExpression: isFile
+        ? 'fileName = :fileName AND ' +
+          (item.displayName ? 'displayName = :displayName' : 'attribute_not_exists(displayName)')
+        : '#name = :name',
+      ...(!isFile && { ExpressionAttributeNames: { '#name': 'name' } }),
+      ExpressionAttributeValues: {
+        ':searchKey': buildSearchKey(item.projectId as string),
+        ...(isFile
+          ? {
+              ':listKey': buildFileListKey(item.projectId as string),
+              ':sortName': buildFileSortName(item as unknown as FileMetadata),
+              ':updatedAt': item.uploadedAt,
+              ':fileName': item.fileName,
+              ...(item.displayName && { ':displayName': item.displayName }),
+            }
+          : {
+              ':listKey': buildProjectListKey(item.ownerId as string),
+              ':sortName': buildSortName(item.name as string),
+              ':updatedAt': item.updatedAt,
+              ':name': item.name,
+            }),
+      },
+    });
+
+    return updated !== null;
+  }
+
+  /**
+   * Write the owner pointer of a project that has none; false when it has one,
+   * or the project was deleted meanwhile
+   */
+  private async backfillOwnerPointer(project: Pick<Project, 'projectId' | 'ownerId'>): Promise<boolean> {
+    try {
+      await this.transactWrite([
+        {
+          ConditionCheck: {
+            TableName: this.tableName,
+            Key: { PK: `USER#${project.ownerId}`, SK: `PROJECT#${project.projectId}` },
+            ConditionExpression: 'attribute_exists(PK)',
+          },
+        },
+        {
+          Put: {
+            TableName: this.tableName,
+            Item: {
+              PK: `PROJECT#${project.projectId}`,
+              SK: 'OWNER',
+              projectId: project.projectId,
+              projectOwnerId: project.ownerId,
+            },
+            ConditionExpression: 'attribute_not_exists(PK) AND attribute_not_exists(SK)',
+          },
+        },
+      ]);
+      return true;
+    } catch (error: unknown) {
+      if (isConditionalCheckFailed(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a conditional update, returning null when the condition fails
+   */
+  private async conditionalUpdate<T>(
+    input: Omit<UpdateCommandInput, 'TableName' | 'ReturnValues'>
+  ): Promise<T | null> {
+    try {
+      const result = await docClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          ...input,
+          ReturnValues: 'ALL_NEW',
+        })
+      );
+
+      return (result.Attributes as T) || null;
+    } catch (error: unknown) {
+      if (isConditionalCheckFailed(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a conditional file update, applying a project statistics change in the
+   * same transaction when one is given; null when a condition fails
+   */
+  private async updateWithStats<T>(
+    input: Omit<UpdateCommandInput, 'TableName' | 'ReturnValues'> & { UpdateExpression: string },
+    projectId: string,
+    stats?: ProjectStatsChange
+  ): Promise<T | null> {
+    if (!stats) {
+      return this.conditionalUpdate<T>(input);
+    }
+
+    try {
+      await this.transactWrite([
+        { Update: { TableName: this.tableName, ...input } },
+        { Update: this.buildStatsUpdate(projectId, stats) },
+      ]);
+    } catch (error: unknown) {
+      if (isConditionalCheckFailed(error)) {
+        return null;
+      }
+      throw error;
+    }
+
+    // Transactions return no attributes, so read the item back
+    const result = await docClient.send(
+      new GetCommand({
+        TableName: this.tableName,
+        Key: input.Key,
+        ConsistentRead: true,
+      })
+    );
+
+    return (result.Item as T) || null;
+  }
+
+  /**
+   * Build the increment of a project's statistics; the project must exist
+   */
+  private buildStatsUpdate(projectId: string, stats: ProjectStatsChange) {
+    return {
+      TableName: this.tableName,
+      Key: {
+        PK: `USER#${stats.ownerId}`,
+        SK: `PROJECT#${projectId}`,
+      },
+      UpdateExpression:
+        'SET fileCount = fileCount + :fileCountDelta, totalSize = totalSize + :sizeDelta, #updatedAt = :updatedAt',
+      ConditionExpression: 'attribute_exists(PK)',
+      ExpressionAttributeNames: {
+        '#updatedAt': 'updatedAt',
+      },
+      ExpressionAttributeValues: {
+        ':fileCountDelta': stats.fileCountDelta,
+        ':sizeDelta': stats.sizeDelta,
+        ':updatedAt': new Date().toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Mark a pending item expired, unless it has left the pending state
+   */
+  private async expirePending<T>(
+    key: { PK: string; SK: string },
+    extraExpression = ''
+  ): Promise<T | null> {
+    return this.conditionalUpdate<T>({
+      Key: key,
+      UpdateExpression: `SET #status = :expired, expiredAt = :expiredAt ${extraExpression}`.trim(),
+      ConditionExpression: '#status = :pending',
+      ExpressionAttributeNames: {
+        '#status': 'status',
+      },
+      ExpressionAttributeValues: {
+        ':expired': 'expired',
+        ':pending': 'pending',
+        ':expiredAt': new Date().toISOString(),
+      },
+    });
+  }
+
+  /**
+   * Build the update for a status change plus any attributes recorded with it
+   */
+  private buildStatusUpdate(status: string, updates?: FileStatusUpdates) {
+    const assignments = ['#status = :status', 'updatedAt = :updatedAt'];
+    const values: Record<string, unknown> = {
+      ':status': status,
+      ':updatedAt': new Date().toISOString(),
+    };
+
+    for (const [attribute, value] of Object.entries(updates || {})) {
+      if (value !== undefined) {
+        assignments.push(`${attribute} = :${attribute}`);
+        values[`:${attribute}`] = value;
+      }
+    }
+
+    return {
+      UpdateExpression: `SET ${assignments.join(', ')}`,
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: values,
+    };
+  }
+
+  /**
+   * Run a write transaction, surfacing condition failures as
+   * ConditionalCheckFailedException like single-item writes do
+   */
+  private async transactWrite(items: TransactWriteCommandInput['TransactItems']): Promise<void> {
+    try {
+      await docClient.send(new TransactWriteCommand({ TransactItems: items }));
+    } catch (error: unknown) {
+      const reasons = (error as { CancellationReasons?: { Code?: string }[] })?.CancellationReasons;
+      if (
+        hasErrorName(error, 'TransactionCanceledException') &&
+        reasons?.some((reason) => reason.Code === 'ConditionalCheckFailed')
+      ) {
+        const conditionalError = new Error('The conditional request failed');
+        conditionalError.name = 'ConditionalCheckFailedException';
+        throw conditionalError;
+      }
+      throw error;
+    }
   }
 }
 
@@ -0,0 +1,62 @@
+/**
+ * Event Bus Service - Publishes file and project lifecycle events to subscribers
+ *
+ * Publishing returns at once: every subscriber runs as a job on the bus's
+ * queue, so a slow or failing subscriber never delays or fails the request
+ * that made the change. In the server process the queue is a BackgroundQueue
+ * of its own, so events are not held up by preview and tile jobs. A Lambda
+ * instance is frozen once its handler returns, so the Lambda handlers wait
+ * for the queue to empty first.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { EventQueue, LifecycleEvent, PublishEvent } from '../types';
+import { BackgroundQueue } from './background-queue.service';
+
+/**
+ * Handles published events
+ */
+export type EventSubscriber = (event: LifecycleEvent) => Promise<void>;
+
+/**
+ * Event Bus class
+ */
+export class EventBus {
+  private subscribers: EventSubscriber[] = [];
+
+  constructor(private queue: EventQueue = new BackgroundQueue()) {}
+
+  /**
+   * Run a subscriber for every event published from now on
+   */
+  subscribe(subscriber: EventSubscriber): void {
+    this.subscribers.push(subscriber);
+  }
+
+  /**
+   * Publish an event to every subscriber
+   */
+  publish(input: PublishEvent): LifecycleEvent {
+    const event: LifecycleEvent = {
+      eventId: uuidv4(),
+      occurredAt: new Date().toISOString(),
+      ...input,
+    };
+
+    this.subscribers.forEach((subscriber, index) => {
+      this.queue.add(`event:${event.eventId}:${index}`, () => subscriber(event));
+    });
+
+    return event;
+  }
+
+  /**
+   * Wait until every subscriber of the events published so far has run
+   */
+  whenIdle(): Promise<void> {
+    return this.queue.whenIdle();
+  }
+}
+
+// Export singleton instance
+export const eventBus = new EventBus();
@@ -0,0 +1,575 @@
+/**
+ * File Service - Upload, confirm and delete steps of individual files
+ *
+ * Shared by the single-file endpoints and their batch variants. Failures are
+ * thrown as FileOperationError carrying the API error they map to, so batches
+ * can report them per file. Steps that change the project statistics report
+ * the change they made, and every change is recorded in the audit log.
+ * Confirmed uploads and deletions are also published on the event bus.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AuditActor,
+  DeleteFileResponse,
+  FileMetadata,
+  FileStatusUpdates,
+  FileVersion,
+  MetadataRepository,
+  Project,
+  StorageProvider,
+  UploadFileRequest,
+  UploadFileResponse,
+} from '../types';
+import {
+  getCurrentVersion,
+  getFileExtension,
+  isMimeTypeAllowedForProject,
+  sanitizeFileName,
+  validateUploadRequest,
+  withoutTableKeys,
+} from '../utils/file.utils';
+import { ErrorCodes } from '../utils/response.utils';
+import { AuditService, auditService } from './audit.service';
+import { EventBus, eventBus } from './event-bus.service';
+import { metadataRepository } from './metadata.service';
+import { PreviewService, previewService } from './preview.service';
+import { QuotaService, quotaService } from './quota.service';
+import { storageService } from './storage.service';
+import { TileService, tileService } from './tile.service';
+import { TrashService, trashService } from './trash.service';
+import {
+  UploadVerificationService,
+  uploadVerificationService,
+} from './upload-verification.service';
+
+/**
+ * Change to the uploaded file count and total size of a project
+ */
+export interface FileStatsDelta {
+  fileCountDelta: number;
+  sizeDelta: number;
+}
+
+/**
+ * Result of a step, with the change it made to the project statistics
+ */
+export interface FileOperationResult<T> {
+  data: T;
+  stats: FileStatsDelta;
+}
+
+/**
+ * What was verified about an uploaded object before it is accepted
+ */
+export interface VerifiedUpload {
+  checksumSha256?: string; // Checksum of the stored object, when storage reported one
+  details?: Record<string, unknown>; // Added to the audit entries, e.g. { multipart: true }
+}
+
+/**
+ * Thrown when a file operation is refused; carries the API error to respond with
+ */
+export class FileOperationError extends Error {
+  constructor(
+    public code: string,
+    message: string,
+    public statusCode: number,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'FileOperationError';
+  }
+}
+
+const NO_CHANGE: FileStatsDelta = { fileCountDelta: 0, sizeDelta: 0 };
+
+/**
+ * File Service class
+ */
+export class FileService {
+  constructor(
+    private metadata: MetadataRepository = metadataRepository,
+    private storage: StorageProvider = storageService,
+    private verification: UploadVerificationService = uploadVerificationService,
+    private quota: QuotaService = quotaService,
+    private trash: TrashService = trashService,
+    private previews: PreviewService = previewService,
+    private tiles: TileService = tileService,
+    private audit: AuditService = auditService,
+    private events: EventBus = eventBus
+  ) {}
+
+  /**
+   * Check an upload request against the upload limits and the project's allowed types
+   */
+  validateUpload(project: Project, request: UploadFileRequest): void {
+    const validation = validateUploadRequest(request.fileName, request.fileType, request.fileSize);
+    if (!validation.valid) {
+      throw new FileOperationError(ErrorCodes.VALIDATION_ERROR, validation.error!, 400);
+    }
+
+    if (!isMimeTypeAllowedForProject(request.fileType, project.allowedMimeTypes)) {
+      throw new FileOperationError(
+        ErrorCodes.INVALID_FILE_TYPE,
+        `File type '${request.fileType}' is not allowed in this project`,
+        400
+      );
+    }
+  }
+
+  /**
+   * Check that a change to a project's files stays within the quotas
+   */
+  async checkQuota(project: Project, change: FileStatsDelta): Promise<void> {
+    const violation = await this.quota.checkUpload(project, change);
+    if (violation) {
+      throw new FileOperationError(
+        ErrorCodes.QUOTA_EXCEEDED,
+        this.quota.describeViolation(violation),
+        413,
+        violation
+      );
+    }
+  }
+
+  /**
+   * Create a pending file and its presigned upload URL
+   *
+   * Callers validate the request and check the quota first.
+   */
+  async createUpload(
+    project: Project,
+    actor: AuditActor,
+    request: UploadFileRequest
+  ): Promise<UploadFileResponse> {
+    const { fileType, fileSize, checksumSha256 } = request;
+
+    const fileId = uuidv4();
+    const sanitizedFileName = sanitizeFileName(request.fileName);
+    const fileExtension = getFileExtension(sanitizedFileName);
+
+    // Generate presigned upload URL
+    const { uploadUrl, s3Key, headers, expiresIn } = await this.storage.generateUploadUrl(
+      project.projectId,
+      fileId,
+      sanitizedFileName,
+      fileType,
+      { fileSize, checksumSha256 }
+    );
+
+    // Create file metadata record (status: pending)
+    const file = await this.metadata.createFileMetadata({
+      fileId,
+      projectId: project.projectId,
+      fileName: sanitizedFileName,
+      fileType,
+      fileExtension,
+      fileSize,
+      s3Key,
+      uploadedBy: actor.userId,
+      expectedChecksumSha256: checksumSha256,
+    });
+
+    await this.audit.record(actor, {
+      projectId: project.projectId,
+      action: 'file.upload_requested',
+      resourceType: 'file',
+      resourceId: fileId,
+      after: file,
+    });
+
+    return { fileId, uploadUrl, uploadHeaders: headers, expiresIn };
+  }
+
+  /**
+   * Get a file that has not been deleted
+   */
+  async getFile(projectId: string, fileId: string): Promise<FileMetadata> {
+    const file = await this.metadata.getFileById(projectId, fileId);
+    if (!file) {
+      throw new FileOperationError(ErrorCodes.FILE_NOT_FOUND, 'File not found', 404);
+    }
+
+    if (file.status === 'deleted') {
+      throw new FileOperationError(ErrorCodes.FILE_NOT_FOUND, 'File has been deleted', 404);
+    }
+
+    return file;
+  }
+
+  /**
+   * Verify an uploaded object and mark its file uploaded
+   *
+   * Confirming again is a no-op, so the file is only counted once. Content
+   * that does not match its declared type quarantines the file.
+   */
+  async confirmUpload(
+    project: Project,
+    fileId: string,
+    actor: AuditActor
+  ): Promise<FileOperationResult<FileMetadata>> {
+    const { projectId } = project;
+
+    const fileMetadata = await this.metadata.getFileById(projectId, fileId);
+    if (!fileMetadata || fileMetadata.status === 'deleted') {
+      throw new FileOperationError(ErrorCodes.FILE_NOT_FOUND, 'File not found', 404);
+    }
+
+    if (fileMetadata.status === 'expired') {
+      throw new FileOperationError(
+        ErrorCodes.UPLOAD_EXPIRED,
+        'Upload was not confirmed in time; request a new upload URL',
+        410
+      );
+    }
+
+    if (fileMetadata.status === 'uploaded') {
+      return { data: fileMetadata, stats: NO_CHANGE };
+    }
+
+    // Verify the stored object matches what was declared
+    const verification = await this.verification.verify(fileMetadata);
+    if (!verification.exists) {
+      throw new FileOperationError(
+        ErrorCodes.VALIDATION_ERROR,
+        'File has not been uploaded to storage',
+        400
+      );
+    }
+
+    if (!verification.valid) {
+      throw new FileOperationError(
+        ErrorCodes.UPLOAD_VERIFICATION_FAILED,
+        this.verification.describeMismatches(verification.mismatches),
+        422,
+        { mismatches: verification.mismatches }
+      );
+    }
+
+    return this.acceptUpload(project, fileMetadata, actor, {
+      checksumSha256: verification.checksumSha256,
+    });
+  }
+
+  /**
+   * Mark a pending file uploaded once its object was verified
+   *
+   * Shared by single, multipart and notified uploads: the content is
+   * inspected and quarantined on a type mismatch, the quotas checked, the
+   * file counted in the project statistics, and the upload audited,
+   * published and queued for previews and tiles.
+   */
+  async acceptUpload(
+    project: Project,
+    file: FileMetadata,
+    actor: AuditActor,
+    verified: VerifiedUpload = {}
+  ): Promise<FileOperationResult<FileMetadata>> {
+    const { projectId } = project;
+
+    const detectedType = await this.inspectUpload(project, file, actor, verified, (updates) =>
+      this.metadata.updateFileStatus(projectId, file.fileId, 'quarantined', updates, {
+        expectedStatus: file.status,
+      })
+    );
+
+    // Pending uploads are not counted, so others may have used up the quota meanwhile
+    const stats: FileStatsDelta = { fileCountDelta: 1, sizeDelta: file.fileSize };
+    try {
+      await this.checkQuota(project, stats);
+    } catch (error) {
+      // A storage notification may have confirmed and counted this very file
+      const current = await this.metadata.getFileById(projectId, file.fileId);
+      if (current?.status === 'uploaded') {
+        return { data: current, stats: NO_CHANGE };
+      }
+      throw error;
+    }
+
+    // Update status to uploaded and count the file in the project stats
+    const updatedFile = await this.metadata.updateFileStatus(
+      projectId,
+      file.fileId,
+      'uploaded',
+      { checksumSha256: verified.checksumSha256, detectedType },
+      {
+        expectedStatus: file.status,
+        stats: { ownerId: project.ownerId, ...stats },
+      }
+    );
+
+    if (!updatedFile) {
+      // A concurrent request changed the file first
+      const current = await this.metadata.getFileById(projectId, file.fileId);
+      if (current?.status === 'uploaded') {
+        return { data: current, stats: NO_CHANGE };
+      }
+      throw new FileOperationError(
+        ErrorCodes.CONFLICT,
+        'File changed while it was being confirmed',
+        409
+      );
+    }
+
+    await this.audit.record(actor, {
+      projectId,
+      action: 'file.confirmed',
+      resourceType: 'file',
+      resourceId: file.fileId,
+      before: file,
+      after: updatedFile,
+      details: verified.details,
+    });
+
+    this.events.publish({
+      type: 'file.uploaded',
+      projectId,
+      actorId: actor.userId,
+      data: { file: withoutTableKeys(updatedFile) },
+    });
+
+    this.previews.enqueue(updatedFile);
+    this.tiles.enqueue(updatedFile);
+    return { data: updatedFile, stats };
+  }
+
+  /**
+   * Mark a new version uploaded once its object was verified, and make it
+   * current unless a newer version is
+   *
+   * Goes through the same inspection as acceptUpload; a quarantined version is
+   * kept out of the history and never made current.
+   */
+  async acceptVersionUpload(
+    project: Project,
+    file: FileMetadata,
+    version: FileVersion,
+    actor: AuditActor,
+    verified: VerifiedUpload = {}
+  ): Promise<{ version: FileVersion; file: FileMetadata | null }> {
+    const { projectId } = project;
+    const details = { ...verified.details, version: version.version };
+
+    const detectedType = await this.inspectUpload(
+      project,
+      version,
+      actor,
+      { ...verified, details },
+      (updates) =>
+        this.metadata.updateFileVersionStatus(projectId, file.fileId, version.version, 'quarantined', updates)
+    );
+
+    // Only a version that replaces the current one changes the total size
+    if (version.version > getCurrentVersion(file)) {
+      await this.checkQuota(project, { fileCountDelta: 0, sizeDelta: version.fileSize - file.fileSize });
+    }
+
+    const confirmed = await this.metadata.updateFileVersionStatus(
+      projectId,
+      file.fileId,
+      version.version,
+      'uploaded',
+      { checksumSha256: verified.checksumSha256, detectedType }
+    );
+
+    if (!confirmed) {
+      // The version was deleted with its file meanwhile
+      throw new FileOperationError(ErrorCodes.VERSION_NOT_FOUND, 'Version not found', 404);
+    }
+
+    // A version confirmed after a newer one stays in the history only
+    let current: FileMetadata | null = file;
+    let updatedFile: FileMetadata | null = null;
+    while (current?.status === 'uploaded' && version.version > getCurrentVersion(current)) {
+      updatedFile = await this.makeVersionCurrent(project.ownerId, current, confirmed);
+      if (updatedFile) {
+        break;
+      }
+      // Another version became current meanwhile; compare against that one
+      current = await this.metadata.getFileById(projectId, file.fileId);
+    }
+
+    await this.audit.record(actor, {
+      projectId,
+      action: 'file.confirmed',
+      resourceType: 'file',
+      resourceId: file.fileId,
+      before: version,
+      after: confirmed,
+      details: { ...details, madeCurrent: !!updatedFile },
+    });
+
+    // Subscribers hear of versions that replace the file's content
+    if (updatedFile) {
+      this.events.publish({
+        type: 'file.uploaded',
+        projectId,
+        actorId: actor.userId,
+        data: { file: withoutTableKeys(updatedFile), version: version.version },
+      });
+    }
+
+    return { version: confirmed, file: updatedFile };
+  }
+
+  /**
+   * Point a file at a version, adjust the project's total size and queue
+   * previews and tiles of the new content
+   *
+   * Null when the file is no longer uploaded or another version became current.
+   */
+  async makeVersionCurrent(
+    ownerId: string,
+    file: FileMetadata,
+    version: FileVersion
+  ): Promise<FileMetadata | null> {
+    const updatedFile = await this.metadata.setCurrentVersion(file.projectId, version, {
+      expectedStatus: 'uploaded',
+      expectedVersion: getCurrentVersion(file),
+      stats: { ownerId, fileCountDelta: 0, sizeDelta: version.fileSize - file.fileSize },
+    });
+
+    if (updatedFile) {
+      this.previews.enqueue(updatedFile);
+      this.tiles.enqueue(updatedFile);
+    }
+    return updatedFile;
+  }
+
+  /**
+   * Move a file to the trash, or permanently delete it with `hard`
+   *
+   * Callers check that the user may delete permanently.
+   */
+  async deleteFile(
+    project: Project,
+    fileId: string,
+    actor: AuditActor,
+    options: { hard?: boolean } = {}
+  ): Promise<FileOperationResult<DeleteFileResponse>> {
+    const fileMetadata = await this.metadata.getFileById(project.projectId, fileId);
+    if (!fileMetadata) {
+      throw new FileOperationError(ErrorCodes.FILE_NOT_FOUND, 'File not found', 404);
+    }
+
+    if (fileMetadata.status === 'deleted' && !options.hard) {
+      throw new FileOperationError(ErrorCodes.FILE_NOT_FOUND, 'File already deleted', 404);
+    }
+
+    // Only uploaded files are counted in the project statistics
+    const stats: FileStatsDelta =
+      fileMetadata.status === 'uploaded'
+        ? { fileCountDelta: -1, sizeDelta: -fileMetadata.fileSize }
+        : NO_CHANGE;
+
+    if (options.hard) {
+      // Hard delete: remove every version from storage and the metadata store
+      const purged = await this.trash.purgeFile(fileMetadata, project.ownerId);
+      if (!purged) {
+        throw new FileOperationError(
+          ErrorCodes.CONFLICT,
+          'File changed while it was being deleted',
+          409
+        );
+      }
+
+      await this.audit.record(actor, {
+        projectId: project.projectId,
+        action: 'file.purged',
+        resourceType: 'file',
+        resourceId: fileId,
+        before: fileMetadata,
+      });
+
+      this.events.publish({
+        type: 'file.deleted',
+        projectId: project.projectId,
+        actorId: actor.userId,
+        data: { file: withoutTableKeys(fileMetadata), permanent: true },
+      });
+
+      return { data: { message: 'File permanently deleted' }, stats };
+    }
+
+    // Soft delete: move to the trash, restorable within the retention window
+    const trashed = await this.trash.trashFile(project.ownerId, fileMetadata);
+    if (!trashed) {
+      throw new FileOperationError(ErrorCodes.FILE_NOT_FOUND, 'File already deleted', 404);
+    }
+
+    await this.audit.record(actor, {
+      projectId: project.projectId,
+      action: 'file.deleted',
+      resourceType: 'file',
+      resourceId: fileId,
+      before: fileMetadata,
+      after: trashed,
+    });
+
+    this.events.publish({
+      type: 'file.deleted',
+      projectId: project.projectId,
+      actorId: actor.userId,
+      data: { file: withoutTableKeys(trashed), permanent: false },
+    });
+
+    return {
+      data: {
+        message: 'File deleted',
+        restorableUntil: this.trash.getPurgeDate(trashed).toISOString(),
+      },
+      stats,
+    };
+  }
+
+  /**
+   * Detect the real type of an uploaded file or version from its content
+   *
+   * On a mismatch with the declared type, `quarantine` stores the status on
+   * the record and FILE_QUARANTINED is thrown; otherwise resolves to the
+   * detected type.
+   */
+  private async inspectUpload(
+    project: Project,
+    upload: FileMetadata | FileVersion,
+    actor: AuditActor,
+    verified: VerifiedUpload,
+    quarantine: (updates: FileStatusUpdates) => Promise<FileMetadata | FileVersion | null>
+  ): Promise<string | undefined> {
+    const inspection = await this.verification.inspectContent(
+      upload.s3Key,
+      upload.fileType,
+      project.allowedMimeTypes
+    );
+    if (!inspection.quarantined) {
+      return inspection.detectedType ?? undefined;
+    }
+
+    const quarantined = await quarantine({
+      checksumSha256: verified.checksumSha256,
+      detectedType: inspection.detectedType ?? undefined,
+      quarantineReason: inspection.quarantineReason,
+    });
+
+    if (quarantined) {
+      await this.audit.record(actor, {
+        projectId: project.projectId,
+        action: 'file.quarantined',
+        resourceType: 'file',
+        resourceId: upload.fileId,
+        before: upload,
+        after: quarantined,
+        details: verified.details,
+      });
+    }
+
+    throw new FileOperationError(ErrorCodes.FILE_QUARANTINED, inspection.quarantineReason!, 422, {
+      declaredType: upload.fileType,
+      detectedType: inspection.detectedType,
+    });
+  }
+}
+
+// Export singleton instance
+export const fileService = new FileService();
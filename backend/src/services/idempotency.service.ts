@@ -0,0 +1,262 @@
+/**
+ * Idempotency Service - Replays the responses of requests retried with the same key
+ *
+ * A request with an idempotency key reserves the key before it runs. Its
+ * successful response is stored under the key and returned to retries with
+ * the same method, URL and body; a different request reusing the key is
+ * refused. Responses live in a pluggable store: in memory for a single server
+ * process, or in DynamoDB to be shared by every Lambda instance.
+ */
+
+import crypto from 'crypto';
+import { DeleteCommand, GetCommand, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { docClient, DYNAMODB_CONFIG, IDEMPOTENCY_CONFIG } from '../config/aws.config';
+import {
+  IdempotencyRecord,
+  IdempotencyStore,
+  IdempotencyStoreType,
+  StoredResponse,
+} from '../types';
+import { isConditionalCheckFailed } from '../utils/error.utils';
+
+/**
+ * Seconds after which a request that never finished (e.g. its process died)
+ * no longer holds its key; longer than any request may take
+ */
+const IN_PROGRESS_TIMEOUT = 60;
+
+/**
+ * Records kept in memory before expired ones are dropped
+ */
+const MAX_MEMORY_RECORDS = 10000;
+
+/**
+ * Times a DynamoDB key is reserved again after the record holding it disappeared
+ */
+const MAX_RESERVE_ATTEMPTS = 3;
+
+/**
+ * What to do with a request made with an idempotency key
+ */
+export type IdempotencyOutcome =
+  | { outcome: 'new' } // Run it; the key is reserved for it
+  | { outcome: 'replay'; response: StoredResponse } // Return the stored response
+  | { outcome: 'mismatch' } // The key was used for a different request
+  | { outcome: 'in_progress' }; // The first request with the key is still running
+
+/**
+ * Idempotency records kept in process memory
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private records = new Map<string, IdempotencyRecord>();
+
+  async reserve(key: string, record: IdempotencyRecord): Promise<IdempotencyRecord | null> {
+    const existing = this.records.get(key);
+    if (existing && holdsKey(existing, Date.now())) {
+      return existing;
+    }
+
+    if (this.records.size >= MAX_MEMORY_RECORDS) {
+      this.dropExpiredRecords(Date.now());
+    }
+    this.records.set(key, record);
+    return null;
+  }
+
+  async complete(key: string, response: StoredResponse, expiresAt: number): Promise<void> {
+    const record = this.records.get(key);
+    if (record) {
+      this.records.set(key, { ...record, status: 'completed', response, expiresAt });
+    }
+  }
+
+  async release(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  private dropExpiredRecords(now: number): void {
+    for (const [key, record] of this.records) {
+      if (!holdsKey(record, now)) {
+        this.records.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Idempotency records kept in the DynamoDB table, shared by every process
+ *
+ * Records expire through the table's time to live. Responses are stored as
+ * JSON strings, so any body the API sends can be kept.
+ */
+export class DynamoDBIdempotencyStore implements IdempotencyStore {
+  private tableName = DYNAMODB_CONFIG.tableName;
+
+  async reserve(key: string, record: IdempotencyRecord): Promise<IdempotencyRecord | null> {
+    const itemKey = this.buildKey(key);
+
+    for (let attempt = 0; attempt < MAX_RESERVE_ATTEMPTS; attempt++) {
+      const now = Date.now();
+      try {
+        await docClient.send(
+          new PutCommand({
+            TableName: this.tableName,
+            Item: { ...itemKey, ...record },
+            // Free keys: never used, expired, or held by a request that was abandoned
+            ConditionExpression:
+              'attribute_not_exists(PK) OR expiresAt <= :nowSeconds OR ' +
+              '(#status = :inProgress AND lockedUntil <= :now)',
+            ExpressionAttributeNames: {
+              '#status': 'status',
+            },
+            ExpressionAttributeValues: {
+              ':nowSeconds': Math.floor(now / 1000),
+              ':inProgress': 'in_progress',
+              ':now': now,
+            },
+          })
+        );
+        return null;
+      } catch (error: unknown) {
+        if (!isConditionalCheckFailed(error)) {
+          throw error;
+        }
+      }
+
+      const result = await docClient.send(
+        new GetCommand({ TableName: this.tableName, Key: itemKey, ConsistentRead: true })
+      );
+      if (result.Item) {
+        const { response, ...existing } = result.Item as IdempotencyRecord & {
+          response?: { statusCode: number; body: string };
+        };
+        return {
+          ...existing,
+          ...(response && {
+            response: { statusCode: response.statusCode, body: JSON.parse(response.body) },
+          }),
+        };
+      }
+      // Released meanwhile; try again
+    }
+
+    throw new Error(`Could not reserve idempotency key ${key}`);
+  }
+
+  async complete(key: string, response: StoredResponse, expiresAt: number): Promise<void> {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: this.tableName,
+        Key: this.buildKey(key),
+        UpdateExpression: 'SET #status = :completed, #response = :response, expiresAt = :expiresAt',
+        ConditionExpression: 'attribute_exists(PK)',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+          '#response': 'response',
+        },
+        ExpressionAttributeValues: {
+          ':completed': 'completed',
+          ':response': { statusCode: response.statusCode, body: JSON.stringify(response.body) },
+          ':expiresAt': expiresAt,
+        },
+      })
+    );
+  }
+
+  async release(key: string): Promise<void> {
+    await docClient.send(new DeleteCommand({ TableName: this.tableName, Key: this.buildKey(key) }));
+  }
+
+  private buildKey(key: string): { PK: string; SK: string } {
+    return { PK: `IDEMPOTENCY#${key}`, SK: 'REQUEST' };
+  }
+}
+
+/**
+ * Create an idempotency store of the given type
+ */
+export function createIdempotencyStore(
+  type: IdempotencyStoreType = IDEMPOTENCY_CONFIG.store
+): IdempotencyStore {
+  switch (type) {
+    case 'memory':
+      return new MemoryIdempotencyStore();
+    case 'dynamodb':
+      return new DynamoDBIdempotencyStore();
+    default:
+      throw new Error(`Unknown idempotency store: ${type}`);
+  }
+}
+
+/**
+ * Idempotency Service class
+ */
+export class IdempotencyService {
+  constructor(
+    private store: IdempotencyStore = createIdempotencyStore(),
+    private config: typeof IDEMPOTENCY_CONFIG = IDEMPOTENCY_CONFIG
+  ) {}
+
+  /**
+   * Hash identifying a request, so a key cannot be reused for another one
+   */
+  fingerprint(method: string, url: string, body: unknown): string {
+    return crypto
+      .createHash('sha256')
+      .update(`${method} ${url}\n${JSON.stringify(body ?? null)}`)
+      .digest('hex');
+  }
+
+  /**
+   * Reserve a key for a request, or find out how the request was already handled
+   */
+  async begin(key: string, fingerprint: string): Promise<IdempotencyOutcome> {
+    const now = Date.now();
+    const existing = await this.store.reserve(key, {
+      fingerprint,
+      status: 'in_progress',
+      lockedUntil: now + IN_PROGRESS_TIMEOUT * 1000,
+      expiresAt: Math.floor(now / 1000) + this.config.ttl,
+    });
+
+    if (!existing) {
+      return { outcome: 'new' };
+    }
+    if (existing.fingerprint !== fingerprint) {
+      return { outcome: 'mismatch' };
+    }
+    if (existing.status === 'completed' && existing.response) {
+      return { outcome: 'replay', response: existing.response };
+    }
+    return { outcome: 'in_progress' };
+  }
+
+  /**
+   * Store the response of a request, to be replayed for the rest of the window
+   */
+  async complete(key: string, response: StoredResponse): Promise<void> {
+    await this.store.complete(key, response, Math.floor(Date.now() / 1000) + this.config.ttl);
+  }
+
+  /**
+   * Free a key, so a retry runs the request again
+   */
+  async release(key: string): Promise<void> {
+    await this.store.release(key);
+  }
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Whether a record still holds its key: unexpired, and finished or still running
+ */
+function holdsKey(record: IdempotencyRecord, now: number): boolean {
+  return (
+    record.expiresAt > Math.floor(now / 1000) &&
+    (record.status === 'completed' || record.lockedUntil > now)
+  );
+}
+
+// Export singleton instance
+export const idempotencyService = new IdempotencyService();
@@ -3,4 +3,8 @@
  */
 
 export * from './s3.service';
+export * from './local-storage.service';
+export * from './storage.service';
 export * from './dynamodb.service';
+export * from './memory-metadata.service';
+export * from './metadata.service';
@@ -0,0 +1,630 @@
+/**
+ * Local Storage Service - Filesystem-backed storage for offline development
+ *
+ * Objects are written under `{rootDir}/objects/{key}` with a JSON sidecar under
+ * `{rootDir}/metadata/{key}.json`. Multipart uploads stage their parts under
+ * `{rootDir}/multipart/{uploadId}/` until completed. Upload and download URLs point at the
+ * `/storage` routes and are authorized by an HMAC signature with an expiry,
+ * mirroring the behaviour of S3 presigned URLs. Listeners registered with
+ * onObjectCreated stand in for S3 ObjectCreated notifications.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { S3_CONFIG, STORAGE_CONFIG } from '../config/aws.config';
+import {
+  StorageProvider,
+  UploadUrlOptions,
+  UploadUrlResult,
+  DownloadUrlResult,
+  ObjectMetadata,
+  StoredPart,
+} from '../types';
+import { buildStorageKey } from '../utils/file.utils';
+
+/**
+ * Parameters covered by a local storage URL signature
+ */
+export interface SignedUrlParams {
+  expires: number; // Unix timestamp (seconds)
+  contentType?: string;
+  contentLength?: number;
+  disposition?: string;
+  checksumSha256?: string;
+  uploadId?: string;
+  partNumber?: number;
+}
+
+/**
+ * Handles the notification of a stored object
+ */
+export type ObjectCreatedListener = (s3Key: string) => Promise<unknown>;
+
+/**
+ * Manifest stored alongside the parts of a multipart upload
+ */
+interface MultipartManifest {
+  s3Key: string;
+  contentType: string;
+}
+
+/**
+ * Local Storage Service class for file storage on disk
+ */
+export class LocalStorageService implements StorageProvider {
+  private objectsDir: string;
+  private metadataDir: string;
+  private multipartDir: string;
+  private baseUrl: string;
+  private signingSecret: string;
+  private presignedUrlExpiry: number;
+  private maxPartSize: number;
+  private objectCreatedListeners: ObjectCreatedListener[] = [];
+
+  constructor(
+    config: typeof STORAGE_CONFIG = STORAGE_CONFIG,
+    s3Config: typeof S3_CONFIG = S3_CONFIG
+  ) {
+    const rootDir = path.resolve(config.localRootDir);
+    this.objectsDir = path.join(rootDir, 'objects');
+    this.metadataDir = path.join(rootDir, 'metadata');
+    this.multipartDir = path.join(rootDir, 'multipart');
+    this.baseUrl = config.localBaseUrl.replace(/\/+$/, '');
+    this.signingSecret = config.localSigningSecret;
+    this.presignedUrlExpiry = s3Config.presignedUrlExpiry;
+    this.maxPartSize = s3Config.maxPartSize;
+  }
+
+  /**
+   * Generate storage key for a file
+   * Format: {projectId}/{fileId}/{fileName} (versions after the first add /v{version})
+   */
+  generateS3Key(projectId: string, fileId: string, fileName: string, version?: number): string {
+    return buildStorageKey(projectId, fileId, fileName, version);
+  }
+
+  /**
+   * Generate a signed URL for uploading a file
+   */
+  async generateUploadUrl(
+    projectId: string,
+    fileId: string,
+    fileName: string,
+    contentType: string,
+    options: UploadUrlOptions = {}
+  ): Promise<UploadUrlResult> {
+    const { fileSize, version, checksumSha256 } = options;
+    const s3Key = this.generateS3Key(projectId, fileId, fileName, version);
+
+    const uploadUrl = this.signUrl('PUT', s3Key, {
+      expires: this.getExpiryTimestamp(),
+      contentType,
+      ...(fileSize && { contentLength: fileSize }),
+      ...(checksumSha256 && { checksumSha256 }),
+    });
+
+    return {
+      uploadUrl,
+      s3Key,
+      headers: {
+        'Content-Type': contentType,
+        ...(checksumSha256 && { 'x-amz-checksum-sha256': checksumSha256 }),
+      },
+      expiresIn: this.presignedUrlExpiry,
+    };
+  }
+
+  /**
+   * Generate a signed URL for downloading a file
+   */
+  async generateDownloadUrl(
+    s3Key: string,
+    originalFileName?: string
+  ): Promise<DownloadUrlResult> {
+    const downloadUrl = this.signUrl('GET', s3Key, {
+      expires: this.getExpiryTimestamp(),
+      ...(originalFileName && {
+        disposition: `attachment; filename="${originalFileName}"`,
+      }),
+    });
+
+    return {
+      downloadUrl,
+      expiresIn: this.presignedUrlExpiry,
+    };
+  }
+
+  /**
+   * Delete an object from disk
+   */
+  async deleteObject(s3Key: string): Promise<void> {
+    await fs.promises.rm(this.resolveObjectPath(s3Key), { force: true });
+    await fs.promises.rm(this.resolveMetadataPath(s3Key), { force: true });
+  }
+
+  /**
+   * Delete every object under a key prefix
+   */
+  async deleteObjectsWithPrefix(prefix: string): Promise<number> {
+    // Keys are paths, so a prefix ending in '/' is a directory
+    const objectDir = this.resolveWithin(this.objectsDir, prefix);
+    const entries = await fs.promises
+      .readdir(objectDir, { recursive: true, withFileTypes: true })
+      .catch((error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') return [];
+        throw error;
+      });
+
+    await fs.promises.rm(objectDir, { recursive: true, force: true });
+    await fs.promises.rm(this.resolveWithin(this.metadataDir, prefix), {
+      recursive: true,
+      force: true,
+    });
+
+    return entries.filter((entry) => entry.isFile()).length;
+  }
+
+  /**
+   * Check if an object exists on disk
+   */
+  async objectExists(s3Key: string): Promise<boolean> {
+    return (await this.getObjectMetadata(s3Key)) !== null;
+  }
+
+  /**
+   * Get object metadata from the sidecar file
+   */
+  async getObjectMetadata(s3Key: string): Promise<ObjectMetadata | null> {
+    try {
+      const stats = await fs.promises.stat(this.resolveObjectPath(s3Key));
+      const sidecar = JSON.parse(
+        await fs.promises.readFile(this.resolveMetadataPath(s3Key), 'utf-8')
+      ) as { contentType?: string; checksumSha256?: string };
+
+      return {
+        contentType: sidecar.contentType,
+        contentLength: stats.size,
+        lastModified: stats.mtime,
+        checksumSha256: sidecar.checksumSha256,
+      };
+    } catch (error: unknown) {
+      if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read the leading bytes of an object
+   */
+  async readObjectHead(s3Key: string, maxBytes: number): Promise<Buffer> {
+    const handle = await fs.promises.open(this.resolveObjectPath(s3Key), 'r');
+    try {
+      const buffer = Buffer.alloc(maxBytes);
+      const { bytesRead } = await handle.read(buffer, 0, maxBytes, 0);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Read a whole object
+   */
+  async readObject(s3Key: string): Promise<Buffer> {
+    return fs.promises.readFile(this.resolveObjectPath(s3Key));
+  }
+
+  /**
+   * Store an object generated by the service
+   */
+  async putObject(s3Key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.writeObject(s3Key, Readable.from([body]), contentType);
+  }
+
+  /**
+   * Call a listener for every object stored from now on, like an S3 ObjectCreated notification
+   */
+  onObjectCreated(listener: ObjectCreatedListener): void {
+    this.objectCreatedListeners.push(listener);
+  }
+
+  // ==================== MULTIPART UPLOADS ====================
+
+  /**
+   * Start a multipart upload
+   */
+  async createMultipartUpload(
+    s3Key: string,
+    contentType: string
+  ): Promise<{ uploadId: string }> {
+    // Validate the key up front so a bad key fails here rather than on completion
+    this.resolveObjectPath(s3Key);
+
+    const uploadId = uuidv4();
+    const uploadDir = this.resolveUploadDir(uploadId);
+    await fs.promises.mkdir(uploadDir, { recursive: true });
+
+    const manifest: MultipartManifest = { s3Key, contentType };
+    await fs.promises.writeFile(path.join(uploadDir, 'manifest.json'), JSON.stringify(manifest));
+
+    return { uploadId };
+  }
+
+  /**
+   * Generate a signed URL for uploading a single part
+   */
+  async generateUploadPartUrl(
+    s3Key: string,
+    uploadId: string,
+    partNumber: number
+  ): Promise<{ uploadUrl: string; expiresIn: number }> {
+    const uploadUrl = this.signUrl('PUT', s3Key, {
+      expires: this.getExpiryTimestamp(),
+      uploadId,
+      partNumber,
+    });
+
+    return {
+      uploadUrl,
+      expiresIn: this.presignedUrlExpiry,
+    };
+  }
+
+  /**
+   * List the parts received for a multipart upload
+   */
+  async listUploadedParts(s3Key: string, uploadId: string): Promise<StoredPart[]> {
+    const uploadDir = await this.getUploadDir(s3Key, uploadId);
+    const entries = await fs.promises.readdir(uploadDir);
+
+    const parts: StoredPart[] = [];
+    for (const entry of entries) {
+      const match = /^part-(\d+)\.json$/.exec(entry);
+      if (match) {
+        parts.push(JSON.parse(await fs.promises.readFile(path.join(uploadDir, entry), 'utf-8')));
+      }
+    }
+
+    return parts.sort((a, b) => a.partNumber - b.partNumber);
+  }
+
+  /**
+   * Assemble the uploaded parts into the final object
+   */
+  async completeMultipartUpload(
+    s3Key: string,
+    uploadId: string,
+    parts: StoredPart[]
+  ): Promise<void> {
+    const uploadDir = await this.getUploadDir(s3Key, uploadId);
+    const manifest = await this.readManifest(uploadDir);
+    const storedParts = new Map(
+      (await this.listUploadedParts(s3Key, uploadId)).map((part) => [part.partNumber, part])
+    );
+
+    const ordered = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+    for (const part of ordered) {
+      const stored = storedParts.get(part.partNumber);
+      if (!stored || normalizeEtag(stored.etag) !== normalizeEtag(part.etag)) {
+        throw createStorageError('InvalidPart', `Part ${part.partNumber} has not been uploaded`);
+      }
+    }
+
+    const partStreams = ordered.map((part) => path.join(uploadDir, `part-${part.partNumber}`));
+    await this.writeObject(s3Key, Readable.from(concatFiles(partStreams)), manifest.contentType);
+    await fs.promises.rm(uploadDir, { recursive: true, force: true });
+  }
+
+  /**
+   * Abort a multipart upload and discard its parts
+   */
+  async abortMultipartUpload(_s3Key: string, uploadId: string): Promise<void> {
+    await fs.promises.rm(this.resolveUploadDir(uploadId), { recursive: true, force: true });
+  }
+
+  /**
+   * Write a single part of a multipart upload from a stream
+   *
+   * A part larger than the maximum part size is rejected with an error named
+   * `EntityTooLarge`, as S3 does.
+   */
+  async writePart(
+    s3Key: string,
+    uploadId: string,
+    partNumber: number,
+    body: Readable
+  ): Promise<StoredPart> {
+    const uploadDir = await this.getUploadDir(s3Key, uploadId);
+    const partPath = path.join(uploadDir, `part-${partNumber}`);
+    const tempPath = `${partPath}.upload-${uuidv4()}`;
+    const hash = crypto.createHash('md5');
+
+    try {
+      await pipeline(
+        body,
+        limitBytes(this.maxPartSize),
+        hashChunks(hash),
+        fs.createWriteStream(tempPath)
+      );
+
+      const stats = await fs.promises.stat(tempPath);
+      const part: StoredPart = {
+        partNumber,
+        etag: `"${hash.digest('hex')}"`,
+        size: stats.size,
+      };
+
+      await fs.promises.rename(tempPath, partPath);
+      await fs.promises.writeFile(`${partPath}.json`, JSON.stringify(part));
+
+      return part;
+    } finally {
+      await fs.promises.rm(tempPath, { force: true });
+    }
+  }
+
+  // ==================== SIGNED URL HANDLING ====================
+
+  /**
+   * Verify the signature and expiry of a signed storage request
+   */
+  verifySignedRequest(
+    method: 'PUT' | 'GET',
+    s3Key: string,
+    query: Record<string, unknown>
+  ): { valid: boolean; error?: string; params?: SignedUrlParams } {
+    const expires = parseInt(String(query.expires || ''), 10);
+    const signature = typeof query.signature === 'string' ? query.signature : '';
+
+    if (!expires || !signature) {
+      return { valid: false, error: 'Missing signature' };
+    }
+
+    if (expires < Math.floor(Date.now() / 1000)) {
+      return { valid: false, error: 'Signed URL has expired' };
+    }
+
+    const params: SignedUrlParams = {
+      expires,
+      ...(typeof query.contentType === 'string' && { contentType: query.contentType }),
+      ...(query.contentLength && { contentLength: parseInt(String(query.contentLength), 10) }),
+      ...(typeof query.disposition === 'string' && { disposition: query.disposition }),
+      ...(typeof query.checksumSha256 === 'string' && { checksumSha256: query.checksumSha256 }),
+      ...(typeof query.uploadId === 'string' && { uploadId: query.uploadId }),
+      ...(query.partNumber && { partNumber: parseInt(String(query.partNumber), 10) }),
+    };
+
+    const expected = Buffer.from(this.computeSignature(method, s3Key, params));
+    const provided = Buffer.from(signature);
+    if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+      return { valid: false, error: 'Invalid signature' };
+    }
+
+    return { valid: true, params };
+  }
+
+  /**
+   * Write an object to disk from a stream
+   *
+   * The body is streamed to a temporary file and only moved into place once its
+   * length and checksum have been checked, so a failed upload never replaces an
+   * existing object. The SHA-256 of every object is recorded in its sidecar.
+   */
+  async writeObject(
+    s3Key: string,
+    body: Readable,
+    contentType: string,
+    expectedLength?: number,
+    expectedChecksumSha256?: string
+  ): Promise<ObjectMetadata> {
+    const objectPath = this.resolveObjectPath(s3Key);
+    const metadataPath = this.resolveMetadataPath(s3Key);
+    const tempPath = `${objectPath}.upload-${uuidv4()}`;
+    const hash = crypto.createHash('sha256');
+
+    await fs.promises.mkdir(path.dirname(objectPath), { recursive: true });
+    await fs.promises.mkdir(path.dirname(metadataPath), { recursive: true });
+
+    try {
+      await pipeline(body, hashChunks(hash), fs.createWriteStream(tempPath));
+
+      const stats = await fs.promises.stat(tempPath);
+      if (expectedLength !== undefined && stats.size !== expectedLength) {
+        throw new Error(
+          `Content length mismatch: expected ${expectedLength} bytes, received ${stats.size}`
+        );
+      }
+
+      const checksumSha256 = hash.digest('base64');
+      if (expectedChecksumSha256 && checksumSha256 !== expectedChecksumSha256) {
+        throw createStorageError(
+          'BadDigest',
+          'The SHA-256 checksum of the content does not match the signed checksum'
+        );
+      }
+
+      await fs.promises.rename(tempPath, objectPath);
+      await fs.promises.writeFile(metadataPath, JSON.stringify({ contentType, checksumSha256 }));
+      this.notifyObjectCreated(s3Key);
+
+      return {
+        contentType,
+        contentLength: stats.size,
+        lastModified: stats.mtime,
+        checksumSha256,
+      };
+    } finally {
+      await fs.promises.rm(tempPath, { force: true });
+    }
+  }
+
+  /**
+   * Open a read stream for an object on disk
+   */
+  createReadStream(s3Key: string): fs.ReadStream {
+    return fs.createReadStream(this.resolveObjectPath(s3Key));
+  }
+
+  // ==================== PRIVATE HELPERS ====================
+
+  /**
+   * Notify the listeners of a stored object after the current request, as S3 does asynchronously
+   */
+  private notifyObjectCreated(s3Key: string): void {
+    for (const listener of this.objectCreatedListeners) {
+      setImmediate(() => {
+        listener(s3Key).catch((error) => {
+          console.error(`Error handling creation of ${s3Key}:`, error);
+        });
+      });
+    }
+  }
+
+  private getExpiryTimestamp(): number {
+    return Math.floor(Date.now() / 1000) + this.presignedUrlExpiry;
+  }
+
+  private signUrl(method: 'PUT' | 'GET', s3Key: string, params: SignedUrlParams): string {
+    const query = new URLSearchParams();
+    query.set('expires', String(params.expires));
+    if (params.contentType) query.set('contentType', params.contentType);
+    if (params.contentLength) query.set('contentLength', String(params.contentLength));
+    if (params.disposition) query.set('disposition', params.disposition);
+    if (params.checksumSha256) query.set('checksumSha256', params.checksumSha256);
+    if (params.uploadId) query.set('uploadId', params.uploadId);
+    if (params.partNumber) query.set('partNumber', String(params.partNumber));
+    query.set('signature', this.computeSignature(method, s3Key, params));
+
+    const encodedKey = s3Key.split('/').map(encodeURIComponent).join('/');
+    return `${this.baseUrl}/${encodedKey}?${query.toString()}`;
+  }
+
+  private computeSignature(method: string, s3Key: string, params: SignedUrlParams): string {
+    const canonical = [
+      method,
+      s3Key,
+      params.expires,
+      params.contentType || '',
+      params.contentLength || '',
+      params.disposition || '',
+      params.checksumSha256 || '',
+      params.uploadId || '',
+      params.partNumber || '',
+    ].join('\n');
+
+    return crypto.createHmac('sha256', this.signingSecret).update(canonical).digest('hex');
+  }
+
+  private resolveObjectPath(s3Key: string): string {
+    return this.resolveWithin(this.objectsDir, s3Key);
+  }
+
+  private resolveMetadataPath(s3Key: string): string {
+    return this.resolveWithin(this.metadataDir, `${s3Key}.json`);
+  }
+
+  private resolveUploadDir(uploadId: string): string {
+    return this.resolveWithin(this.multipartDir, uploadId);
+  }
+
+  /**
+   * Resolve the staging directory of an upload, checking it belongs to the key
+   */
+  private async getUploadDir(s3Key: string, uploadId: string): Promise<string> {
+    const uploadDir = this.resolveUploadDir(uploadId);
+
+    let manifest: MultipartManifest;
+    try {
+      manifest = await this.readManifest(uploadDir);
+    } catch (error: unknown) {
+      if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+        throw createStorageError('NoSuchUpload', `Upload ${uploadId} does not exist`);
+      }
+      throw error;
+    }
+
+    if (manifest.s3Key !== s3Key) {
+      throw createStorageError('NoSuchUpload', `Upload ${uploadId} does not exist`);
+    }
+
+    return uploadDir;
+  }
+
+  private async readManifest(uploadDir: string): Promise<MultipartManifest> {
+    return JSON.parse(await fs.promises.readFile(path.join(uploadDir, 'manifest.json'), 'utf-8'));
+  }
+
+  /**
+   * Resolve a key inside a base directory, rejecting path traversal
+   */
+  private resolveWithin(baseDir: string, relativePath: string): string {
+    const resolved = path.resolve(baseDir, relativePath);
+    if (!resolved.startsWith(baseDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${relativePath}`);
+    }
+    return resolved;
+  }
+}
+
+/**
+ * Compare ETags regardless of surrounding quotes
+ */
+function normalizeEtag(etag: string): string {
+  return etag.replace(/"/g, '');
+}
+
+/**
+ * Create an error named like its S3 counterpart
+ */
+function createStorageError(name: string, message: string): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+/**
+ * Pipeline stage that feeds every chunk into a hash on its way through
+ */
+function hashChunks(hash: crypto.Hash) {
+  return async function* (source: AsyncIterable<Buffer>): AsyncGenerator<Buffer> {
+    for await (const chunk of source) {
+      hash.update(chunk);
+      yield chunk;
+    }
+  };
+}
+
+/**
+ * Pipeline stage that fails once more than `maxBytes` went through it
+ */
+function limitBytes(maxBytes: number) {
+  return async function* (source: AsyncIterable<Buffer>): AsyncGenerator<Buffer> {
+    let total = 0;
+    for await (const chunk of source) {
+      total += chunk.length;
+      if (total > maxBytes) {
+        const error = new Error(`Part exceeds the maximum part size of ${maxBytes} bytes`);
+        error.name = 'EntityTooLarge';
+        throw error;
+      }
+      yield chunk;
+    }
+  };
+}
+
+/**
+ * Stream the contents of several files in order
+ */
+async function* concatFiles(filePaths: string[]): AsyncGenerator<Buffer> {
+  for (const filePath of filePaths) {
+    for await (const chunk of fs.createReadStream(filePath)) {
+      yield chunk as Buffer;
+    }
+  }
+}
@@ -0,0 +1,1565 @@
+/**
+ * In-Memory Metadata Service - Embedded metadata store for offline development
+ *
+ * Items use the same single-table layout as DynamoDB (PK/SK), so key shapes,
+ * pagination cursors and conditional writes behave the same way. When a data
+ * file is configured the table is persisted to disk after every write.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { METADATA_CONFIG } from '../config/aws.config';
+import {
+  FileMetadata,
+  FileStatus,
+  CreateFileMetadata,
+  MultipartUploadState,
+  FileVersion,
+  FileVersionStatus,
+  CreateFileVersion,
+  Project,
+  ProjectRole,
+  ProjectMember,
+  CreateProjectMember,
+  SharedProjectRef,
+  CreateProjectRequest,
+  MetadataRepository,
+  PageQueryOptions,
+  FileQueryOptions,
+  FileCountOptions,
+  ProjectQueryOptions,
+  ProjectCountOptions,
+  ProjectUpdates,
+  PaginationKey,
+  VersionQueryOptions,
+  FileStatusUpdates,
+  PendingUploadQueryOptions,
+  PendingVersionUpload,
+  TrashQueryOptions,
+  FileChangeOptions,
+  ProjectStats,
+  ProjectStatsChange,
+  FilePreviews,
+  FileTiles,
+  FileUpdates,
+  SearchDocument,
+  SearchTokenEntry,
+  AuditEntry,
+  AuditQueryOptions,
+  CreateAuditEntry,
+  Webhook,
+  CreateWebhook,
+  WebhookUpdates,
+  WebhookDelivery,
+  CreateWebhookDelivery,
+  WebhookDeliveryUpdate,
+  WebhookDeliveryQueryOptions,
+  DueDeliveryQueryOptions,
+} from '../types';
+import {
+  FILE_SORT_INDEXES,
+  PROJECT_SORT_INDEXES,
+  buildAuditSortKey,
+  buildFileListKey,
+  buildFileSortName,
+  buildProjectListKey,
+  buildSearchKey,
+  buildSearchTokenEntries,
+  buildSearchTokenSortKey,
+  buildSortName,
+  buildVersionSortKey,
+  buildWebhookDeliverySortKey,
+  parseCustomMetadataFilter,
+  toSearchDocument,
+} from '../utils/file.utils';
+import { readFullPage } from '../utils/pagination.utils';
+
+type Item = Record<string, unknown> & { PK: string; SK: string };
+
+/**
+ * Error matching the DynamoDB conditional write failure
+ */
+function conditionalCheckFailed(): Error {
+  const error = new Error('The conditional request failed');
+  error.name = 'ConditionalCheckFailedException';
+  return error;
+}
+
+/**
+ * In-memory metadata repository
+ */
+export class InMemoryMetadataRepository implements MetadataRepository {
+  private items = new Map<string, Item>();
+  private dataFile?: string;
+
+  constructor(dataFile: string | undefined = METADATA_CONFIG.dataFile) {
+    this.dataFile = dataFile ? path.resolve(dataFile) : undefined;
+    this.load();
+  }
+
+  // ==================== FILE OPERATIONS ====================
+
+  /**
+   * Create file metadata record
+   */
+  async createFileMetadata(metadata: CreateFileMetadata): Promise<FileMetadata> {
+    const now = new Date().toISOString();
+
+    const item: FileMetadata = {
+      PK: `PROJECT#${metadata.projectId}`,
+      SK: `FILE#${metadata.fileId}`,
+      fileId: metadata.fileId,
+      projectId: metadata.projectId,
+      fileName: metadata.fileName,
+      fileType: metadata.fileType,
+      fileExtension: metadata.fileExtension,
+      fileSize: metadata.fileSize,
+      s3Key: metadata.s3Key,
+      uploadedBy: metadata.uploadedBy,
+      uploadedAt: now,
+      updatedAt: now,
+      status: 'pending',
+      currentVersion: 1,
+      searchKey: buildSearchKey(metadata.projectId),
+      listKey: buildFileListKey(metadata.projectId),
+      sortName: buildFileSortName(metadata),
+      ...(metadata.expectedChecksumSha256 && {
+        expectedChecksumSha256: metadata.expectedChecksumSha256,
+      }),
+      ...(metadata.multipart && { multipart: metadata.multipart }),
+    };
+
+    this.putItem(item, true);
+    return item;
+  }
+
+  /**
+   * Get file metadata by project and file ID
+   */
+  async getFileById(projectId: string, fileId: string): Promise<FileMetadata | null> {
+    return this.getItem<FileMetadata>(`PROJECT#${projectId}`, `FILE#${fileId}`);
+  }
+
+  /**
+   * Get several files of a project by ID
+   */
+  async getFilesByIds(projectId: string, fileIds: string[]): Promise<FileMetadata[]> {
+    return fileIds
+      .map((fileId) => this.getItem<FileMetadata>(`PROJECT#${projectId}`, `FILE#${fileId}`))
+      .filter((file): file is FileMetadata => file !== null);
+  }
+
+  /**
+   * Get all files for a project with optional filtering
+   */
+  async getFilesByProject(
+    projectId: string,
+    options?: FileQueryOptions
+  ): Promise<{ files: FileMetadata[]; lastKey?: PaginationKey }> {
+    const filter = (file: FileMetadata) =>
+      (!options?.fileType || file.fileType === options.fileType) &&
+      (options?.status
+        ? file.status === options.status
+        : file.status !== 'deleted' && file.status !== 'expired') &&
+      (!options?.multipart || !!file.multipart) &&
+      matchesDetailsFilters(file, options);
+
+    // Same index choice as DynamoDB, so cursors carry the same keys
+    let keyAttributes = ['PK', 'SK'];
+    let read: (lastKey?: PaginationKey) => { items: FileMetadata[]; lastKey?: PaginationKey };
+    if (options?.sort) {
+      const { sortKey } = FILE_SORT_INDEXES[options.sort];
+      keyAttributes = [...keyAttributes, 'listKey', sortKey];
+      read = (lastKey) =>
+        this.queryIndex<FileMetadata>('listKey', buildFileListKey(projectId), sortKey, filter, {
+          limit: options.limit,
+          lastKey,
+          scanForward: options.order !== 'desc',
+        });
+    } else if (options?.fileType) {
+      keyAttributes = [...keyAttributes, 'projectId', 'fileType'];
+      read = (lastKey) =>
+        this.queryIndex<FileMetadata>('projectId', projectId, 'fileType', filter, {
+          limit: options.limit,
+          lastKey,
+          sortValue: options.fileType,
+        });
+    } else {
+      read = (lastKey) =>
+        this.query<FileMetadata>(`PROJECT#${projectId}`, 'FILE#', filter, options?.limit, lastKey);
+    }
+
+    const result = await readFullPage(
+      async (lastKey) => read(lastKey),
+      options?.limit,
+      options?.lastKey,
+      keyAttributes
+    );
+
+    return { files: result.items, lastKey: result.lastKey };
+  }
+
+  /**
+   * Count the files getFilesByProject would list with the same filters
+   */
+  async countFiles(projectId: string, options?: FileCountOptions): Promise<number> {
+    return (await this.getFilesByProject(projectId, options)).files.length;
+  }
+
+  /**
+   * Update file status (e.g., from pending to uploaded), together with the
+   * project statistics when a stats change is given
+   */
+  async updateFileStatus(
+    projectId: string,
+    fileId: string,
+    status: FileStatus,
+    updates?: FileStatusUpdates,
+    options?: FileChangeOptions
+  ): Promise<FileMetadata | null> {
+    return this.updateFileWithStats(
+      projectId,
+      fileId,
+      (file) => !options?.expectedStatus || file.status === options.expectedStatus,
+      (file) => {
+        file.status = status;
+        file.updatedAt = new Date().toISOString();
+        Object.assign(file, definedUpdates(updates));
+      },
+      options?.stats
+    );
+  }
+
+  /**
+   * Mark file as deleted (soft delete), remembering its status for a restore
+   */
+  async deleteFile(
+    projectId: string,
+    fileId: string,
+    options?: FileChangeOptions & { withProject?: boolean }
+  ): Promise<FileMetadata | null> {
+    return this.updateFileWithStats(
+      projectId,
+      fileId,
+      (file) =>
+        options?.expectedStatus ? file.status === options.expectedStatus : file.status !== 'deleted',
+      (item) => {
+        item.statusBeforeDelete = item.status;
+        item.status = 'deleted';
+        item.deletedAt = new Date().toISOString();
+        item.updatedAt = item.deletedAt;
+        if (options?.withProject) item.deletedWithProject = true;
+        delete item.multipart;
+      },
+      options?.stats
+    );
+  }
+
+  /**
+   * Restore a soft-deleted file to the status it had before
+   */
+  async restoreFile(
+    projectId: string,
+    fileId: string,
+    options?: Pick<FileChangeOptions, 'stats'>
+  ): Promise<FileMetadata | null> {
+    return this.updateFileWithStats(
+      projectId,
+      fileId,
+      (file) => file.status === 'deleted',
+      (item) => {
+        item.status = item.statusBeforeDelete || 'uploaded';
+        item.updatedAt = new Date().toISOString();
+        delete item.statusBeforeDelete;
+        delete item.deletedAt;
+        delete item.deletedWithProject;
+      },
+      options?.stats
+    );
+  }
+
+  /**
+   * Hard delete file metadata (use with caution)
+   */
+  async hardDeleteFile(
+    projectId: string,
+    fileId: string,
+    options?: FileChangeOptions
+  ): Promise<boolean> {
+    const file = this.getItem<FileMetadata>(`PROJECT#${projectId}`, `FILE#${fileId}`);
+    if (options?.expectedStatus && file?.status !== options.expectedStatus) {
+      return false;
+    }
+    if (options?.stats && !this.applyStatsChange(projectId, options.stats)) {
+      return false;
+    }
+
+    this.deleteItem(`PROJECT#${projectId}`, `FILE#${fileId}`);
+    return true;
+  }
+
+  /**
+   * Update a file's display name, tags and custom metadata
+   */
+  async updateFile(
+    projectId: string,
+    fileId: string,
+    updates: FileUpdates
+  ): Promise<FileMetadata | null> {
+    return this.updateFileWithStats(
+      projectId,
+      fileId,
+      (file) => file.status !== 'deleted',
+      (file) => {
+        file.updatedAt = new Date().toISOString();
+
+        if (updates.displayName === null) {
+          delete file.displayName;
+        } else if (updates.displayName !== undefined) {
+          file.displayName = updates.displayName;
+        }
+
+        if (updates.tags !== undefined) {
+          if (updates.tags.length > 0) {
+            file.tags = updates.tags;
+          } else {
+            delete file.tags;
+          }
+        }
+
+        for (const [key, value] of Object.entries(updates.customMetadata || {})) {
+          file.customMetadata = file.customMetadata || {};
+          if (value === null) {
+            delete file.customMetadata[key];
+          } else {
+            file.customMetadata[key] = value;
+          }
+        }
+
+        file.sortName = buildFileSortName(file);
+      }
+    );
+  }
+
+  /**
+   * Record a file's previews, unless its content changed since they were generated
+   */
+  async setFilePreviews(
+    projectId: string,
+    fileId: string,
+    previews: FilePreviews
+  ): Promise<FileMetadata | null> {
+    return this.updateFileWithStats(
+      projectId,
+      fileId,
+      (file) => file.status === 'uploaded' && file.s3Key === previews.sourceS3Key,
+      (file) => {
+        file.previews = previews;
+      }
+    );
+  }
+
+  /**
+   * Record a file's tile pyramid, unless its content changed since it was generated
+   */
+  async setFileTiles(projectId: string, fileId: string, tiles: FileTiles): Promise<FileMetadata | null> {
+    return this.updateFileWithStats(
+      projectId,
+      fileId,
+      (file) => file.status === 'uploaded' && file.s3Key === tiles.sourceS3Key,
+      (file) => {
+        file.tiles = tiles;
+      }
+    );
+  }
+
+  /**
+   * Record multipart upload progress, or clear it once the upload ends
+   */
+  async updateMultipartState(
+    projectId: string,
+    fileId: string,
+    multipart: MultipartUploadState | null
+  ): Promise<FileMetadata | null> {
+    return this.updateItem<FileMetadata>(`PROJECT#${projectId}`, `FILE#${fileId}`, (file) => {
+      if (multipart) {
+        file.multipart = multipart;
+      } else {
+        delete file.multipart;
+      }
+    });
+  }
+
+  /**
+   * Find pending file and version records created before a cutoff
+   */
+  async findPendingUploads(options: PendingUploadQueryOptions): Promise<{
+    files: FileMetadata[];
+    versions: PendingVersionUpload[];
+    lastKey?: PaginationKey;
+  }> {
+    const result = this.scan<FileMetadata | FileVersion>(
+      (item) =>
+        item.status === 'pending' &&
+        item.uploadedAt < options.uploadedBefore &&
+        (item.SK.startsWith('FILE#') || item.SK.startsWith('VERSION#')),
+      options.limit,
+      options.lastKey
+    );
+
+    return {
+      files: result.items.filter((item): item is FileMetadata => item.SK.startsWith('FILE#')),
+      versions: result.items
+        .filter((item): item is FileVersion => item.SK.startsWith('VERSION#'))
+        .map((version) => ({ projectId: version.PK.replace('PROJECT#', ''), version })),
+      lastKey: result.lastKey,
+    };
+  }
+
+  /**
+   * Expire a pending upload that was never confirmed
+   */
+  async expirePendingFile(projectId: string, fileId: string): Promise<FileMetadata | null> {
+    const file = await this.getFileById(projectId, fileId);
+    if (file?.status !== 'pending') {
+      return null;
+    }
+
+    return this.updateItem<FileMetadata>(`PROJECT#${projectId}`, `FILE#${fileId}`, (item) => {
+      item.status = 'expired';
+      item.expiredAt = new Date().toISOString();
+      delete item.multipart;
+    });
+  }
+
+  /**
+   * Expire a pending version upload that was never confirmed
+   */
+  async expirePendingFileVersion(
+    projectId: string,
+    fileId: string,
+    version: number
+  ): Promise<FileVersion | null> {
+    const existing = await this.getFileVersion(projectId, fileId, version);
+    if (existing?.status !== 'pending') {
+      return null;
+    }
+
+    return this.updateItem<FileVersion>(
+      `PROJECT#${projectId}`,
+      buildVersionSortKey(fileId, version),
+      (item) => {
+        item.status = 'expired';
+        item.expiredAt = new Date().toISOString();
+      }
+    );
+  }
+
+  // ==================== FILE VERSION OPERATIONS ====================
+
+  /**
+   * Create a file version record
+   */
+  async createFileVersion(data: CreateFileVersion): Promise<FileVersion> {
+    const item: FileVersion = {
+      PK: `PROJECT#${data.projectId}`,
+      SK: buildVersionSortKey(data.fileId, data.version),
+      fileId: data.fileId,
+      version: data.version,
+      fileName: data.fileName,
+      fileType: data.fileType,
+      fileExtension: data.fileExtension,
+      fileSize: data.fileSize,
+      s3Key: data.s3Key,
+      uploadedBy: data.uploadedBy,
+      uploadedAt: data.uploadedAt || new Date().toISOString(),
+      status: data.status || 'pending',
+      ...(data.expectedChecksumSha256 && { expectedChecksumSha256: data.expectedChecksumSha256 }),
+      ...(data.checksumSha256 && { checksumSha256: data.checksumSha256 }),
+      ...(data.detectedType && { detectedType: data.detectedType }),
+    };
+
+    this.putItem(item, true);
+    return item;
+  }
+
+  /**
+   * Get a single file version
+   */
+  async getFileVersion(
+    projectId: string,
+    fileId: string,
+    version: number
+  ): Promise<FileVersion | null> {
+    return this.getItem<FileVersion>(`PROJECT#${projectId}`, buildVersionSortKey(fileId, version));
+  }
+
+  /**
+   * List the versions of a file
+   */
+  async getFileVersions(
+    projectId: string,
+    fileId: string,
+    options?: VersionQueryOptions
+  ): Promise<{ versions: FileVersion[]; lastKey?: PaginationKey }> {
+    const result = await readFullPage(
+      async (lastKey) =>
+        this.query<FileVersion>(
+          `PROJECT#${projectId}`,
+          `VERSION#${fileId}#`,
+          (version) => !options?.status || version.status === options.status,
+          options?.limit,
+          lastKey,
+          !options?.newestFirst
+        ),
+      options?.limit,
+      options?.lastKey,
+      ['PK', 'SK']
+    );
+
+    return { versions: result.items, lastKey: result.lastKey };
+  }
+
+  /**
+   * Update the status of a file version
+   */
+  async updateFileVersionStatus(
+    projectId: string,
+    fileId: string,
+    version: number,
+    status: FileVersionStatus,
+    updates?: FileStatusUpdates
+  ): Promise<FileVersion | null> {
+    return this.updateItem<FileVersion>(
+      `PROJECT#${projectId}`,
+      buildVersionSortKey(fileId, version),
+      (item) => {
+        item.status = status;
+        item.updatedAt = new Date().toISOString();
+        Object.assign(item, definedUpdates(updates));
+      }
+    );
+  }
+
+  /**
+   * Make a version the file's current content
+   */
+  async setCurrentVersion(
+    projectId: string,
+    version: FileVersion,
+    options?: FileChangeOptions & { expectedVersion?: number }
+  ): Promise<FileMetadata | null> {
+    return this.updateFileWithStats(
+      projectId,
+      version.fileId,
+      // Files created before versioning have no currentVersion and are on version 1
+      (file) =>
+        (!options?.expectedStatus || file.status === options.expectedStatus) &&
+        (options?.expectedVersion === undefined ||
+          (file.currentVersion ?? 1) === options.expectedVersion),
+      (file) => {
+        file.fileName = version.fileName;
+        file.fileType = version.fileType;
+        file.fileExtension = version.fileExtension;
+        file.fileSize = version.fileSize;
+        file.s3Key = version.s3Key;
+        file.expectedChecksumSha256 = version.expectedChecksumSha256;
+        file.checksumSha256 = version.checksumSha256;
+        file.detectedType = version.detectedType;
+        file.currentVersion = version.version;
+        file.updatedAt = new Date().toISOString();
+        file.sortName = buildFileSortName(file);
+      },
+      options?.stats
+    );
+  }
+
+  /**
+   * Remove every version record of a file
+   */
+  async deleteFileVersions(projectId: string, fileId: string): Promise<void> {
+    const { items } = this.query<FileVersion>(`PROJECT#${projectId}`, `VERSION#${fileId}#`, () => true);
+    for (const item of items) {
+      this.deleteItem(item.PK, item.SK);
+    }
+  }
+
+  // ==================== PROJECT OPERATIONS ====================
+
+  /**
+   * Create project metadata
+   */
+  async createProject(
+    userId: string,
+    projectId: string,
+    data: CreateProjectRequest
+  ): Promise<Project> {
+    const now = new Date().toISOString();
+
+    const item: Project = {
+      PK: `USER#${userId}`,
+      SK: `PROJECT#${projectId}`,
+      projectId,
+      name: data.name,
+      description: data.description,
+      ownerId: userId,
+      createdAt: now,
+      updatedAt: now,
+      status: 'active',
+      fileCount: 0,
+      totalSize: 0,
+      searchKey: buildSearchKey(projectId),
+      listKey: buildProjectListKey(userId),
+      sortName: buildSortName(data.name),
+      ...(data.allowedMimeTypes?.length && { allowedMimeTypes: data.allowedMimeTypes }),
+    };
+
+    // Owner pointer lets the project be resolved from its ID alone
+    const ownerPointer = {
+      PK: `PROJECT#${projectId}`,
+      SK: 'OWNER',
+      projectId,
+      projectOwnerId: userId,
+    };
+
+    this.assertNotExists(item, ownerPointer);
+    this.putItem(item);
+    this.putItem(ownerPointer);
+    return item;
+  }
+
+  /**
+   * Get project by ID
+   */
+  async getProjectById(userId: string, projectId: string): Promise<Project | null> {
+    return this.getItem<Project>(`USER#${userId}`, `PROJECT#${projectId}`);
+  }
+
+  /**
+   * Get all projects for a user
+   */
+  async getProjectsByUser(
+    userId: string,
+    options?: ProjectQueryOptions
+  ): Promise<{ projects: Project[]; lastKey?: PaginationKey }> {
+    const filter = (project: Project) =>
+      options?.status ? project.status === options.status : project.status !== 'deleted';
+
+    const sortKey = options?.sort && PROJECT_SORT_INDEXES[options.sort].sortKey;
+    const result = await readFullPage(
+      async (lastKey) =>
+        sortKey
+          ? this.queryIndex<Project>('listKey', buildProjectListKey(userId), sortKey, filter, {
+              limit: options.limit,
+              lastKey,
+              scanForward: options.order !== 'desc',
+            })
+          : this.query<Project>(`USER#${userId}`, 'PROJECT#', filter, options?.limit, lastKey),
+      options?.limit,
+      options?.lastKey,
+      sortKey ? ['PK', 'SK', 'listKey', sortKey] : ['PK', 'SK']
+    );
+
+    return { projects: result.items, lastKey: result.lastKey };
+  }
+
+  /**
+   * Count the projects getProjectsByUser would list with the same filters
+   */
+  async countProjects(userId: string, options?: ProjectCountOptions): Promise<number> {
+    return (await this.getProjectsByUser(userId, options)).projects.length;
+  }
+
+  /**
+   * Update project metadata
+   */
+  async updateProject(
+    userId: string,
+    projectId: string,
+    updates: ProjectUpdates
+  ): Promise<Project | null> {
+    return this.updateItem<Project>(`USER#${userId}`, `PROJECT#${projectId}`, (project) => {
+      project.updatedAt = new Date().toISOString();
+      if (updates.name !== undefined) {
+        project.name = updates.name;
+        project.sortName = buildSortName(updates.name);
+      }
+      if (updates.description !== undefined) project.description = updates.description;
+      if (updates.status !== undefined) project.status = updates.status;
+      if (updates.allowedMimeTypes !== undefined) {
+        if (updates.allowedMimeTypes.length > 0) {
+          project.allowedMimeTypes = updates.allowedMimeTypes;
+        } else {
+          delete project.allowedMimeTypes;
+        }
+      }
+    });
+  }
+
+  /**
+   * Overwrite project file statistics, unless they no longer match `expected`
+   */
+  async setProjectStats(
+    userId: string,
+    projectId: string,
+    stats: ProjectStats,
+    expected: ProjectStats
+  ): Promise<Project | null> {
+    const project = this.getItem<Project>(`USER#${userId}`, `PROJECT#${projectId}`);
+    if (
+      !project ||
+      project.fileCount !== expected.fileCount ||
+      project.totalSize !== expected.totalSize
+    ) {
+      return null;
+    }
+
+    return this.updateItem<Project>(`USER#${userId}`, `PROJECT#${projectId}`, (item) => {
+      item.fileCount = stats.fileCount;
+      item.totalSize = stats.totalSize;
+      item.updatedAt = new Date().toISOString();
+    });
+  }
+
+  /**
+   * Delete project (soft delete), remembering its status for a restore
+   */
+  async deleteProject(userId: string, projectId: string): Promise<Project | null> {
+    const project = this.getItem<Project>(`USER#${userId}`, `PROJECT#${projectId}`);
+    if (!project || project.status === 'deleted') {
+      return null;
+    }
+
+    return this.updateItem<Project>(`USER#${userId}`, `PROJECT#${projectId}`, (item) => {
+      const now = new Date().toISOString();
+      item.statusBeforeDelete = item.status;
+      item.status = 'deleted';
+      item.deletedAt = now;
+      item.updatedAt = now;
+    });
+  }
+
+  /**
+   * Restore a soft-deleted project to the status it had before
+   */
+  async restoreProject(userId: string, projectId: string): Promise<Project | null> {
+    const project = this.getItem<Project>(`USER#${userId}`, `PROJECT#${projectId}`);
+    if (project?.status !== 'deleted') {
+      return null;
+    }
+
+    return this.updateItem<Project>(`USER#${userId}`, `PROJECT#${projectId}`, (item) => {
+      item.status = item.statusBeforeDelete || 'active';
+      item.updatedAt = new Date().toISOString();
+      delete item.statusBeforeDelete;
+      delete item.deletedAt;
+    });
+  }
+
+  /**
+   * Remove a project and every item that belongs to it
+   */
+  async purgeProject(userId: string, projectId: string): Promise<void> {
+    const { items } = this.query<Item>(`PROJECT#${projectId}`, '', () => true);
+    for (const item of items) {
+      if (item.SK.startsWith('MEMBER#')) {
+        this.deleteItem(`USER#${item.userId}`, `SHARED#${projectId}`);
+      }
+      this.deleteItem(item.PK, item.SK);
+    }
+
+    this.deleteItem(`USER#${userId}`, `PROJECT#${projectId}`);
+  }
+
+  /**
+   * Get the owner of a project from its owner pointer
+   */
+  async getProjectOwnerId(projectId: string): Promise<string | null> {
+    const pointer = this.getItem<{ projectOwnerId: string }>(`PROJECT#${projectId}`, 'OWNER');
+    return pointer?.projectOwnerId || null;
+  }
+
+  /**
+   * Find soft-deleted files and projects trashed before a cutoff
+   */
+  async findTrashedItems(options: TrashQueryOptions): Promise<{
+    files: FileMetadata[];
+    projects: Project[];
+    lastKey?: PaginationKey;
+  }> {
+    const result = this.scan<Item>(
+      (item) => {
+        const trashedAt = (item.deletedAt ?? item.updatedAt ?? item.uploadedAt) as string;
+        return (
+          item.status === 'deleted' &&
+          trashedAt < options.deletedBefore &&
+          (item.SK.startsWith('FILE#') ||
+            (item.PK.startsWith('USER#') && item.SK.startsWith('PROJECT#')))
+        );
+      },
+      options.limit,
+      options.lastKey
+    );
+
+    return {
+      files: result.items.filter((item) => item.SK.startsWith('FILE#')) as unknown as FileMetadata[],
+      projects: result.items.filter((item) =>
+        item.SK.startsWith('PROJECT#')
+      ) as unknown as Project[],
+      lastKey: result.lastKey,
+    };
+  }
+
+  // ==================== MEMBERSHIP OPERATIONS ====================
+
+  /**
+   * Add a project member (fails if the user is already a member)
+   */
+  async addProjectMember(data: CreateProjectMember): Promise<ProjectMember> {
+    const now = new Date().toISOString();
+
+    const member: ProjectMember = {
+      PK: `PROJECT#${data.projectId}`,
+      SK: `MEMBER#${data.userId}`,
+      projectId: data.projectId,
+      userId: data.userId,
+      role: data.role,
+      projectOwnerId: data.projectOwnerId,
+      invitedBy: data.invitedBy,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const share: SharedProjectRef = {
+      PK: `USER#${data.userId}`,
+      SK: `SHARED#${data.projectId}`,
+      projectId: data.projectId,
+      projectOwnerId: data.projectOwnerId,
+      role: data.role,
+      sharedAt: now,
+    };
+
+    this.assertNotExists(member);
+    this.putItem(member);
+    this.putItem(share);
+    return member;
+  }
+
+  /**
+   * Get a project member
+   */
+  async getProjectMember(projectId: string, userId: string): Promise<ProjectMember | null> {
+    return this.getItem<ProjectMember>(`PROJECT#${projectId}`, `MEMBER#${userId}`);
+  }
+
+  /**
+   * Get all members of a project
+   */
+  async getProjectMembers(
+    projectId: string,
+    options?: PageQueryOptions
+  ): Promise<{ members: ProjectMember[]; lastKey?: PaginationKey }> {
+    const result = this.query<ProjectMember>(
+      `PROJECT#${projectId}`,
+      'MEMBER#',
+      () => true,
+      options?.limit,
+      options?.lastKey
+    );
+
+    return { members: result.items, lastKey: result.lastKey };
+  }
+
+  /**
+   * Change a member's role (returns null if the user is not a member)
+   */
+  async updateProjectMemberRole(
+    projectId: string,
+    userId: string,
+    role: ProjectRole
+  ): Promise<ProjectMember | null> {
+    const member = this.updateItem<ProjectMember>(
+      `PROJECT#${projectId}`,
+      `MEMBER#${userId}`,
+      (item) => {
+        item.role = role;
+        item.updatedAt = new Date().toISOString();
+      }
+    );
+
+    if (member) {
+      this.updateItem<SharedProjectRef>(`USER#${userId}`, `SHARED#${projectId}`, (item) => {
+        item.role = role;
+      });
+    }
+
+    return member;
+  }
+
+  /**
+   * Remove a project member and their shared-project record
+   */
+  async removeProjectMember(projectId: string, userId: string): Promise<void> {
+    this.deleteItem(`PROJECT#${projectId}`, `MEMBER#${userId}`);
+    this.deleteItem(`USER#${userId}`, `SHARED#${projectId}`);
+  }
+
+  /**
+   * Get projects shared with a user
+   */
+  async getSharedProjects(
+    userId: string,
+    options?: PageQueryOptions
+  ): Promise<{ shares: SharedProjectRef[]; lastKey?: PaginationKey }> {
+    const result = this.query<SharedProjectRef>(
+      `USER#${userId}`,
+      'SHARED#',
+      () => true,
+      options?.limit,
+      options?.lastKey
+    );
+
+    return { shares: result.items, lastKey: result.lastKey };
+  }
+
+  // ==================== SEARCH INDEX OPERATIONS ====================
+
+  /**
+   * Get a project and its files from the search index
+   *
+   * Mirrors the DynamoDB index: records carrying the project's `searchKey`,
+   * ordered by SK.
+   */
+  async getSearchDocuments(
+    projectId: string,
+    options?: PageQueryOptions
+  ): Promise<{ documents: SearchDocument[]; lastKey?: PaginationKey }> {
+    const result = this.queryIndex<FileMetadata | Project>(
+      'searchKey',
+      buildSearchKey(projectId),
+      'SK',
+      () => true,
+      options
+    );
+
+    return { documents: result.items.map(toSearchDocument), lastKey: result.lastKey };
+  }
+
+  /**
+   * Get the token entries of a project whose token starts with a prefix
+   */
+  async getSearchTokens(
+    projectId: string,
+    prefix: string,
+    options?: PageQueryOptions
+  ): Promise<{ entries: SearchTokenEntry[]; lastKey?: PaginationKey }> {
+    const result = this.query<SearchTokenEntry>(
+      buildSearchKey(projectId),
+      buildSearchTokenSortKey(prefix),
+      () => true,
+      options?.limit,
+      options?.lastKey
+    );
+
+    return { entries: result.items, lastKey: result.lastKey };
+  }
+
+  /**
+   * Replace the token entries of a document
+   *
+   * Writes to project and file records already keep their entries in step,
+   * as the table stream does for DynamoDB.
+   */
+  async indexSearchDocument(
+    previous: SearchDocument | null,
+    current: SearchDocument | null
+  ): Promise<void> {
+    this.writeSearchTokens(previous, current);
+    this.save();
+  }
+
+  /**
+   * Write the token entries of every project and file
+   */
+  async reindexSearchDocuments(
+    options?: PageQueryOptions
+  ): Promise<{ indexed: number; lastKey?: PaginationKey }> {
+    const result = this.scan<Item>(
+      (item) => item.searchKey !== undefined,
+      options?.limit,
+      options?.lastKey
+    );
+
+    for (const item of result.items) {
+      this.writeSearchTokens(null, toSearchDocument(item as unknown as FileMetadata | Project));
+    }
+    this.save();
+
+    return { indexed: result.items.length, lastKey: result.lastKey };
+  }
+
+  /**
+   * Add search and listing index attributes to project and file records
+   * created before those indexes, and owner pointers to projects created
+   * before those
+   */
+  async backfillIndexKeys(
+    options?: PageQueryOptions
+  ): Promise<{ indexed: number; lastKey?: PaginationKey }> {
+    const isProject = (item: Item) => item.PK.startsWith('USER#') && item.SK.startsWith('PROJECT#');
+    const hasIndexKeys = (item: Item) =>
+      item.searchKey !== undefined &&
+      item.listKey !== undefined &&
+      item.sortName !== undefined &&
+      item.updatedAt !== undefined;
+
+    // Every project is read, since a missing owner pointer is a separate item
+    const result = this.scan<Item>(
+      (item) => isProject(item) || (item.SK.startsWith('FILE#') && !hasIndexKeys(item)),
+      options?.limit,
+      options?.lastKey
+    );
+
+    let indexed = 0;
+    for (const item of result.items) {
+      let changed = false;
+
+      if (!hasIndexKeys(item)) {
+        this.updateItem<Item>(item.PK, item.SK, (stored) => {
+          if (stored.SK.startsWith('FILE#')) {
+            const file = stored as unknown as FileMetadata;
+            file.listKey = buildFileListKey(file.projectId);
+            file.sortName = buildFileSortName(file);
+            file.updatedAt = file.updatedAt || file.uploadedAt;
+          } else {
+            const project = stored as unknown as Project;
+            project.listKey = buildProjectListKey(project.ownerId);
+            project.sortName = buildSortName(project.name);
+          }
+          stored.searchKey = buildSearchKey(stored.projectId as string);
+        });
+        changed = true;
+      }
+
+      const projectId = item.projectId as string;
+      if (isProject(item) && !this.getItem(`PROJECT#${projectId}`, 'OWNER')) {
+        this.putItem({
+          PK: `PROJECT#${projectId}`,
+          SK: 'OWNER',
+          projectId,
+          projectOwnerId: item.ownerId as string,
+        });
+        changed = true;
+      }
+
+      if (changed) indexed++;
+    }
+
+    return { indexed, lastKey: result.lastKey };
+  }
+
+  // ==================== AUDIT LOG OPERATIONS ====================
+
+  /**
+   * Append an entry to a project's audit log
+   */
+  async createAuditEntry(entry: CreateAuditEntry): Promise<AuditEntry> {
+    const item: AuditEntry = {
+      PK: `AUDIT#${entry.projectId}`,
+      SK: buildAuditSortKey(entry.timestamp, entry.auditId),
+      ...entry,
+    };
+
+    this.putItem(item, true);
+    return item;
+  }
+
+  /**
+   * Read a project's audit log, newest entries first
+   */
+  async getAuditEntries(
+    projectId: string,
+    options?: AuditQueryOptions
+  ): Promise<{ entries: AuditEntry[]; lastKey?: PaginationKey }> {
+    const result = await readFullPage(
+      async (lastKey) =>
+        this.query<AuditEntry>(
+          `AUDIT#${projectId}`,
+          '',
+          (entry) =>
+            (!options?.from || entry.timestamp >= options.from) &&
+            (!options?.to || entry.timestamp <= options.to) &&
+            (!options?.action || entry.action === options.action) &&
+            (!options?.resourceType || entry.resourceType === options.resourceType) &&
+            (!options?.resourceId || entry.resourceId === options.resourceId) &&
+            (!options?.actorId || entry.actorId === options.actorId),
+          options?.limit,
+          lastKey,
+          false
+        ),
+      options?.limit,
+      options?.lastKey,
+      ['PK', 'SK']
+    );
+
+    return { entries: result.items, lastKey: result.lastKey };
+  }
+
+  // ==================== WEBHOOK OPERATIONS ====================
+
+  /**
+   * Create a webhook subscription
+   */
+  async createWebhook(data: CreateWebhook): Promise<Webhook> {
+    const now = new Date().toISOString();
+
+    const webhook: Webhook = {
+      PK: `PROJECT#${data.projectId}`,
+      SK: `WEBHOOK#${data.webhookId}`,
+      ...data,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.putItem(webhook, true);
+    return webhook;
+  }
+
+  /**
+   * Get a webhook subscription
+   */
+  async getWebhook(projectId: string, webhookId: string): Promise<Webhook | null> {
+    return this.getItem<Webhook>(`PROJECT#${projectId}`, `WEBHOOK#${webhookId}`);
+  }
+
+  /**
+   * Get every webhook subscription of a project
+   */
+  async getWebhooks(projectId: string): Promise<Webhook[]> {
+    return this.query<Webhook>(`PROJECT#${projectId}`, 'WEBHOOK#', () => true).items;
+  }
+
+  /**
+   * Update a webhook subscription (returns null if it does not exist)
+   */
+  async updateWebhook(
+    projectId: string,
+    webhookId: string,
+    updates: WebhookUpdates
+  ): Promise<Webhook | null> {
+    return this.updateItem<Webhook>(`PROJECT#${projectId}`, `WEBHOOK#${webhookId}`, (webhook) => {
+      if (updates.url !== undefined) webhook.url = updates.url;
+      if (updates.events !== undefined) webhook.events = updates.events;
+      if (updates.active !== undefined) webhook.active = updates.active;
+      if (updates.secret !== undefined) webhook.secret = updates.secret;
+      if (updates.description === null) {
+        delete webhook.description;
+      } else if (updates.description !== undefined) {
+        webhook.description = updates.description;
+      }
+      webhook.updatedAt = new Date().toISOString();
+    });
+  }
+
+  /**
+   * Delete a webhook subscription and its delivery records
+   */
+  async deleteWebhook(projectId: string, webhookId: string): Promise<void> {
+    this.deleteItem(`PROJECT#${projectId}`, `WEBHOOK#${webhookId}`);
+
+    const deliveries = this.query<WebhookDelivery>(
+      `PROJECT#${projectId}`,
+      `DELIVERY#${webhookId}#`,
+      () => true
+    );
+    for (const delivery of deliveries.items) {
+      this.deleteItem(delivery.PK, delivery.SK);
+    }
+  }
+
+  /**
+   * Record a delivery of an event to a webhook
+   */
+  async createWebhookDelivery(data: CreateWebhookDelivery): Promise<WebhookDelivery> {
+    const delivery: WebhookDelivery = {
+      PK: `PROJECT#${data.projectId}`,
+      SK: buildWebhookDeliverySortKey(data.webhookId, data.createdAt, data.deliveryId),
+      ...data,
+      updatedAt: data.createdAt,
+    };
+
+    this.putItem(delivery, true);
+    return delivery;
+  }
+
+  /**
+   * Get a webhook's deliveries, newest first
+   */
+  async getWebhookDeliveries(
+    projectId: string,
+    webhookId: string,
+    options?: WebhookDeliveryQueryOptions
+  ): Promise<{ deliveries: WebhookDelivery[]; lastKey?: PaginationKey }> {
+    const result = await readFullPage(
+      async (lastKey) =>
+        this.query<WebhookDelivery>(
+          `PROJECT#${projectId}`,
+          `DELIVERY#${webhookId}#`,
+          (delivery) => !options?.status || delivery.status === options.status,
+          options?.limit,
+          lastKey,
+          false
+        ),
+      options?.limit,
+      options?.lastKey,
+      ['PK', 'SK']
+    );
+
+    return { deliveries: result.items, lastKey: result.lastKey };
+  }
+
+  /**
+   * Record an attempt or the outcome of a pending delivery
+   */
+  async updateWebhookDelivery(
+    delivery: WebhookDelivery,
+    update: WebhookDeliveryUpdate
+  ): Promise<WebhookDelivery | null> {
+    const current = this.getItem<WebhookDelivery>(delivery.PK, delivery.SK);
+    if (current?.status !== 'pending' || current.attempts.length !== delivery.attempts.length) {
+      return null;
+    }
+
+    return this.updateItem<WebhookDelivery>(delivery.PK, delivery.SK, (item) => {
+      item.status = update.status;
+      if (update.attempt) {
+        item.attempts.push(update.attempt);
+      }
+      if (update.nextAttemptAt) {
+        item.nextAttemptAt = update.nextAttemptAt;
+      } else {
+        delete item.nextAttemptAt;
+      }
+      item.updatedAt = new Date().toISOString();
+    });
+  }
+
+  /**
+   * Find pending deliveries whose next attempt was due before a cutoff
+   */
+  async findDueWebhookDeliveries(options: DueDeliveryQueryOptions): Promise<{
+    deliveries: WebhookDelivery[];
+    lastKey?: PaginationKey;
+  }> {
+    const result = this.scan<WebhookDelivery>(
+      (item) =>
+        item.SK.startsWith('DELIVERY#') &&
+        item.status === 'pending' &&
+        !!item.nextAttemptAt &&
+        item.nextAttemptAt <= options.dueBefore,
+      options.limit,
+      options.lastKey
+    );
+
+    return { deliveries: result.items, lastKey: result.lastKey };
+  }
+
+  // ==================== HELPERS ====================
+
+  /**
+   * Apply a conditional file update and, when given, a project statistics
+   * change as one write; null when the file, its condition or the project fails
+   *
+   * Runs synchronously, so no other write can interleave with it.
+   */
+  private updateFileWithStats(
+    projectId: string,
+    fileId: string,
+    condition: (file: FileMetadata) => boolean,
+    update: (file: FileMetadata) => void,
+    stats?: ProjectStatsChange
+  ): FileMetadata | null {
+    const file = this.getItem<FileMetadata>(`PROJECT#${projectId}`, `FILE#${fileId}`);
+    if (!file || !condition(file)) {
+      return null;
+    }
+    if (stats && !this.applyStatsChange(projectId, stats)) {
+      return null;
+    }
+
+    return this.updateItem<FileMetadata>(`PROJECT#${projectId}`, `FILE#${fileId}`, update);
+  }
+
+  /**
+   * Increment a project's statistics; false when the project does not exist
+   */
+  private applyStatsChange(projectId: string, stats: ProjectStatsChange): boolean {
+    const updated = this.updateItem<Project>(`USER#${stats.ownerId}`, `PROJECT#${projectId}`, (project) => {
+      project.fileCount += stats.fileCountDelta;
+      project.totalSize += stats.sizeDelta;
+      project.updatedAt = new Date().toISOString();
+    });
+
+    return updated !== null;
+  }
+
+  // ==================== TABLE PRIMITIVES ====================
+
+  private static keyOf(pk: string, sk: string): string {
+    return `${pk}\u0000${sk}`;
+  }
+
+  private getItem<T>(pk: string, sk: string): T | null {
+    const item = this.items.get(InMemoryMetadataRepository.keyOf(pk, sk));
+    return item ? (structuredClone(item) as unknown as T) : null;
+  }
+
+  /**
+   * Reject a write when any of the given keys already exist
+   */
+  private assertNotExists(...items: { PK: string; SK: string }[]): void {
+    if (items.some((item) => this.items.has(InMemoryMetadataRepository.keyOf(item.PK, item.SK)))) {
+      throw conditionalCheckFailed();
+    }
+  }
+
+  private putItem<T extends { PK: string; SK: string }>(item: T, ifNotExists = false): void {
+    const key = InMemoryMetadataRepository.keyOf(item.PK, item.SK);
+    const existing = this.items.get(key);
+    if (ifNotExists && existing) {
+      throw conditionalCheckFailed();
+    }
+    this.items.set(key, structuredClone(item) as unknown as Item);
+    this.syncSearchTokens(existing, item as unknown as Item);
+    this.save();
+  }
+
+  /**
+   * Apply an in-place update to an existing item and return the new version
+   */
+  private updateItem<T>(pk: string, sk: string, update: (item: T) => void): T | null {
+    const key = InMemoryMetadataRepository.keyOf(pk, sk);
+    const existing = this.items.get(key);
+    if (!existing) {
+      return null;
+    }
+
+    const item = structuredClone(existing) as unknown as T;
+    update(item);
+    this.items.set(key, item as unknown as Item);
+    this.syncSearchTokens(existing, item as unknown as Item);
+    this.save();
+    return structuredClone(item);
+  }
+
+  private deleteItem(pk: string, sk: string): void {
+    const key = InMemoryMetadataRepository.keyOf(pk, sk);
+    const existing = this.items.get(key);
+    this.items.delete(key);
+    this.syncSearchTokens(existing, undefined);
+    this.save();
+  }
+
+  /**
+   * Keep the search token entries of a project or file record in step with a
+   * write to it, as the table stream does for DynamoDB
+   */
+  private syncSearchTokens(previous: Item | undefined, current: Item | undefined): void {
+    const toDocument = (item: Item | undefined) =>
+      item?.searchKey !== undefined ? toSearchDocument(item as unknown as FileMetadata | Project) : null;
+
+    const previousDocument = toDocument(previous);
+    const currentDocument = toDocument(current);
+    if (previousDocument || currentDocument) {
+      this.writeSearchTokens(previousDocument, currentDocument);
+    }
+  }
+
+  private writeSearchTokens(previous: SearchDocument | null, current: SearchDocument | null): void {
+    const entries = current ? buildSearchTokenEntries(current) : [];
+    const kept = new Set(entries.map((entry) => InMemoryMetadataRepository.keyOf(entry.PK, entry.SK)));
+
+    for (const entry of previous ? buildSearchTokenEntries(previous) : []) {
+      const key = InMemoryMetadataRepository.keyOf(entry.PK, entry.SK);
+      if (!kept.has(key)) {
+        this.items.delete(key);
+      }
+    }
+
+    for (const entry of entries) {
+      this.items.set(
+        InMemoryMetadataRepository.keyOf(entry.PK, entry.SK),
+        structuredClone(entry) as unknown as Item
+      );
+    }
+  }
+
+  /**
+   * Query a partition by sort key prefix
+   *
+   * Mirrors DynamoDB semantics: items are ordered by SK (descending when
+   * `scanForward` is false), `limit` caps the number
+   * of items evaluated before the filter is applied, and a cursor is returned
+   * whenever the limit was reached.
+   */
+  private query<T>(
+    pk: string,
+    skPrefix: string,
+    filter: (item: T) => boolean,
+    limit?: number,
+    lastKey?: PaginationKey,
+    scanForward = true
+  ): { items: T[]; lastKey?: PaginationKey } {
+    const direction = scanForward ? 1 : -1;
+    let candidates = Array.from(this.items.values())
+      .filter((item) => item.PK === pk && item.SK.startsWith(skPrefix))
+      .sort((a, b) => (a.SK < b.SK ? -direction : a.SK > b.SK ? direction : 0));
+
+    if (lastKey && typeof lastKey.SK === 'string') {
+      const startAfter = lastKey.SK;
+      candidates = candidates.filter((item) =>
+        scanForward ? item.SK > startAfter : item.SK < startAfter
+      );
+    }
+
+    const evaluated = limit ? candidates.slice(0, limit) : candidates;
+    const last = evaluated[evaluated.length - 1];
+
+    return {
+      items: evaluated
+        .map((item) => structuredClone(item) as unknown as T)
+        .filter(filter),
+      lastKey: limit && evaluated.length === limit ? { PK: last.PK, SK: last.SK } : undefined,
+    };
+  }
+
+  /**
+   * Query a partition of a secondary index
+   *
+   * Mirrors a DynamoDB GSI: only items having both index keys are included
+   * (optionally only those whose sort key equals `sortValue`), ordered by the
+   * sort key and then the table key, and cursors carry the index keys along
+   * with the table key.
+   */
+  private queryIndex<T>(
+    partitionKey: string,
+    partitionValue: string,
+    sortKey: string,
+    filter: (item: T) => boolean,
+    options: { limit?: number; lastKey?: PaginationKey; scanForward?: boolean; sortValue?: unknown } = {}
+  ): { items: T[]; lastKey?: PaginationKey } {
+    const direction = options.scanForward === false ? -1 : 1;
+    const positionOf = (item: Record<string, unknown>) =>
+      [item[sortKey], item.PK, item.SK] as (string | number)[];
+    const compare = (a: (string | number)[], b: (string | number)[]) => {
+      for (let i = 0; i < a.length; i++) {
+        if (a[i] < b[i]) return -direction;
+        if (a[i] > b[i]) return direction;
+      }
+      return 0;
+    };
+
+    let candidates = Array.from(this.items.values())
+      .filter(
+        (item) =>
+          item[partitionKey] === partitionValue &&
+          item[sortKey] !== undefined &&
+          (options.sortValue === undefined || item[sortKey] === options.sortValue)
+      )
+      .sort((a, b) => compare(positionOf(a), positionOf(b)));
+
+    if (options.lastKey && typeof options.lastKey.PK === 'string') {
+      const startAfter = positionOf(options.lastKey);
+      candidates = candidates.filter((item) => compare(positionOf(item), startAfter) > 0);
+    }
+
+    const evaluated = options.limit ? candidates.slice(0, options.limit) : candidates;
+    const last = evaluated[evaluated.length - 1];
+
+    return {
+      items: evaluated
+        .map((item) => structuredClone(item) as unknown as T)
+        .filter(filter),
+      lastKey:
+        options.limit && evaluated.length === options.limit
+          ? { PK: last.PK, SK: last.SK, [partitionKey]: partitionValue, [sortKey]: last[sortKey] }
+          : undefined,
+    };
+  }
+
+  /**
+   * Scan the whole table in key order, with the same limit and cursor
+   * semantics as `query`
+   */
+  private scan<T>(
+    filter: (item: T) => boolean,
+    limit?: number,
+    lastKey?: PaginationKey
+  ): { items: T[]; lastKey?: PaginationKey } {
+    const keyOf = (item: { PK: string; SK: string }) =>
+      InMemoryMetadataRepository.keyOf(item.PK, item.SK);
+
+    let candidates = Array.from(this.items.values()).sort((a, b) =>
+      keyOf(a) < keyOf(b) ? -1 : keyOf(a) > keyOf(b) ? 1 : 0
+    );
+
+    if (lastKey && typeof lastKey.PK === 'string' && typeof lastKey.SK === 'string') {
+      const startAfter = InMemoryMetadataRepository.keyOf(lastKey.PK, lastKey.SK);
+      candidates = candidates.filter((item) => keyOf(item) > startAfter);
+    }
+
+    const evaluated = limit ? candidates.slice(0, limit) : candidates;
+    const last = evaluated[evaluated.length - 1];
+
+    return {
+      items: evaluated
+        .map((item) => structuredClone(item) as unknown as T)
+        .filter(filter),
+      lastKey: limit && evaluated.length === limit ? { PK: last.PK, SK: last.SK } : undefined,
+    };
+  }
+
+  // ==================== PERSISTENCE ====================
+
+  private load(): void {
+    if (!this.dataFile || !fs.existsSync(this.dataFile)) {
+      return;
+    }
+
+    const items = JSON.parse(fs.readFileSync(this.dataFile, 'utf-8')) as Item[];
+    for (const item of items) {
+      this.items.set(InMemoryMetadataRepository.keyOf(item.PK, item.SK), item);
+    }
+  }
+
+  private save(): void {
+    if (!this.dataFile) {
+      return;
+    }
+
+    fs.mkdirSync(path.dirname(this.dataFile), { recursive: true });
+    fs.writeFileSync(this.dataFile, JSON.stringify(Array.from(this.items.values()), null, 2));
+  }
+}
+
+/**
+ * Check a file's tags and custom metadata against listing filters
+ */
+function matchesDetailsFilters(file: FileMetadata, options?: FileQueryOptions): boolean {
+  return (
+    (options?.tags || []).every((tag) => !!file.tags?.includes(tag)) &&
+    Object.entries(options?.customMetadata || {}).every(([key, value]) => {
+      const stored = file.customMetadata?.[key];
+      return stored !== undefined && parseCustomMetadataFilter(value).includes(stored);
+    })
+  );
+}
+
+/**
+ * Drop unset attributes so they do not overwrite stored values
+ */
+function definedUpdates(updates?: FileStatusUpdates): FileStatusUpdates {
+  return Object.fromEntries(
+    Object.entries(updates || {}).filter(([, value]) => value !== undefined)
+  );
+}
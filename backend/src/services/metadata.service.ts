@@ -0,0 +1,27 @@
+/**
+ * Metadata Service - Selects the metadata repository used by the application
+ */
+
+import { METADATA_CONFIG } from '../config/aws.config';
+import { MetadataRepository, MetadataProviderType } from '../types';
+import { DynamoDBService } from './dynamodb.service';
+import { InMemoryMetadataRepository } from './memory-metadata.service';
+
+/**
+ * Create a metadata repository for the given backend type
+ */
+export function createMetadataRepository(
+  provider: MetadataProviderType = METADATA_CONFIG.provider
+): MetadataRepository {
+  switch (provider) {
+    case 'dynamodb':
+      return new DynamoDBService();
+    case 'memory':
+      return new InMemoryMetadataRepository();
+    default:
+      throw new Error(`Unknown metadata provider: ${provider}`);
+  }
+}
+
+// Export singleton instance
+export const metadataRepository = createMetadataRepository();
@@ -0,0 +1,317 @@
+/**
+ * Preview Service - Generates thumbnails for uploaded images and PDFs
+ *
+ * Confirmed uploads are queued on the background queue, so confirming never
+ * waits for image processing. Images are decoded with Jimp
+ * and PDFs rendered with PDFium compiled to WebAssembly, so everything runs in
+ * plain Node without native modules. Previews are stored next to the object
+ * they were generated from and recorded on the file only if it still has that
+ * content, so a version change during generation never gets stale previews.
+ */
+
+import { PDFiumLibrary } from '@hyzyla/pdfium';
+import { Jimp, JimpInstance } from 'jimp';
+import { PREVIEW_CONFIG } from '../config/aws.config';
+import {
+  FileMetadata,
+  FilePreview,
+  FilePreviews,
+  FilePreviewsResponse,
+  MetadataRepository,
+  PaginationKey,
+  PreviewName,
+  PreviewStatus,
+  StorageProvider,
+} from '../types';
+import { buildPreviewKey } from '../utils/file.utils';
+import { flattenImage, readImageDimensions } from '../utils/image.utils';
+import { normalizeMimeType } from '../utils/mime.utils';
+import { BackgroundQueue, backgroundQueue } from './background-queue.service';
+import { metadataRepository } from './metadata.service';
+import { storageService } from './storage.service';
+
+/**
+ * Longest edge of each thumbnail, in pixels
+ */
+export const THUMBNAIL_SIZES: Record<Exclude<PreviewName, 'page'>, number> = {
+  small: 128,
+  medium: 512,
+  large: 1024,
+};
+
+/**
+ * Longest edge of the first-page raster of PDFs, in pixels
+ */
+const PAGE_RASTER_SIZE = 2048;
+
+/**
+ * Types Jimp can decode
+ */
+export const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/bmp', 'image/tiff'];
+
+const PDF_TYPE = 'application/pdf';
+
+/**
+ * Result of generating the previews of a whole project
+ */
+export interface ProjectPreviewsReport {
+  projectId: string;
+  files: { fileId: string; fileName: string; status: PreviewStatus }[];
+}
+
+/**
+ * Preview Service class
+ */
+export class PreviewService {
+  private pdfium?: Promise<PDFiumLibrary>;
+
+  constructor(
+    private metadata: MetadataRepository = metadataRepository,
+    private storage: StorageProvider = storageService,
+    private config: typeof PREVIEW_CONFIG = PREVIEW_CONFIG,
+    private queue: BackgroundQueue = backgroundQueue
+  ) {}
+
+  /**
+   * Check whether previews can be generated for a file's type
+   */
+  isSupported(file: FileMetadata): boolean {
+    const type = normalizeMimeType(file.detectedType || file.fileType);
+    return type === PDF_TYPE || IMAGE_TYPES.includes(type);
+  }
+
+  /**
+   * Preview status of a file's current content
+   */
+  getStatus(file: FileMetadata): PreviewStatus {
+    if (!this.config.enabled || !this.isSupported(file)) {
+      return 'unsupported';
+    }
+
+    if (!file.previews || file.previews.sourceS3Key !== file.s3Key) {
+      return 'pending';
+    }
+
+    return file.previews.status;
+  }
+
+  /**
+   * Queue preview generation for a file's current content
+   */
+  enqueue(file: FileMetadata): void {
+    if (!this.config.enabled || !this.isSupported(file)) {
+      return;
+    }
+
+    this.queue.add(`previews:${file.projectId}/${file.fileId}`, () =>
+      this.generate(file.projectId, file.fileId)
+    );
+  }
+
+  /**
+   * Generate and record previews for a file's current content
+   *
+   * Files whose previews are already current are left alone unless `force` is
+   * set. Failures are recorded on the file rather than thrown.
+   */
+  async generate(
+    projectId: string,
+    fileId: string,
+    options: { force?: boolean } = {}
+  ): Promise<FileMetadata | null> {
+    const file = await this.metadata.getFileById(projectId, fileId);
+    if (!file || file.status !== 'uploaded' || !this.isSupported(file)) {
+      return file;
+    }
+
+    if (!options.force && this.getStatus(file) === 'ready') {
+      return file;
+    }
+
+    const sourceS3Key = file.s3Key;
+    let previews: FilePreviews;
+
+    if (file.fileSize > this.config.maxSourceSize) {
+      previews = {
+        status: 'unsupported',
+        sourceS3Key,
+        items: [],
+        generatedAt: new Date().toISOString(),
+        error: `Files over ${this.config.maxSourceSize} bytes are not previewed`,
+      };
+    } else {
+      try {
+        const result = await this.render(file);
+        previews =
+          typeof result === 'string'
+            ? { status: 'unsupported', sourceS3Key, items: [], generatedAt: new Date().toISOString(), error: result }
+            : { status: 'ready', sourceS3Key, items: result, generatedAt: new Date().toISOString() };
+      } catch (error) {
+        console.error('Error generating previews:', error);
+        previews = {
+          status: 'failed',
+          sourceS3Key,
+          items: [],
+          generatedAt: new Date().toISOString(),
+          error: (error as Error).message,
+        };
+      }
+    }
+
+    // Null when the file was deleted or got new content meanwhile
+    return this.metadata.setFilePreviews(projectId, fileId, previews);
+  }
+
+  /**
+   * Generate previews for every uploaded file of a project that supports them
+   *
+   * Runs in the foreground, e.g. to backfill files uploaded before previews
+   * were enabled or whose queued job was lost.
+   */
+  async generateForProject(
+    projectId: string,
+    options: { force?: boolean } = {}
+  ): Promise<ProjectPreviewsReport> {
+    const report: ProjectPreviewsReport = { projectId, files: [] };
+
+    let lastKey: PaginationKey | undefined;
+    do {
+      const page = await this.metadata.getFilesByProject(projectId, { status: 'uploaded', lastKey });
+      for (const file of page.files.filter((candidate) => this.isSupported(candidate))) {
+        const updated = (await this.generate(projectId, file.fileId, options)) ?? file;
+        report.files.push({
+          fileId: file.fileId,
+          fileName: file.fileName,
+          status: this.getStatus(updated),
+        });
+      }
+      lastKey = page.lastKey;
+    } while (lastKey);
+
+    return report;
+  }
+
+  /**
+   * Describe a file's previews with presigned URLs
+   */
+  async getPreviewUrls(file: FileMetadata): Promise<FilePreviewsResponse> {
+    const status = this.getStatus(file);
+    const current = file.previews?.sourceS3Key === file.s3Key ? file.previews : undefined;
+
+    if (status !== 'ready' || !current) {
+      return { fileId: file.fileId, status, previews: [], error: current?.error };
+    }
+
+    let expiresIn: number | undefined;
+    const previews = await Promise.all(
+      current.items.map(async ({ s3Key, ...preview }) => {
+        const { downloadUrl, expiresIn: urlExpiresIn } = await this.storage.generateDownloadUrl(s3Key);
+        expiresIn = urlExpiresIn;
+        return { ...preview, url: downloadUrl };
+      })
+    );
+
+    return { fileId: file.fileId, status, previews, expiresIn };
+  }
+
+  /**
+   * Presigned URL of a file's small thumbnail, when it is ready
+   */
+  async getThumbnailUrl(file: FileMetadata): Promise<string | undefined> {
+    if (this.getStatus(file) !== 'ready') {
+      return undefined;
+    }
+
+    const thumbnail = file.previews!.items.find((preview) => preview.name === 'small');
+    if (!thumbnail) {
+      return undefined;
+    }
+
+    return (await this.storage.generateDownloadUrl(thumbnail.s3Key)).downloadUrl;
+  }
+
+  /**
+   * Render and store every preview of a file
+   *
+   * Returns the reason instead when the file is not previewed.
+   */
+  private async render(file: FileMetadata): Promise<FilePreview[] | string> {
+    const source = await this.storage.readObject(file.s3Key);
+    const isPdf = normalizeMimeType(file.detectedType || file.fileType) === PDF_TYPE;
+
+    // A small file may declare huge dimensions, so check the header before decoding
+    if (!isPdf) {
+      const dimensions = readImageDimensions(source);
+      if (!dimensions) {
+        return 'Images whose size cannot be read from their header are not previewed';
+      }
+      if (dimensions.width * dimensions.height > this.config.maxPixels) {
+        return `Images over ${this.config.maxPixels} pixels are not previewed`;
+      }
+    }
+
+    const decoded = isPdf
+      ? await this.renderFirstPage(source)
+      : ((await Jimp.read(source)) as JimpInstance);
+    const base = flattenImage(decoded);
+
+    const images: { name: PreviewName; image: JimpInstance }[] = [];
+    if (isPdf) {
+      images.push({ name: 'page', image: base });
+    }
+    for (const [name, size] of Object.entries(THUMBNAIL_SIZES)) {
+      const image = base.clone();
+      // Thumbnails never enlarge small images
+      if (image.width > size || image.height > size) {
+        image.scaleToFit({ w: size, h: size });
+      }
+      images.push({ name: name as PreviewName, image });
+    }
+
+    const previews: FilePreview[] = [];
+    for (const { name, image } of images) {
+      // Page rasters keep drawings sharp; thumbnails favor size
+      const contentType = name === 'page' ? 'image/png' : 'image/jpeg';
+      const body =
+        contentType === 'image/png'
+          ? await image.getBuffer('image/png')
+          : await image.getBuffer('image/jpeg', { quality: 80 });
+      const s3Key = buildPreviewKey(file.s3Key, name, contentType === 'image/png' ? '.png' : '.jpg');
+
+      await this.storage.putObject(s3Key, body, contentType);
+      previews.push({ name, s3Key, contentType, width: image.width, height: image.height });
+    }
+
+    return previews;
+  }
+
+  /**
+   * Rasterize the first page of a PDF
+   */
+  private async renderFirstPage(source: Buffer): Promise<JimpInstance> {
+    this.pdfium ??= PDFiumLibrary.init();
+    const document = await (await this.pdfium).loadDocument(source);
+
+    try {
+      if (document.getPageCount() === 0) {
+        throw new Error('PDF has no pages');
+      }
+
+      const page = document.getPage(0);
+      const { originalWidth, originalHeight } = page.getOriginalSize();
+      const scale = PAGE_RASTER_SIZE / Math.max(originalWidth, originalHeight);
+      const bitmap = await page.render({ scale, render: 'bitmap' });
+
+      return Jimp.fromBitmap({
+        data: Buffer.from(bitmap.data),
+        width: bitmap.width,
+        height: bitmap.height,
+      }) as JimpInstance;
+    } finally {
+      document.destroy();
+    }
+  }
+}
+
+// Export singleton instance
+export const previewService = new PreviewService();
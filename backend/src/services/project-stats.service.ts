@@ -0,0 +1,115 @@
+/**
+ * Project Stats Service - Recomputes project statistics from the file records
+ *
+ * Statistics are updated atomically with every file change, but records written
+ * before that, or edited by hand, can still disagree with the files. Reconciling
+ * counts the uploaded files, reports the drift and overwrites the statistics.
+ */
+
+import { MetadataRepository, PaginationKey, Project, ProjectStats } from '../types';
+import { metadataRepository } from './metadata.service';
+
+/**
+ * Attempts before giving up when the statistics keep changing during a count
+ */
+const MAX_RECONCILE_ATTEMPTS = 3;
+
+/**
+ * Options for a reconciliation
+ */
+export interface ReconcileOptions {
+  dryRun?: boolean; // Report the drift without correcting it
+}
+
+/**
+ * Result of reconciling a project's statistics
+ */
+export interface ReconcileReport {
+  projectId: string;
+  recorded: ProjectStats; // Statistics stored on the project
+  actual: ProjectStats; // Statistics computed from the file records
+  drift: ProjectStats; // actual - recorded
+  corrected: boolean;
+}
+
+/**
+ * Thrown when the statistics changed during every attempt to reconcile them
+ */
+export class ReconcileConflictError extends Error {
+  constructor(projectId: string) {
+    super(`Statistics of project ${projectId} kept changing while being reconciled`);
+    this.name = 'ReconcileConflictError';
+  }
+}
+
+/**
+ * Project Stats Service class
+ */
+export class ProjectStatsService {
+  constructor(private metadata: MetadataRepository = metadataRepository) {}
+
+  /**
+   * Compare a project's statistics with its files and correct any drift
+   *
+   * The correction only applies if the statistics did not change while the
+   * files were counted; otherwise the count is repeated.
+   */
+  async reconcile(project: Project, options: ReconcileOptions = {}): Promise<ReconcileReport> {
+    let current = project;
+
+    for (let attempt = 1; attempt <= MAX_RECONCILE_ATTEMPTS; attempt++) {
+      const recorded = { fileCount: current.fileCount, totalSize: current.totalSize };
+      const actual = await this.countUploadedFiles(project.projectId);
+      const drift = {
+        fileCount: actual.fileCount - recorded.fileCount,
+        totalSize: actual.totalSize - recorded.totalSize,
+      };
+      const report = { projectId: project.projectId, recorded, actual, drift, corrected: false };
+
+      if (options.dryRun || (drift.fileCount === 0 && drift.totalSize === 0)) {
+        return report;
+      }
+
+      const updated = await this.metadata.setProjectStats(
+        project.ownerId,
+        project.projectId,
+        actual,
+        recorded
+      );
+      if (updated) {
+        return { ...report, corrected: true };
+      }
+
+      // A file changed meanwhile; count again against the new statistics
+      const latest = await this.metadata.getProjectById(project.ownerId, project.projectId);
+      if (!latest) {
+        break;
+      }
+      current = latest;
+    }
+
+    throw new ReconcileConflictError(project.projectId);
+  }
+
+  /**
+   * Count the uploaded files of a project and add up their sizes
+   */
+  private async countUploadedFiles(projectId: string): Promise<ProjectStats> {
+    const stats: ProjectStats = { fileCount: 0, totalSize: 0 };
+
+    let lastKey: PaginationKey | undefined;
+    do {
+      const page = await this.metadata.getFilesByProject(projectId, { status: 'uploaded', lastKey });
+      for (const file of page.files) {
+        stats.fileCount += 1;
+        stats.totalSize += file.fileSize;
+      }
+      lastKey = page.lastKey;
+    } while (lastKey);
+
+    return stats;
+  }
+}
+
+// Export singleton instance
+export const projectStatsService = new ProjectStatsService();
@@ -0,0 +1,206 @@
+/**
+ * Quota Service - Storage limits per project and per user
+ *
+ * Usage comes from the project statistics, which count uploaded files only.
+ * Uploads are checked when a URL is requested and again when they are
+ * confirmed, since pending uploads do not count until then. A user's usage is
+ * the sum over the projects they own; uploads by members count against the
+ * project owner.
+ */
+
+import { QUOTA_CONFIG } from '../config/aws.config';
+import { MetadataRepository, PaginationKey, Project, ProjectStats } from '../types';
+import { metadataRepository } from './metadata.service';
+
+/**
+ * Limits of a quota; null means unlimited
+ */
+export interface QuotaLimits {
+  maxBytes: number | null;
+  maxFiles: number | null;
+}
+
+/**
+ * Current consumption against a quota
+ */
+export interface QuotaUsage extends ProjectStats {
+  limits: QuotaLimits;
+}
+
+/**
+ * Consumption of one project
+ */
+export interface ProjectUsage extends QuotaUsage {
+  projectId: string;
+  name: string;
+}
+
+/**
+ * Consumption of a user across the projects they own
+ */
+export interface UsageReport {
+  userId: string;
+  user: QuotaUsage;
+  projects: ProjectUsage[];
+}
+
+/**
+ * A limit an upload would exceed
+ */
+export interface QuotaViolation {
+  scope: 'project' | 'user';
+  limit: 'bytes' | 'files';
+  used: number;
+  requested: number;
+  max: number;
+}
+
+/**
+ * Thrown when a change to a project's files would exceed a quota
+ */
+export class QuotaExceededError extends Error {
+  constructor(public violation: QuotaViolation, message: string) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * Quota Service class
+ */
+export class QuotaService {
+  constructor(
+    private metadata: MetadataRepository = metadataRepository,
+    private config: typeof QUOTA_CONFIG = QUOTA_CONFIG
+  ) {}
+
+  /**
+   * Limits that apply to every project
+   */
+  getProjectLimits(): QuotaLimits {
+    return {
+      maxBytes: this.config.projectMaxBytes || null,
+      maxFiles: this.config.projectMaxFiles || null,
+    };
+  }
+
+  /**
+   * Limits that apply to every user
+   */
+  getUserLimits(): QuotaLimits {
+    return {
+      maxBytes: this.config.userMaxBytes || null,
+      maxFiles: this.config.userMaxFiles || null,
+    };
+  }
+
+  /**
+   * Report a user's consumption, in total and per owned project
+   */
+  async getUsage(userId: string): Promise<UsageReport> {
+    const projects = await this.getOwnedProjects(userId);
+    const projectLimits = this.getProjectLimits();
+
+    return {
+      userId,
+      user: { ...sumStats(projects), limits: this.getUserLimits() },
+      projects: projects.map((project) => ({
+        projectId: project.projectId,
+        name: project.name,
+        fileCount: project.fileCount,
+        totalSize: project.totalSize,
+        limits: projectLimits,
+      })),
+    };
+  }
+
+  /**
+   * Find the first limit a change to a project's files would exceed
+   *
+   * Only limits the change grows towards are checked, so shrinking uploads and
+   * replacements of equal size always pass.
+   */
+  async checkUpload(
+    project: Project,
+    change: { fileCountDelta: number; sizeDelta: number }
+  ): Promise<QuotaViolation | null> {
+    const projectViolation = findViolation('project', project, change, this.getProjectLimits());
+    if (projectViolation) {
+      return projectViolation;
+    }
+
+    const userLimits = this.getUserLimits();
+    if (userLimits.maxBytes === null && userLimits.maxFiles === null) {
+      return null;
+    }
+
+    const projects = await this.getOwnedProjects(project.ownerId);
+    return findViolation('user', sumStats(projects), change, userLimits);
+  }
+
+  /**
+   * Describe a violation in a single error message
+   */
+  describeViolation(violation: QuotaViolation): string {
+    const subject = violation.scope === 'project' ? 'Project' : 'Project owner';
+    const unit = violation.limit === 'bytes' ? 'bytes' : 'files';
+
+    return (
+      `${subject} quota exceeded: ${violation.used} of ${violation.max} ${unit} used, ` +
+      `upload needs ${violation.requested} more`
+    );
+  }
+
+  private async getOwnedProjects(userId: string): Promise<Project[]> {
+    const projects: Project[] = [];
+
+    let lastKey: PaginationKey | undefined;
+    do {
+      const page = await this.metadata.getProjectsByUser(userId, { lastKey });
+      projects.push(...page.projects);
+      lastKey = page.lastKey;
+    } while (lastKey);
+
+    return projects;
+  }
+}
+
+// ==================== HELPERS ====================
+
+function sumStats(projects: Project[]): ProjectStats {
+  return projects.reduce(
+    (total, project) => ({
+      fileCount: total.fileCount + project.fileCount,
+      totalSize: total.totalSize + project.totalSize,
+    }),
+    { fileCount: 0, totalSize: 0 }
+  );
+}
+
+function findViolation(
+  scope: QuotaViolation['scope'],
+  usage: ProjectStats,
+  change: { fileCountDelta: number; sizeDelta: number },
+  limits: QuotaLimits
+): QuotaViolation | null {
+  if (
+    limits.maxBytes !== null &&
+    change.sizeDelta > 0 &&
+    usage.totalSize + change.sizeDelta > limits.maxBytes
+  ) {
+    return { scope, limit: 'bytes', used: usage.totalSize, requested: change.sizeDelta, max: limits.maxBytes };
+  }
+
+  if (
+    limits.maxFiles !== null &&
+    change.fileCountDelta > 0 &&
+    usage.fileCount + change.fileCountDelta > limits.maxFiles
+  ) {
+    return { scope, limit: 'files', used: usage.fileCount, requested: change.fileCountDelta, max: limits.maxFiles };
+  }
+
+  return null;
+}
+
+// Export singleton instance
+export const quotaService = new QuotaService();
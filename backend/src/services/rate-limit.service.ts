@@ -0,0 +1,295 @@
+/**
+ * Rate Limit Service - Token buckets limiting how often callers use the API
+ *
+ * Every route group has a bucket per caller and one per IP address, so one
+ * user cannot exhaust the API for others, and neither can clients rotating
+ * identities from one address. Buckets live in a pluggable store: in memory
+ * for a single server process, or in DynamoDB to be shared by every Lambda
+ * instance.
+ */
+
+import { GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { docClient, DYNAMODB_CONFIG, RATE_LIMIT_CONFIG } from '../config/aws.config';
+import {
+  RateLimitGroup,
+  RateLimitStore,
+  RateLimitStoreType,
+  TokenBucketResult,
+  TokenBucketSpec,
+} from '../types';
+import { isConditionalCheckFailed } from '../utils/error.utils';
+
+/**
+ * Buckets kept in memory before full ones are dropped
+ */
+const MAX_MEMORY_BUCKETS = 10000;
+
+/**
+ * Times a DynamoDB bucket is updated again after a concurrent request changed it
+ */
+const MAX_WRITE_ATTEMPTS = 3;
+
+/**
+ * Who a request counts against
+ */
+export interface RateLimitIdentity {
+  userId?: string;
+  ip?: string;
+}
+
+/**
+ * Outcome of a request in a route group, from its most depleted bucket
+ */
+export interface RateLimitDecision extends TokenBucketResult {
+  limit: number;
+  window: number; // Seconds in which the limit refills
+}
+
+/**
+ * Tokens in a bucket when it was last used
+ */
+interface BucketState {
+  tokens: number;
+  updatedAt: number; // Epoch milliseconds
+}
+
+/**
+ * Token buckets kept in process memory
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, BucketState & { fullAt: number }>();
+
+  async take(key: string, bucket: TokenBucketSpec, cost: number): Promise<TokenBucketResult> {
+    const now = Date.now();
+    if (this.buckets.size >= MAX_MEMORY_BUCKETS) {
+      this.dropFullBuckets(now);
+    }
+
+    const { state, result } = takeTokens(this.buckets.get(key), bucket, cost, now);
+    this.buckets.set(key, { ...state, fullAt: now + result.resetAfter * 1000 });
+    return result;
+  }
+
+  /**
+   * Forget buckets that have refilled, since a new bucket starts full
+   */
+  private dropFullBuckets(now: number): void {
+    for (const [key, state] of this.buckets) {
+      if (state.fullAt <= now) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Token buckets kept in the DynamoDB table, shared by every process
+ *
+ * Each bucket is an item holding the time it is full again, so tokens are
+ * taken with a conditional update and no read: one update when the bucket is
+ * partly used, a second when it turned out to be full. Full buckets expire
+ * through the table's time to live.
+ */
+export class DynamoDBRateLimitStore implements RateLimitStore {
+  private tableName = DYNAMODB_CONFIG.tableName;
+
+  async take(key: string, bucket: TokenBucketSpec, cost: number): Promise<TokenBucketResult> {
+    const itemKey = { PK: `RATELIMIT#${key}`, SK: 'BUCKET' };
+    const interval = 1000 / bucket.refillPerSecond; // Milliseconds to refill one token
+
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+      const now = Date.now();
+      // Latest time the bucket may be full again and still hold `cost` tokens
+      const latestFullAt = now + (bucket.capacity - cost) * interval;
+
+      // Partly used bucket with enough tokens left
+      try {
+        const { Attributes } = await docClient.send(
+          new UpdateCommand({
+            TableName: this.tableName,
+            Key: itemKey,
+            UpdateExpression: 'SET fullAt = fullAt + :cost, expiresAt = :expiresAt',
+            ConditionExpression: 'fullAt > :now AND fullAt <= :latestFullAt',
+            ExpressionAttributeValues: {
+              ':cost': cost * interval,
+              ':now': now,
+              ':latestFullAt': latestFullAt,
+              ':expiresAt': Math.ceil((now + bucket.capacity * interval) / 1000),
+            },
+            ReturnValues: 'UPDATED_NEW',
+          })
+        );
+        return getBucketResult(Attributes!.fullAt as number, now, bucket, cost, true);
+      } catch (error: unknown) {
+        if (!isConditionalCheckFailed(error)) {
+          throw error;
+        }
+      }
+
+      // New or full bucket
+      const fullAt = now + cost * interval;
+      try {
+        await docClient.send(
+          new UpdateCommand({
+            TableName: this.tableName,
+            Key: itemKey,
+            UpdateExpression: 'SET fullAt = :fullAt, expiresAt = :expiresAt',
+            ConditionExpression: 'attribute_not_exists(fullAt) OR fullAt <= :now',
+            ExpressionAttributeValues: {
+              ':fullAt': fullAt,
+              ':now': now,
+              ':expiresAt': Math.ceil(fullAt / 1000),
+            },
+          })
+        );
+        return getBucketResult(fullAt, now, bucket, cost, true);
+      } catch (error: unknown) {
+        if (!isConditionalCheckFailed(error)) {
+          throw error;
+        }
+      }
+
+      // Too few tokens left, unless a concurrent request changed the bucket meanwhile
+      const { Item } = await docClient.send(
+        new GetCommand({ TableName: this.tableName, Key: itemKey, ConsistentRead: true })
+      );
+      if (Item && (Item.fullAt as number) > latestFullAt) {
+        return getBucketResult(Item.fullAt as number, now, bucket, cost, false);
+      }
+    }
+
+    // The bucket kept changing under concurrent requests; letting this one
+    // through is safer than refusing a caller who may have tokens left
+    return { allowed: true, remaining: 0, resetAfter: Math.ceil(bucket.capacity / bucket.refillPerSecond), retryAfter: 0 };
+  }
+}
+
+/**
+ * Create a rate limit store of the given type
+ */
+export function createRateLimitStore(
+  type: RateLimitStoreType = RATE_LIMIT_CONFIG.store
+): RateLimitStore {
+  switch (type) {
+    case 'memory':
+      return new MemoryRateLimitStore();
+    case 'dynamodb':
+      return new DynamoDBRateLimitStore();
+    default:
+      throw new Error(`Unknown rate limit store: ${type}`);
+  }
+}
+
+/**
+ * Rate Limit Service class
+ */
+export class RateLimitService {
+  constructor(
+    private store: RateLimitStore = createRateLimitStore(),
+    private config: typeof RATE_LIMIT_CONFIG = RATE_LIMIT_CONFIG
+  ) {}
+
+  /**
+   * Take tokens for a request from the buckets of its caller and IP address
+   *
+   * A request costing more than a bucket holds takes the whole bucket. The
+   * caller's bucket is charged first, so a request refused by the IP bucket
+   * still counts against its caller.
+   */
+  async check(
+    group: RateLimitGroup,
+    identity: RateLimitIdentity,
+    cost = 1
+  ): Promise<RateLimitDecision> {
+    const rule = this.config.groups[group];
+    const window = this.config.window;
+    const buckets: [string, number][] = [];
+    if (identity.userId) buckets.push([`${group}:user:${identity.userId}`, rule.perUser]);
+    if (identity.ip) buckets.push([`${group}:ip:${identity.ip}`, rule.perIp]);
+
+    let decision: RateLimitDecision | undefined;
+    for (const [key, limit] of buckets) {
+      const result = await this.store.take(
+        key,
+        { capacity: limit, refillPerSecond: limit / window },
+        Math.min(cost, limit)
+      );
+
+      if (!result.allowed) {
+        return { ...result, limit, window };
+      }
+      if (!decision || result.remaining < decision.remaining) {
+        decision = { ...result, limit, window };
+      }
+    }
+
+    // Requests without a caller or address are not limited
+    return (
+      decision ?? {
+        allowed: true,
+        remaining: rule.perUser,
+        resetAfter: 0,
+        retryAfter: 0,
+        limit: rule.perUser,
+        window,
+      }
+    );
+  }
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Refill a bucket for the time since it was last used and take tokens if enough are left
+ */
+function takeTokens(
+  previous: BucketState | undefined,
+  bucket: TokenBucketSpec,
+  cost: number,
+  now: number
+): { state: BucketState; result: TokenBucketResult } {
+  const { capacity, refillPerSecond } = bucket;
+  const available = previous
+    ? Math.min(
+        capacity,
+        previous.tokens + (Math.max(now - previous.updatedAt, 0) / 1000) * refillPerSecond
+      )
+    : capacity;
+
+  const allowed = available >= cost;
+  const tokens = allowed ? available - cost : available;
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      remaining: Math.floor(tokens),
+      resetAfter: Math.ceil((capacity - tokens) / refillPerSecond),
+      retryAfter: allowed ? 0 : Math.ceil((cost - tokens) / refillPerSecond),
+    },
+  };
+}
+
+/**
+ * Describe a bucket that is full again at `fullAt` (epoch milliseconds)
+ */
+function getBucketResult(
+  fullAt: number,
+  now: number,
+  bucket: TokenBucketSpec,
+  cost: number,
+  allowed: boolean
+): TokenBucketResult {
+  const untilFull = Math.max(fullAt - now, 0) / 1000;
+  const tokens = bucket.capacity - untilFull * bucket.refillPerSecond;
+
+  return {
+    allowed,
+    remaining: Math.floor(tokens),
+    resetAfter: Math.ceil(untilFull),
+    retryAfter: allowed ? 0 : Math.ceil((cost - tokens) / bucket.refillPerSecond),
+  };
+}
+
+// Export singleton instance
+export const rateLimitService = new RateLimitService();
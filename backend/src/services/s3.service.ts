@@ -6,15 +6,31 @@ import {
   PutObjectCommand,
   GetObjectCommand,
   DeleteObjectCommand,
+  DeleteObjectsCommand,
+  ListObjectsV2Command,
   HeadObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  ListPartsCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
 } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { s3Client, S3_CONFIG } from '../config/aws.config';
+import {
+  StorageProvider,
+  UploadUrlOptions,
+  UploadUrlResult,
+  DownloadUrlResult,
+  ObjectMetadata,
+  StoredPart,
+} from '../types';
+import { buildStorageKey } from '../utils/file.utils';
 
 /**
  * S3 Service class for file storage operations
  */
-export class S3Service {
+export class S3Service implements StorageProvider {
   private bucketName: string;
   private presignedUrlExpiry: number;
 
@@ -25,12 +41,10 @@ export class S3Service {
 
   /**
    * Generate S3 key for a file
-   * Format: {projectId}/{fileId}/{fileName}
+   * Format: {projectId}/{fileId}/{fileName} (versions after the first add /v{version})
    */
-  generateS3Key(projectId: string, fileId: string, fileName: string): string {
-    // Sanitize filename to remove special characters
-    const sanitizedFileName = fileName.replace(/[^a-zA-Z0-9._-]/g, '_');
-    return `${projectId}/${fileId}/${sanitizedFileName}`;
+  generateS3Key(projectId: string, fileId: string, fileName: string, version?: number): string {
+    return buildStorageKey(projectId, fileId, fileName, version);
   }
 
   /**
@@ -41,29 +55,38 @@ export class S3Service {
     fileId: string,
     fileName: string,
     contentType: string,
-    fileSize?: number
-  ): Promise<{ uploadUrl: string; s3Key: string; expiresIn: number }> {
-    const s3Key = this.generateS3Key(projectId, fileId, fileName);
+    options: UploadUrlOptions = {}
+  ): Promise<UploadUrlResult> {
+    const { fileSize, version, checksumSha256 } = options;
+    const s3Key = this.generateS3Key(projectId, fileId, fileName, version);
 
     const command = new PutObjectCommand({
       Bucket: this.bucketName,
       Key: s3Key,
       ContentType: contentType,
       ...(fileSize && { ContentLength: fileSize }),
+      ...(checksumSha256 && { ChecksumSHA256: checksumSha256 }),
       Metadata: {
         projectId,
         fileId,
         originalFileName: fileName,
+        ...(version && { version: String(version) }),
       },
     });
 
+    // Keep the checksum a signed header so S3 rejects content that does not match it
     const uploadUrl = await getSignedUrl(s3Client, command, {
       expiresIn: this.presignedUrlExpiry,
+      ...(checksumSha256 && { unhoistableHeaders: new Set(['x-amz-checksum-sha256']) }),
     });
 
     return {
       uploadUrl,
       s3Key,
+      headers: {
+        'Content-Type': contentType,
+        ...(checksumSha256 && { 'x-amz-checksum-sha256': checksumSha256 }),
+      },
       expiresIn: this.presignedUrlExpiry,
     };
   }
@@ -74,7 +97,7 @@ export class S3Service {
   async generateDownloadUrl(
     s3Key: string,
     originalFileName?: string
-  ): Promise<{ downloadUrl: string; expiresIn: number }> {
+  ): Promise<DownloadUrlResult> {
     const command = new GetObjectCommand({
       Bucket: this.bucketName,
       Key: s3Key,
@@ -105,6 +128,46 @@ export class S3Service {
     await s3Client.send(command);
   }
 
+  /**
+   * Delete every object under a key prefix
+   */
+  async deleteObjectsWithPrefix(prefix: string): Promise<number> {
+    let deleted = 0;
+    let continuationToken: string | undefined;
+
+    do {
+      // Pages hold at most 1000 keys, the DeleteObjects limit
+      const page = await s3Client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucketName,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        })
+      );
+
+      const keys = (page.Contents || []).map((object) => ({ Key: object.Key! }));
+      if (keys.length > 0) {
+        const result = await s3Client.send(
+          new DeleteObjectsCommand({
+            Bucket: this.bucketName,
+            Delete: { Objects: keys, Quiet: true },
+          })
+        );
+
+        if (result.Errors && result.Errors.length > 0) {
+          throw new Error(
+            `Failed to delete ${result.Errors.length} objects under ${prefix}: ${result.Errors[0].Message}`
+          );
+        }
+        deleted += keys.length;
+      }
+
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return deleted;
+  }
+
   /**
    * Check if an object exists in S3
    */
@@ -128,15 +191,12 @@ export class S3Service {
   /**
    * Get object metadata from S3
    */
-  async getObjectMetadata(s3Key: string): Promise<{
-    contentType?: string;
-    contentLength?: number;
-    lastModified?: Date;
-  } | null> {
+  async getObjectMetadata(s3Key: string): Promise<ObjectMetadata | null> {
     try {
       const command = new HeadObjectCommand({
         Bucket: this.bucketName,
         Key: s3Key,
+        ChecksumMode: 'ENABLED',
       });
 
       const response = await s3Client.send(command);
@@ -145,6 +205,7 @@ export class S3Service {
         contentType: response.ContentType,
         contentLength: response.ContentLength,
         lastModified: response.LastModified,
+        checksumSha256: response.ChecksumSHA256,
       };
     } catch (error: unknown) {
       if (error && typeof error === 'object' && 'name' in error && error.name === 'NotFound') {
@@ -153,6 +214,178 @@ export class S3Service {
       throw error;
     }
   }
+
+  /**
+   * Read the leading bytes of an object
+   */
+  async readObjectHead(s3Key: string, maxBytes: number): Promise<Buffer> {
+    try {
+      const command = new GetObjectCommand({
+        Bucket: this.bucketName,
+        Key: s3Key,
+        Range: `bytes=0-${maxBytes - 1}`,
+      });
+
+      const response = await s3Client.send(command);
+      return Buffer.from(await response.Body!.transformToByteArray());
+    } catch (error: unknown) {
+      // Ranges cannot be satisfied for empty objects
+      if (error && typeof error === 'object' && 'name' in error && error.name === 'InvalidRange') {
+        return Buffer.alloc(0);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read a whole object
+   */
+  async readObject(s3Key: string): Promise<Buffer> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucketName,
+      Key: s3Key,
+    });
+
+    const response = await s3Client.send(command);
+    return Buffer.from(await response.Body!.transformToByteArray());
+  }
+
+  /**
+   * Store an object generated by the service
+   */
+  async putObject(s3Key: string, body: Buffer, contentType: string): Promise<void> {
+    const command = new PutObjectCommand({
+      Bucket: this.bucketName,
+      Key: s3Key,
+      Body: body,
+      ContentType: contentType,
+    });
+
+    await s3Client.send(command);
+  }
+
+  // ==================== MULTIPART UPLOADS ====================
+
+  /**
+   * Start a multipart upload
+   */
+  async createMultipartUpload(
+    s3Key: string,
+    contentType: string,
+    metadata?: Record<string, string>
+  ): Promise<{ uploadId: string }> {
+    const command = new CreateMultipartUploadCommand({
+      Bucket: this.bucketName,
+      Key: s3Key,
+      ContentType: contentType,
+      ...(metadata && { Metadata: metadata }),
+    });
+
+    const response = await s3Client.send(command);
+    if (!response.UploadId) {
+      throw new Error('S3 did not return an upload ID');
+    }
+
+    return { uploadId: response.UploadId };
+  }
+
+  /**
+   * Generate a presigned URL for uploading a single part
+   */
+  async generateUploadPartUrl(
+    s3Key: string,
+    uploadId: string,
+    partNumber: number
+  ): Promise<{ uploadUrl: string; expiresIn: number }> {
+    const command = new UploadPartCommand({
+      Bucket: this.bucketName,
+      Key: s3Key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+    });
+
+    const uploadUrl = await getSignedUrl(s3Client, command, {
+      expiresIn: this.presignedUrlExpiry,
+    });
+
+    return {
+      uploadUrl,
+      expiresIn: this.presignedUrlExpiry,
+    };
+  }
+
+  /**
+   * List the parts S3 has received for a multipart upload
+   */
+  async listUploadedParts(s3Key: string, uploadId: string): Promise<StoredPart[]> {
+    const parts: StoredPart[] = [];
+    let partNumberMarker: string | undefined;
+
+    do {
+      const command = new ListPartsCommand({
+        Bucket: this.bucketName,
+        Key: s3Key,
+        UploadId: uploadId,
+        ...(partNumberMarker && { PartNumberMarker: partNumberMarker }),
+      });
+
+      const response = await s3Client.send(command);
+      for (const part of response.Parts || []) {
+        parts.push({
+          partNumber: part.PartNumber as number,
+          etag: part.ETag as string,
+          size: part.Size,
+        });
+      }
+
+      partNumberMarker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+    } while (partNumberMarker);
+
+    return parts;
+  }
+
+  /**
+   * Assemble the uploaded parts into the final object
+   */
+  async completeMultipartUpload(
+    s3Key: string,
+    uploadId: string,
+    parts: StoredPart[]
+  ): Promise<void> {
+    const command = new CompleteMultipartUploadCommand({
+      Bucket: this.bucketName,
+      Key: s3Key,
+      UploadId: uploadId,
+      MultipartUpload: {
+        Parts: [...parts]
+          .sort((a, b) => a.partNumber - b.partNumber)
+          .map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+      },
+    });
+
+    await s3Client.send(command);
+  }
+
+  /**
+   * Abort a multipart upload and discard its parts
+   */
+  async abortMultipartUpload(s3Key: string, uploadId: string): Promise<void> {
+    try {
+      const command = new AbortMultipartUploadCommand({
+        Bucket: this.bucketName,
+        Key: s3Key,
+        UploadId: uploadId,
+      });
+
+      await s3Client.send(command);
+    } catch (error: unknown) {
+      // Already completed or aborted
+      if (error && typeof error === 'object' && 'name' in error && error.name === 'NoSuchUpload') {
+        return;
+      }
+      throw error;
+    }
+  }
 }
 
 // Export singleton instance
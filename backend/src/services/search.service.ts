@@ -0,0 +1,461 @@
+/**
+ * Search Service - Finds files and projects across the projects a user can access
+ *
+ * Candidates come from the search index, one partition per project, so a
+ * search reads the projects the caller owns or is a member of and nothing
+ * else. With search terms, only the token entries starting with the longest
+ * term are read; without them, the project's documents. Terms match words of
+ * names, descriptions and tags exactly, by prefix or approximately (a small
+ * edit distance, with the first letters right), and every term has to match.
+ * Projects are searched one after the other, at most
+ * SEARCHED_PROJECTS_PER_PAGE of them per page, and each page is ranked by
+ * match quality, then newest first; the ranking does not extend across pages.
+ */
+
+import {
+  FileSearchDocument,
+  MetadataRepository,
+  PaginationKey,
+  Project,
+  SearchDocument,
+  SearchQuery,
+  SearchResponse,
+  SearchResult,
+} from '../types';
+import {
+  buildSearchKey,
+  buildSearchTokens,
+  getMimeTypeCategory,
+  toSearchDocument,
+  tokenizeSearchText,
+} from '../utils/file.utils';
+import { normalizeMimeType } from '../utils/mime.utils';
+import { metadataRepository } from './metadata.service';
+import { CursorService, cursorService, InvalidCursorError } from './cursor.service';
+
+/**
+ * Results per page when no limit is given
+ */
+const DEFAULT_SEARCH_LIMIT = 20;
+
+/**
+ * Index entries read per query
+ */
+const INDEX_PAGE_SIZE = 100;
+
+/**
+ * Projects read for one page at most; a page that reaches no `limit` within
+ * them comes back short, with a cursor to the next project
+ */
+const SEARCHED_PROJECTS_PER_PAGE = 25;
+
+/**
+ * Leading characters an approximate match has to get right, so that the
+ * index is read from the term's prefix
+ */
+const FUZZY_PREFIX_LENGTH = 2;
+
+/**
+ * An entry read from the index, with the key to resume reading after it;
+ * the document is null when the entry is to be skipped
+ */
+interface IndexCandidate {
+  document: SearchDocument | null;
+  key: PaginationKey;
+}
+
+/**
+ * A project the user can access; shared projects are read once searched
+ */
+interface AccessibleProject {
+  projectId: string;
+  ownerId: string;
+  project?: Project;
+}
+
+/**
+ * Search Service class
+ */
+export class SearchService {
+  constructor(
+    private metadata: MetadataRepository = metadataRepository,
+    private cursors: CursorService = cursorService
+  ) {}
+
+  /**
+   * Search the files and projects a user can access
+   */
+  async search(userId: string, query: SearchQuery): Promise<SearchResponse> {
+    const limit = query.limit || DEFAULT_SEARCH_LIMIT;
+    const terms = tokenizeSearchText(query.q || '');
+
+    // The cursor only resumes the search it was issued for
+    const { cursor, limit: _limit, ...criteria } = query;
+    const cursorScope = `search:${userId}:${JSON.stringify(criteria)}`;
+    const position = decodePosition(this.cursors.decode(cursor, cursorScope));
+
+    let projects = await this.getAccessibleProjects(userId);
+    if (query.projectId) {
+      projects = projects.filter((project) => project.projectId === query.projectId);
+    }
+    projects.sort((a, b) => a.projectId.localeCompare(b.projectId));
+
+    // A project the caller lost access to since the last page is skipped
+    const remaining = position
+      ? projects.filter((project) => project.projectId >= position.projectId)
+      : projects;
+
+    const results: SearchResult[] = [];
+    let nextPosition: PaginationKey | undefined;
+
+    search: for (const [index, accessible] of remaining.entries()) {
+      const { projectId } = accessible;
+      if (index === SEARCHED_PROJECTS_PER_PAGE) {
+        nextPosition = { projectId };
+        break;
+      }
+
+      const project = accessible.project ?? (await this.getSharedProject(accessible));
+      if (!project) {
+        continue;
+      }
+
+      let lastKey = projectId === position?.projectId ? position.lastKey : undefined;
+      do {
+        const page = await this.getCandidates(projectId, terms, lastKey);
+
+        for (const { document, key } of page.candidates) {
+          const score =
+            document && matchesFilters(document, query) ? scoreDocument(document, terms) : null;
+          if (score !== null) {
+            results.push(toResult(document, score, project.name));
+          }
+
+          if (results.length === limit) {
+            nextPosition = { projectId, lastKey: key };
+            break search;
+          }
+        }
+
+        lastKey = page.lastKey;
+      } while (lastKey);
+    }
+
+    results.sort(
+      (a, b) =>
+        b.score - a.score ||
+        b.date.localeCompare(a.date) ||
+        (a.fileId || a.projectId).localeCompare(b.fileId || b.projectId)
+    );
+
+    return {
+      results,
+      nextCursor: this.cursors.encode(nextPosition, cursorScope),
+    };
+  }
+
+  /**
+   * Keep the token entries of the search index in step with writes to
+   * project and file records, as reported by the table's stream
+   */
+  async indexRecords(
+    changes: { previous?: Record<string, unknown>; current?: Record<string, unknown> }[]
+  ): Promise<void> {
+    // In order, since a record may change more than once in a batch
+    for (const { previous, current } of changes) {
+      const previousDocument = toIndexedDocument(previous);
+      const currentDocument = toIndexedDocument(current);
+      if (previousDocument || currentDocument) {
+        await this.metadata.indexSearchDocument(previousDocument, currentDocument);
+      }
+    }
+  }
+
+  /**
+   * Projects the user owns or is a member of, except owned ones in the trash
+   *
+   * Only the shares are listed; the records of shared projects are read
+   * when they are searched (see getSharedProject).
+   */
+  private async getAccessibleProjects(userId: string): Promise<AccessibleProject[]> {
+    const projects: AccessibleProject[] = [];
+
+    let lastKey: PaginationKey | undefined;
+    do {
+      const page = await this.metadata.getProjectsByUser(userId, { lastKey });
+      projects.push(
+        ...page.projects.map((project) => ({
+          projectId: project.projectId,
+          ownerId: project.ownerId,
+          project,
+        }))
+      );
+      lastKey = page.lastKey;
+    } while (lastKey);
+
+    do {
+      const page = await this.metadata.getSharedProjects(userId, { lastKey });
+      projects.push(
+        ...page.shares.map((share) => ({
+          projectId: share.projectId,
+          ownerId: share.projectOwnerId,
+        }))
+      );
+      lastKey = page.lastKey;
+    } while (lastKey);
+
+    return projects;
+  }
+
+  /**
+   * Read a shared project's record; null when it is in the trash or gone
+   */
+  private async getSharedProject({ projectId, ownerId }: AccessibleProject): Promise<Project | null> {
+    const project = await this.metadata.getProjectById(ownerId, projectId);
+    return project && project.status !== 'deleted' ? project : null;
+  }
+
+  /**
+   * Read a page of a project's index: the token entries that can match the
+   * longest term, or every document without terms
+   *
+   * A document is read once per matching word, so only the entry of its
+   * first such word is kept.
+   */
+  private async getCandidates(
+    projectId: string,
+    terms: string[],
+    lastKey: PaginationKey | undefined
+  ): Promise<{ candidates: IndexCandidate[]; lastKey?: PaginationKey }> {
+    const options = { limit: INDEX_PAGE_SIZE, lastKey };
+
+    if (terms.length === 0) {
+      const page = await this.metadata.getSearchDocuments(projectId, options);
+      return {
+        candidates: page.documents.map((document) => ({ document, key: toIndexKey(document) })),
+        lastKey: page.lastKey,
+      };
+    }
+
+    const term = terms.reduce((longest, next) => (next.length > longest.length ? next : longest));
+    const prefix = getMaxDistance(term) > 0 ? term.slice(0, FUZZY_PREFIX_LENGTH) : term;
+    const page = await this.metadata.getSearchTokens(projectId, prefix, options);
+
+    return {
+      candidates: page.entries.map((entry) => {
+        const firstMatch = buildSearchTokens(entry.document).find(
+          (token) => token.startsWith(prefix) && scoreTerm(term, [token]) > 0
+        );
+        return {
+          document: firstMatch === entry.token ? entry.document : null,
+          key: { PK: entry.PK, SK: entry.SK },
+        };
+      }),
+      lastKey: page.lastKey,
+    };
+  }
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Check the attribute filters; file-only filters exclude projects
+ */
+function matchesFilters(document: SearchDocument, query: SearchQuery): boolean {
+  const fileOnly =
+    query.category !== undefined ||
+    query.minSize !== undefined ||
+    query.maxSize !== undefined ||
+    query.uploadedBy !== undefined;
+
+  if (query.type && document.type !== query.type) return false;
+
+  if (document.type === 'project') {
+    if (fileOnly || document.status === 'deleted') return false;
+    return isInDateRange(document.createdAt, query);
+  }
+
+  return (
+    document.status === 'uploaded' &&
+    (query.category === undefined || getCategory(document) === query.category) &&
+    (query.minSize === undefined || document.fileSize >= query.minSize) &&
+    (query.maxSize === undefined || document.fileSize <= query.maxSize) &&
+    (query.uploadedBy === undefined || document.uploadedBy === query.uploadedBy) &&
+    isInDateRange(document.uploadedAt, query)
+  );
+}
+
+function isInDateRange(date: string, query: SearchQuery): boolean {
+  return (!query.from || date >= query.from) && (!query.to || date <= query.to);
+}
+
+function getCategory(file: FileSearchDocument): string {
+  return getMimeTypeCategory(normalizeMimeType(file.detectedType || file.fileType));
+}
+
+/**
+ * Score a document against the search terms, or null when a term does not match
+ *
+ * Name matches weigh twice as much as description and tag matches.
+ */
+function scoreDocument(document: SearchDocument, terms: string[]): number | null {
+  const fields =
+    document.type === 'project'
+      ? [
+          { tokens: tokenizeSearchText(document.name), weight: 2 },
+          { tokens: tokenizeSearchText(document.description || ''), weight: 1 },
+        ]
+      : [
+          { tokens: tokenizeSearchText(document.fileName), weight: 2 },
+          { tokens: tokenizeSearchText(document.displayName || ''), weight: 2 },
+          { tokens: tokenizeSearchText((document.tags || []).join(' ')), weight: 1 },
+        ];
+
+  let score = 0;
+  for (const term of terms) {
+    const termScore = Math.max(...fields.map((field) => field.weight * scoreTerm(term, field.tokens)));
+    if (termScore === 0) return null;
+    score += termScore;
+  }
+
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * Score the best match of a term among tokens: exact 1, prefix 0.8,
+ * approximate 0.4 or less; 0 without a match
+ */
+function scoreTerm(term: string, tokens: string[]): number {
+  const maxDistance = getMaxDistance(term);
+  const fuzzyPrefix = term.slice(0, FUZZY_PREFIX_LENGTH);
+  let best = 0;
+
+  for (const token of tokens) {
+    if (token === term) return 1;
+
+    if (token.startsWith(term)) {
+      best = Math.max(best, 0.8);
+    } else if (maxDistance > 0 && best < 0.4 && token.startsWith(fuzzyPrefix)) {
+      // Compare with the whole token and with its prefix, so typed prefixes match too
+      const distance = Math.min(
+        editDistance(term, token, maxDistance),
+        editDistance(term, token.slice(0, term.length), maxDistance)
+      );
+      if (distance <= maxDistance) {
+        best = Math.max(best, 0.4 - 0.1 * (distance - 1));
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Typos tolerated in a term; only terms long enough to stay distinctive get any
+ */
+function getMaxDistance(term: string): number {
+  return term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+}
+
+/**
+ * Edit distance counting adjacent transpositions as one edit; stops early
+ * once it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previous2[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    if (rowMin > max) return max + 1;
+    previous2 = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+function toResult(document: SearchDocument, score: number, projectName: string): SearchResult {
+  if (document.type === 'project') {
+    return {
+      type: 'project',
+      score,
+      projectId: document.projectId,
+      projectName,
+      name: document.name,
+      description: document.description,
+      date: document.createdAt,
+    };
+  }
+
+  return {
+    type: 'file',
+    score,
+    projectId: document.projectId,
+    projectName,
+    fileId: document.fileId,
+    name: document.fileName,
+    displayName: document.displayName,
+    tags: document.tags,
+    fileType: document.fileType,
+    category: getCategory(document),
+    fileSize: document.fileSize,
+    uploadedBy: document.uploadedBy,
+    date: document.uploadedAt,
+  };
+}
+
+/**
+ * Key of a document in the search index (the table key and the index key)
+ */
+function toIndexKey(document: SearchDocument): PaginationKey {
+  return {
+    searchKey: buildSearchKey(document.projectId),
+    PK: document.type === 'project' ? `USER#${document.ownerId}` : `PROJECT#${document.projectId}`,
+    SK: document.type === 'project' ? `PROJECT#${document.projectId}` : `FILE#${document.fileId}`,
+  };
+}
+
+/**
+ * Search document of a project or file record, or null for other records
+ */
+function toIndexedDocument(item: Record<string, unknown> | undefined): SearchDocument | null {
+  return item?.searchKey !== undefined
+    ? toSearchDocument(item as unknown as Parameters<typeof toSearchDocument>[0])
+    : null;
+}
+
+/**
+ * Check the project and index key a search cursor resumes from
+ */
+function decodePosition(
+  position: PaginationKey | undefined
+): { projectId: string; lastKey?: PaginationKey } | undefined {
+  if (!position) {
+    return undefined;
+  }
+
+  // Without an index key the search resumes at the start of the project
+  const { projectId, lastKey } = position;
+  const validKey = lastKey === undefined || (!!lastKey && typeof lastKey === 'object');
+  if (typeof projectId !== 'string' || !validKey) {
+    throw new InvalidCursorError();
+  }
+  return { projectId, lastKey: lastKey as PaginationKey | undefined };
+}
+
+// Export singleton instance
+export const searchService = new SearchService();
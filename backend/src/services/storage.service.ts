@@ -0,0 +1,27 @@
+/**
+ * Storage Service - Selects the storage backend used by the application
+ */
+
+import { STORAGE_CONFIG } from '../config/aws.config';
+import { StorageProvider, StorageProviderType } from '../types';
+import { S3Service } from './s3.service';
+import { LocalStorageService } from './local-storage.service';
+
+/**
+ * Create a storage provider for the given backend type
+ */
+export function createStorageProvider(
+  provider: StorageProviderType = STORAGE_CONFIG.provider
+): StorageProvider {
+  switch (provider) {
+    case 's3':
+      return new S3Service();
+    case 'local':
+      return new LocalStorageService();
+    default:
+      throw new Error(`Unknown storage provider: ${provider}`);
+  }
+}
+
+// Export singleton instance
+export const storageService = createStorageProvider();
@@ -0,0 +1,375 @@
+/**
+ * Tile Service - Builds Deep Zoom tile pyramids of large uploaded images
+ *
+ * Browsers cannot zoom into a large scan without decoding all of it, so plan
+ * images get a multi-resolution pyramid in the Deep Zoom (DZI) layout that
+ * viewers such as OpenSeadragon load tile by tile. Pyramids are built on the
+ * background queue, stored next to the object they were generated from and,
+ * like previews, recorded only if the file still has that content.
+ */
+
+import { Jimp, JimpInstance } from 'jimp';
+import { TILE_CONFIG } from '../config/aws.config';
+import {
+  FileMetadata,
+  FileTiles,
+  FileTilesResponse,
+  MetadataRepository,
+  PaginationKey,
+  PreviewStatus,
+  StorageProvider,
+  TileLevel,
+  TilePyramid,
+  TileUrlsResponse,
+} from '../types';
+import { buildTileKey, buildTilePrefix } from '../utils/file.utils';
+import { flattenImage, readImageDimensions } from '../utils/image.utils';
+import { normalizeMimeType } from '../utils/mime.utils';
+import { BackgroundQueue, backgroundQueue } from './background-queue.service';
+import { metadataRepository } from './metadata.service';
+import { IMAGE_TYPES } from './preview.service';
+import { storageService } from './storage.service';
+
+/**
+ * Most tile URLs signed for a single request
+ */
+export const MAX_TILES_PER_REQUEST = 256;
+
+/**
+ * Pixels shared by neighbouring tiles, so edges blend without seams
+ */
+const TILE_OVERLAP = 1;
+
+const TILE_QUALITY = 85;
+
+/**
+ * Tiles uploaded at the same time
+ */
+const UPLOAD_CONCURRENCY = 8;
+
+/**
+ * Result of building the pyramids of a whole project
+ */
+export interface ProjectTilesReport {
+  projectId: string;
+  files: { fileId: string; fileName: string; status: PreviewStatus }[];
+}
+
+/**
+ * Inclusive range of tile columns or rows
+ */
+export interface TileRange {
+  from: number;
+  to: number;
+}
+
+/**
+ * Tile Service class
+ */
+export class TileService {
+  constructor(
+    private metadata: MetadataRepository = metadataRepository,
+    private storage: StorageProvider = storageService,
+    private config: typeof TILE_CONFIG = TILE_CONFIG,
+    private queue: BackgroundQueue = backgroundQueue
+  ) {}
+
+  /**
+   * Check whether a pyramid can be built for a file's type
+   */
+  isSupported(file: FileMetadata): boolean {
+    return IMAGE_TYPES.includes(normalizeMimeType(file.detectedType || file.fileType));
+  }
+
+  /**
+   * Pyramid status of a file's current content
+   */
+  getStatus(file: FileMetadata): PreviewStatus {
+    if (!this.config.enabled || !this.isSupported(file)) {
+      return 'unsupported';
+    }
+
+    if (!file.tiles || file.tiles.sourceS3Key !== file.s3Key) {
+      return 'pending';
+    }
+
+    return file.tiles.status;
+  }
+
+  /**
+   * Queue pyramid generation for a file's current content
+   */
+  enqueue(file: FileMetadata): void {
+    if (!this.config.enabled || !this.isSupported(file)) {
+      return;
+    }
+
+    this.queue.add(`tiles:${file.projectId}/${file.fileId}`, () =>
+      this.generate(file.projectId, file.fileId)
+    );
+  }
+
+  /**
+   * Build and record the pyramid of a file's current content
+   *
+   * Files whose pyramid is already current are left alone unless `force` is
+   * set. Images too small to need tiles, or too large to decode, are recorded
+   * as unsupported; failures are recorded rather than thrown.
+   */
+  async generate(
+    projectId: string,
+    fileId: string,
+    options: { force?: boolean } = {}
+  ): Promise<FileMetadata | null> {
+    const file = await this.metadata.getFileById(projectId, fileId);
+    if (!file || file.status !== 'uploaded' || !this.isSupported(file)) {
+      return file;
+    }
+
+    if (!options.force && this.getStatus(file) === 'ready') {
+      return file;
+    }
+
+    const sourceS3Key = file.s3Key;
+    let tiles: FileTiles;
+
+    try {
+      const result = await this.build(file);
+      tiles =
+        typeof result === 'string'
+          ? { status: 'unsupported', sourceS3Key, generatedAt: new Date().toISOString(), error: result }
+          : { status: 'ready', sourceS3Key, pyramid: result, generatedAt: new Date().toISOString() };
+    } catch (error) {
+      console.error('Error generating tiles:', error);
+      tiles = {
+        status: 'failed',
+        sourceS3Key,
+        generatedAt: new Date().toISOString(),
+        error: (error as Error).message,
+      };
+    }
+
+    // Null when the file was deleted or got new content meanwhile
+    return this.metadata.setFileTiles(projectId, fileId, tiles);
+  }
+
+  /**
+   * Build missing pyramids for every uploaded image of a project
+   */
+  async generateForProject(
+    projectId: string,
+    options: { force?: boolean } = {}
+  ): Promise<ProjectTilesReport> {
+    const report: ProjectTilesReport = { projectId, files: [] };
+
+    let lastKey: PaginationKey | undefined;
+    do {
+      const page = await this.metadata.getFilesByProject(projectId, { status: 'uploaded', lastKey });
+      for (const file of page.files.filter((candidate) => this.isSupported(candidate))) {
+        const updated = (await this.generate(projectId, file.fileId, options)) ?? file;
+        report.files.push({
+          fileId: file.fileId,
+          fileName: file.fileName,
+          status: this.getStatus(updated),
+        });
+      }
+      lastKey = page.lastKey;
+    } while (lastKey);
+
+    return report;
+  }
+
+  /**
+   * Describe a file's pyramid and the tile grid of each level
+   */
+  describe(file: FileMetadata): FileTilesResponse {
+    const status = this.getStatus(file);
+    const current = file.tiles?.sourceS3Key === file.s3Key ? file.tiles : undefined;
+
+    if (status !== 'ready' || !current?.pyramid) {
+      return { fileId: file.fileId, status, error: current?.error };
+    }
+
+    const { s3Prefix, ...pyramid } = current.pyramid;
+    return { fileId: file.fileId, status, pyramid: { ...pyramid, levels: getLevels(current.pyramid) } };
+  }
+
+  /**
+   * Get the tile grid of one level of a file's ready pyramid
+   */
+  getLevel(file: FileMetadata, level: number): TileLevel | null {
+    if (this.getStatus(file) !== 'ready' || !file.tiles?.pyramid) {
+      return null;
+    }
+
+    return getLevels(file.tiles.pyramid)[level] ?? null;
+  }
+
+  /**
+   * Presign the tiles of a level within the given columns and rows
+   *
+   * Ranges are clamped to the level's grid; callers bound their size.
+   */
+  async getTileUrls(
+    file: FileMetadata,
+    level: TileLevel,
+    columns: TileRange,
+    rows: TileRange
+  ): Promise<TileUrlsResponse> {
+    const pyramid = file.tiles!.pyramid!;
+    const requests: Promise<{ column: number; row: number; url: string; expiresIn: number }>[] = [];
+
+    for (let row = rows.from; row <= Math.min(rows.to, level.rows - 1); row++) {
+      for (let column = columns.from; column <= Math.min(columns.to, level.columns - 1); column++) {
+        const s3Key = buildTileKey(pyramid.s3Prefix, level.level, column, row, pyramid.format);
+        requests.push(
+          this.storage
+            .generateDownloadUrl(s3Key)
+            .then(({ downloadUrl, expiresIn }) => ({ column, row, url: downloadUrl, expiresIn }))
+        );
+      }
+    }
+
+    const tiles = await Promise.all(requests);
+    return {
+      fileId: file.fileId,
+      level: level.level,
+      tiles: tiles.map(({ column, row, url }) => ({ column, row, url })),
+      expiresIn: tiles[0]?.expiresIn ?? 0,
+    };
+  }
+
+  /**
+   * Render and store every tile of a file's pyramid
+   *
+   * Returns the reason instead when the image is not tiled.
+   */
+  private async build(file: FileMetadata): Promise<TilePyramid | string> {
+    const source = await this.storage.readObject(file.s3Key);
+
+    // Check the header first, so oversized images are never decoded
+    const dimensions = readImageDimensions(source);
+    if (!dimensions) {
+      return 'Images whose size cannot be read from their header are not tiled';
+    }
+    const skipReason = this.getSkipReason(dimensions.width, dimensions.height);
+    if (skipReason) {
+      return skipReason;
+    }
+
+    const decoded = (await Jimp.read(source)) as JimpInstance;
+    const decodedSkipReason = this.getSkipReason(decoded.width, decoded.height);
+    if (decodedSkipReason) {
+      return decodedSkipReason;
+    }
+
+    const pyramid: TilePyramid = {
+      s3Prefix: buildTilePrefix(file.s3Key),
+      format: 'jpg',
+      tileSize: this.config.tileSize,
+      overlap: TILE_OVERLAP,
+      width: decoded.width,
+      height: decoded.height,
+      maxLevel: Math.ceil(Math.log2(Math.max(decoded.width, decoded.height))),
+    };
+
+    // Each level is halved from the one above it, starting at full size
+    let image = flattenImage(decoded);
+    for (const level of getLevels(pyramid).reverse()) {
+      if (image.width !== level.width || image.height !== level.height) {
+        image = image.resize({ w: level.width, h: level.height }) as JimpInstance;
+      }
+      await this.storeLevel(pyramid, level, image);
+    }
+
+    return pyramid;
+  }
+
+  private async storeLevel(pyramid: TilePyramid, level: TileLevel, image: JimpInstance): Promise<void> {
+    let uploads: Promise<void>[] = [];
+
+    for (let row = 0; row < level.rows; row++) {
+      for (let column = 0; column < level.columns; column++) {
+        const bounds = getTileBounds(pyramid, level, column, row);
+        const tile = new Jimp({ width: bounds.width, height: bounds.height });
+        tile.blit({
+          src: image,
+          x: 0,
+          y: 0,
+          srcX: bounds.x,
+          srcY: bounds.y,
+          srcW: bounds.width,
+          srcH: bounds.height,
+        });
+
+        const body = await tile.getBuffer('image/jpeg', { quality: TILE_QUALITY });
+        const s3Key = buildTileKey(pyramid.s3Prefix, level.level, column, row, pyramid.format);
+        uploads.push(this.storage.putObject(s3Key, body, 'image/jpeg'));
+
+        if (uploads.length >= UPLOAD_CONCURRENCY) {
+          await Promise.all(uploads);
+          uploads = [];
+        }
+      }
+    }
+
+    await Promise.all(uploads);
+  }
+
+  private getSkipReason(width: number, height: number): string | null {
+    if (Math.max(width, height) <= this.config.minDimension) {
+      return `Images up to ${this.config.minDimension} pixels are viewed without tiles`;
+    }
+
+    if (width * height > this.config.maxPixels) {
+      return `Images over ${this.config.maxPixels} pixels are not tiled`;
+    }
+
+    return null;
+  }
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Size and tile grid of every level, from level 0 up to full size
+ */
+function getLevels(pyramid: TilePyramid): TileLevel[] {
+  const levels: TileLevel[] = [];
+
+  for (let level = 0; level <= pyramid.maxLevel; level++) {
+    const scale = Math.pow(2, pyramid.maxLevel - level);
+    const width = Math.ceil(pyramid.width / scale);
+    const height = Math.ceil(pyramid.height / scale);
+
+    levels.push({
+      level,
+      width,
+      height,
+      columns: Math.ceil(width / pyramid.tileSize),
+      rows: Math.ceil(height / pyramid.tileSize),
+    });
+  }
+
+  return levels;
+}
+
+/**
+ * Pixel area of a tile within its level, including the overlap on inner edges
+ */
+function getTileBounds(
+  pyramid: TilePyramid,
+  level: TileLevel,
+  column: number,
+  row: number
+): { x: number; y: number; width: number; height: number } {
+  const x = column * pyramid.tileSize - (column > 0 ? pyramid.overlap : 0);
+  const y = row * pyramid.tileSize - (row > 0 ? pyramid.overlap : 0);
+  const right = Math.min((column + 1) * pyramid.tileSize + pyramid.overlap, level.width);
+  const bottom = Math.min((row + 1) * pyramid.tileSize + pyramid.overlap, level.height);
+
+  return { x, y, width: right - x, height: bottom - y };
+}
+
+// Export singleton instance
+export const tileService = new TileService();
@@ -0,0 +1,182 @@
+/**
+ * Token Service - Verifies JWT access tokens against a JWKS
+ */
+
+import fs from 'fs';
+import {
+  createLocalJWKSet,
+  createRemoteJWKSet,
+  errors,
+  jwtVerify,
+  JSONWebKeySet,
+  JWTPayload,
+  JWTVerifyGetKey,
+} from 'jose';
+import { AUTH_CONFIG } from '../config/auth.config';
+import { UserContext } from '../types';
+
+/**
+ * Options for creating a token verifier
+ */
+export interface TokenVerifierOptions {
+  jwks: JSONWebKeySet | URL;
+  issuer?: string;
+  audience?: string[];
+  algorithms?: string[];
+  clockToleranceSeconds?: number;
+  rolesClaim?: string;
+}
+
+/**
+ * Error raised when a token fails verification
+ */
+export class TokenVerificationError extends Error {
+  constructor(
+    public code: 'INVALID_TOKEN' | 'TOKEN_EXPIRED',
+    message: string
+  ) {
+    super(message);
+    this.name = 'TokenVerificationError';
+  }
+}
+
+/**
+ * Verifies RS256/ES256 JWTs and maps their claims to a user context
+ */
+export class TokenVerifier {
+  private keySet: JWTVerifyGetKey;
+  private issuer?: string;
+  private audience: string[];
+  private algorithms: string[];
+  private clockToleranceSeconds: number;
+  private rolesClaim: string;
+
+  constructor(options: TokenVerifierOptions) {
+    this.keySet =
+      options.jwks instanceof URL
+        ? createRemoteJWKSet(options.jwks)
+        : createLocalJWKSet(options.jwks);
+    this.issuer = options.issuer;
+    this.audience = options.audience || [];
+    this.algorithms = options.algorithms || ['RS256', 'ES256'];
+    this.clockToleranceSeconds = options.clockToleranceSeconds ?? 5;
+    this.rolesClaim = options.rolesClaim || 'cognito:groups';
+  }
+
+  /**
+   * Verify a token and return the authenticated user
+   */
+  async verify(token: string): Promise<UserContext> {
+    let payload: JWTPayload;
+
+    try {
+      ({ payload } = await jwtVerify(token, this.keySet, {
+        algorithms: this.algorithms,
+        issuer: this.issuer,
+        clockTolerance: this.clockToleranceSeconds,
+      }));
+    } catch (error) {
+      if (error instanceof errors.JWTExpired) {
+        throw new TokenVerificationError('TOKEN_EXPIRED', 'Token has expired');
+      }
+      if (error instanceof errors.JOSEError) {
+        throw new TokenVerificationError('INVALID_TOKEN', 'Token is invalid');
+      }
+      throw error;
+    }
+
+    if (!this.hasValidAudience(payload)) {
+      throw new TokenVerificationError('INVALID_TOKEN', 'Token audience is not allowed');
+    }
+
+    if (!payload.sub) {
+      throw new TokenVerificationError('INVALID_TOKEN', 'Token has no subject');
+    }
+
+    return claimsToUserContext(payload, this.rolesClaim);
+  }
+
+  /**
+   * Check the audience, accepting Cognito access tokens which carry `client_id`
+   * instead of `aud`
+   */
+  private hasValidAudience(payload: JWTPayload): boolean {
+    if (this.audience.length === 0) {
+      return true;
+    }
+
+    const audiences = Array.isArray(payload.aud) ? payload.aud : payload.aud ? [payload.aud] : [];
+    if (typeof payload.client_id === 'string') {
+      audiences.push(payload.client_id);
+    }
+
+    return audiences.some((aud) => this.audience.includes(aud));
+  }
+}
+
+/**
+ * Map token claims to a user context
+ */
+export function claimsToUserContext(
+  claims: Record<string, unknown>,
+  rolesClaim: string = AUTH_CONFIG.rolesClaim
+): UserContext {
+  const rawRoles = claims[rolesClaim] ?? claims.roles;
+  const roles = Array.isArray(rawRoles)
+    ? rawRoles.map(String)
+    : typeof rawRoles === 'string'
+      ? rawRoles.split(/[\s,]+/).filter(Boolean)
+      : [];
+
+  return {
+    userId: String(claims.sub),
+    ...(typeof claims.email === 'string' && { email: claims.email }),
+    roles,
+  };
+}
+
+/**
+ * Create a token verifier from configuration
+ *
+ * Returns null when no key set is configured.
+ */
+export function createTokenVerifier(config: typeof AUTH_CONFIG = AUTH_CONFIG): TokenVerifier | null {
+  let jwks: JSONWebKeySet | URL | undefined;
+
+  if (config.jwks) {
+    jwks = JSON.parse(config.jwks) as JSONWebKeySet;
+  } else if (config.jwksFile) {
+    jwks = JSON.parse(fs.readFileSync(config.jwksFile, 'utf-8')) as JSONWebKeySet;
+  } else if (config.jwksUri) {
+    jwks = new URL(config.jwksUri);
+  }
+
+  if (!jwks) {
+    return null;
+  }
+
+  return new TokenVerifier({
+    jwks,
+    issuer: config.issuer,
+    audience: config.audience,
+    algorithms: config.algorithms,
+    clockToleranceSeconds: config.clockToleranceSeconds,
+    rolesClaim: config.rolesClaim,
+  });
+}
+
+let tokenVerifier: TokenVerifier | null = createTokenVerifier();
+
+/**
+ * Get the active token verifier
+ */
+export function getTokenVerifier(): TokenVerifier | null {
+  return tokenVerifier;
+}
+
+/**
+ * Replace the active token verifier (e.g. with a local key set in tests)
+ */
+export function setTokenVerifier(verifier: TokenVerifier | null): void {
+  tokenVerifier = verifier;
+}
@@ -0,0 +1,369 @@
+/**
+ * Trash Service - Soft delete, restore and purge of files and projects
+ *
+ * Deleting moves a file or project to the trash: records keep their data with
+ * status `deleted` and objects stay in storage. Trashed items can be restored
+ * within the retention window; the purge job removes them for good afterwards.
+ * Project statistics only count live uploaded files, so they change when a
+ * file enters or leaves the trash, never when a trashed file is purged.
+ * Restoring counts against the quotas like uploading again.
+ */
+
+import { MAINTENANCE_CONFIG } from '../config/aws.config';
+import {
+  FileMetadata,
+  FileQueryOptions,
+  MetadataRepository,
+  PaginationKey,
+  Project,
+  ProjectStatsChange,
+  StorageProvider,
+} from '../types';
+import { AuditService, auditService, SYSTEM_ACTOR } from './audit.service';
+import { metadataRepository } from './metadata.service';
+import { QuotaExceededError, QuotaService, quotaService } from './quota.service';
+import { storageService } from './storage.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Options for a trash purge
+ */
+export interface PurgeOptions {
+  retentionDays?: number; // Defaults to TRASH_RETENTION_DAYS
+  dryRun?: boolean; // Report what would be purged without changing anything
+  now?: Date;
+}
+
+/**
+ * Summary of a trash purge
+ */
+export interface PurgeReport {
+  cutoff: string; // Items trashed before this time were purged
+  dryRun: boolean;
+  projects: { projectId: string; name: string; objectsDeleted: number }[];
+  files: { projectId: string; fileId: string; fileName: string }[];
+  failed: { projectId: string; fileId?: string; error: string }[];
+}
+
+/**
+ * Trash Service class
+ */
+export class TrashService {
+  constructor(
+    private metadata: MetadataRepository = metadataRepository,
+    private storage: StorageProvider = storageService,
+    private audit: AuditService = auditService,
+    private quota: QuotaService = quotaService
+  ) {}
+
+  /**
+   * When a trashed item is purged (records trashed before deletion times
+   * were kept fall back to their last update)
+   */
+  getPurgeDate(item: FileMetadata | Project): Date {
+    const trashedAt =
+      item.deletedAt ?? item.updatedAt ?? (item as FileMetadata).uploadedAt;
+    return new Date(new Date(trashedAt).getTime() + MAINTENANCE_CONFIG.trashRetentionDays * DAY_MS);
+  }
+
+  /**
+   * Check whether a trashed item can still be restored
+   */
+  isRestorable(item: FileMetadata | Project, now: Date = new Date()): boolean {
+    return item.status === 'deleted' && this.getPurgeDate(item) > now;
+  }
+
+  // ==================== FILES ====================
+
+  /**
+   * Move a file to the trash
+   *
+   * Null when the file was already trashed or changed status meanwhile.
+   */
+  async trashFile(
+    ownerId: string,
+    file: FileMetadata,
+    options?: { withProject?: boolean }
+  ): Promise<FileMetadata | null> {
+    // Discard the parts of an unfinished multipart upload
+    if (file.multipart) {
+      await this.storage.abortMultipartUpload(file.s3Key, file.multipart.uploadId);
+    }
+
+    return this.metadata.deleteFile(file.projectId, file.fileId, {
+      ...options,
+      expectedStatus: file.status,
+      stats: file.status === 'uploaded' ? removalStats(ownerId, file) : undefined,
+    });
+  }
+
+  /**
+   * Take a file out of the trash
+   *
+   * Throws QuotaExceededError when counting the file again would exceed a quota.
+   */
+  async restoreFile(project: Project, file: FileMetadata): Promise<FileMetadata | null> {
+    await this.checkQuota(project, [file]);
+    return this.restoreFileRecord(project.ownerId, file);
+  }
+
+  /**
+   * Permanently delete a file with every version and stored object
+   *
+   * `ownerId` is needed for files that are not in the trash, so the project
+   * statistics can be updated. Resolves to false, deleting nothing, when the
+   * file changed status since it was read.
+   */
+  async purgeFile(file: FileMetadata, ownerId?: string): Promise<boolean> {
+    // Removing the record first makes a concurrent trash or restore of the file fail
+    const removed = await this.metadata.hardDeleteFile(file.projectId, file.fileId, {
+      expectedStatus: file.status,
+      stats: ownerId && file.status === 'uploaded' ? removalStats(ownerId, file) : undefined,
+    });
+    if (!removed) {
+      return false;
+    }
+
+    if (file.multipart) {
+      await this.storage.abortMultipartUpload(file.s3Key, file.multipart.uploadId);
+    }
+
+    const s3Keys = new Set([file.s3Key]);
+    let versionsKey: PaginationKey | undefined;
+    do {
+      const page = await this.metadata.getFileVersions(file.projectId, file.fileId, {
+        lastKey: versionsKey,
+      });
+      page.versions.forEach((version) => s3Keys.add(version.s3Key));
+      versionsKey = page.lastKey;
+    } while (versionsKey);
+
+    for (const s3Key of s3Keys) {
+      await this.storage.deleteObject(s3Key);
+    }
+    // Previews and other derived objects live under the file's own prefix
+    await this.storage.deleteObjectsWithPrefix(`${file.projectId}/${file.fileId}/`);
+    await this.metadata.deleteFileVersions(file.projectId, file.fileId);
+    return true;
+  }
+
+  // ==================== PROJECTS ====================
+
+  /**
+   * Move a project and all of its files to the trash
+   */
+  async trashProject(project: Project): Promise<{ project: Project | null; files: number }> {
+    // Trash the project first so its files can no longer be reached
+    const trashed = await this.metadata.deleteProject(project.ownerId, project.projectId);
+    if (!trashed) {
+      return { project: null, files: 0 };
+    }
+
+    let files = 0;
+    await this.forEachFile(project.projectId, {}, async (file) => {
+      if (await this.trashFile(project.ownerId, file, { withProject: true })) {
+        files++;
+      }
+    });
+
+    return { project: trashed, files };
+  }
+
+  /**
+   * Take a project out of the trash with the files that were trashed with it
+   *
+   * Files deleted on their own before the project stay in the trash. Throws
+   * QuotaExceededError, restoring nothing, when counting the files again
+   * would exceed a quota.
+   */
+  async restoreProject(project: Project): Promise<{ project: Project | null; files: number }> {
+    const trashedFiles: FileMetadata[] = [];
+    await this.forEachFile(project.projectId, { status: 'deleted' }, async (file) => {
+      if (file.deletedWithProject) {
+        trashedFiles.push(file);
+      }
+    });
+    await this.checkQuota(project, trashedFiles);
+
+    const restored = await this.metadata.restoreProject(project.ownerId, project.projectId);
+    if (!restored) {
+      return { project: null, files: 0 };
+    }
+
+    let files = 0;
+    for (const file of trashedFiles) {
+      if (await this.restoreFileRecord(project.ownerId, file)) {
+        files++;
+      }
+    }
+
+    const current = await this.metadata.getProjectById(project.ownerId, project.projectId);
+    return { project: current, files };
+  }
+
+  /**
+   * Permanently delete a project with its records and stored objects
+   */
+  async purgeProject(project: Project): Promise<number> {
+    // Abort multipart uploads still in progress; their parts are not objects yet
+    await this.forEachFile(project.projectId, { status: 'pending' }, async (file) => {
+      if (file.multipart) {
+        await this.storage.abortMultipartUpload(file.s3Key, file.multipart.uploadId);
+      }
+    });
+
+    const objectsDeleted = await this.storage.deleteObjectsWithPrefix(`${project.projectId}/`);
+    await this.metadata.purgeProject(project.ownerId, project.projectId);
+
+    return objectsDeleted;
+  }
+
+  // ==================== PURGE JOB ====================
+
+  /**
+   * Permanently delete every file and project trashed longer than the retention window
+   */
+  async purgeExpired(options: PurgeOptions = {}): Promise<PurgeReport> {
+    const retentionDays = options.retentionDays ?? MAINTENANCE_CONFIG.trashRetentionDays;
+    const now = options.now ?? new Date();
+    const report: PurgeReport = {
+      cutoff: new Date(now.getTime() - retentionDays * DAY_MS).toISOString(),
+      dryRun: options.dryRun ?? false,
+      projects: [],
+      files: [],
+      failed: [],
+    };
+
+    let lastKey: PaginationKey | undefined;
+    do {
+      const page = await this.metadata.findTrashedItems({
+        deletedBefore: report.cutoff,
+        lastKey,
+      });
+
+      for (const project of page.projects) {
+        try {
+          const objectsDeleted = report.dryRun ? 0 : await this.purgeProject(project);
+          if (!report.dryRun) {
+            await this.audit.record(SYSTEM_ACTOR, {
+              projectId: project.projectId,
+              action: 'project.purged',
+              resourceType: 'project',
+              resourceId: project.projectId,
+              before: project,
+              details: { objectsDeleted },
+            });
+          }
+          report.projects.push({ projectId: project.projectId, name: project.name, objectsDeleted });
+        } catch (error) {
+          console.error('Error purging project:', error);
+          report.failed.push({ projectId: project.projectId, error: (error as Error).message });
+        }
+      }
+
+      for (const file of page.files) {
+        try {
+          if (!report.dryRun) {
+            // The file may have been restored or purged with its project meanwhile
+            const current = await this.metadata.getFileById(file.projectId, file.fileId);
+            if (current?.status !== 'deleted') continue;
+            if (!(await this.purgeFile(current))) continue;
+
+            await this.audit.record(SYSTEM_ACTOR, {
+              projectId: current.projectId,
+              action: 'file.purged',
+              resourceType: 'file',
+              resourceId: current.fileId,
+              before: current,
+            });
+          }
+          report.files.push({
+            projectId: file.projectId,
+            fileId: file.fileId,
+            fileName: file.fileName,
+          });
+        } catch (error) {
+          console.error('Error purging file:', error);
+          report.failed.push({
+            projectId: file.projectId,
+            fileId: file.fileId,
+            error: (error as Error).message,
+          });
+        }
+      }
+
+      lastKey = page.lastKey;
+    } while (lastKey);
+
+    return report;
+  }
+
+  // ==================== HELPERS ====================
+
+  /**
+   * Check that counting trashed files again stays within the quotas
+   */
+  private async checkQuota(project: Project, files: FileMetadata[]): Promise<void> {
+    const uploads = files.filter(restoresUpload);
+    if (uploads.length === 0) {
+      return;
+    }
+
+    const violation = await this.quota.checkUpload(project, {
+      fileCountDelta: uploads.length,
+      sizeDelta: uploads.reduce((total, file) => total + file.fileSize, 0),
+    });
+
+    if (violation) {
+      throw new QuotaExceededError(violation, this.quota.describeViolation(violation));
+    }
+  }
+
+  /**
+   * Restore a file's record, counting it in the project statistics again
+   * when it was an upload
+   */
+  private async restoreFileRecord(ownerId: string, file: FileMetadata): Promise<FileMetadata | null> {
+    return this.metadata.restoreFile(file.projectId, file.fileId, {
+      stats: restoresUpload(file)
+        ? { ownerId, fileCountDelta: 1, sizeDelta: file.fileSize }
+        : undefined,
+    });
+  }
+
+  /**
+   * Visit every file of a project matching the query, across all pages
+   */
+  private async forEachFile(
+    projectId: string,
+    options: Omit<FileQueryOptions, 'lastKey'>,
+    visit: (file: FileMetadata) => Promise<void>
+  ): Promise<void> {
+    let lastKey: PaginationKey | undefined;
+    do {
+      const page = await this.metadata.getFilesByProject(projectId, { ...options, lastKey });
+      for (const file of page.files) {
+        await visit(file);
+      }
+      lastKey = page.lastKey;
+    } while (lastKey);
+  }
+}
+
+/**
+ * Whether a trashed file was uploaded, so restoring it counts it again
+ */
+function restoresUpload(file: FileMetadata): boolean {
+  return (file.statusBeforeDelete || 'uploaded') === 'uploaded';
+}
+
+/**
+ * Statistics change for an uploaded file leaving the project
+ */
+function removalStats(ownerId: string, file: FileMetadata): ProjectStatsChange {
+  return { ownerId, fileCountDelta: -1, sizeDelta: -file.fileSize };
+}
+
+// Export singleton instance
+export const trashService = new TrashService();
@@ -0,0 +1,113 @@
+/**
+ * Upload Notification Service - Confirms uploads when storage reports their object
+ *
+ * Clients confirm an upload after PUTting it, so a client that goes away in
+ * between leaves the file pending although its object exists. Notifications
+ * of created objects (S3 ObjectCreated events, or the local storage provider
+ * in development) confirm such uploads as the `system` actor. Confirming is
+ * idempotent, so it does not matter whether the client or the notification
+ * comes first. Only first uploads of a file are handled: new versions and
+ * multipart uploads are still confirmed by their own endpoints, and generated
+ * previews and tiles are ignored.
+ */
+
+import { MetadataRepository } from '../types';
+import { parseStorageKey } from '../utils/file.utils';
+import { SYSTEM_ACTOR } from './audit.service';
+import { FileOperationError, FileService, fileService } from './file.service';
+import { metadataRepository } from './metadata.service';
+
+/**
+ * An upload confirmed from a notification
+ */
+export interface NotifiedUpload {
+  projectId: string;
+  fileId: string;
+  s3Key: string;
+}
+
+/**
+ * An object whose upload could not be confirmed
+ */
+export interface NotificationFailure {
+  s3Key: string;
+  error: string;
+}
+
+/**
+ * Summary of handling a batch of notifications
+ */
+export interface NotificationReport {
+  confirmed: NotifiedUpload[];
+  skipped: number; // Not a pending upload, or confirmed by its client first
+  failed: NotificationFailure[]; // Including uploads that failed verification or were quarantined
+}
+
+/**
+ * Upload Notification Service class
+ */
+export class UploadNotificationService {
+  constructor(
+    private metadata: MetadataRepository = metadataRepository,
+    private files: FileService = fileService
+  ) {}
+
+  /**
+   * Confirm the uploads of newly created objects
+   */
+  async handleObjectsCreated(s3Keys: string[]): Promise<NotificationReport> {
+    const report: NotificationReport = { confirmed: [], skipped: 0, failed: [] };
+
+    for (const s3Key of s3Keys) {
+      try {
+        const confirmed = await this.confirmObject(s3Key);
+        if (confirmed) {
+          report.confirmed.push(confirmed);
+        } else {
+          report.skipped++;
+        }
+      } catch (error) {
+        if (!(error instanceof FileOperationError)) {
+          console.error(`Error confirming upload of ${s3Key}:`, error);
+        }
+        report.failed.push({
+          s3Key,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Confirm the pending upload stored under a key
+   *
+   * Returns null when the key belongs to no pending upload of a live project.
+   */
+  private async confirmObject(s3Key: string): Promise<NotifiedUpload | null> {
+    const parsed = parseStorageKey(s3Key);
+    if (!parsed) {
+      return null;
+    }
+
+    const { projectId, fileId } = parsed;
+    const ownerId = await this.metadata.getProjectOwnerId(projectId);
+    const project = ownerId ? await this.metadata.getProjectById(ownerId, projectId) : null;
+    if (!project || project.status !== 'active') {
+      return null;
+    }
+
+    const file = await this.metadata.getFileById(projectId, fileId);
+    if (!file || file.s3Key !== s3Key || file.status !== 'pending' || file.multipart) {
+      return null;
+    }
+
+    const { stats } = await this.files.confirmUpload(project, fileId, SYSTEM_ACTOR);
+    // An unchanged count means the client confirmed the file meanwhile
+    return stats.fileCountDelta ? { projectId, fileId, s3Key } : null;
+  }
+}
+
+// Export singleton instance
+export const uploadNotificationService = new UploadNotificationService();
@@ -0,0 +1,218 @@
+/**
+ * Upload Sweeper Service - Expires abandoned pending uploads
+ *
+ * Requesting an upload writes a pending record before any bytes arrive. When
+ * the client never confirms, the sweeper marks the record expired and removes
+ * whatever reached storage: a partial object or the parts of a multipart upload.
+ */
+
+import { MAINTENANCE_CONFIG } from '../config/aws.config';
+import { FileMetadata, FileVersion, MetadataRepository, PaginationKey, StorageProvider } from '../types';
+import { AuditService, auditService, SYSTEM_ACTOR } from './audit.service';
+import { metadataRepository } from './metadata.service';
+import { storageService } from './storage.service';
+
+/**
+ * Options for a sweep
+ */
+export interface SweepOptions {
+  ttlSeconds?: number; // Defaults to PENDING_UPLOAD_TTL
+  dryRun?: boolean; // Report what would be expired without changing anything
+  now?: Date;
+}
+
+/**
+ * A pending upload the sweeper expired (or would expire in a dry run)
+ */
+export interface SweptUpload {
+  projectId: string;
+  fileId: string;
+  version?: number; // Set for version uploads
+  fileName: string;
+  s3Key: string;
+  uploadedAt: string;
+  multipart: boolean;
+  objectRemoved: boolean; // Whether a stored object was deleted
+}
+
+/**
+ * A pending upload the sweeper could not expire
+ */
+export interface SweepFailure {
+  projectId: string;
+  fileId: string;
+  version?: number;
+  error: string;
+}
+
+/**
+ * Summary of a sweep
+ */
+export interface SweepReport {
+  cutoff: string; // Uploads requested before this time were eligible
+  dryRun: boolean;
+  expired: SweptUpload[];
+  skipped: number; // Confirmed or resumed while the sweep ran
+  failed: SweepFailure[];
+}
+
+/**
+ * Upload Sweeper Service class
+ */
+export class UploadSweeperService {
+  constructor(
+    private metadata: MetadataRepository = metadataRepository,
+    private storage: StorageProvider = storageService,
+    private audit: AuditService = auditService
+  ) {}
+
+  /**
+   * Expire every pending upload older than the TTL
+   */
+  async sweep(options: SweepOptions = {}): Promise<SweepReport> {
+    const ttlSeconds = options.ttlSeconds ?? MAINTENANCE_CONFIG.pendingUploadTtl;
+    const now = options.now ?? new Date();
+    const report: SweepReport = {
+      cutoff: new Date(now.getTime() - ttlSeconds * 1000).toISOString(),
+      dryRun: options.dryRun ?? false,
+      expired: [],
+      skipped: 0,
+      failed: [],
+    };
+
+    let lastKey: PaginationKey | undefined;
+    do {
+      const page = await this.metadata.findPendingUploads({
+        uploadedBefore: report.cutoff,
+        lastKey,
+      });
+
+      for (const file of page.files) {
+        await this.sweepFile(file, report);
+      }
+      for (const { projectId, version } of page.versions) {
+        await this.sweepVersion(projectId, version, report);
+      }
+
+      lastKey = page.lastKey;
+    } while (lastKey);
+
+    return report;
+  }
+
+  /**
+   * Expire a pending file upload and remove what reached storage
+   */
+  private async sweepFile(file: FileMetadata, report: SweepReport): Promise<void> {
+    // Multipart uploads stay alive while parts keep arriving
+    if (file.multipart && file.multipart.updatedAt >= report.cutoff) {
+      return;
+    }
+
+    try {
+      const objectExists = await this.storage.objectExists(file.s3Key);
+
+      if (!report.dryRun) {
+        const expired = await this.metadata.expirePendingFile(file.projectId, file.fileId);
+        if (!expired) {
+          report.skipped++;
+          return;
+        }
+
+        if (file.multipart) {
+          await this.storage.abortMultipartUpload(file.s3Key, file.multipart.uploadId);
+        }
+        if (objectExists) {
+          await this.storage.deleteObject(file.s3Key);
+        }
+
+        await this.audit.record(SYSTEM_ACTOR, {
+          projectId: file.projectId,
+          action: 'file.expired',
+          resourceType: 'file',
+          resourceId: file.fileId,
+          before: file,
+          after: expired,
+        });
+      }
+
+      report.expired.push({
+        projectId: file.projectId,
+        fileId: file.fileId,
+        fileName: file.fileName,
+        s3Key: file.s3Key,
+        uploadedAt: file.uploadedAt,
+        multipart: !!file.multipart,
+        objectRemoved: objectExists,
+      });
+    } catch (error) {
+      console.error('Error expiring pending upload:', error);
+      report.failed.push({
+        projectId: file.projectId,
+        fileId: file.fileId,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Expire a pending version upload and remove what reached storage
+   */
+  private async sweepVersion(
+    projectId: string,
+    version: FileVersion,
+    report: SweepReport
+  ): Promise<void> {
+    try {
+      const objectExists = await this.storage.objectExists(version.s3Key);
+
+      if (!report.dryRun) {
+        const expired = await this.metadata.expirePendingFileVersion(
+          projectId,
+          version.fileId,
+          version.version
+        );
+        if (!expired) {
+          report.skipped++;
+          return;
+        }
+
+        if (objectExists) {
+          await this.storage.deleteObject(version.s3Key);
+        }
+
+        await this.audit.record(SYSTEM_ACTOR, {
+          projectId,
+          action: 'file.expired',
+          resourceType: 'file',
+          resourceId: version.fileId,
+          before: version,
+          after: expired,
+          details: { version: version.version },
+        });
+      }
+
+      report.expired.push({
+        projectId,
+        fileId: version.fileId,
+        version: version.version,
+        fileName: version.fileName,
+        s3Key: version.s3Key,
+        uploadedAt: version.uploadedAt,
+        multipart: false,
+        objectRemoved: objectExists,
+      });
+    } catch (error) {
+      console.error('Error expiring pending version upload:', error);
+      report.failed.push({
+        projectId,
+        fileId: version.fileId,
+        version: version.version,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
+
+// Export singleton instance
+export const uploadSweeperService = new UploadSweeperService();
@@ -0,0 +1,165 @@
+/**
+ * Upload Verification Service - Checks stored objects against their declared metadata
+ *
+ * Run when an upload is confirmed: the stored object must exist and match the
+ * declared size, MIME type and, when the client sent one, SHA-256 checksum.
+ * Its content is then sniffed to detect the real type.
+ */
+
+import { StorageProvider } from '../types';
+import { storageService } from './storage.service';
+import { isMimeTypeAllowedForProject } from '../utils/file.utils';
+import { MIME_SNIFF_BYTES, detectMimeType, isDetectedTypeCompatible } from '../utils/mime.utils';
+
+/**
+ * What the client declared about an upload
+ */
+export interface ExpectedUpload {
+  s3Key: string;
+  fileSize: number;
+  fileType: string;
+  expectedChecksumSha256?: string;
+}
+
+/**
+ * A declared attribute that does not match the stored object
+ */
+export interface UploadMismatch {
+  field: 'fileSize' | 'fileType' | 'checksumSha256';
+  expected: string | number;
+  actual: string | number | null;
+}
+
+/**
+ * Result of verifying an upload
+ */
+export interface UploadVerificationResult {
+  exists: boolean;
+  valid: boolean;
+  mismatches: UploadMismatch[];
+  checksumSha256?: string; // Checksum reported by storage, once verified
+}
+
+/**
+ * Result of inspecting an upload's content
+ */
+export interface ContentInspectionResult {
+  detectedType: string | null;
+  quarantined: boolean;
+  quarantineReason?: string;
+}
+
+/**
+ * Upload Verification Service class
+ */
+export class UploadVerificationService {
+  constructor(private storage: StorageProvider = storageService) {}
+
+  /**
+   * Compare the stored object with what was declared for it
+   */
+  async verify(expected: ExpectedUpload): Promise<UploadVerificationResult> {
+    const metadata = await this.storage.getObjectMetadata(expected.s3Key);
+    if (!metadata) {
+      return { exists: false, valid: false, mismatches: [] };
+    }
+
+    const mismatches: UploadMismatch[] = [];
+
+    if (metadata.contentLength !== expected.fileSize) {
+      mismatches.push({
+        field: 'fileSize',
+        expected: expected.fileSize,
+        actual: metadata.contentLength ?? null,
+      });
+    }
+
+    if (normalizeContentType(metadata.contentType) !== normalizeContentType(expected.fileType)) {
+      mismatches.push({
+        field: 'fileType',
+        expected: expected.fileType,
+        actual: metadata.contentType ?? null,
+      });
+    }
+
+    if (
+      expected.expectedChecksumSha256 &&
+      metadata.checksumSha256 !== expected.expectedChecksumSha256
+    ) {
+      mismatches.push({
+        field: 'checksumSha256',
+        expected: expected.expectedChecksumSha256,
+        actual: metadata.checksumSha256 ?? null,
+      });
+    }
+
+    return {
+      exists: true,
+      valid: mismatches.length === 0,
+      mismatches,
+      checksumSha256: mismatches.length === 0 ? metadata.checksumSha256 : undefined,
+    };
+  }
+
+  /**
+   * Detect the type of a stored object from its leading bytes and decide
+   * whether it must be quarantined
+   */
+  async inspectContent(
+    s3Key: string,
+    declaredType: string,
+    allowedMimeTypes?: string[]
+  ): Promise<ContentInspectionResult> {
+    const head = await this.storage.readObjectHead(s3Key, MIME_SNIFF_BYTES);
+    const detectedType = detectMimeType(head);
+
+    if (!isDetectedTypeCompatible(declaredType, detectedType)) {
+      return {
+        detectedType,
+        quarantined: true,
+        quarantineReason: `Content was detected as '${detectedType ?? 'unknown'}' but declared as '${declaredType}'`,
+      };
+    }
+
+    // The allow-list may have changed since the upload was requested
+    if (!isMimeTypeAllowedForProject(declaredType, allowedMimeTypes)) {
+      return {
+        detectedType,
+        quarantined: true,
+        quarantineReason: `File type '${declaredType}' is not allowed in this project`,
+      };
+    }
+
+    return { detectedType, quarantined: false };
+  }
+
+  /**
+   * Describe mismatches in a single error message
+   */
+  describeMismatches(mismatches: UploadMismatch[]): string {
+    const descriptions = mismatches.map((mismatch) => {
+      switch (mismatch.field) {
+        case 'fileSize':
+          return `size is ${mismatch.actual ?? 'unknown'} bytes, expected ${mismatch.expected}`;
+        case 'fileType':
+          return `type is '${mismatch.actual ?? 'unknown'}', expected '${mismatch.expected}'`;
+        case 'checksumSha256':
+          return mismatch.actual
+            ? 'SHA-256 checksum does not match'
+            : 'SHA-256 checksum was not recorded by storage';
+      }
+    });
+
+    return `Uploaded file does not match its declared metadata: ${descriptions.join('; ')}`;
+  }
+}
+
+/**
+ * Compare MIME types without parameters or case differences
+ */
+function normalizeContentType(contentType?: string): string {
+  return (contentType || '').split(';')[0].trim().toLowerCase();
+}
+
+// Export singleton instance
+export const uploadVerificationService = new UploadVerificationService();
@@ -0,0 +1,424 @@
+/**
+ * Webhook Service - Delivers lifecycle events to the webhooks of their project
+ *
+ * Each event a webhook subscribes to becomes a delivery record and is POSTed
+ * to the webhook URL as JSON, signed with the webhook's secret. Attempts that
+ * fail (no answer in time, or an answer other than 2xx) are retried with
+ * exponential backoff: by a timer in the process that made the attempt, and
+ * by the scheduled retry job for retries whose timer never fired, such as on
+ * a recycled Lambda instance. Events are delivered at least once, so
+ * receivers should skip delivery IDs they have already processed.
+ */
+
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import { WEBHOOK_CONFIG } from '../config/aws.config';
+import {
+  LifecycleEvent,
+  MetadataRepository,
+  PaginationKey,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookPayload,
+} from '../types';
+import { metadataRepository } from './metadata.service';
+
+/**
+ * Seconds a retry stays with the timer of the process that scheduled it
+ * before the scheduled retry job takes it over
+ */
+const RETRY_GRACE_PERIOD = 60;
+
+const USER_AGENT = 'FileManagementService-Webhooks/1.0';
+
+/**
+ * Summary of a run of the scheduled retry job
+ */
+export interface RetryReport {
+  dueBefore: string; // Retries due before this time were attempted
+  attempted: number;
+  succeeded: number;
+  rescheduled: number;
+  failed: number; // Out of attempts, or the webhook was deleted or disabled
+}
+
+/**
+ * Webhook Service class
+ */
+export class WebhookService {
+  constructor(
+    private metadata: MetadataRepository = metadataRepository,
+    private config: typeof WEBHOOK_CONFIG = WEBHOOK_CONFIG
+  ) {}
+
+  /**
+   * Generate a signing secret for a webhook
+   */
+  createSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+  }
+
+  /**
+   * Check that deliveries may be sent to a URL
+   *
+   * Only HTTP(S) URLs are accepted, and unless private URLs are allowed, not
+   * those whose host is or resolves to a loopback, private or link-local
+   * address. Names can be pointed elsewhere later, so deliveries check the
+   * addresses they connect to again.
+   */
+  async isAllowedUrl(url: string): Promise<boolean> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return false;
+    }
+
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      return false;
+    }
+
+    if (this.config.allowPrivateUrls) {
+      return true;
+    }
+
+    try {
+      await lookupPublicAddresses(parsed.hostname);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Signature of a delivery body: `sha256=` and the hex HMAC of `{timestamp}.{body}`
+   */
+  sign(secret: string, timestamp: string, body: string): string {
+    const hmac = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `sha256=${hmac}`;
+  }
+
+  /**
+   * Deliver an event to every active webhook of its project subscribed to it
+   */
+  async dispatch(event: LifecycleEvent): Promise<void> {
+    const webhooks = await this.metadata.getWebhooks(event.projectId);
+    const payload: WebhookPayload = {
+      id: event.eventId,
+      type: event.type,
+      createdAt: event.occurredAt,
+      projectId: event.projectId,
+      actorId: event.actorId,
+      data: event.data,
+    };
+
+    await Promise.all(
+      webhooks
+        .filter((webhook) => webhook.active && webhook.events.includes(event.type))
+        .map(async (webhook) => this.attempt(webhook, await this.createDelivery(webhook, payload)))
+    );
+  }
+
+  /**
+   * Send a `webhook.test` event to a webhook, active or not, and wait for the
+   * outcome; test deliveries are not retried
+   */
+  async sendTest(webhook: Webhook, actorId: string): Promise<WebhookDelivery> {
+    const delivery = await this.createDelivery(
+      webhook,
+      {
+        id: uuidv4(),
+        type: 'webhook.test',
+        createdAt: new Date().toISOString(),
+        projectId: webhook.projectId,
+        actorId,
+        data: { webhookId: webhook.webhookId },
+      },
+      true
+    );
+
+    return this.attempt(webhook, delivery);
+  }
+
+  /**
+   * Attempt every pending delivery whose retry is overdue
+   */
+  async retryDue(options: { now?: Date } = {}): Promise<RetryReport> {
+    const now = options.now ?? new Date();
+    const report: RetryReport = {
+      dueBefore: new Date(now.getTime() - RETRY_GRACE_PERIOD * 1000).toISOString(),
+      attempted: 0,
+      succeeded: 0,
+      rescheduled: 0,
+      failed: 0,
+    };
+
+    let lastKey: PaginationKey | undefined;
+    do {
+      const page = await this.metadata.findDueWebhookDeliveries({
+        dueBefore: report.dueBefore,
+        lastKey,
+      });
+
+      for (const delivery of page.deliveries) {
+        try {
+          const updated = await this.redeliver(delivery);
+          report.attempted++;
+          if (updated?.status === 'succeeded') report.succeeded++;
+          if (updated?.status === 'pending') report.rescheduled++;
+          if (updated?.status === 'failed') report.failed++;
+        } catch (error) {
+          console.error('Error retrying webhook delivery:', error);
+        }
+      }
+
+      lastKey = page.lastKey;
+    } while (lastKey);
+
+    return report;
+  }
+
+  /**
+   * Seconds to wait after a failed attempt before the next one
+   */
+  getRetryDelay(attemptNumber: number): number {
+    return this.config.retryBaseDelay * 2 ** (attemptNumber - 1);
+  }
+
+  private async createDelivery(
+    webhook: Webhook,
+    payload: WebhookPayload,
+    test = false
+  ): Promise<WebhookDelivery> {
+    const createdAt = new Date();
+
+    return this.metadata.createWebhookDelivery({
+      deliveryId: uuidv4(),
+      webhookId: webhook.webhookId,
+      projectId: webhook.projectId,
+      eventId: payload.id,
+      eventType: payload.type,
+      payload: JSON.stringify(payload),
+      status: 'pending',
+      attempts: [],
+      ...(test && { test }),
+      createdAt: createdAt.toISOString(),
+      expiresAt:
+        Math.floor(createdAt.getTime() / 1000) + this.config.deliveryRetentionDays * 24 * 60 * 60,
+    });
+  }
+
+  /**
+   * Retry a delivery, giving up when its webhook was deleted or disabled meanwhile
+   */
+  private async redeliver(delivery: WebhookDelivery): Promise<WebhookDelivery | null> {
+    const webhook = await this.metadata.getWebhook(delivery.projectId, delivery.webhookId);
+    if (!webhook?.active) {
+      return this.metadata.updateWebhookDelivery(delivery, { status: 'failed' });
+    }
+
+    return this.attempt(webhook, delivery);
+  }
+
+  /**
+   * Send a delivery and record the attempt, scheduling a retry after a failure
+   * while attempts remain
+   */
+  private async attempt(webhook: Webhook, delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const attempt = await this.send(webhook, delivery);
+    const succeeded = !attempt.error;
+    const attemptNumber = delivery.attempts.length + 1;
+    const retry = !succeeded && !delivery.test && attemptNumber < this.config.maxAttempts;
+
+    const updated = await this.metadata.updateWebhookDelivery(delivery, {
+      status: succeeded ? 'succeeded' : retry ? 'pending' : 'failed',
+      attempt,
+      ...(retry && {
+        nextAttemptAt: new Date(Date.now() + this.getRetryDelay(attemptNumber) * 1000).toISOString(),
+      }),
+    });
+
+    if (!updated) {
+      // Another process attempted the delivery meanwhile and recorded it first
+      return delivery;
+    }
+
+    if (updated.nextAttemptAt) {
+      this.scheduleRetry(updated);
+    }
+    return updated;
+  }
+
+  private scheduleRetry(delivery: WebhookDelivery): void {
+    const delay = Math.max(Date.parse(delivery.nextAttemptAt!) - Date.now(), 0);
+
+    // Unreferenced, so a pending retry does not keep the process alive
+    setTimeout(() => {
+      this.redeliver(delivery).catch((error) => {
+        console.error('Error retrying webhook delivery:', error);
+      });
+    }, delay).unref();
+  }
+
+  /**
+   * POST a delivery to its webhook
+   *
+   * Redirects are not followed, so they count as failures. Only the status of
+   * the response is kept; its body is discarded unread.
+   */
+  private async send(webhook: Webhook, delivery: WebhookDelivery): Promise<WebhookDeliveryAttempt> {
+    const started = Date.now();
+    const timestamp = Math.floor(started / 1000).toString();
+    const attemptedAt = new Date(started).toISOString();
+
+    try {
+      const statusCode = await this.post(webhook.url, delivery.payload, {
+        'Content-Type': 'application/json',
+        'User-Agent': USER_AGENT,
+        'X-Webhook-Id': webhook.webhookId,
+        'X-Webhook-Delivery': delivery.deliveryId,
+        'X-Webhook-Event': delivery.eventType,
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': this.sign(webhook.secret, timestamp, delivery.payload),
+      });
+
+      return {
+        attemptedAt,
+        durationMs: Date.now() - started,
+        statusCode,
+        ...((statusCode < 200 || statusCode >= 300) && {
+          error: `Receiver answered with status ${statusCode}`,
+        }),
+      };
+    } catch (error) {
+      return {
+        attemptedAt,
+        durationMs: Date.now() - started,
+        error: describeRequestError(error, this.config.timeout),
+      };
+    }
+  }
+
+  /**
+   * POST a body to a URL and resolve to the response status
+   *
+   * Unless private URLs are allowed, the connection goes to an address that
+   * was checked when the host name was resolved for it, so a name cannot be
+   * re-pointed at a private address between the check and the request.
+   */
+  private post(url: string, body: string, headers: Record<string, string>): Promise<number> {
+    const target = new URL(url);
+    if (!this.config.allowPrivateUrls && isPrivateHost(target.hostname)) {
+      return Promise.reject(new Error(`${target.hostname} is a private address`));
+    }
+
+    const request = target.protocol === 'https:' ? https.request : http.request;
+    return new Promise((resolve, reject) => {
+      const req = request(
+        target,
+        {
+          method: 'POST',
+          headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+          ...(!this.config.allowPrivateUrls && { lookup: lookupPublicAddress }),
+          signal: AbortSignal.timeout(this.config.timeout * 1000),
+        },
+        (response) => {
+          response.resume();
+          resolve(response.statusCode!);
+        }
+      );
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Resolve a host name to all of its addresses, failing when any of them is
+ * private
+ */
+async function lookupPublicAddresses(hostname: string): Promise<dns.LookupAddress[]> {
+  if (isPrivateHost(hostname)) {
+    throw new Error(`${hostname} is a private address`);
+  }
+
+  const addresses = await dns.promises.lookup(hostname.replace(/^\[|\]$/g, ''), { all: true });
+  const blocked = addresses.find(({ address }) => isPrivateHost(address));
+  if (blocked) {
+    throw new Error(`${hostname} resolves to the private address ${blocked.address}`);
+  }
+  return addresses;
+}
+
+/**
+ * `lookup` for delivery requests that only connects to public addresses
+ */
+const lookupPublicAddress: net.LookupFunction = (hostname, options, callback) => {
+  lookupPublicAddresses(hostname).then(
+    (addresses) => {
+      const candidates = options.family
+        ? addresses.filter(({ family }) => family === options.family)
+        : addresses;
+      if (candidates.length === 0) {
+        callback(Object.assign(new Error(`No address found for ${hostname}`), { code: 'ENOTFOUND' }), '');
+      } else if (options.all) {
+        callback(null, candidates);
+      } else {
+        callback(null, candidates[0].address, candidates[0].family);
+      }
+    },
+    (error) => callback(error, '')
+  );
+};
+
+/**
+ * Whether a URL host is a loopback, private, link-local or unspecified address
+ */
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return true;
+  }
+
+  switch (net.isIP(host)) {
+    case 4: {
+      const [a, b] = host.split('.').map(Number);
+      return (
+        a === 0 ||
+        a === 10 ||
+        a === 127 ||
+        (a === 100 && b >= 64 && b < 128) ||
+        (a === 169 && b === 254) ||
+        (a === 172 && b >= 16 && b < 32) ||
+        (a === 192 && b === 168)
+      );
+    }
+    case 6:
+      // Unspecified, loopback, unique local, link-local and IPv4-mapped addresses
+      return host === '::' || host === '::1' || /^(f[cd]|fe[89ab]|::ffff:)/.test(host);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Describe why a delivery request got no response
+ */
+function describeRequestError(error: unknown, timeout: number): string {
+  const { code, message, cause } = (error ?? {}) as NodeJS.ErrnoException & { cause?: Error };
+  if (cause?.name === 'TimeoutError') {
+    return `No response within ${timeout} seconds`;
+  }
+
+  return code || message || 'Request failed';
+}
+
+// Export singleton instance
+export const webhookService = new WebhookService();
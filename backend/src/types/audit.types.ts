@@ -0,0 +1,132 @@
+/**
+ * Audit-related TypeScript interfaces for the File Management Service
+ */
+
+/**
+ * Recorded mutations; version and multipart steps are recorded as file actions
+ * with the version or `multipart` in the entry details
+ */
+export type AuditAction =
+  | 'project.created'
+  | 'project.updated'
+  | 'project.deleted'
+  | 'project.restored'
+  | 'project.purged'
+  | 'project.stats_reconciled'
+  | 'file.upload_requested'
+  | 'file.upload_aborted'
+  | 'file.confirmed'
+  | 'file.quarantined'
+  | 'file.expired'
+  | 'file.updated'
+  | 'file.version_restored'
+  | 'file.download_url_issued'
+  | 'file.deleted'
+  | 'file.restored'
+  | 'file.purged'
+  | 'member.added'
+  | 'member.role_changed'
+  | 'member.removed'
+  | 'webhook.created'
+  | 'webhook.updated'
+  | 'webhook.secret_rotated'
+  | 'webhook.deleted';
+
+/**
+ * Kind of record an audit entry describes
+ */
+export type AuditResourceType = 'project' | 'file' | 'member' | 'webhook';
+
+/**
+ * Record as it was before or after a change, without its table and index keys
+ */
+export type AuditSnapshot = Record<string, unknown>;
+
+/**
+ * Who made a change; scheduled jobs act as the `system` user
+ */
+export interface AuditActor {
+  userId: string;
+  requestId?: string;
+  ip?: string;
+}
+
+/**
+ * A change to record
+ */
+export interface AuditEvent {
+  projectId: string;
+  action: AuditAction;
+  resourceType: AuditResourceType;
+  resourceId: string; // Project ID, file ID, member user ID or webhook ID
+  before?: object | null; // Absent for creations
+  after?: object | null; // Absent for removals
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Audit log entry stored in DynamoDB
+ *
+ * Entries are append-only and are kept after the project they describe is purged.
+ */
+export interface AuditEntry {
+  PK: string; // AUDIT#{projectId}
+  SK: string; // {timestamp}#{auditId}
+  auditId: string;
+  projectId: string;
+  action: AuditAction;
+  resourceType: AuditResourceType;
+  resourceId: string;
+  actorId: string;
+  requestId?: string;
+  ip?: string;
+  before?: AuditSnapshot;
+  after?: AuditSnapshot;
+  details?: Record<string, unknown>;
+  timestamp: string; // ISO timestamp
+}
+
+/**
+ * Data for creating an audit entry
+ */
+export type CreateAuditEntry = Omit<AuditEntry, 'PK' | 'SK'>;
+
+/**
+ * Filters of the audit log; every given filter must match
+ */
+export interface AuditFilters {
+  action?: AuditAction;
+  resourceType?: AuditResourceType;
+  resourceId?: string;
+  actorId?: string;
+  from?: string; // ISO timestamp, inclusive
+  to?: string; // ISO timestamp, inclusive
+}
+
+/**
+ * Query parameters for listing the audit log
+ */
+export interface ListAuditEntriesQuery extends AuditFilters {
+  limit?: number;
+  lastKey?: string;
+}
+
+/**
+ * Response for listing the audit log, newest entries first
+ */
+export interface ListAuditEntriesResponse {
+  entries: AuditEntry[];
+  nextKey?: string;
+}
+
+/**
+ * Formats of an audit log export
+ */
+export type AuditExportFormat = 'csv' | 'jsonl';
+
+/**
+ * Query parameters for exporting the audit log
+ */
+export interface ExportAuditEntriesQuery extends AuditFilters {
+  format: AuditExportFormat;
+}
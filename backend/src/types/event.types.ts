@@ -0,0 +1,39 @@
+/**
+ * Event-related TypeScript interfaces for the File Management Service
+ */
+
+/**
+ * Lifecycle events published on the event bus
+ *
+ * - `file.uploaded`: a new file was confirmed, or a new version became its current content
+ * - `file.deleted`: a file was moved to the trash or permanently deleted
+ * - `project.updated`: a project's details or status changed
+ * - `project.deleted`: a project was moved to the trash
+ */
+export type LifecycleEventType = 'file.uploaded' | 'file.deleted' | 'project.updated' | 'project.deleted';
+
+/**
+ * An event to publish
+ */
+export interface PublishEvent {
+  type: LifecycleEventType;
+  projectId: string;
+  actorId: string; // User who made the change
+  data: Record<string, unknown>; // Records are published without their table and index keys
+}
+
+/**
+ * A published event
+ */
+export interface LifecycleEvent extends PublishEvent {
+  eventId: string;
+  occurredAt: string; // ISO timestamp
+}
+
+/**
+ * Queue running the event bus subscribers (BackgroundQueue in process)
+ */
+export interface EventQueue {
+  add(key: string, job: () => Promise<unknown>): void;
+  whenIdle(): Promise<void>;
+}
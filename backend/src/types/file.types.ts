@@ -18,12 +18,159 @@ export interface FileMetadata {
   uploadedBy: string; // User ID
   uploadedAt: string; // ISO timestamp
   status: FileStatus;
+  expectedChecksumSha256?: string; // Base64 SHA-256 declared by the client
+  checksumSha256?: string; // Base64 SHA-256 verified against storage on confirm
+  detectedType?: string; // MIME type detected from the content on confirm
+  quarantineReason?: string; // Why the file was quarantined
+  expiredAt?: string; // When an abandoned pending upload was expired
+  deletedAt?: string; // When the file was moved to the trash
+  statusBeforeDelete?: FileStatus; // Status restored from the trash
+  deletedWithProject?: boolean; // Trashed by deleting its project, restored with it
+  currentVersion?: number; // Version served as the file's content (1 when absent)
+  updatedAt?: string; // ISO timestamp of creation or the last status, version or details change
+  displayName?: string; // Shown instead of fileName; the stored object keeps its name
+  tags?: string[]; // Lower-case, without duplicates
+  customMetadata?: CustomMetadata;
+  multipart?: MultipartUploadState; // Present while a multipart upload is in progress
+  previews?: FilePreviews; // Thumbnails of the current content, once generated
+  tiles?: FileTiles; // Deep Zoom pyramid of the current content, once generated
+  searchKey?: string; // SEARCH#{projectId}; indexes the file for search
+  listKey?: string; // FILES#{projectId}; indexes the file for sorted listings
+  sortName?: string; // Normalized displayName or fileName, for sorting by name
+}
+
+/**
+ * Value of a custom metadata entry
+ */
+export type CustomMetadataValue = string | number | boolean;
+
+/**
+ * User-defined metadata of a file, such as drawing number, revision or discipline
+ */
+export type CustomMetadata = Record<string, CustomMetadataValue>;
+
+/**
+ * A stored version of a file
+ */
+export interface FileVersion {
+  PK: string; // PROJECT#{projectId}
+  SK: string; // VERSION#{fileId}#{zero-padded version}
+  fileId: string;
+  version: number;
+  fileName: string;
+  fileType: string;
+  fileExtension: string;
+  fileSize: number;
+  s3Key: string;
+  uploadedBy: string;
+  uploadedAt: string; // ISO timestamp
+  status: FileVersionStatus;
+  expectedChecksumSha256?: string;
+  checksumSha256?: string;
+  detectedType?: string;
+  quarantineReason?: string;
+  expiredAt?: string;
+  updatedAt?: string; // ISO timestamp of the last status change
+}
+
+/**
+ * File version status
+ */
+export type FileVersionStatus = 'pending' | 'uploaded' | 'quarantined' | 'expired';
+
+/**
+ * Progress of an in-progress multipart upload
+ */
+export interface MultipartUploadState {
+  uploadId: string;
+  partSize: number; // Size of every part except the last, in bytes
+  partCount: number;
+  completedParts: UploadedPart[];
+  startedAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+/**
+ * A part uploaded as part of a multipart upload
+ */
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+  size?: number;
+}
+
+/**
+ * Derived images generated from a file's content
+ */
+export interface FilePreviews {
+  status: PreviewStatus;
+  sourceS3Key: string; // Object the previews were generated from; stale once it changes
+  items: FilePreview[];
+  generatedAt: string; // ISO timestamp
+  error?: string; // Why generation failed or was skipped
+}
+
+/**
+ * A single stored preview image
+ */
+export interface FilePreview {
+  name: PreviewName;
+  s3Key: string;
+  contentType: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Preview generation status
+ */
+export type PreviewStatus = 'pending' | 'ready' | 'failed' | 'unsupported';
+
+/**
+ * Standard thumbnail sizes, plus the first-page raster of PDFs
+ */
+export type PreviewName = 'small' | 'medium' | 'large' | 'page';
+
+/**
+ * Tile pyramid generated from a file's content
+ */
+export interface FileTiles {
+  status: PreviewStatus;
+  sourceS3Key: string; // Object the tiles were generated from; stale once it changes
+  pyramid?: TilePyramid; // Present when ready
+  generatedAt: string; // ISO timestamp
+  error?: string; // Why generation failed or was skipped
+}
+
+/**
+ * Deep Zoom (DZI) pyramid: level 0 is 1x1 pixel, each level doubles the
+ * previous one and the highest level is the full-size image
+ */
+export interface TilePyramid {
+  s3Prefix: string; // Tiles are stored at {s3Prefix}{level}/{column}_{row}.{format}
+  format: 'jpg';
+  tileSize: number; // Edge of a tile, in pixels, without overlap
+  overlap: number; // Pixels each tile shares with its neighbours on every inner edge
+  width: number; // Full-size image width, in pixels
+  height: number;
+  maxLevel: number;
+}
+
+/**
+ * Size and tile grid of one pyramid level
+ */
+export interface TileLevel {
+  level: number;
+  width: number;
+  height: number;
+  columns: number;
+  rows: number;
 }
 
 /**
  * File status enum
  */
-export type FileStatus = 'pending' | 'uploaded' | 'deleted';
+export type FileStatus = 'pending' | 'uploaded' | 'quarantined' | 'expired' | 'deleted';
 
 /**
  * Request body for initiating a file upload
@@ -32,6 +179,7 @@ export interface UploadFileRequest {
   fileName: string;
   fileType: string; // MIME type
   fileSize: number;
+  checksumSha256?: string; // Base64 SHA-256 of the content, enforced by storage
 }
 
 /**
@@ -40,6 +188,7 @@ export interface UploadFileRequest {
 export interface UploadFileResponse {
   fileId: string;
   uploadUrl: string;
+  uploadHeaders?: Record<string, string>; // Headers the upload request must send
   expiresIn: number; // seconds
 }
 
@@ -49,16 +198,61 @@ export interface UploadFileResponse {
 export interface DownloadFileResponse {
   fileId: string;
   fileName: string;
+  version?: number;
   downloadUrl: string;
   expiresIn: number;
 }
 
+/**
+ * Response for deleting a file
+ */
+export interface DeleteFileResponse {
+  message: string;
+  restorableUntil?: string; // Files moved to the trash only
+}
+
+/**
+ * Response for a new version upload request
+ */
+export interface UploadVersionResponse extends UploadFileResponse {
+  version: number;
+}
+
+/**
+ * Response for listing the versions of a file
+ */
+export interface ListFileVersionsResponse {
+  fileId: string;
+  currentVersion: number;
+  versions: FileVersion[];
+  nextKey?: string; // For pagination
+}
+
+/**
+ * Request body for updating a file's details
+ */
+export interface UpdateFileRequest {
+  displayName?: string | null; // null clears it
+  tags?: string[]; // Replaces all tags; an empty list clears them
+  customMetadata?: Record<string, CustomMetadataValue | null>; // Merged; null removes a key
+}
+
+/**
+ * Orders files can be listed in
+ */
+export type FileSortField = 'uploadedAt' | 'updatedAt' | 'name' | 'size';
+
 /**
  * Query parameters for listing files
  */
 export interface ListFilesQuery {
   fileType?: string; // Filter by MIME type
   status?: FileStatus;
+  sort?: FileSortField; // Key order when absent
+  order?: 'asc' | 'desc';
+  tags?: string[]; // Files having every tag
+  customMetadata?: Record<string, string>; // Files whose entries equal these values
+  includeTotal?: boolean; // Count every matching file into totalCount
   limit?: number;
   lastKey?: string; // For pagination
 }
@@ -67,11 +261,42 @@ export interface ListFilesQuery {
  * Response for listing files
  */
 export interface ListFilesResponse {
-  files: FileMetadata[];
+  files: (FileMetadata & { thumbnailUrl?: string })[]; // Small preview, when ready
   nextKey?: string; // For pagination
   totalCount?: number;
 }
 
+/**
+ * Response listing a file's previews with presigned URLs
+ */
+export interface FilePreviewsResponse {
+  fileId: string;
+  status: PreviewStatus;
+  previews: (Omit<FilePreview, 's3Key'> & { url: string })[];
+  expiresIn?: number; // seconds, when previews are listed
+  error?: string;
+}
+
+/**
+ * Response describing a file's tile pyramid
+ */
+export interface FileTilesResponse {
+  fileId: string;
+  status: PreviewStatus;
+  pyramid?: Omit<TilePyramid, 's3Prefix'> & { levels: TileLevel[] };
+  error?: string;
+}
+
+/**
+ * Response listing presigned URLs of tiles in one pyramid level
+ */
+export interface TileUrlsResponse {
+  fileId: string;
+  level: number;
+  tiles: { column: number; row: number; url: string }[];
+  expiresIn: number; // seconds
+}
+
 /**
  * File metadata for creation (without keys)
  */
@@ -84,6 +309,78 @@ export interface CreateFileMetadata {
   fileSize: number;
   s3Key: string;
   uploadedBy: string;
+  expectedChecksumSha256?: string;
+  multipart?: MultipartUploadState;
+}
+
+/**
+ * File version for creation (without keys)
+ */
+export interface CreateFileVersion {
+  projectId: string;
+  fileId: string;
+  version: number;
+  fileName: string;
+  fileType: string;
+  fileExtension: string;
+  fileSize: number;
+  s3Key: string;
+  uploadedBy: string;
+  uploadedAt?: string; // Defaults to now
+  status?: FileVersionStatus; // Defaults to 'pending'
+  expectedChecksumSha256?: string;
+  checksumSha256?: string;
+  detectedType?: string;
+}
+
+/**
+ * Request body for initiating a multipart upload
+ */
+export interface InitiateMultipartUploadRequest extends Omit<UploadFileRequest, 'checksumSha256'> {
+  partCount: number;
+}
+
+/**
+ * Presigned URL for a single part
+ */
+export interface PartUploadUrl {
+  partNumber: number;
+  uploadUrl: string;
+}
+
+/**
+ * Response for initiating or resuming a multipart upload
+ */
+export interface MultipartUploadResponse {
+  fileId: string;
+  uploadId: string;
+  partSize: number;
+  partCount: number;
+  completedParts: UploadedPart[];
+  parts: PartUploadUrl[]; // Upload URLs for the parts still missing
+  expiresIn: number; // seconds
+}
+
+/**
+ * List in-progress multipart uploads response
+ */
+export interface ListMultipartUploadsResponse {
+  uploads: FileMetadata[];
+  nextKey?: string; // For pagination
+}
+
+/**
+ * Request body for recording uploaded parts
+ */
+export interface RecordPartsRequest {
+  parts: UploadedPart[];
+}
+
+/**
+ * Request body for completing a multipart upload
+ */
+export interface CompleteMultipartUploadRequest {
+  parts?: UploadedPart[]; // Defaults to the parts recorded on the file
 }
 
 /**
@@ -92,3 +389,46 @@ export interface CreateFileMetadata {
 export interface ConfirmUploadRequest {
   fileId: string;
 }
+
+/**
+ * Request body for requesting the upload URLs of several files
+ */
+export interface BatchUploadRequest {
+  files: UploadFileRequest[];
+}
+
+/**
+ * Request body for confirming or reading several files
+ */
+export interface BatchFilesRequest {
+  fileIds: string[];
+}
+
+/**
+ * Request body for deleting several files
+ */
+export interface BatchDeleteRequest extends BatchFilesRequest {
+  hard?: boolean; // Permanently delete (requires admin)
+}
+
+/**
+ * Outcome of one item of a batch request
+ */
+export interface BatchItemResult<T> {
+  index: number; // Position of the item in the request
+  fileId?: string;
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string; details?: unknown };
+}
+
+/**
+ * Response for a batch request; every item succeeds or fails on its own
+ */
+export interface BatchResponse<T> {
+  results: BatchItemResult<T>[];
+  succeeded: number;
+  failed: number;
+  // Combined change the batch made to the project statistics, and their values after it
+  stats?: { fileCountDelta: number; sizeDelta: number; fileCount: number; totalSize: number };
+}
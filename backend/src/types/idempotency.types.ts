@@ -0,0 +1,41 @@
+/**
+ * Idempotency-related TypeScript interfaces for the File Management Service
+ */
+
+/**
+ * Supported idempotency stores
+ */
+export type IdempotencyStoreType = 'memory' | 'dynamodb';
+
+/**
+ * Response stored for replaying to retries
+ */
+export interface StoredResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+/**
+ * A request made with an idempotency key
+ */
+export interface IdempotencyRecord {
+  fingerprint: string; // Hash of the method, URL and body of the request
+  status: 'in_progress' | 'completed';
+  response?: StoredResponse; // Set once completed
+  lockedUntil: number; // Epoch milliseconds; an unfinished request is abandoned after this
+  expiresAt: number; // Epoch seconds; the key can be used for a new request after this
+}
+
+/**
+ * Store holding the requests made with idempotency keys
+ */
+export interface IdempotencyStore {
+  // Record a request as in progress, unless the key is taken; returns the record holding it
+  reserve(key: string, record: IdempotencyRecord): Promise<IdempotencyRecord | null>;
+
+  // Store the response of a request in progress
+  complete(key: string, response: StoredResponse, expiresAt: number): Promise<void>;
+
+  // Free a key whose request did not succeed, so it can be retried
+  release(key: string): Promise<void>;
+}
@@ -4,6 +4,14 @@
 
 export * from './file.types';
 export * from './project.types';
+export * from './storage.types';
+export * from './metadata.types';
+export * from './search.types';
+export * from './audit.types';
+export * from './event.types';
+export * from './webhook.types';
+export * from './rate-limit.types';
+export * from './idempotency.types';
 
 /**
  * Common API response wrapper
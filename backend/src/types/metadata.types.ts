@@ -0,0 +1,410 @@
+/**
+ * Metadata repository TypeScript interfaces for the File Management Service
+ */
+
+import {
+  FileMetadata,
+  FileStatus,
+  CreateFileMetadata,
+  MultipartUploadState,
+  FileVersion,
+  FileVersionStatus,
+  CreateFileVersion,
+  FilePreviews,
+  FileTiles,
+  CustomMetadataValue,
+  FileSortField,
+} from './file.types';
+import {
+  Project,
+  ProjectStatus,
+  ProjectRole,
+  CreateProjectRequest,
+  ProjectMember,
+  CreateProjectMember,
+  SharedProjectRef,
+  ProjectSortField,
+} from './project.types';
+import { SearchDocument, SearchTokenEntry } from './search.types';
+import { AuditEntry, AuditFilters, CreateAuditEntry } from './audit.types';
+import {
+  Webhook,
+  CreateWebhook,
+  WebhookUpdates,
+  WebhookDelivery,
+  CreateWebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookDeliveryUpdate,
+} from './webhook.types';
+
+/**
+ * Supported metadata backends
+ */
+export type MetadataProviderType = 'dynamodb' | 'memory';
+
+/**
+ * Pagination key returned by list operations (DynamoDB LastEvaluatedKey shape)
+ */
+export type PaginationKey = Record<string, unknown>;
+
+/**
+ * Direction of a sorted listing
+ */
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Options for paginated listings without filters
+ */
+export interface PageQueryOptions {
+  limit?: number;
+  lastKey?: PaginationKey;
+}
+
+/**
+ * Attributes recorded alongside a file or version status change
+ */
+export interface FileStatusUpdates {
+  checksumSha256?: string;
+  detectedType?: string;
+  quarantineReason?: string;
+}
+
+/**
+ * Change to a project's statistics, applied atomically with a file change
+ *
+ * Statistics count uploaded files only, so callers pass a change whenever a
+ * file enters or leaves the `uploaded` status or its current content changes.
+ */
+export interface ProjectStatsChange {
+  ownerId: string;
+  fileCountDelta: number;
+  sizeDelta: number;
+}
+
+/**
+ * Conditions and side effects of a file change
+ *
+ * The change is rejected (null is returned) when the file is not in the
+ * expected status or, with a stats change, when the project does not exist.
+ */
+export interface FileChangeOptions {
+  expectedStatus?: FileStatus; // Only change the file while it has this status
+  stats?: ProjectStatsChange;
+}
+
+/**
+ * Absolute project statistics
+ */
+export interface ProjectStats {
+  fileCount: number;
+  totalSize: number;
+}
+
+/**
+ * Options for finding abandoned pending uploads across all projects
+ */
+export interface PendingUploadQueryOptions {
+  uploadedBefore: string; // ISO timestamp
+  limit?: number;
+  lastKey?: PaginationKey;
+}
+
+/**
+ * A pending version upload and the project it belongs to
+ */
+export interface PendingVersionUpload {
+  projectId: string;
+  version: FileVersion;
+}
+
+/**
+ * Options for finding trashed files and projects across all projects
+ *
+ * Items trashed before deletion timestamps were recorded fall back to their
+ * last update (projects) or upload time (files).
+ */
+export interface TrashQueryOptions {
+  deletedBefore: string; // ISO timestamp
+  limit?: number;
+  lastKey?: PaginationKey;
+}
+
+/**
+ * Options for listing file versions
+ */
+export interface VersionQueryOptions {
+  status?: FileVersionStatus;
+  newestFirst?: boolean;
+  limit?: number; // Pages are filled up to the limit; only the last one is short
+  lastKey?: PaginationKey;
+}
+
+/**
+ * Options for listing files in a project
+ */
+export interface FileQueryOptions {
+  fileType?: string;
+  status?: FileStatus;
+  tags?: string[]; // Files having every tag
+  customMetadata?: Record<string, string>; // Query-string values, matched as any type they parse to
+  multipart?: boolean; // Only files uploaded in parts
+  sort?: FileSortField; // Key order when absent; cursors are only valid for the same order
+  order?: SortOrder; // Direction of the sort; defaults to ascending
+  limit?: number; // Pages are filled up to the limit; only the last one is short
+  lastKey?: PaginationKey;
+}
+
+/**
+ * Filters of a file count
+ */
+export type FileCountOptions = Omit<FileQueryOptions, 'sort' | 'order' | 'limit' | 'lastKey'>;
+
+/**
+ * Updatable file details
+ */
+export interface FileUpdates {
+  displayName?: string | null; // null removes it
+  tags?: string[]; // Replaces the tags; an empty list removes them
+  customMetadata?: Record<string, CustomMetadataValue | null>; // Merged; null removes a key
+}
+
+/**
+ * Options for listing a user's projects
+ */
+export interface ProjectQueryOptions {
+  status?: ProjectStatus;
+  sort?: ProjectSortField; // Key order when absent; cursors are only valid for the same order
+  order?: SortOrder; // Direction of the sort; defaults to ascending
+  limit?: number; // Pages are filled up to the limit; only the last one is short
+  lastKey?: PaginationKey;
+}
+
+/**
+ * Filters of a project count
+ */
+export type ProjectCountOptions = Omit<ProjectQueryOptions, 'sort' | 'order' | 'limit' | 'lastKey'>;
+
+/**
+ * Updatable project fields
+ */
+export interface ProjectUpdates {
+  name?: string;
+  description?: string;
+  status?: ProjectStatus;
+  allowedMimeTypes?: string[]; // An empty list removes the restriction
+}
+
+/**
+ * Options for reading the audit log of a project, newest entries first
+ */
+export interface AuditQueryOptions extends AuditFilters {
+  limit?: number; // Pages are filled up to the limit; only the last one is short
+  lastKey?: PaginationKey;
+}
+
+/**
+ * Options for listing a webhook's deliveries, newest first
+ */
+export interface WebhookDeliveryQueryOptions {
+  status?: WebhookDeliveryStatus;
+  limit?: number; // Pages are filled up to the limit; only the last one is short
+  lastKey?: PaginationKey;
+}
+
+/**
+ * Options for finding deliveries whose retry is due across all projects
+ */
+export interface DueDeliveryQueryOptions {
+  dueBefore: string; // ISO timestamp
+  limit?: number;
+  lastKey?: PaginationKey;
+}
+
+/**
+ * Metadata repository contract implemented by every metadata backend
+ *
+ * Creates are conditional: writing an existing key rejects with an error
+ * named `ConditionalCheckFailedException`, whichever backend is in use.
+ */
+export interface MetadataRepository {
+  // File operations
+  createFileMetadata(metadata: CreateFileMetadata): Promise<FileMetadata>;
+  getFileById(projectId: string, fileId: string): Promise<FileMetadata | null>;
+  // Files that exist among the given IDs, in no particular order
+  getFilesByIds(projectId: string, fileIds: string[]): Promise<FileMetadata[]>;
+  getFilesByProject(
+    projectId: string,
+    options?: FileQueryOptions
+  ): Promise<{ files: FileMetadata[]; lastKey?: PaginationKey }>;
+  // Number of files getFilesByProject would list with the same filters
+  countFiles(projectId: string, options?: FileCountOptions): Promise<number>;
+  updateFileStatus(
+    projectId: string,
+    fileId: string,
+    status: FileStatus,
+    updates?: FileStatusUpdates,
+    options?: FileChangeOptions
+  ): Promise<FileMetadata | null>;
+  // Soft delete and restore are conditional on the current state; null otherwise
+  deleteFile(
+    projectId: string,
+    fileId: string,
+    options?: FileChangeOptions & { withProject?: boolean }
+  ): Promise<FileMetadata | null>;
+  restoreFile(
+    projectId: string,
+    fileId: string,
+    options?: Pick<FileChangeOptions, 'stats'>
+  ): Promise<FileMetadata | null>;
+  // Resolves to false when the options' conditions were not met
+  hardDeleteFile(projectId: string, fileId: string, options?: FileChangeOptions): Promise<boolean>;
+  // Not applied to deleted files; null then or when the file does not exist
+  updateFile(projectId: string, fileId: string, updates: FileUpdates): Promise<FileMetadata | null>;
+  // Only recorded while the file is uploaded and still has the previews' source object
+  setFilePreviews(
+    projectId: string,
+    fileId: string,
+    previews: FilePreviews
+  ): Promise<FileMetadata | null>;
+  // Only recorded while the file is uploaded and still has the tiles' source object
+  setFileTiles(projectId: string, fileId: string, tiles: FileTiles): Promise<FileMetadata | null>;
+  updateMultipartState(
+    projectId: string,
+    fileId: string,
+    multipart: MultipartUploadState | null
+  ): Promise<FileMetadata | null>;
+  // Scans every project; meant for scheduled maintenance, not request handling
+  findPendingUploads(options: PendingUploadQueryOptions): Promise<{
+    files: FileMetadata[];
+    versions: PendingVersionUpload[];
+    lastKey?: PaginationKey;
+  }>;
+  // Conditional on the record still being pending; null otherwise
+  expirePendingFile(projectId: string, fileId: string): Promise<FileMetadata | null>;
+  expirePendingFileVersion(
+    projectId: string,
+    fileId: string,
+    version: number
+  ): Promise<FileVersion | null>;
+
+  // File version operations
+  createFileVersion(data: CreateFileVersion): Promise<FileVersion>;
+  getFileVersion(projectId: string, fileId: string, version: number): Promise<FileVersion | null>;
+  getFileVersions(
+    projectId: string,
+    fileId: string,
+    options?: VersionQueryOptions
+  ): Promise<{ versions: FileVersion[]; lastKey?: PaginationKey }>;
+  updateFileVersionStatus(
+    projectId: string,
+    fileId: string,
+    version: number,
+    status: FileVersionStatus,
+    updates?: FileStatusUpdates
+  ): Promise<FileVersion | null>;
+  setCurrentVersion(
+    projectId: string,
+    version: FileVersion,
+    options?: FileChangeOptions & { expectedVersion?: number }
+  ): Promise<FileMetadata | null>;
+  deleteFileVersions(projectId: string, fileId: string): Promise<void>;
+
+  // Project operations
+  createProject(userId: string, projectId: string, data: CreateProjectRequest): Promise<Project>;
+  getProjectById(userId: string, projectId: string): Promise<Project | null>;
+  getProjectsByUser(
+    userId: string,
+    options?: ProjectQueryOptions
+  ): Promise<{ projects: Project[]; lastKey?: PaginationKey }>;
+  // Number of projects getProjectsByUser would list with the same filters
+  countProjects(userId: string, options?: ProjectCountOptions): Promise<number>;
+  updateProject(userId: string, projectId: string, updates: ProjectUpdates): Promise<Project | null>;
+  // Overwrite the statistics unless they changed from `expected` meanwhile
+  setProjectStats(
+    userId: string,
+    projectId: string,
+    stats: ProjectStats,
+    expected: ProjectStats
+  ): Promise<Project | null>;
+  deleteProject(userId: string, projectId: string): Promise<Project | null>;
+  restoreProject(userId: string, projectId: string): Promise<Project | null>;
+  // Removes the project with its files, versions, members and share pointers
+  purgeProject(userId: string, projectId: string): Promise<void>;
+  getProjectOwnerId(projectId: string): Promise<string | null>;
+  // Scans every project; meant for scheduled maintenance, not request handling
+  findTrashedItems(options: TrashQueryOptions): Promise<{
+    files: FileMetadata[];
+    projects: Project[];
+    lastKey?: PaginationKey;
+  }>;
+
+  // Membership operations
+  addProjectMember(member: CreateProjectMember): Promise<ProjectMember>;
+  getProjectMember(projectId: string, userId: string): Promise<ProjectMember | null>;
+  getProjectMembers(
+    projectId: string,
+    options?: PageQueryOptions
+  ): Promise<{ members: ProjectMember[]; lastKey?: PaginationKey }>;
+  updateProjectMemberRole(
+    projectId: string,
+    userId: string,
+    role: ProjectRole
+  ): Promise<ProjectMember | null>;
+  removeProjectMember(projectId: string, userId: string): Promise<void>;
+  getSharedProjects(
+    userId: string,
+    options?: PageQueryOptions
+  ): Promise<{ shares: SharedProjectRef[]; lastKey?: PaginationKey }>;
+
+  // Search index operations
+  // A project and all of its files, in any status, as recorded in the search index
+  getSearchDocuments(
+    projectId: string,
+    options?: PageQueryOptions
+  ): Promise<{ documents: SearchDocument[]; lastKey?: PaginationKey }>;
+  // Token entries of a project whose token starts with a prefix, in token order
+  getSearchTokens(
+    projectId: string,
+    prefix: string,
+    options?: PageQueryOptions
+  ): Promise<{ entries: SearchTokenEntry[]; lastKey?: PaginationKey }>;
+  // Replace the token entries of a document after a write (null when created or deleted)
+  indexSearchDocument(previous: SearchDocument | null, current: SearchDocument | null): Promise<void>;
+  // Write the token entries of every project and file; scans the table, for maintenance only
+  reindexSearchDocuments(options?: PageQueryOptions): Promise<{ indexed: number; lastKey?: PaginationKey }>;
+  // Add index attributes and owner pointers missing from records written before they existed;
+  // scans the table, for maintenance only
+  backfillIndexKeys(options?: PageQueryOptions): Promise<{ indexed: number; lastKey?: PaginationKey }>;
+
+  // Audit log operations (append-only; entries are kept when their project is purged)
+  createAuditEntry(entry: CreateAuditEntry): Promise<AuditEntry>;
+  getAuditEntries(
+    projectId: string,
+    options?: AuditQueryOptions
+  ): Promise<{ entries: AuditEntry[]; lastKey?: PaginationKey }>;
+
+  // Webhook operations (webhooks and their deliveries are purged with their project)
+  createWebhook(data: CreateWebhook): Promise<Webhook>;
+  getWebhook(projectId: string, webhookId: string): Promise<Webhook | null>;
+  getWebhooks(projectId: string): Promise<Webhook[]>;
+  updateWebhook(projectId: string, webhookId: string, updates: WebhookUpdates): Promise<Webhook | null>;
+  // Removes the webhook with its delivery records
+  deleteWebhook(projectId: string, webhookId: string): Promise<void>;
+  createWebhookDelivery(data: CreateWebhookDelivery): Promise<WebhookDelivery>;
+  getWebhookDeliveries(
+    projectId: string,
+    webhookId: string,
+    options?: WebhookDeliveryQueryOptions
+  ): Promise<{ deliveries: WebhookDelivery[]; lastKey?: PaginationKey }>;
+  // Conditional on the delivery still being pending with no attempt recorded since
+  // it was read; null otherwise
+  updateWebhookDelivery(
+    delivery: WebhookDelivery,
+    update: WebhookDeliveryUpdate
+  ): Promise<WebhookDelivery | null>;
+  // Scans every project; meant for scheduled maintenance, not request handling
+  findDueWebhookDeliveries(options: DueDeliveryQueryOptions): Promise<{
+    deliveries: WebhookDelivery[];
+    lastKey?: PaginationKey;
+  }>;
+}
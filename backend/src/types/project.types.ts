@@ -17,6 +17,12 @@ export interface Project {
   status: ProjectStatus;
   fileCount: number;
   totalSize: number; // Total size of all files in bytes
+  allowedMimeTypes?: string[]; // Restricts uploads to these types when set
+  deletedAt?: string; // When the project was moved to the trash
+  statusBeforeDelete?: ProjectStatus; // Status restored from the trash
+  searchKey?: string; // SEARCH#{projectId}; indexes the project for search
+  listKey?: string; // PROJECTS#{ownerId}; indexes the project for sorted listings
+  sortName?: string; // Normalized name, for sorting by name
 }
 
 /**
@@ -30,6 +36,7 @@ export type ProjectStatus = 'active' | 'archived' | 'deleted';
 export interface CreateProjectRequest {
   name: string;
   description?: string;
+  allowedMimeTypes?: string[];
 }
 
 /**
@@ -39,6 +46,7 @@ export interface CreateProjectResponse {
   projectId: string;
   name: string;
   description?: string;
+  allowedMimeTypes?: string[];
   createdAt: string;
 }
 
@@ -49,13 +57,22 @@ export interface UpdateProjectRequest {
   name?: string;
   description?: string;
   status?: ProjectStatus;
+  allowedMimeTypes?: string[];
 }
 
+/**
+ * Orders projects can be listed in
+ */
+export type ProjectSortField = 'createdAt' | 'updatedAt' | 'name' | 'size';
+
 /**
  * Query parameters for listing projects
  */
 export interface ListProjectsQuery {
   status?: ProjectStatus;
+  sort?: ProjectSortField; // Key order when absent
+  order?: 'asc' | 'desc';
+  includeTotal?: boolean; // Count every matching project into totalCount
   limit?: number;
   lastKey?: string;
 }
@@ -82,3 +99,90 @@ export interface ProjectSummary {
   updatedAt: string;
   status: ProjectStatus;
 }
+
+/**
+ * Role granted to a project collaborator
+ */
+export type ProjectRole = 'viewer' | 'editor' | 'admin';
+
+/**
+ * Effective access level of a caller on a project
+ */
+export type ProjectAccessRole = ProjectRole | 'owner';
+
+/**
+ * Project membership stored in DynamoDB
+ */
+export interface ProjectMember {
+  PK: string; // PROJECT#{projectId}
+  SK: string; // MEMBER#{userId}
+  projectId: string;
+  userId: string;
+  role: ProjectRole;
+  projectOwnerId: string;
+  invitedBy: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+/**
+ * Reverse membership record for "shared with me" listings
+ */
+export interface SharedProjectRef {
+  PK: string; // USER#{userId}
+  SK: string; // SHARED#{projectId}
+  projectId: string;
+  projectOwnerId: string;
+  role: ProjectRole;
+  sharedAt: string; // ISO timestamp
+}
+
+/**
+ * Project membership data for creation (without keys)
+ */
+export interface CreateProjectMember {
+  projectId: string;
+  userId: string;
+  role: ProjectRole;
+  projectOwnerId: string;
+  invitedBy: string;
+}
+
+/**
+ * Request body for inviting a project member
+ */
+export interface AddMemberRequest {
+  userId: string;
+  role: ProjectRole;
+}
+
+/**
+ * Request body for changing a member's role
+ */
+export interface UpdateMemberRequest {
+  role: ProjectRole;
+}
+
+/**
+ * Response for listing project members
+ */
+export interface ListMembersResponse {
+  ownerId: string;
+  members: ProjectMember[];
+  nextKey?: string;
+}
+
+/**
+ * Project shared with the current user
+ */
+export interface SharedProject extends Project {
+  role: ProjectRole;
+}
+
+/**
+ * Response for listing projects shared with the current user
+ */
+export interface ListSharedProjectsResponse {
+  projects: SharedProject[];
+  nextKey?: string;
+}
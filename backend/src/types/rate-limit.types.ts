@@ -0,0 +1,50 @@
+/**
+ * Rate limit-related TypeScript interfaces for the File Management Service
+ */
+
+/**
+ * Supported rate limit stores
+ */
+export type RateLimitStoreType = 'memory' | 'dynamodb';
+
+/**
+ * Route groups with their own limits
+ *
+ * - `default`: every API request
+ * - `uploads`: requests that issue upload URLs
+ * - `hardDeletes`: permanent deletions of files
+ */
+export type RateLimitGroup = 'default' | 'uploads' | 'hardDeletes';
+
+/**
+ * Requests a caller and an IP address may make in a group per window
+ */
+export interface RateLimitRule {
+  perUser: number;
+  perIp: number;
+}
+
+/**
+ * Size and refill rate of a token bucket
+ */
+export interface TokenBucketSpec {
+  capacity: number; // Largest burst
+  refillPerSecond: number;
+}
+
+/**
+ * Outcome of taking tokens from a bucket
+ */
+export interface TokenBucketResult {
+  allowed: boolean; // Tokens are only taken when allowed
+  remaining: number; // Whole tokens left
+  resetAfter: number; // Seconds until the bucket is full again
+  retryAfter: number; // Seconds until the request could be allowed (0 when allowed)
+}
+
+/**
+ * Store holding token buckets, shared by every process using it
+ */
+export interface RateLimitStore {
+  take(key: string, bucket: TokenBucketSpec, cost: number): Promise<TokenBucketResult>;
+}
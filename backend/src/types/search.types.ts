@@ -0,0 +1,114 @@
+/**
+ * Search-related TypeScript interfaces for the File Management Service
+ */
+
+import { AttributeValue } from '@aws-sdk/client-dynamodb';
+import { FileStatus } from './file.types';
+import { ProjectStatus } from './project.types';
+
+/**
+ * Searchable attributes of a project, as projected into the search index
+ */
+export interface ProjectSearchDocument {
+  type: 'project';
+  projectId: string;
+  name: string;
+  description?: string;
+  ownerId: string;
+  status: ProjectStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Searchable attributes of a file, as projected into the search index
+ */
+export interface FileSearchDocument {
+  type: 'file';
+  projectId: string;
+  fileId: string;
+  fileName: string;
+  displayName?: string;
+  tags?: string[];
+  fileType: string;
+  detectedType?: string;
+  fileSize: number;
+  uploadedBy: string;
+  uploadedAt: string;
+  status: FileStatus;
+}
+
+/**
+ * Entry of the search index
+ */
+export type SearchDocument = ProjectSearchDocument | FileSearchDocument;
+
+/**
+ * Token entry of the search index, stored in DynamoDB: one per word of a
+ * project's or file's names, description and tags, so searches read the
+ * entries starting with a term instead of every document
+ */
+export interface SearchTokenEntry {
+  PK: string; // SEARCH#{projectId}
+  SK: string; // TOKEN#{token}#{PROJECT#projectId | FILE#fileId}
+  token: string;
+  document: SearchDocument; // Copy of the document, so matches need no further reads
+}
+
+/**
+ * DynamoDB stream event as delivered to Lambda (the fields used here)
+ */
+export interface DynamoDBStreamEvent {
+  Records: {
+    eventName: 'INSERT' | 'MODIFY' | 'REMOVE';
+    dynamodb: {
+      OldImage?: Record<string, AttributeValue>;
+      NewImage?: Record<string, AttributeValue>;
+    };
+  }[];
+}
+
+/**
+ * Search criteria; every given criterion must match
+ */
+export interface SearchQuery {
+  q?: string; // Terms matched as words, by prefix or approximately against names, descriptions and tags
+  type?: 'file' | 'project';
+  projectId?: string;
+  category?: string; // MIME category of files (see getMimeTypeCategory)
+  minSize?: number; // bytes
+  maxSize?: number;
+  uploadedBy?: string;
+  from?: string; // ISO timestamp; upload time of files, creation time of projects
+  to?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+/**
+ * A file or project matching a search
+ */
+export interface SearchResult {
+  type: 'file' | 'project';
+  score: number; // Higher is a better match; 0 without search terms
+  projectId: string;
+  projectName: string;
+  fileId?: string;
+  name: string;
+  displayName?: string;
+  description?: string;
+  tags?: string[];
+  fileType?: string;
+  category?: string;
+  fileSize?: number;
+  uploadedBy?: string;
+  date: string; // Upload time of files, creation time of projects
+}
+
+/**
+ * Response for a search
+ */
+export interface SearchResponse {
+  results: SearchResult[];
+  nextCursor?: string;
+}
@@ -0,0 +1,121 @@
+/**
+ * Storage-related TypeScript interfaces for the File Management Service
+ */
+
+/**
+ * Supported storage backends
+ */
+export type StorageProviderType = 's3' | 'local';
+
+/**
+ * Options for generating a presigned upload URL
+ */
+export interface UploadUrlOptions {
+  fileSize?: number;
+  version?: number; // Versions after the first get their own key
+  checksumSha256?: string; // Base64 SHA-256 the upload must match
+}
+
+/**
+ * Result of generating a presigned upload URL
+ */
+export interface UploadUrlResult {
+  uploadUrl: string;
+  s3Key: string;
+  headers: Record<string, string>; // Headers the upload request must send
+  expiresIn: number; // seconds
+}
+
+/**
+ * Result of generating a presigned download URL
+ */
+export interface DownloadUrlResult {
+  downloadUrl: string;
+  expiresIn: number; // seconds
+}
+
+/**
+ * Object metadata returned by a storage backend
+ */
+export interface ObjectMetadata {
+  contentType?: string;
+  contentLength?: number;
+  lastModified?: Date;
+  checksumSha256?: string; // Base64, when the backend recorded one
+}
+
+/**
+ * Part of a multipart upload as stored by a storage backend
+ */
+export interface StoredPart {
+  partNumber: number;
+  etag: string;
+  size?: number;
+}
+
+/**
+ * S3 event notification as delivered to Lambda (the fields used here)
+ */
+export interface S3NotificationEvent {
+  Records: {
+    eventName: string; // e.g. ObjectCreated:Put
+    s3: {
+      bucket: { name: string };
+      object: { key: string; size?: number }; // Key is URL-encoded
+    };
+  }[];
+}
+
+/**
+ * Storage provider contract implemented by every storage backend
+ */
+export interface StorageProvider {
+  generateS3Key(projectId: string, fileId: string, fileName: string, version?: number): string;
+
+  generateUploadUrl(
+    projectId: string,
+    fileId: string,
+    fileName: string,
+    contentType: string,
+    options?: UploadUrlOptions
+  ): Promise<UploadUrlResult>;
+
+  generateDownloadUrl(s3Key: string, originalFileName?: string): Promise<DownloadUrlResult>;
+
+  deleteObject(s3Key: string): Promise<void>;
+
+  // Delete every object whose key starts with `prefix`; returns how many were deleted
+  deleteObjectsWithPrefix(prefix: string): Promise<number>;
+
+  objectExists(s3Key: string): Promise<boolean>;
+
+  getObjectMetadata(s3Key: string): Promise<ObjectMetadata | null>;
+
+  // Read up to `maxBytes` from the start of an object (e.g. for type detection)
+  readObjectHead(s3Key: string, maxBytes: number): Promise<Buffer>;
+
+  // Read a whole object into memory; callers bound the size first
+  readObject(s3Key: string): Promise<Buffer>;
+
+  // Store content generated by the service itself (e.g. previews)
+  putObject(s3Key: string, body: Buffer, contentType: string): Promise<void>;
+
+  // Multipart uploads
+  createMultipartUpload(
+    s3Key: string,
+    contentType: string,
+    metadata?: Record<string, string>
+  ): Promise<{ uploadId: string }>;
+
+  generateUploadPartUrl(
+    s3Key: string,
+    uploadId: string,
+    partNumber: number
+  ): Promise<{ uploadUrl: string; expiresIn: number }>;
+
+  listUploadedParts(s3Key: string, uploadId: string): Promise<StoredPart[]>;
+
+  completeMultipartUpload(s3Key: string, uploadId: string, parts: StoredPart[]): Promise<void>;
+
+  abortMultipartUpload(s3Key: string, uploadId: string): Promise<void>;
+}
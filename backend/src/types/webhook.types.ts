@@ -0,0 +1,151 @@
+/**
+ * Webhook-related TypeScript interfaces for the File Management Service
+ */
+
+import { LifecycleEventType } from './event.types';
+
+/**
+ * Event type of a test delivery; sent on request only, never subscribed to
+ */
+export type WebhookTestEventType = 'webhook.test';
+
+/**
+ * Webhook subscription stored in DynamoDB
+ */
+export interface Webhook {
+  PK: string; // PROJECT#{projectId}
+  SK: string; // WEBHOOK#{webhookId}
+  webhookId: string;
+  projectId: string;
+  url: string;
+  events: LifecycleEventType[];
+  description?: string;
+  active: boolean; // Inactive webhooks receive no events
+  secret: string; // Signs deliveries; only returned when created or rotated
+  createdBy: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+/**
+ * Webhook as returned by listings, without its secret
+ */
+export type WebhookResponse = Omit<Webhook, 'secret'>;
+
+/**
+ * Data for creating a webhook
+ */
+export type CreateWebhook = Omit<Webhook, 'PK' | 'SK' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Request body for creating a webhook
+ */
+export interface CreateWebhookRequest {
+  url: string;
+  events: LifecycleEventType[];
+  description?: string;
+  active?: boolean; // Defaults to true
+}
+
+/**
+ * Request body for updating a webhook
+ */
+export interface UpdateWebhookRequest {
+  url?: string;
+  events?: LifecycleEventType[];
+  description?: string | null; // null removes it
+  active?: boolean;
+}
+
+/**
+ * Updatable webhook fields
+ */
+export interface WebhookUpdates extends UpdateWebhookRequest {
+  secret?: string;
+}
+
+/**
+ * Response for listing a project's webhooks
+ */
+export interface ListWebhooksResponse {
+  webhooks: WebhookResponse[];
+}
+
+/**
+ * Body of a delivery, signed with the webhook secret
+ */
+export interface WebhookPayload {
+  id: string; // Event ID; the same in every delivery of an event
+  type: LifecycleEventType | WebhookTestEventType;
+  createdAt: string; // ISO timestamp of the event
+  projectId: string;
+  actorId: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Status of a delivery: pending while attempts remain, then succeeded or failed
+ */
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+/**
+ * One attempt to deliver an event
+ */
+export interface WebhookDeliveryAttempt {
+  attemptedAt: string; // ISO timestamp
+  durationMs: number;
+  statusCode?: number; // Absent when no response was received
+  error?: string; // Why the attempt failed
+}
+
+/**
+ * Delivery of an event to a webhook, stored in DynamoDB
+ */
+export interface WebhookDelivery {
+  PK: string; // PROJECT#{projectId}
+  SK: string; // DELIVERY#{webhookId}#{createdAt}#{deliveryId}
+  deliveryId: string;
+  webhookId: string;
+  projectId: string;
+  eventId: string;
+  eventType: LifecycleEventType | WebhookTestEventType;
+  payload: string; // Exact body sent with every attempt
+  status: WebhookDeliveryStatus;
+  attempts: WebhookDeliveryAttempt[];
+  nextAttemptAt?: string; // ISO timestamp; set while a retry is scheduled
+  test?: boolean; // Test deliveries are attempted once
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+  expiresAt: number; // Epoch seconds; DynamoDB deletes the record after this time
+}
+
+/**
+ * Data for creating a delivery
+ */
+export type CreateWebhookDelivery = Omit<WebhookDelivery, 'PK' | 'SK' | 'updatedAt'>;
+
+/**
+ * Change to a delivery after an attempt, or when it is given up
+ */
+export interface WebhookDeliveryUpdate {
+  status: WebhookDeliveryStatus;
+  attempt?: WebhookDeliveryAttempt;
+  nextAttemptAt?: string; // Set with status `pending`
+}
+
+/**
+ * Query parameters for listing a webhook's deliveries
+ */
+export interface ListWebhookDeliveriesQuery {
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+  lastKey?: string;
+}
+
+/**
+ * Response for listing a webhook's deliveries, newest first
+ */
+export interface ListWebhookDeliveriesResponse {
+  deliveries: WebhookDelivery[];
+  nextKey?: string;
+}
@@ -0,0 +1,112 @@
+import { detectMimeType, isDetectedTypeCompatible, normalizeMimeType } from '../mime.utils';
+
+const PNG_HEADER = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]);
+
+describe('detectMimeType', () => {
+  it('detects binary formats from their signature', () => {
+    expect(detectMimeType(PNG_HEADER)).toBe('image/png');
+    expect(detectMimeType(Buffer.from('%PDF-1.7\n'))).toBe('application/pdf');
+    expect(detectMimeType(Buffer.from('AC1032\x00\x00\x00', 'latin1'))).toBe('image/vnd.dwg');
+  });
+
+  it('detects Office documents from the part names of the archive', () => {
+    const docx = Buffer.concat([
+      Buffer.from([0x50, 0x4b, 0x03, 0x04]),
+      Buffer.from('[Content_Types].xml word/document.xml'),
+    ]);
+
+    expect(detectMimeType(docx)).toBe(
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    );
+  });
+
+  it('returns null for binary content without a known signature', () => {
+    expect(detectMimeType(Buffer.from([0x00, 0x01, 0x02, 0x03]))).toBeNull();
+    expect(detectMimeType(Buffer.alloc(0))).toBeNull();
+  });
+
+  describe('DXF', () => {
+    it('detects an ASCII DXF opening with a section', () => {
+      expect(detectMimeType(Buffer.from('0\nSECTION\n2\nHEADER\n'))).toBe('image/vnd.dxf');
+    });
+
+    it('detects a DXF with indented group codes and CRLF line breaks', () => {
+      expect(detectMimeType(Buffer.from('  0\r\nSECTION\r\n  2\r\nHEADER\r\n'))).toBe('image/vnd.dxf');
+    });
+
+    it('detects a DXF opening with 999 comment groups', () => {
+      const dxf = '999\nCreated by a CAD exporter\n999\nSecond comment\n0\nSECTION\n2\nHEADER\n';
+
+      expect(detectMimeType(Buffer.from(dxf))).toBe('image/vnd.dxf');
+    });
+
+    it('detects an ANSI DXF in a legacy 8-bit code page', () => {
+      const dxf = Buffer.from('999\nWall 90\xb0 \xc4nderung\n0\nSECTION\n2\nHEADER\n', 'latin1');
+
+      expect(detectMimeType(dxf)).toBe('image/vnd.dxf');
+    });
+
+    it('detects a binary DXF from its sentinel', () => {
+      const dxf = Buffer.from('AutoCAD Binary DXF\r\n\x1a\x00', 'latin1');
+
+      expect(detectMimeType(dxf)).toBe('image/vnd.dxf');
+    });
+
+    it('does not treat content with NUL bytes as a text DXF', () => {
+      expect(detectMimeType(Buffer.from('0\nSECTION\n\x00\x00', 'latin1'))).toBeNull();
+    });
+  });
+
+  describe('text', () => {
+    it('detects SVG after an XML declaration and comments', () => {
+      const svg = '<?xml version="1.0"?>\n<!-- exported -->\n<svg xmlns="http://www.w3.org/2000/svg">';
+
+      expect(detectMimeType(Buffer.from(svg))).toBe('image/svg+xml');
+    });
+
+    it('reports markup that browsers execute as HTML', () => {
+      expect(detectMimeType(Buffer.from('notes\n<script>alert(1)</script>'))).toBe('text/html');
+    });
+
+    it('accepts UTF-8 text cut off in a multi-byte character', () => {
+      const text = Buffer.from('Straße ü');
+
+      expect(detectMimeType(text.subarray(0, text.length - 1))).toBe('text/plain');
+    });
+
+    it('rejects text with control bytes that legacy text does not use', () => {
+      expect(detectMimeType(Buffer.from('caf\xe9 au lait\x02 menu', 'latin1'))).toBeNull();
+    });
+  });
+});
+
+describe('isDetectedTypeCompatible', () => {
+  it('accepts a DXF declared under an alias', () => {
+    expect(isDetectedTypeCompatible('application/dxf', 'image/vnd.dxf')).toBe(true);
+  });
+
+  it('accepts a DXF whose text did not reveal its format', () => {
+    expect(isDetectedTypeCompatible('image/vnd.dxf', 'text/plain')).toBe(true);
+    expect(isDetectedTypeCompatible('image/vnd.dxf', null)).toBe(true);
+  });
+
+  it('rejects text declared as an image with a signature', () => {
+    expect(isDetectedTypeCompatible('image/png', 'image/vnd.dxf')).toBe(false);
+    expect(isDetectedTypeCompatible('image/png', 'image/svg+xml')).toBe(false);
+    expect(isDetectedTypeCompatible('image/png', null)).toBe(false);
+  });
+
+  it('rejects HTML declared as plain text', () => {
+    expect(isDetectedTypeCompatible('text/plain', 'text/html')).toBe(false);
+  });
+
+  it('rejects a format declared as another', () => {
+    expect(isDetectedTypeCompatible('image/jpeg', 'image/png')).toBe(false);
+  });
+});
+
+describe('normalizeMimeType', () => {
+  it('drops parameters and resolves aliases', () => {
+    expect(normalizeMimeType('Image/JPG; charset=binary')).toBe('image/jpeg');
+  });
+});
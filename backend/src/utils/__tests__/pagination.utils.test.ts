@@ -0,0 +1,75 @@
+import { MAX_PAGE_READS, readFullPage } from '../pagination.utils';
+import { PaginationKey } from '../../types';
+
+interface Row {
+  PK: string;
+  SK: string;
+  visible: boolean;
+}
+
+/**
+ * A listing read like DynamoDB: `limit` rows are evaluated per read, then filtered
+ */
+function createListing(rows: Row[]) {
+  const read = jest.fn(async (limit: number, lastKey?: PaginationKey) => {
+    const start = lastKey ? rows.findIndex((row) => row.SK === lastKey.SK) + 1 : 0;
+    const evaluated = rows.slice(start, start + limit);
+    const last = evaluated[evaluated.length - 1];
+    return {
+      items: evaluated.filter((row) => row.visible),
+      lastKey: start + limit < rows.length ? { PK: last.PK, SK: last.SK } : undefined,
+    };
+  });
+  return read;
+}
+
+function rows(visibility: boolean[]): Row[] {
+  return visibility.map((visible, index) => ({
+    PK: 'USER#1',
+    SK: `SHARED#${String(index).padStart(3, '0')}`,
+    visible,
+  }));
+}
+
+describe('readFullPage', () => {
+  it('refills a page past filtered-out items', async () => {
+    const read = createListing(rows([true, false, false, true, true, true]));
+
+    const page = await readFullPage((lastKey) => read(2, lastKey), 2, undefined, ['PK', 'SK']);
+
+    expect(page.items.map((row) => row.SK)).toEqual(['SHARED#000', 'SHARED#003']);
+    expect(page.lastKey).toEqual({ PK: 'USER#1', SK: 'SHARED#003' });
+  });
+
+  it('cuts an overshooting page and continues after its last item', async () => {
+    const read = createListing(rows([true, false, true, true, true]));
+
+    const first = await readFullPage((lastKey) => read(2, lastKey), 2, undefined, ['PK', 'SK']);
+    const second = await readFullPage((lastKey) => read(2, lastKey), 2, first.lastKey, ['PK', 'SK']);
+
+    expect(first.items.map((row) => row.SK)).toEqual(['SHARED#000', 'SHARED#002']);
+    expect(second.items.map((row) => row.SK)).toEqual(['SHARED#003', 'SHARED#004']);
+    expect(second.lastKey).toBeUndefined();
+  });
+
+  it('stops after the maximum number of reads with a cursor to continue from', async () => {
+    const hidden = new Array(MAX_PAGE_READS * 2 + 1).fill(false);
+    const listing = rows([...hidden, true]);
+    const read = createListing(listing);
+
+    const page = await readFullPage((lastKey) => read(2, lastKey), 2, undefined, ['PK', 'SK']);
+
+    expect(read).toHaveBeenCalledTimes(MAX_PAGE_READS);
+    expect(page.items).toEqual([]);
+    expect(page.lastKey).toEqual({ PK: 'USER#1', SK: listing[MAX_PAGE_READS * 2 - 1].SK });
+  });
+
+  it('makes a single read without a limit', async () => {
+    const read = jest.fn(async () => ({ items: [{ PK: 'a', SK: 'b' }], lastKey: { PK: 'a', SK: 'b' } }));
+
+    const page = await readFullPage(read, undefined, undefined, ['PK', 'SK']);
+
+    expect(read).toHaveBeenCalledTimes(1);
+    expect(page.lastKey).toEqual({ PK: 'a', SK: 'b' });
+  });
+});
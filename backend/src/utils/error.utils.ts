@@ -0,0 +1,21 @@
+/**
+ * Utility functions for recognizing errors raised by the AWS SDK and the
+ * metadata repositories
+ */
+
+/**
+ * Check whether an error has the given name
+ */
+export function hasErrorName(error: unknown, name: string): boolean {
+  return !!error && typeof error === 'object' && 'name' in error && error.name === name;
+}
+
+/**
+ * Check whether a conditional write failed
+ *
+ * Both metadata backends raise `ConditionalCheckFailedException` for a write
+ * whose condition was not met, including cancelled transactions.
+ */
+export function isConditionalCheckFailed(error: unknown): boolean {
+  return hasErrorName(error, 'ConditionalCheckFailedException');
+}
@@ -3,7 +3,18 @@
  */
 
 import path from 'path';
-import { ALLOWED_MIME_TYPES, S3_CONFIG } from '../config/aws.config';
+import { ALLOWED_MIME_TYPES, DYNAMODB_CONFIG, S3_CONFIG } from '../config/aws.config';
+import {
+  CustomMetadataValue,
+  FileMetadata,
+  FileSortField,
+  Project,
+  ProjectSortField,
+  SearchDocument,
+  SearchTokenEntry,
+  SortOrder,
+} from '../types';
+import { normalizeMimeType } from './mime.utils';
 
 /**
  * Extract file extension from filename
@@ -20,11 +31,42 @@ export function isAllowedMimeType(mimeType: string): boolean {
   return ALLOWED_MIME_TYPES.includes(mimeType);
 }
 
+/**
+ * Check a MIME type against a project's allow-list (no list allows every type)
+ */
+export function isMimeTypeAllowedForProject(mimeType: string, allowedMimeTypes?: string[]): boolean {
+  if (!allowedMimeTypes || allowedMimeTypes.length === 0) {
+    return true;
+  }
+
+  const normalized = normalizeMimeType(mimeType);
+  return allowedMimeTypes.some((allowed) => normalizeMimeType(allowed) === normalized);
+}
+
+/**
+ * Validate a project MIME type allow-list
+ */
+export function validateAllowedMimeTypes(allowedMimeTypes: unknown): { valid: boolean; error?: string } {
+  if (!Array.isArray(allowedMimeTypes) || allowedMimeTypes.some((type) => typeof type !== 'string')) {
+    return { valid: false, error: 'Allowed MIME types must be a list of strings' };
+  }
+
+  const unsupported = allowedMimeTypes.filter((type) => !isAllowedMimeType(type));
+  if (unsupported.length > 0) {
+    return { valid: false, error: `File types not supported by the service: ${unsupported.join(', ')}` };
+  }
+
+  return { valid: true };
+}
+
 /**
  * Check if file size is within limits
  */
-export function isFileSizeAllowed(fileSize: number): boolean {
-  return fileSize > 0 && fileSize <= S3_CONFIG.maxFileSize;
+export function isFileSizeAllowed(
+  fileSize: number,
+  maxFileSize: number = S3_CONFIG.maxFileSize
+): boolean {
+  return fileSize > 0 && fileSize <= maxFileSize;
 }
 
 /**
@@ -62,6 +104,107 @@ export function sanitizeFileName(fileName: string): string {
   return sanitized + ext.toLowerCase();
 }
 
+/**
+ * Build the storage key for a file
+ * Format: {projectId}/{fileId}/{fileName}, or {projectId}/{fileId}/v{version}/{fileName}
+ * for versions after the first
+ */
+export function buildStorageKey(
+  projectId: string,
+  fileId: string,
+  fileName: string,
+  version?: number
+): string {
+  // Sanitize filename to remove special characters
+  const sanitizedFileName = fileName.replace(/[^a-zA-Z0-9._-]/g, '_');
+  return version && version > 1
+    ? `${projectId}/${fileId}/v${version}/${sanitizedFileName}`
+    : `${projectId}/${fileId}/${sanitizedFileName}`;
+}
+
+/**
+ * Parse the storage key of a file's first upload, as built by buildStorageKey
+ * Returns null for other keys: versions, previews, tiles and foreign objects
+ */
+export function parseStorageKey(
+  s3Key: string
+): { projectId: string; fileId: string; fileName: string } | null {
+  const segments = s3Key.split('/');
+  if (segments.length !== 3 || segments.some((segment) => !segment)) {
+    return null;
+  }
+
+  const [projectId, fileId, fileName] = segments;
+  return { projectId, fileId, fileName };
+}
+
+/**
+ * Build the storage key of a preview, next to the object it was generated from
+ * Format: {directory of the source object}/previews/{name}{extension}
+ */
+export function buildPreviewKey(sourceS3Key: string, name: string, extension: string): string {
+  const directory = sourceS3Key.slice(0, sourceS3Key.lastIndexOf('/') + 1);
+  return `${directory}previews/${name}${extension}`;
+}
+
+/**
+ * Build the storage key prefix of a tile pyramid, next to the object it was generated from
+ * Format: {directory of the source object}/tiles/
+ */
+export function buildTilePrefix(sourceS3Key: string): string {
+  const directory = sourceS3Key.slice(0, sourceS3Key.lastIndexOf('/') + 1);
+  return `${directory}tiles/`;
+}
+
+/**
+ * Build the storage key of a pyramid tile
+ * Format: {prefix}{level}/{column}_{row}.{format}, the Deep Zoom layout
+ */
+export function buildTileKey(
+  prefix: string,
+  level: number,
+  column: number,
+  row: number,
+  format: string
+): string {
+  return `${prefix}${level}/${column}_${row}.${format}`;
+}
+
+/**
+ * Build the sort key of a file version record
+ * Format: VERSION#{fileId}#{zero-padded version}, so versions sort numerically
+ */
+export function buildVersionSortKey(fileId: string, version: number): string {
+  return `VERSION#${fileId}#${String(version).padStart(6, '0')}`;
+}
+
+/**
+ * Current version number of a file (files created before versioning are version 1)
+ */
+export function getCurrentVersion(file: Pick<FileMetadata, 'currentVersion'>): number {
+  return file.currentVersion || 1;
+}
+
+/**
+ * Build the sort key of an audit log entry
+ * Format: {timestamp}#{auditId}, so entries sort by time
+ */
+export function buildAuditSortKey(timestamp: string, auditId: string): string {
+  return `${timestamp}#${auditId}`;
+}
+
+/**
+ * Build the sort key of a webhook delivery record
+ * Format: DELIVERY#{webhookId}#{createdAt}#{deliveryId}, so a webhook's deliveries sort by time
+ */
+export function buildWebhookDeliverySortKey(
+  webhookId: string,
+  createdAt: string,
+  deliveryId: string
+): string {
+  return `DELIVERY#${webhookId}#${createdAt}#${deliveryId}`;
+}
+
 /**
  * Format file size for display
  */
@@ -81,7 +224,8 @@ export function formatFileSize(bytes: number): string {
 export function validateUploadRequest(
   fileName: string,
   fileType: string,
-  fileSize: number
+  fileSize: number,
+  maxFileSize: number = S3_CONFIG.maxFileSize
 ): { valid: boolean; error?: string } {
   if (!fileName || fileName.trim().length === 0) {
     return { valid: false, error: 'File name is required' };
@@ -99,12 +243,205 @@ export function validateUploadRequest(
     return { valid: false, error: 'File size must be greater than 0' };
   }
 
-  if (!isFileSizeAllowed(fileSize)) {
+  if (!isFileSizeAllowed(fileSize, maxFileSize)) {
     return {
       valid: false,
-      error: `File size exceeds maximum allowed size of ${formatFileSize(S3_CONFIG.maxFileSize)}`,
+      error: `File size exceeds maximum allowed size of ${formatFileSize(maxFileSize)}`,
     };
   }
 
   return { valid: true };
 }
+
+/**
+ * Typed values a query-string custom metadata filter matches
+ *
+ * `3` matches the number 3 and the string "3"; `true` also matches the boolean.
+ */
+export function parseCustomMetadataFilter(value: string): CustomMetadataValue[] {
+  const values: CustomMetadataValue[] = [value];
+
+  if (value.trim() !== '' && Number.isFinite(Number(value))) {
+    values.push(Number(value));
+  }
+
+  if (value === 'true' || value === 'false') {
+    values.push(value === 'true');
+  }
+
+  return values;
+}
+
+/**
+ * Build the partition key of a project and its files in the search index
+ * Format: SEARCH#{projectId}
+ */
+export function buildSearchKey(projectId: string): string {
+  return `SEARCH#${projectId}`;
+}
+
+/**
+ * Build the sort key of a search token entry, or the prefix of the entries
+ * of tokens starting with `token` when no document is given
+ * Format: TOKEN#{token}#{PROJECT#projectId | FILE#fileId}
+ */
+export function buildSearchTokenSortKey(token: string, document?: SearchDocument): string {
+  if (!document) {
+    return `TOKEN#${token}`;
+  }
+
+  const recordKey =
+    document.type === 'project' ? `PROJECT#${document.projectId}` : `FILE#${document.fileId}`;
+  return `TOKEN#${token}#${recordKey}`;
+}
+
+/**
+ * Listing index and its sort key attribute for each file order
+ */
+export const FILE_SORT_INDEXES: Record<FileSortField, { indexName: string; sortKey: string }> = {
+  uploadedAt: { indexName: DYNAMODB_CONFIG.gsiUploadedAt, sortKey: 'uploadedAt' },
+  updatedAt: { indexName: DYNAMODB_CONFIG.gsiUpdatedAt, sortKey: 'updatedAt' },
+  name: { indexName: DYNAMODB_CONFIG.gsiName, sortKey: 'sortName' },
+  size: { indexName: DYNAMODB_CONFIG.gsiFileSize, sortKey: 'fileSize' },
+};
+
+/**
+ * Listing index and its sort key attribute for each project order
+ */
+export const PROJECT_SORT_INDEXES: Record<ProjectSortField, { indexName: string; sortKey: string }> = {
+  createdAt: { indexName: DYNAMODB_CONFIG.gsiCreatedAt, sortKey: 'createdAt' },
+  updatedAt: { indexName: DYNAMODB_CONFIG.gsiUpdatedAt, sortKey: 'updatedAt' },
+  name: { indexName: DYNAMODB_CONFIG.gsiName, sortKey: 'sortName' },
+  size: { indexName: DYNAMODB_CONFIG.gsiTotalSize, sortKey: 'totalSize' },
+};
+
+/**
+ * Order of a sorted listing without an explicit order: names A to Z,
+ * dates newest first and sizes largest first
+ */
+export function getDefaultSortOrder(sort: FileSortField | ProjectSortField): SortOrder {
+  return sort === 'name' ? 'asc' : 'desc';
+}
+
+/**
+ * Build the partition key of a project's files in the listing indexes
+ * Format: FILES#{projectId}
+ */
+export function buildFileListKey(projectId: string): string {
+  return `FILES#${projectId}`;
+}
+
+/**
+ * Build the partition key of a user's projects in the listing indexes
+ * Format: PROJECTS#{ownerId}
+ */
+export function buildProjectListKey(ownerId: string): string {
+  return `PROJECTS#${ownerId}`;
+}
+
+/**
+ * Normalize a name for sorting: lower-case and without accents
+ */
+export function buildSortName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Sort name of a file, which lists under its display name when it has one
+ */
+export function buildFileSortName(file: Pick<FileMetadata, 'fileName' | 'displayName'>): string {
+  return buildSortName(file.displayName || file.fileName);
+}
+
+/**
+ * Table and index key attributes of stored records
+ */
+const KEY_ATTRIBUTES = ['PK', 'SK', 'searchKey', 'listKey', 'sortName'];
+
+/**
+ * Copy of a record without its table and index keys, as shown in the audit
+ * log and event payloads
+ */
+export function withoutTableKeys(record: object): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(record).filter(([attribute]) => !KEY_ATTRIBUTES.includes(attribute))
+  );
+}
+
+/**
+ * Longest word kept in the search index; longer ones are cut
+ */
+const MAX_SEARCH_TOKEN_LENGTH = 100;
+
+/**
+ * Split text into lower-case words without accents
+ */
+export function tokenizeSearchText(text: string): string[] {
+  return buildSortName(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Distinct words of a document's names, description and tags, sorted
+ */
+export function buildSearchTokens(document: SearchDocument): string[] {
+  const text =
+    document.type === 'project'
+      ? [document.name, document.description]
+      : [document.fileName, document.displayName, ...(document.tags || [])];
+
+  const tokens = tokenizeSearchText(text.filter(Boolean).join(' '))
+    .map((token) => token.slice(0, MAX_SEARCH_TOKEN_LENGTH));
+  return [...new Set(tokens)].sort();
+}
+
+/**
+ * Token entries of a document in the search index
+ */
+export function buildSearchTokenEntries(document: SearchDocument): SearchTokenEntry[] {
+  return buildSearchTokens(document).map((token) => ({
+    PK: buildSearchKey(document.projectId),
+    SK: buildSearchTokenSortKey(token, document),
+    token,
+    document,
+  }));
+}
+
+/**
+ * Describe a file or project record by its searchable attributes
+ */
+export function toSearchDocument(item: FileMetadata | Project): SearchDocument {
+  if (item.SK.startsWith('PROJECT#')) {
+    const project = item as Project;
+    return {
+      type: 'project',
+      projectId: project.projectId,
+      name: project.name,
+      description: project.description,
+      ownerId: project.ownerId,
+      status: project.status,
+      createdAt: project.createdAt,
+      updatedAt: project.updatedAt,
+    };
+  }
+
+  const file = item as FileMetadata;
+  return {
+    type: 'file',
+    projectId: file.projectId,
+    fileId: file.fileId,
+    fileName: file.fileName,
+    displayName: file.displayName,
+    tags: file.tags,
+    fileType: file.fileType,
+    detectedType: file.detectedType,
+    fileSize: file.fileSize,
+    uploadedBy: file.uploadedBy,
+    uploadedAt: file.uploadedAt,
+    status: file.status,
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * Utility functions for decoded images and image headers
+ */
+
+import { Jimp, JimpInstance } from 'jimp';
+
+/**
+ * Draw an image on a white background, so transparency survives JPEG encoding
+ */
+export function flattenImage(image: JimpInstance): JimpInstance {
+  const background = new Jimp({ width: image.width, height: image.height, color: 0xffffffff });
+  background.composite(image, 0, 0);
+  return background;
+}
+
+/**
+ * Read the pixel dimensions of a PNG, JPEG, GIF, BMP or TIFF image from its header
+ *
+ * Lets callers refuse images too large to decode before allocating their
+ * pixels. Returns null for other formats or truncated headers.
+ */
+export function readImageDimensions(bytes: Buffer): { width: number; height: number } | null {
+  // PNG: IHDR is always the first chunk
+  if (bytes.length >= 24 && bytes.readUInt32BE(0) === 0x89504e47 && bytes.toString('latin1', 12, 16) === 'IHDR') {
+    return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+  }
+
+  // GIF: logical screen size
+  if (bytes.length >= 10 && bytes.toString('latin1', 0, 3) === 'GIF') {
+    return { width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) };
+  }
+
+  // BMP: BITMAPINFOHEADER, height is negative for top-down bitmaps
+  if (bytes.length >= 26 && bytes.toString('latin1', 0, 2) === 'BM') {
+    return { width: Math.abs(bytes.readInt32LE(18)), height: Math.abs(bytes.readInt32LE(22)) };
+  }
+
+  if (bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return readJpegDimensions(bytes);
+  }
+
+  const byteOrder = bytes.toString('latin1', 0, 4);
+  if (byteOrder === 'II*\0' || byteOrder === 'MM\0*') {
+    return readTiffDimensions(bytes, byteOrder === 'II*\0');
+  }
+
+  return null;
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Walk the JPEG segments up to the start-of-frame marker holding the size
+ */
+function readJpegDimensions(bytes: Buffer): { width: number; height: number } | null {
+  let offset = 2;
+
+  while (offset + 9 <= bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      return null;
+    }
+
+    const marker = bytes[offset + 1];
+    // Fill bytes and markers without a length
+    if (marker === 0xff || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += marker === 0xff ? 1 : 2;
+      continue;
+    }
+
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: bytes.readUInt16BE(offset + 7), height: bytes.readUInt16BE(offset + 5) };
+    }
+
+    offset += 2 + bytes.readUInt16BE(offset + 2);
+  }
+
+  return null;
+}
+
+/**
+ * Read the width and length tags of the first TIFF image file directory
+ */
+function readTiffDimensions(
+  bytes: Buffer,
+  littleEndian: boolean
+): { width: number; height: number } | null {
+  const readUInt16 = (offset: number) => (littleEndian ? bytes.readUInt16LE(offset) : bytes.readUInt16BE(offset));
+  const readUInt32 = (offset: number) => (littleEndian ? bytes.readUInt32LE(offset) : bytes.readUInt32BE(offset));
+
+  if (bytes.length < 8) {
+    return null;
+  }
+  const directory = readUInt32(4);
+  if (directory + 2 > bytes.length) {
+    return null;
+  }
+
+  let width: number | undefined;
+  let height: number | undefined;
+  const entries = readUInt16(directory);
+  for (let i = 0; i < entries; i++) {
+    const entry = directory + 2 + i * 12;
+    if (entry + 12 > bytes.length) {
+      return null;
+    }
+
+    const tag = readUInt16(entry);
+    // SHORT (3) and LONG (4) values are stored in the entry itself
+    const value = readUInt16(entry + 2) === 3 ? readUInt16(entry + 8) : readUInt32(entry + 8);
+    if (tag === 256) width = value;
+    if (tag === 257) height = value;
+  }
+
+  return width !== undefined && height !== undefined ? { width, height } : null;
+}
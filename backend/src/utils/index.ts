@@ -4,3 +4,7 @@
 
 export * from './response.utils';
 export * from './file.utils';
+export * from './mime.utils';
+export * from './image.utils';
+export * from './pagination.utils';
+export * from './error.utils';
@@ -0,0 +1,225 @@
+/**
+ * Utility functions for content-based MIME type detection
+ *
+ * Types are detected from the leading bytes of a file (magic numbers), so a
+ * file cannot pass as an image or document just by declaring that type.
+ */
+
+/**
+ * Number of leading bytes read from an object for detection
+ *
+ * Large enough to reach the part names near the start of Office (ZIP) files.
+ */
+export const MIME_SNIFF_BYTES = 64 * 1024;
+
+/**
+ * Generic ZIP container (Office types are detected from its entries)
+ */
+const ZIP_TYPE = 'application/zip';
+
+/**
+ * OLE2 compound document used by legacy Office formats
+ */
+const OLE_TYPE = 'application/x-ole-storage';
+
+/**
+ * Alternative MIME types that name the same format
+ */
+const MIME_ALIASES: Record<string, string> = {
+  'image/jpg': 'image/jpeg',
+  'image/pjpeg': 'image/jpeg',
+  'application/x-zip-compressed': 'application/zip',
+  'application/x-gzip': 'application/gzip',
+  'application/vnd.rar': 'application/x-rar-compressed',
+  'audio/mp3': 'audio/mpeg',
+  'audio/x-wav': 'audio/wav',
+  'audio/wave': 'audio/wav',
+  'application/acad': 'image/vnd.dwg',
+  'application/x-dwg': 'image/vnd.dwg',
+  'application/dxf': 'image/vnd.dxf',
+  'application/x-dxf': 'image/vnd.dxf',
+};
+
+/**
+ * Declared types a less specific detection result does not contradict
+ */
+const COMPATIBLE_TYPES: Record<string, string[]> = {
+  // ZIP-based Office files whose part names were not within the sniffed bytes
+  [ZIP_TYPE]: [
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  ],
+  [OLE_TYPE]: ['application/msword', 'application/vnd.ms-excel', 'application/vnd.ms-powerpoint'],
+  // Plain text carries no signature, so any text format may be declared
+  'text/plain': [
+    'text/csv',
+    'text/css',
+    'text/javascript',
+    'text/html',
+    'application/json',
+    'image/vnd.dxf',
+  ],
+  'video/mp4': ['video/quicktime'],
+};
+
+/**
+ * Control bytes found in legacy 8-bit text: tab, line breaks, form feed, end-of-file and escape
+ */
+const LEGACY_TEXT_CONTROL_BYTES = [0x09, 0x0a, 0x0c, 0x0d, 0x1a, 0x1b];
+
+/**
+ * Text-based image formats, which have no binary signature
+ */
+const TEXT_IMAGE_TYPES = ['image/vnd.dxf', 'image/svg+xml'];
+
+/**
+ * Normalize a MIME type: lower case, no parameters, aliases resolved
+ */
+export function normalizeMimeType(mimeType: string): string {
+  const base = mimeType.split(';')[0].trim().toLowerCase();
+  return MIME_ALIASES[base] || base;
+}
+
+/**
+ * Detect the MIME type of content from its leading bytes
+ *
+ * Returns null for binary content without a known signature.
+ */
+export function detectMimeType(bytes: Buffer): string | null {
+  if (bytes.length === 0) return null;
+
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWithText(bytes, 'GIF87a') || startsWithText(bytes, 'GIF89a')) return 'image/gif';
+  if (startsWithText(bytes, 'RIFF') && textAt(bytes, 8, 'WEBP')) return 'image/webp';
+  if (startsWithText(bytes, 'RIFF') && textAt(bytes, 8, 'WAVE')) return 'audio/wav';
+  if (startsWithText(bytes, '%PDF-')) return 'application/pdf';
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04]) || startsWith(bytes, [0x50, 0x4b, 0x05, 0x06])) {
+    return detectZipType(bytes);
+  }
+  if (startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return OLE_TYPE;
+  if (startsWithText(bytes, 'Rar!\x1a\x07')) return 'application/x-rar-compressed';
+  if (startsWith(bytes, [0x1f, 0x8b])) return 'application/gzip';
+  if (textAt(bytes, 4, 'ftyp')) {
+    return textAt(bytes, 8, 'qt  ') ? 'video/quicktime' : 'video/mp4';
+  }
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) return 'video/webm';
+  if (startsWithText(bytes, 'OggS')) return 'audio/ogg';
+  if (startsWithText(bytes, 'ID3') || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) {
+    return 'audio/mpeg';
+  }
+  if (/^AC10\d\d/.test(bytes.subarray(0, 6).toString('latin1'))) return 'image/vnd.dwg';
+  if (startsWithText(bytes, 'AutoCAD Binary DXF')) return 'image/vnd.dxf';
+
+  return detectTextType(bytes);
+}
+
+/**
+ * Check whether a detected type agrees with the type the client declared
+ */
+export function isDetectedTypeCompatible(declaredType: string, detectedType: string | null): boolean {
+  const declared = normalizeMimeType(declaredType);
+
+  if (!detectedType) {
+    // Unrecognized binary content only contradicts types that have a signature
+    return !hasSignature(declared);
+  }
+
+  const detected = normalizeMimeType(detectedType);
+  return detected === declared || (COMPATIBLE_TYPES[detected] || []).includes(declared);
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Declared types that always carry a recognizable signature
+ */
+function hasSignature(mimeType: string): boolean {
+  if (TEXT_IMAGE_TYPES.includes(mimeType)) return false;
+
+  return (
+    mimeType.startsWith('image/') ||
+    mimeType.startsWith('video/') ||
+    mimeType.startsWith('audio/') ||
+    mimeType === 'application/pdf' ||
+    mimeType === 'application/zip' ||
+    mimeType === 'application/gzip' ||
+    mimeType === 'application/x-rar-compressed' ||
+    COMPATIBLE_TYPES[ZIP_TYPE].includes(mimeType) ||
+    COMPATIBLE_TYPES[OLE_TYPE].includes(mimeType)
+  );
+}
+
+/**
+ * Tell Office Open XML documents apart by the part names in the archive
+ */
+function detectZipType(bytes: Buffer): string {
+  const content = bytes.toString('latin1');
+  if (content.includes('[Content_Types].xml') || content.includes('_rels/.rels')) {
+    if (content.includes('word/')) {
+      return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+    }
+    if (content.includes('xl/')) {
+      return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+    }
+    if (content.includes('ppt/')) {
+      return 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+    }
+  }
+  return ZIP_TYPE;
+}
+
+/**
+ * Classify text content: markup that browsers execute is reported as such
+ */
+function detectTextType(bytes: Buffer): string | null {
+  if (!isText(bytes)) return null;
+
+  // Text in a legacy 8-bit code page (e.g. ANSI DXF) is read byte by byte
+  const text = bytes.toString(isUtf8(bytes) ? 'utf-8' : 'latin1').replace(/^\uFEFF/, '').trimStart();
+  const head = text.slice(0, 4096).toLowerCase();
+
+  // DXF files may open with 999 comment groups before the first section
+  if (/^(999\s*\r?\n[^\r\n]*\r?\n\s*)*0\s*\r?\n\s*section\b/.test(head)) return 'image/vnd.dxf';
+  if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!doctype svg[^>]*>\s*)?<svg[\s>]/.test(head)) {
+    return 'image/svg+xml';
+  }
+  if (/<(!doctype html|html|head|body|script|iframe|object|embed)[\s>]/.test(head)) {
+    return 'text/html';
+  }
+
+  return 'text/plain';
+}
+
+/**
+ * Text content has no NUL bytes and is UTF-8, or text in a legacy 8-bit code
+ * page without control bytes other than whitespace, escape and end-of-file
+ */
+function isText(bytes: Buffer): boolean {
+  if (bytes.includes(0)) return false;
+  if (isUtf8(bytes)) return true;
+
+  return !bytes.some((byte) => byte < 0x20 && !LEGACY_TEXT_CONTROL_BYTES.includes(byte));
+}
+
+/**
+ * Whether content decodes as UTF-8
+ */
+function isUtf8(bytes: Buffer): boolean {
+  // A multi-byte character may be cut off at the end of the sniffed range
+  const decoded = bytes.subarray(0, Math.max(0, bytes.length - 3)).toString('utf-8');
+  return !decoded.includes('\uFFFD');
+}
+
+function startsWith(bytes: Buffer, signature: number[]): boolean {
+  return bytes.length >= signature.length && signature.every((byte, i) => bytes[i] === byte);
+}
+
+function startsWithText(bytes: Buffer, signature: string): boolean {
+  return textAt(bytes, 0, signature);
+}
+
+function textAt(bytes: Buffer, offset: number, text: string): boolean {
+  return bytes.subarray(offset, offset + text.length).toString('latin1') === text;
+}
@@ -0,0 +1,48 @@
+/**
+ * Utility functions for paginated repository reads
+ */
+
+import { PaginationKey } from '../types';
+
+/**
+ * Reads made for one page at most, so a listing whose items are mostly
+ * filtered out cannot scan a whole partition in one request
+ */
+export const MAX_PAGE_READS = 10;
+
+/**
+ * Read pages until `limit` items passed the filter or the listing ends
+ *
+ * DynamoDB applies Limit before the filter, so a single read can return a
+ * short or even empty page that still has a cursor. Every read evaluates
+ * `limit` items; when the last one overshoots, the page is cut at `limit` and
+ * its cursor rebuilt from the last kept item's `keyAttributes` (the table key,
+ * plus the index keys when reading an index). Without a limit, a single read
+ * is made. After MAX_PAGE_READS reads the page is returned short, with a
+ * cursor to continue from.
+ */
+export async function readFullPage<T extends object>(
+  read: (lastKey?: PaginationKey) => Promise<{ items: T[]; lastKey?: PaginationKey }>,
+  limit: number | undefined,
+  lastKey: PaginationKey | undefined,
+  keyAttributes: string[]
+): Promise<{ items: T[]; lastKey?: PaginationKey }> {
+  const items: T[] = [];
+  let nextKey = lastKey;
+  let reads = 0;
+
+  do {
+    const page = await read(nextKey);
+    items.push(...page.items);
+    nextKey = page.lastKey;
+    reads++;
+  } while (limit && nextKey && items.length < limit && reads < MAX_PAGE_READS);
+
+  if (limit && items.length > limit) {
+    items.length = limit;
+    const last = items[limit - 1] as Record<string, unknown>;
+    nextKey = Object.fromEntries(keyAttributes.map((attribute) => [attribute, last[attribute]]));
+  }
+
+  return { items, lastKey: nextKey };
+}
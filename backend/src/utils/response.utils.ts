@@ -2,9 +2,16 @@
  * Utility functions for standardized API responses
  */
 
-import { Response } from 'express';
+import { Request, Response } from 'express';
 import { ApiResponse } from '../types';
 
+/**
+ * ID of the request a response answers (see requestContextMiddleware)
+ */
+function getRequestId(res: Response): string | undefined {
+  return (res.req as Request & { requestId?: string })?.requestId;
+}
+
 /**
  * Send a successful response
  */
@@ -18,6 +25,7 @@ export function sendSuccess<T>(
     data,
     meta: {
       timestamp: new Date().toISOString(),
+      requestId: getRequestId(res),
     },
   };
 
@@ -43,6 +51,7 @@ export function sendError(
     },
     meta: {
       timestamp: new Date().toISOString(),
+      requestId: getRequestId(res),
     },
   };
 
@@ -58,6 +67,8 @@ export const ErrorCodes = {
   INVALID_FILE_TYPE: 'INVALID_FILE_TYPE',
   FILE_TOO_LARGE: 'FILE_TOO_LARGE',
   MISSING_REQUIRED_FIELD: 'MISSING_REQUIRED_FIELD',
+  INVALID_CURSOR: 'INVALID_CURSOR',
+  INVALID_WEBHOOK_URL: 'INVALID_WEBHOOK_URL',
 
   // Authentication errors (401)
   UNAUTHORIZED: 'UNAUTHORIZED',
@@ -72,11 +83,34 @@ export const ErrorCodes = {
   NOT_FOUND: 'NOT_FOUND',
   FILE_NOT_FOUND: 'FILE_NOT_FOUND',
   PROJECT_NOT_FOUND: 'PROJECT_NOT_FOUND',
+  MEMBER_NOT_FOUND: 'MEMBER_NOT_FOUND',
+  UPLOAD_NOT_FOUND: 'UPLOAD_NOT_FOUND',
+  VERSION_NOT_FOUND: 'VERSION_NOT_FOUND',
+  WEBHOOK_NOT_FOUND: 'WEBHOOK_NOT_FOUND',
 
   // Conflict errors (409)
   CONFLICT: 'CONFLICT',
   FILE_ALREADY_EXISTS: 'FILE_ALREADY_EXISTS',
   PROJECT_ALREADY_EXISTS: 'PROJECT_ALREADY_EXISTS',
+  PROJECT_ARCHIVED: 'PROJECT_ARCHIVED',
+  MEMBER_ALREADY_EXISTS: 'MEMBER_ALREADY_EXISTS',
+  WEBHOOK_LIMIT_REACHED: 'WEBHOOK_LIMIT_REACHED',
+  IDEMPOTENCY_KEY_REUSED: 'IDEMPOTENCY_KEY_REUSED',
+  IDEMPOTENCY_KEY_IN_USE: 'IDEMPOTENCY_KEY_IN_USE',
+
+  // Gone errors (410)
+  UPLOAD_EXPIRED: 'UPLOAD_EXPIRED',
+  RESTORE_WINDOW_EXPIRED: 'RESTORE_WINDOW_EXPIRED',
+
+  // Quota errors (413)
+  QUOTA_EXCEEDED: 'QUOTA_EXCEEDED',
+
+  // Upload verification errors (422)
+  UPLOAD_VERIFICATION_FAILED: 'UPLOAD_VERIFICATION_FAILED',
+  FILE_QUARANTINED: 'FILE_QUARANTINED',
+
+  // Rate limit errors (429)
+  RATE_LIMITED: 'RATE_LIMITED',
 
   // Server errors (500)
   INTERNAL_ERROR: 'INTERNAL_ERROR',